@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getResponseHead,
+  PROXY_STREAM_HEADER,
+  toApiResponse,
+  type ProxyPayload,
+} from "@/lib/http-client";
+import { getStreamFormat } from "@/lib/response-stream";
+import { PrivateNetworkError } from "@/lib/private-network";
+import { ResponseTooLargeError, sendTimedRequest } from "@/lib/timed-request";
+
+// Headers that describe the browser-to-proxy hop rather than the request
+// the user built, so they must not be forwarded upstream.
+const HOP_BY_HOP_HEADERS = [
+  "host",
+  "connection",
+  "content-length",
+  "transfer-encoding",
+  "keep-alive",
+  "upgrade",
+];
+
+// Leaves room for binary bodies, which base64 makes a third larger
+const MAX_PAYLOAD_SIZE = 20 * 1024 * 1024;
+const MAX_RESPONSE_SIZE = 50 * 1024 * 1024;
+
+// The proxy runs on the server, so by default it can't be used to reach the
+// server's own network. Self-hosted setups that test local services opt in.
+const ALLOW_PRIVATE_NETWORK =
+  process.env.PROXY_ALLOW_PRIVATE_NETWORK === "true";
+
+function isProxyPayload(value: unknown): value is ProxyPayload {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.method === "string" &&
+    typeof candidate.url === "string" &&
+    !!candidate.headers &&
+    typeof candidate.headers === "object" &&
+    (candidate.body === undefined || typeof candidate.body === "string") &&
+    (candidate.bodyEncoding === undefined ||
+      candidate.bodyEncoding === "base64") &&
+    (candidate.timeout === undefined || typeof candidate.timeout === "number")
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const payloadTooLarge = () =>
+    NextResponse.json(
+      {
+        error: `Requests sent through the proxy are limited to ${
+          MAX_PAYLOAD_SIZE / (1024 * 1024)
+        } MB`,
+      },
+      { status: 413 }
+    );
+  if (Number(request.headers.get("content-length")) > MAX_PAYLOAD_SIZE) {
+    return payloadTooLarge();
+  }
+
+  let payload: unknown;
+  try {
+    const text = await request.text();
+    if (text.length > MAX_PAYLOAD_SIZE) return payloadTooLarge();
+    payload = JSON.parse(text);
+  } catch {
+    return NextResponse.json(
+      { error: "Proxy payload must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  if (!isProxyPayload(payload)) {
+    return NextResponse.json(
+      { error: "Proxy payload must include method, url and headers" },
+      { status: 400 }
+    );
+  }
+
+  let targetUrl: URL;
+  try {
+    targetUrl = new URL(payload.url);
+  } catch {
+    return NextResponse.json(
+      { error: "Please enter a valid URL" },
+      { status: 400 }
+    );
+  }
+
+  if (targetUrl.protocol !== "http:" && targetUrl.protocol !== "https:") {
+    return NextResponse.json(
+      { error: "Invalid URL: Must start with http:// or https://" },
+      { status: 400 }
+    );
+  }
+
+  const headers: Record<string, string> = {};
+  Object.entries(payload.headers).forEach(([key, value]) => {
+    if (!HOP_BY_HOP_HEADERS.includes(key.toLowerCase())) {
+      headers[key] = String(value);
+    }
+  });
+
+  // Stop the upstream request when the browser cancels or gives up on it.
+  // The timer is cleared once a response is in, so streams can stay open.
+  const timeoutController = new AbortController();
+  const timer = payload.timeout
+    ? setTimeout(() => {
+        timeoutController.abort(
+          new DOMException("The upstream request timed out", "TimeoutError")
+        );
+      }, payload.timeout)
+    : undefined;
+  const signal = AbortSignal.any([request.signal, timeoutController.signal]);
+
+  try {
+    const startTime = Date.now();
+    const {
+      response: res,
+      status,
+      measurements,
+    } = await sendTimedRequest(targetUrl, {
+      method: payload.method,
+      headers,
+      body:
+        payload.bodyEncoding === "base64" && payload.body !== undefined
+          ? Buffer.from(payload.body, "base64")
+          : payload.body,
+      signal,
+      allowPrivateNetwork: ALLOW_PRIVATE_NETWORK,
+      maxResponseSize: MAX_RESPONSE_SIZE,
+    });
+
+    // Streams are passed through as they arrive instead of being wrapped in
+    // JSON once they end, so they go without a timing breakdown
+    if (res.body && getStreamFormat(res.headers.get("content-type"))) {
+      return new Response(res.body, {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Cache-Control": "no-cache",
+          [PROXY_STREAM_HEADER]: encodeURIComponent(
+            JSON.stringify({ ...getResponseHead(res), status })
+          ),
+        },
+      });
+    }
+
+    const apiResponse = await toApiResponse(res, startTime);
+    return NextResponse.json({
+      ...apiResponse,
+      status,
+      ...(await measurements),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      return NextResponse.json(
+        { error: `No response within ${payload.timeout} ms` },
+        { status: 504 }
+      );
+    }
+    if (error instanceof PrivateNetworkError) {
+      return NextResponse.json(
+        {
+          error: `${error.message}, which the proxy doesn't reach. Set PROXY_ALLOW_PRIVATE_NETWORK=true on the server to allow it.`,
+        },
+        { status: 403 }
+      );
+    }
+    if (error instanceof ResponseTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: `Cannot connect to ${targetUrl.hostname} - ${reason}`,
+      },
+      { status: 502 }
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
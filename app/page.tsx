@@ -1,63 +1,276 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useMemo, useRef } from "react";
 import { motion } from "framer-motion";
 import Image from "next/image";
 import { RequestPanel } from "@/components/request-panel";
 import { ResponsePanel } from "@/components/response-panel";
+import { WebSocketPanel } from "@/components/websocket-panel";
+import { WebSocketLog } from "@/components/websocket-log";
 import RequestHistory from "@/components/request-history";
 import ExampleApis from "@/components/example-apis";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { useLocalStorage } from "@/hooks/use-local-storage";
+import { EnvironmentSwitcher } from "@/components/environment-switcher";
+import { CollectionsSidebar } from "@/components/collections-sidebar";
+import { SaveRequestDialog } from "@/components/save-request-dialog";
+import { ImportDialog } from "@/components/import-dialog";
+import { SettingsDialog } from "@/components/settings-dialog";
+import { RequestTabs } from "@/components/request-tabs";
+import {
+  ResponseDiffDialog,
+  type ComparableResponse,
+} from "@/components/response-diff-dialog";
+import { useEnvironments } from "@/hooks/use-environments";
+import { useCollections } from "@/hooks/use-collections";
+import { useHistory } from "@/hooks/use-history";
 import { useRequestState } from "@/hooks/use-request-state";
+import { useSettings } from "@/hooks/use-settings";
+import { EMPTY_TAB_SESSION, useTabSessions } from "@/hooks/use-tab-sessions";
+import {
+  CLOSED_WEBSOCKET_SESSION,
+  useWebSocketSessions,
+} from "@/hooks/use-websocket-sessions";
 import { generateId } from "@/lib/utils";
+import {
+  executeRequest,
+  RequestCancelledError,
+  RequestTimeoutError,
+  type ApiResponse,
+  type ExecutionMode,
+} from "@/lib/http-client";
+import { resolveVariables, formatVariableList } from "@/lib/variables";
+import {
+  buildHeaderRecord,
+  expandTripleBackticks,
+  METHODS_WITH_BODY,
+  resolveRequestDraft,
+  withProtocol,
+} from "@/lib/request-builder";
+import {
+  getCollectionVariables,
+  type Collection,
+  type CollectionRequest,
+} from "@/lib/collections";
+import type { ParsedCurl } from "@/lib/curl";
+import type { QueryParam } from "@/lib/query-params";
+import {
+  applyContentTypeHeader,
+  BINARY_FILE_KEY,
+  buildRequestBody,
+  getBodyContentType,
+  type BodyType,
+  type FormField,
+  type MultipartField,
+  type RawLanguage,
+} from "@/lib/request-body";
+import {
+  applyAuth,
+  clearOAuth2Token,
+  getOAuth2Token,
+  resolveAuthVariables,
+  type AuthConfig,
+  type AuthType,
+} from "@/lib/auth";
+import {
+  runPreRequestScript,
+  runTestScript,
+  withVariableChanges,
+  type ScriptRequest,
+} from "@/lib/scripts";
+import { evaluateAssertions, type Assertion } from "@/lib/assertions";
+import {
+  INTROSPECTION_QUERY,
+  parseIntrospectionResult,
+  type GraphqlBody,
+} from "@/lib/graphql";
+import {
+  encodeWsMessage,
+  parseSubprotocols,
+  toWebSocketUrl,
+  type RequestKind,
+  type WebSocketConfig,
+  type WsMessageFormat,
+} from "@/lib/websocket";
+import { toast } from "sonner";
 
-interface ApiResponse {
-  status: number;
-  statusText: string;
-  headers: Record<string, string>;
-  data: unknown;
-  time: number;
-}
+const MAX_SESSION_RESPONSES = 20;
+// History can be long, so only its newest responses are offered to compare
+const MAX_COMPARABLE_HISTORY = 50;
 
 export default function ApiTester() {
-  // Request state managed in cookies
+  // Drafts of the open tabs, saved in IndexedDB
   const {
+    kind,
     method,
     url,
+    params,
     headers,
     body,
+    bodyType,
+    rawLanguage,
+    formFields,
+    multipartFields,
+    graphql,
+    auth,
+    executionMode,
+    preRequestScript,
+    testScript,
+    assertions,
+    timeout,
+    responseFilter,
+    websocket,
+    setKind,
     setMethod,
     setUrl,
+    setParams,
     setHeaders,
     setBody,
+    setBodyType,
+    setRawLanguage,
+    setFormFields,
+    setMultipartFields,
+    setGraphql,
+    setAuth,
+    setExecutionMode,
+    setPreRequestScript,
+    setTestScript,
+    setAssertions,
+    setRequestTimeout,
+    setResponseFilter,
+    setWebsocket,
     loadRequest: loadRequestState,
     clearState,
     isLoaded,
+    tabs,
+    activeTab,
+    activeTabId,
+    canReopenTab,
+    updateTabState,
+    newTab,
+    selectTab,
+    closeTab,
+    closeOtherTabs,
+    reopenClosedTab,
+    markTabSaved,
   } = useRequestState();
 
+  // Each tab keeps the outcome of its own sends, so tabs send concurrently
+  const { sessions, updateSession, removeSessions } = useTabSessions();
+  const {
+    response,
+    loading,
+    error,
+    errorKind,
+    scriptOutput,
+    testReport,
+    requestSuccess,
+    bodyFiles,
+    graphqlSchema,
+  } = sessions[activeTabId] ?? EMPTY_TAB_SESSION;
+  const abortControllersRef = useRef<Record<string, AbortController>>({});
+  // WebSocket tabs keep their connection open while other tabs are used
+  const {
+    sessions: webSocketSessions,
+    connect: connectWebSocket,
+    disconnect: disconnectWebSocket,
+    send: sendWebSocketMessage,
+    clearLog: clearWebSocketLog,
+    removeSessions: removeWebSocketSessions,
+  } = useWebSocketSessions();
+  const webSocketSession =
+    webSocketSessions[activeTabId] ?? CLOSED_WEBSOCKET_SESSION;
+
   // Local UI state
-  const [response, setResponse] = useState<ApiResponse | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [jsonError, setJsonError] = useState<string | null>(null);
   const [showHtmlEditor, setShowHtmlEditor] = useState(false);
   const [htmlContent, setHtmlContent] = useState("");
-  const [requestSuccess, setRequestSuccess] = useState(false);
-
-  const { saveRequest } = useLocalStorage();
-
-  const processTripleBackticks = useCallback((jsonString: string): string => {
-    return jsonString.replace(/```([\s\S]*?)```/g, (match, content) => {
-      const escaped = content
-        .replace(/\\/g, "\\\\")
-        .replace(/"/g, '\\"')
-        .replace(/\n/g, "\\n")
-        .replace(/\r/g, "\\r")
-        .replace(/\t/g, "\\t");
-      return `"${escaped}"`;
-    });
-  }, []);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [diffDialogOpen, setDiffDialogOpen] = useState(false);
+  // Responses received since the page loaded, newest first. History drops
+  // large bodies, so these are kept in full for comparisons.
+  const [sessionResponses, setSessionResponses] = useState<
+    ComparableResponse[]
+  >([]);
+  // Collection whose variables apply, set when a request is opened from it
+  const activeCollectionId = activeTab.collectionId;
+
+  const {
+    requests: history,
+    saveRequest: addToHistory,
+    attachResponse: attachHistoryResponse,
+    togglePin: toggleHistoryPin,
+    deleteRequest: deleteFromHistory,
+    clearHistory,
+  } = useHistory();
+  const {
+    collections,
+    createCollection,
+    renameCollection,
+    duplicateCollection,
+    updateCollectionVariables,
+    importCollection,
+    deleteCollection,
+    createFolder,
+    saveRequest: saveToCollection,
+    renameItem,
+    duplicateItem,
+    deleteItem,
+    moveItem,
+  } = useCollections();
+  const {
+    environments,
+    activeEnvironmentId,
+    variables,
+    setActiveEnvironmentId,
+    createEnvironment,
+    updateEnvironment,
+    updateEnvironmentVariables,
+    deleteEnvironment,
+  } = useEnvironments();
+  const { settings, updateSettings } = useSettings();
+
+  // Session responses first, then older ones that history still has
+  const comparableResponses = useMemo<ComparableResponse[]>(() => {
+    const sessionIds = new Set(sessionResponses.map((item) => item.id));
+    return [
+      ...sessionResponses,
+      ...history.slice(0, MAX_COMPARABLE_HISTORY).flatMap((entry) =>
+        entry.response && !sessionIds.has(entry.id)
+          ? [
+              {
+                id: entry.id,
+                method: entry.method,
+                url: entry.url,
+                timestamp: entry.timestamp,
+                response: entry.response,
+                source: "history" as const,
+              },
+            ]
+          : []
+      ),
+    ];
+  }, [sessionResponses, history]);
+
+  // Environment variables override collection variables of the same name
+  const requestVariables = useMemo(
+    () => ({
+      ...getCollectionVariables(
+        collections.find((collection) => collection.id === activeCollectionId)
+      ),
+      ...variables,
+    }),
+    [collections, activeCollectionId, variables]
+  );
+
+  // Scripts only change variables when an environment is active
+  const updateActiveEnvironmentVariables = useCallback(
+    (changes: Record<string, string | null>) => {
+      if (activeEnvironmentId) {
+        updateEnvironmentVariables(activeEnvironmentId, changes);
+      }
+    },
+    [activeEnvironmentId, updateEnvironmentVariables]
+  );
 
   const validateJson = useCallback(
     (jsonString: string): boolean => {
@@ -65,7 +278,7 @@ export default function ApiTester() {
 
       let processedString = jsonString;
       if (jsonString.includes("```")) {
-        processedString = processTripleBackticks(jsonString);
+        processedString = expandTripleBackticks(jsonString);
       }
 
       try {
@@ -77,7 +290,7 @@ export default function ApiTester() {
         return false;
       }
     },
-    [processTripleBackticks]
+    []
   );
 
   const convertHtmlToJson = useCallback(() => {
@@ -97,20 +310,120 @@ export default function ApiTester() {
   }, [body, htmlContent, setBody]);
 
   const handleSaveRequest = useCallback(() => {
-    const savedRequest = saveRequest({
+    setSaveDialogOpen(true);
+  }, []);
+
+  const handleSaveToCollection = useCallback(
+    (collectionId: string, folderId: string | null, name: string) => {
+      const savedRequest = saveToCollection(collectionId, folderId, name, {
+        kind,
+        method,
+        url,
+        params,
+        headers,
+        body,
+        bodyType,
+        rawLanguage,
+        formFields,
+        multipartFields,
+        graphql,
+        auth,
+        executionMode,
+        preRequestScript,
+        testScript,
+        assertions,
+        timeout,
+        responseFilter,
+        websocket,
+      });
+
+      if (savedRequest) {
+        markTabSaved(activeTabId, { name, collectionId });
+        toast.success("Request saved", {
+          description: `"${name}" was added to your collection`,
+          duration: 2000,
+        });
+      }
+    },
+    [
       method,
       url,
+      params,
       headers,
       body,
-    });
+      bodyType,
+      rawLanguage,
+      formFields,
+      multipartFields,
+      graphql,
+      auth,
+      executionMode,
+      preRequestScript,
+      testScript,
+      assertions,
+      timeout,
+      responseFilter,
+      websocket,
+      kind,
+      saveToCollection,
+      markTabSaved,
+      activeTabId,
+    ]
+  );
 
-    if (savedRequest) {
-      // Show success feedback if needed
-      console.log("Request saved successfully");
-    }
-  }, [method, url, headers, body, saveRequest]);
+  const selectBodyFile = useCallback(
+    (key: string, file: File | null) => {
+      updateSession(activeTabId, ({ bodyFiles: prev }) => {
+        const next = { ...prev };
+        if (file) {
+          next[key] = file;
+        } else {
+          delete next[key];
+        }
+        return { bodyFiles: next };
+      });
+
+      // A binary body is sent with the type of the chosen file
+      if (key === BINARY_FILE_KEY) {
+        setHeaders(
+          applyContentTypeHeader(
+            headers,
+            getBodyContentType("binary", rawLanguage, file),
+            generateId
+          )
+        );
+      }
+    },
+    [headers, rawLanguage, setHeaders, updateSession, activeTabId]
+  );
+
+  const handleBodyTypeChange = useCallback(
+    (type: BodyType) => {
+      setBodyType(type, bodyFiles[BINARY_FILE_KEY]);
+      // Only JSON bodies are validated
+      if (type !== "json") {
+        setJsonError(null);
+      }
+    },
+    [bodyFiles, setBodyType]
+  );
+
+  const handleClearState = useCallback(() => {
+    clearState();
+    updateSession(activeTabId, {
+      scriptOutput: null,
+      testReport: null,
+      bodyFiles: {},
+    });
+    setJsonError(null);
+  }, [clearState, updateSession, activeTabId]);
 
   const sendRequest = useCallback(async () => {
+    // Results go to the tab the request was sent from, even if another tab
+    // is selected by the time they arrive
+    const tabId = activeTabId;
+    const setError = (error: string | null) => updateSession(tabId, { error });
+
     // Validate URL
     if (!url.trim()) {
       setError("Please enter a valid URL");
@@ -119,12 +432,78 @@ export default function ApiTester() {
       return;
     }
 
-    // Check if URL has a protocol
-    let validUrl = url.trim();
-    if (!validUrl.startsWith("http://") && !validUrl.startsWith("https://")) {
-      validUrl = `https://${validUrl}`;
+    // The script sees the request before {{variables}} are substituted, so
+    // variables it sets are used for this send
+    let scripted: ScriptRequest = { method, url, headers, body };
+    let environment = variables;
+    let sendVariables = requestVariables;
+    updateSession(tabId, {
+      scriptOutput: null,
+      testReport: null,
+      errorKind: null,
+    });
+    if (preRequestScript.trim()) {
+      updateSession(tabId, { loading: true });
+      const result = await runPreRequestScript(
+        preRequestScript,
+        {
+          method,
+          url,
+          headers: headers.map(({ key, value }) => ({ key, value })),
+          body,
+        },
+        { environment: variables, variables: requestVariables }
+      );
+      updateSession(tabId, {
+        loading: false,
+        scriptOutput: { logs: result.logs, error: result.error },
+      });
+
+      if (result.error) {
+        updateSession(tabId, {
+          response: null,
+          requestSuccess: false,
+          error: `Pre-request script failed: ${result.error}`,
+        });
+        return;
+      }
+
+      // Without an active environment, changes only apply to this send
+      if (Object.keys(result.environment).length > 0) {
+        updateActiveEnvironmentVariables(result.environment);
+      }
+      environment = withVariableChanges(variables, result.environment);
+      sendVariables = withVariableChanges(requestVariables, result.environment);
+      scripted = result.request;
+    }
+
+    // Substitute {{variables}} from the active environment
+    const { draft: resolved, unresolved } = resolveRequestDraft(
+      {
+        ...scripted,
+        bodyType,
+        formFields,
+        multipartFields,
+        graphql,
+        auth,
+      },
+      sendVariables
+    );
+
+    if (unresolved.length > 0) {
+      updateSession(tabId, {
+        response: null,
+        requestSuccess: false,
+        error: `Unresolved variables: ${formatVariableList(
+          unresolved
+        )}. Define them in the active environment or collection before sending.`,
+      });
+      return;
     }
 
+    // Check if URL has a protocol
+    const validUrl = withProtocol(resolved.url);
+
     // Basic URL validation
     try {
       new URL(validUrl);
@@ -135,72 +514,150 @@ export default function ApiTester() {
       return;
     }
 
-    let processedBody = body;
-    if (body && body.includes("```")) {
-      processedBody = processTripleBackticks(body);
-      setBody(processedBody);
-    }
+    let processedBody = resolved.body;
+    if (bodyType === "json") {
+      if (body && body.includes("```")) {
+        updateTabState(tabId, { body: expandTripleBackticks(body) });
+        processedBody = expandTripleBackticks(processedBody);
+      }
 
-    if (processedBody && !validateJson(processedBody)) {
-      return;
+      if (processedBody && !validateJson(processedBody)) {
+        return;
+      }
     }
 
-    setLoading(true);
-    setError(null);
-    setResponse(null);
-    setRequestSuccess(false);
+    let requestBody: string | FormData | Blob | undefined;
+    if (METHODS_WITH_BODY.includes(resolved.method)) {
+      try {
+        requestBody = buildRequestBody(
+          { ...resolved, body: processedBody },
+          bodyFiles
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Invalid request body");
+        return;
+      }
+    }
 
-    try {
-      const startTime = Date.now();
-
-      const headerObj: Record<string, string> = {};
-      headers.forEach((header) => {
-        if (header.key && header.value) {
-          // For GET requests, skip Content-Type header as it can cause CORS issues
-          if (method === "GET" && header.key.toLowerCase() === "content-type") {
-            return;
-          }
-          headerObj[header.key] = header.value;
-        }
-      });
+    // Every send is logged to history automatically
+    const historyEntry = addToHistory({
+      method,
+      url,
+      params,
+      headers,
+      body,
+      bodyType,
+      rawLanguage,
+      formFields,
+      multipartFields,
+      graphql,
+      authType: auth.type,
+      executionMode,
+      preRequestScript,
+      testScript,
+      assertions,
+      timeout,
+      responseFilter,
+    });
 
-      const options: RequestInit = {
-        method,
-        headers: headerObj,
-      };
+    updateSession(tabId, {
+      loading: true,
+      error: null,
+      response: null,
+      requestSuccess: false,
+    });
 
-      if (["POST", "PUT", "PATCH"].includes(method) && processedBody) {
-        options.body = processedBody;
-      }
+    const controller = new AbortController();
+    abortControllersRef.current[tabId] = controller;
 
-      const res = await fetch(validUrl, options);
-      const endTime = Date.now();
+    try {
+      const authorizedRequest = await applyAuth(
+        resolved.auth,
+        {
+          method: resolved.method,
+          url: validUrl,
+          headers: buildHeaderRecord(resolved.method, resolved.headers),
+          body: requestBody,
+        },
+        executionMode
+      );
 
-      const responseHeaders: Record<string, string> = {};
-      res.headers.forEach((value, key) => {
-        responseHeaders[key] = value;
+      const result = await executeRequest(authorizedRequest, executionMode, {
+        signal: controller.signal,
+        timeout: timeout ?? settings.defaultTimeout,
+        // Streamed bodies are shown as they arrive, but only the final
+        // response is saved
+        onProgress: (partial) => {
+          if (abortControllersRef.current[tabId] === controller) {
+            updateSession(tabId, () => ({ response: partial }));
+          }
+        },
       });
 
-      let responseData;
-      const contentType = res.headers.get("content-type");
-      if (contentType?.includes("application/json")) {
-        responseData = await res.json();
-      } else {
-        responseData = await res.text();
-      }
+      updateSession(tabId, { response: result, requestSuccess: true });
+      attachHistoryResponse(historyEntry.id, result);
+      setSessionResponses((prev) =>
+        [
+          {
+            id: historyEntry.id,
+            method: resolved.method,
+            url: validUrl,
+            timestamp: historyEntry.timestamp,
+            response: result,
+            source: "session" as const,
+          },
+          ...prev,
+        ].slice(0, MAX_SESSION_RESPONSES)
+      );
 
-      setResponse({
-        status: res.status,
-        statusText: res.statusText,
-        headers: responseHeaders,
-        data: responseData,
-        time: endTime - startTime,
-      });
-      setRequestSuccess(true);
+      if (testScript.trim() || assertions.some((check) => check.enabled)) {
+        const results = evaluateAssertions(assertions, result, sendVariables);
+        let testError: string | undefined;
+        if (testScript.trim()) {
+          const run = await runTestScript(
+            testScript,
+            {
+              method: resolved.method,
+              url: validUrl,
+              headers: resolved.headers,
+              body: processedBody,
+            },
+            result,
+            { environment, variables: sendVariables }
+          );
+          results.push(...run.tests);
+          testError = run.error;
+          if (run.logs.length > 0) {
+            updateSession(tabId, ({ scriptOutput: prev }) => ({
+              scriptOutput: {
+                ...prev,
+                logs: [...(prev?.logs ?? []), ...run.logs],
+              },
+            }));
+          }
+          if (Object.keys(run.environment).length > 0) {
+            updateActiveEnvironmentVariables(run.environment);
+          }
+        }
+        updateSession(tabId, { testReport: { results, error: testError } });
+      }
     } catch (err) {
+      // The tab was closed or given another request, so the error is dropped
+      if (abortControllersRef.current[tabId] !== controller) return;
+
       let errorMessage = "Request failed";
 
-      if (err instanceof TypeError && err.message === "Failed to fetch") {
+      if (err instanceof RequestCancelledError) {
+        updateSession(tabId, { errorKind: "cancelled" });
+        errorMessage = err.message;
+      } else if (err instanceof RequestTimeoutError) {
+        updateSession(tabId, { errorKind: "timeout" });
+        errorMessage = err.message;
+      } else if (
+        executionMode === "browser" &&
+        err instanceof TypeError &&
+        err.message === "Failed to fetch"
+      ) {
         // Check if it's likely a CORS issue
         if (
           validUrl.startsWith("http://") &&
@@ -224,35 +681,366 @@ export default function ApiTester() {
 
       setError(errorMessage);
     } finally {
-      setLoading(false);
+      if (abortControllersRef.current[tabId] === controller) {
+        delete abortControllersRef.current[tabId];
+        updateSession(tabId, { loading: false });
+      }
     }
   }, [
+    activeTabId,
     method,
     url,
+    params,
     headers,
     body,
-    processTripleBackticks,
+    bodyType,
+    rawLanguage,
+    formFields,
+    multipartFields,
+    graphql,
+    bodyFiles,
+    auth,
+    executionMode,
+    preRequestScript,
+    testScript,
+    assertions,
+    timeout,
+    responseFilter,
+    settings.defaultTimeout,
+    variables,
+    requestVariables,
+    updateActiveEnvironmentVariables,
     validateJson,
-    setBody,
+    updateSession,
+    updateTabState,
+    addToHistory,
+    attachHistoryResponse,
   ]);
 
+  // Introspection goes to the same endpoint, with the headers and auth the
+  // request itself would be sent with
+  const fetchGraphqlSchema = useCallback(async () => {
+    const tabId = activeTabId;
+    const { draft: resolved, unresolved } = resolveRequestDraft(
+      {
+        method,
+        url,
+        headers,
+        body,
+        bodyType,
+        formFields,
+        multipartFields,
+        graphql,
+        auth,
+      },
+      requestVariables
+    );
+    if (unresolved.length > 0) {
+      throw new Error(
+        `Unresolved variables: ${formatVariableList(unresolved)}`
+      );
+    }
+
+    const validUrl = withProtocol(resolved.url);
+    try {
+      new URL(validUrl);
+    } catch {
+      throw new Error("Please enter a valid URL");
+    }
+
+    const authorizedRequest = await applyAuth(
+      resolved.auth,
+      {
+        method: "POST",
+        url: validUrl,
+        headers: buildHeaderRecord("POST", resolved.headers),
+        body: JSON.stringify({ query: INTROSPECTION_QUERY }),
+      },
+      executionMode
+    );
+    const result = await executeRequest(authorizedRequest, executionMode, {
+      timeout: timeout ?? settings.defaultTimeout,
+    });
+
+    try {
+      updateSession(tabId, {
+        graphqlSchema: parseIntrospectionResult(result.data),
+      });
+    } catch (err) {
+      if (result.status >= 400) {
+        throw new Error(
+          `Introspection failed with ${result.status} ${result.statusText}`
+        );
+      }
+      throw err;
+    }
+  }, [
+    activeTabId,
+    method,
+    url,
+    headers,
+    body,
+    bodyType,
+    formFields,
+    multipartFields,
+    graphql,
+    auth,
+    executionMode,
+    timeout,
+    settings.defaultTimeout,
+    requestVariables,
+    updateSession,
+  ]);
+
+  // Browsers can't add headers or auth to the handshake, so only the URL
+  // and subprotocols are used
+  const connectActiveWebSocket = useCallback(() => {
+    const { value: resolvedUrl, unresolved } = resolveVariables(
+      url,
+      requestVariables
+    );
+    if (unresolved.length > 0) {
+      toast.error("Cannot connect", {
+        description: `Unresolved variables: ${formatVariableList(unresolved)}`,
+      });
+      return;
+    }
+    if (!resolvedUrl.trim()) {
+      toast.error("Cannot connect", { description: "Enter a URL" });
+      return;
+    }
+    connectWebSocket(
+      activeTabId,
+      toWebSocketUrl(resolvedUrl),
+      parseSubprotocols(
+        resolveVariables(websocket.protocols, requestVariables).value
+      )
+    );
+  }, [
+    url,
+    websocket.protocols,
+    requestVariables,
+    connectWebSocket,
+    activeTabId,
+  ]);
+
+  const sendActiveWebSocketMessage = useCallback(
+    (format: WsMessageFormat, content: string) => {
+      try {
+        sendWebSocketMessage(
+          activeTabId,
+          encodeWsMessage(
+            format,
+            resolveVariables(content, requestVariables).value
+          )
+        );
+      } catch (err) {
+        toast.error("Message not sent", {
+          description: err instanceof Error ? err.message : "Unknown error",
+        });
+      }
+    },
+    [sendWebSocketMessage, requestVariables, activeTabId]
+  );
+
+  // A connection is closed when its tab stops being a WebSocket request
+  const handleKindChange = useCallback(
+    (nextKind: RequestKind) => {
+      if (nextKind !== "websocket") {
+        disconnectWebSocket(activeTabId);
+      }
+      setKind(nextKind);
+    },
+    [disconnectWebSocket, setKind, activeTabId]
+  );
+
+  const handleClearWebSocketState = useCallback(() => {
+    disconnectWebSocket(activeTabId);
+    clearWebSocketLog(activeTabId);
+    handleClearState();
+  }, [disconnectWebSocket, clearWebSocketLog, handleClearState, activeTabId]);
+
+  const cancelRequest = useCallback(() => {
+    abortControllersRef.current[activeTabId]?.abort();
+  }, [activeTabId]);
+
+  // Cancels the requests and closes the connections of tabs that are closed
+  // or given another request, without reporting the cancellation in them
+  const discardTabRequests = useCallback(
+    (tabIds: string[]) => {
+      for (const tabId of tabIds) {
+        abortControllersRef.current[tabId]?.abort();
+        delete abortControllersRef.current[tabId];
+      }
+      removeWebSocketSessions(tabIds);
+    },
+    [removeWebSocketSessions]
+  );
+
+  const handleCloseTabs = useCallback(
+    (tabIds: string[]) => {
+      discardTabRequests(tabIds);
+      removeSessions(tabIds);
+      setJsonError(null);
+    },
+    [discardTabRequests, removeSessions]
+  );
+
+  const handleCloseTab = useCallback(
+    (tabId: string) => {
+      handleCloseTabs([tabId]);
+      closeTab(tabId);
+    },
+    [handleCloseTabs, closeTab]
+  );
+
+  const handleCloseOtherTabs = useCallback(
+    (tabId: string) => {
+      handleCloseTabs(
+        tabs.filter((tab) => tab.id !== tabId).map((tab) => tab.id)
+      );
+      closeOtherTabs(tabId);
+    },
+    [handleCloseTabs, closeOtherTabs, tabs]
+  );
+
+  const handleSelectTab = useCallback(
+    (tabId: string) => {
+      selectTab(tabId);
+      setJsonError(null);
+    },
+    [selectTab]
+  );
+
   const loadRequest = useCallback(
-    (request: {
-      method: string;
-      url: string;
-      headers: Array<{ key: string; value: string }>;
-      body: string;
-    }) => {
+    (
+      request: {
+        method: string;
+        url: string;
+        headers: Array<{ key: string; value: string }>;
+        body: string;
+        bodyType?: BodyType;
+        rawLanguage?: RawLanguage;
+        formFields?: FormField[];
+        multipartFields?: MultipartField[];
+        graphql?: GraphqlBody;
+        kind?: RequestKind;
+        websocket?: WebSocketConfig;
+        params?: QueryParam[];
+        auth?: AuthConfig;
+        authType?: AuthType;
+        executionMode?: ExecutionMode;
+        preRequestScript?: string;
+        testScript?: string;
+        assertions?: Assertion[];
+        timeout?: number | null;
+        responseFilter?: string;
+      },
+      origin?: { name: string; collectionId: string }
+    ) => {
       const requestWithIds = {
         ...request,
         headers: request.headers.map((header) => ({
           ...header,
           id: generateId(),
         })),
+        // History only records the auth type, so reuse the current
+        // credentials with that type selected
+        auth:
+          request.auth ??
+          (request.authType ? { ...auth, type: request.authType } : undefined),
       };
-      loadRequestState(requestWithIds);
+      const tabId = loadRequestState(requestWithIds, origin);
+      // A request replacing the one in a clean tab starts without a response
+      discardTabRequests([tabId]);
+      updateSession(tabId, EMPTY_TAB_SESSION);
+      setJsonError(null);
+      return tabId;
+    },
+    [loadRequestState, discardTabRequests, updateSession, auth]
+  );
+
+  // History entries bring back the response they received
+  const loadHistoryRequest = useCallback(
+    (request: Parameters<typeof loadRequest>[0], response?: ApiResponse) => {
+      const tabId = loadRequest(request);
+      if (response) {
+        updateSession(tabId, { response });
+      }
     },
-    [loadRequestState]
+    [loadRequest, updateSession]
+  );
+
+  const requestOAuth2Token = useCallback(async () => {
+    const { auth: resolved, unresolved } = resolveAuthVariables(
+      auth,
+      requestVariables
+    );
+    if (unresolved.length > 0) {
+      toast.error("Cannot request token", {
+        description: `Unresolved variables: ${formatVariableList(unresolved)}`,
+      });
+      return;
+    }
+
+    clearOAuth2Token(resolved.oauth2);
+    try {
+      const token = await getOAuth2Token(resolved.oauth2, executionMode);
+      toast.success("Access token received", {
+        description: token.expiresAt
+          ? `Cached until ${new Date(token.expiresAt).toLocaleTimeString()}`
+          : "Cached for this session",
+        duration: 3000,
+      });
+    } catch (err) {
+      toast.error("Token request failed", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }, [auth, requestVariables, executionMode]);
+
+  const importCurl = useCallback(
+    ({ basicAuth, ...request }: ParsedCurl) => {
+      const tabId = loadRequestState({
+        ...request,
+        auth: basicAuth
+          ? { ...auth, type: "basic", basic: basicAuth }
+          : undefined,
+      });
+      discardTabRequests([tabId]);
+      updateSession(tabId, EMPTY_TAB_SESSION);
+      setJsonError(null);
+
+      // Referenced files can't be read, so they have to be picked again
+      const hasFiles = request.multipartFields.some(
+        (field) => field.type === "file"
+      );
+      toast.success("cURL command imported", {
+        description: hasFiles
+          ? "Choose the files to upload in the request body"
+          : `${request.method} ${request.url}`,
+        duration: 3000,
+      });
+    },
+    [loadRequestState, discardTabRequests, updateSession, auth]
+  );
+
+  const openCollectionRequest = useCallback(
+    (item: CollectionRequest, collectionId: string) => {
+      loadRequest(item.request, { name: item.name, collectionId });
+    },
+    [loadRequest]
+  );
+
+  const handleImportCollection = useCallback(
+    (collection: Collection) => {
+      importCollection(collection);
+      toast.success("Collection imported", {
+        description: `"${collection.name}" was added to your collections`,
+        duration: 3000,
+      });
+    },
+    [importCollection]
   );
 
   const selectExampleApi = useCallback(
@@ -270,7 +1058,7 @@ export default function ApiTester() {
         },
       ]);
 
-      if (["POST", "PUT", "PATCH"].includes(api.method)) {
+      if (METHODS_WITH_BODY.includes(api.method)) {
         if (api.url.includes("jsonplaceholder")) {
           setBody(
             JSON.stringify(
@@ -329,16 +1117,19 @@ export default function ApiTester() {
   const handleBodyChange = useCallback(
     (newBody: string) => {
       setBody(newBody);
-      let processedValue = newBody;
+      if (bodyType !== "json") return;
+      // Validate what will actually be sent, so {{variables}} used as bare
+      // JSON values (e.g. "id": {{userId}}) are not reported as errors
+      let processedValue = resolveVariables(newBody, requestVariables).value;
       if (newBody.includes("```")) {
-        processedValue = processTripleBackticks(newBody);
+        processedValue = expandTripleBackticks(processedValue);
       }
       validateJson(processedValue);
     },
-    [processTripleBackticks, validateJson, setBody]
+    [validateJson, setBody, requestVariables, bodyType]
   );
 
-  // Don't render until cookie state is loaded
+  // Don't render until the saved tabs are loaded
   if (!isLoaded) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -378,10 +1169,35 @@ export default function ApiTester() {
             </div>
             <div className="flex flex-wrap w-full justify-between items-center gap-2 sm:gap-3">
               <div className="flex flex-wrap items-center gap-2 sm:gap-3">
-                <RequestHistory onLoadRequest={loadRequest} />
+                <RequestHistory
+                  requests={history}
+                  onLoadRequest={loadHistoryRequest}
+                  onTogglePin={toggleHistoryPin}
+                  onDeleteRequest={deleteFromHistory}
+                  onClearHistory={clearHistory}
+                  variables={variables}
+                />
                 <ExampleApis onSelectApi={selectExampleApi} />
+                <ImportDialog
+                  onImportCurl={importCurl}
+                  onImportCollection={handleImportCollection}
+                />
+              </div>
+              <div className="flex items-center gap-2 sm:gap-3">
+                <EnvironmentSwitcher
+                  environments={environments}
+                  activeEnvironmentId={activeEnvironmentId}
+                  onSelectEnvironment={setActiveEnvironmentId}
+                  onCreateEnvironment={createEnvironment}
+                  onUpdateEnvironment={updateEnvironment}
+                  onDeleteEnvironment={deleteEnvironment}
+                />
+                <SettingsDialog
+                  settings={settings}
+                  onUpdateSettings={updateSettings}
+                />
+                <ThemeToggle />
               </div>
-              <ThemeToggle />
             </div>
           </div>
           <motion.p
@@ -410,49 +1226,191 @@ export default function ApiTester() {
         </motion.div>
 
         {/* Main Content */}
-        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
-          <motion.div
+        <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-6 items-start">
+          <motion.aside
             initial={{ opacity: 0, x: -50 }}
             animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.2, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+            transition={{ delay: 0.15, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
           >
-            <RequestPanel
-              method={method}
-              setMethod={setMethod}
-              url={url}
-              setUrl={setUrl}
-              headers={headers}
-              setHeaders={setHeaders}
-              body={body}
-              setBody={handleBodyChange}
-              loading={loading}
-              onSendRequest={sendRequest}
-              onSaveRequest={handleSaveRequest}
-              onClearState={clearState}
-              jsonError={jsonError}
-              showHtmlEditor={showHtmlEditor}
-              setShowHtmlEditor={setShowHtmlEditor}
-              htmlContent={htmlContent}
-              setHtmlContent={setHtmlContent}
-              onConvertHtmlToJson={convertHtmlToJson}
-              requestSuccess={requestSuccess}
-              requestError={error}
+            <CollectionsSidebar
+              collections={collections}
+              variables={variables}
+              onOpenRequest={openCollectionRequest}
+              onCreateCollection={createCollection}
+              onRenameCollection={renameCollection}
+              onDuplicateCollection={duplicateCollection}
+              onUpdateCollectionVariables={updateCollectionVariables}
+              onDeleteCollection={deleteCollection}
+              onUpdateEnvironmentVariables={updateActiveEnvironmentVariables}
+              defaultTimeout={settings.defaultTimeout}
+              onCreateFolder={createFolder}
+              onRenameItem={renameItem}
+              onDuplicateItem={duplicateItem}
+              onDeleteItem={deleteItem}
+              onMoveItem={moveItem}
             />
-          </motion.div>
+          </motion.aside>
 
-          <motion.div
-            initial={{ opacity: 0, x: 50 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.3, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
-          >
-            <ResponsePanel
-              response={response}
-              loading={loading}
-              error={error}
+          <div className="space-y-4 min-w-0">
+            <RequestTabs
+              tabs={tabs}
+              activeTabId={activeTabId}
+              loadingTabIds={tabs
+                .filter((tab) => sessions[tab.id]?.loading)
+                .map((tab) => tab.id)}
+              canReopenTab={canReopenTab}
+              onSelectTab={handleSelectTab}
+              onNewTab={newTab}
+              onCloseTab={handleCloseTab}
+              onCloseOtherTabs={handleCloseOtherTabs}
+              onReopenClosedTab={reopenClosedTab}
             />
-          </motion.div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 min-w-0">
+              <motion.div
+                initial={{ opacity: 0, x: -50 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{
+                  delay: 0.2,
+                  duration: 0.2,
+                  ease: [0.4, 0, 0.2, 1],
+                }}
+              >
+                {kind === "websocket" ? (
+                  <WebSocketPanel
+                    key={activeTabId}
+                    setKind={handleKindChange}
+                    url={url}
+                    setUrl={setUrl}
+                    params={params}
+                    setParams={setParams}
+                    websocket={websocket}
+                    setWebsocket={setWebsocket}
+                    status={webSocketSession.status}
+                    onConnect={connectActiveWebSocket}
+                    onDisconnect={() => disconnectWebSocket(activeTabId)}
+                    onSendMessage={sendActiveWebSocketMessage}
+                    onSaveRequest={handleSaveRequest}
+                    onClearState={handleClearWebSocketState}
+                    variables={requestVariables}
+                  />
+                ) : (
+                  <RequestPanel
+                    key={activeTabId}
+                    setKind={handleKindChange}
+                    method={method}
+                    setMethod={setMethod}
+                    url={url}
+                    setUrl={setUrl}
+                    params={params}
+                    setParams={setParams}
+                    headers={headers}
+                    setHeaders={setHeaders}
+                    body={body}
+                    setBody={handleBodyChange}
+                    bodyType={bodyType}
+                    setBodyType={handleBodyTypeChange}
+                    rawLanguage={rawLanguage}
+                    setRawLanguage={setRawLanguage}
+                    formFields={formFields}
+                    setFormFields={setFormFields}
+                    multipartFields={multipartFields}
+                    setMultipartFields={setMultipartFields}
+                    graphql={graphql}
+                    setGraphql={setGraphql}
+                    graphqlSchema={graphqlSchema}
+                    onFetchGraphqlSchema={fetchGraphqlSchema}
+                    bodyFiles={bodyFiles}
+                    onSelectBodyFile={selectBodyFile}
+                    auth={auth}
+                    setAuth={setAuth}
+                    onRequestToken={requestOAuth2Token}
+                    executionMode={executionMode}
+                    setExecutionMode={setExecutionMode}
+                    preRequestScript={preRequestScript}
+                    setPreRequestScript={setPreRequestScript}
+                    testScript={testScript}
+                    setTestScript={setTestScript}
+                    assertions={assertions}
+                    setAssertions={setAssertions}
+                    timeout={timeout}
+                    setRequestTimeout={setRequestTimeout}
+                    defaultTimeout={settings.defaultTimeout}
+                    variables={requestVariables}
+                    loading={loading}
+                    onSendRequest={sendRequest}
+                    onCancelRequest={cancelRequest}
+                    onSaveRequest={handleSaveRequest}
+                    onImportCurl={importCurl}
+                    onClearState={handleClearState}
+                    jsonError={jsonError}
+                    showHtmlEditor={showHtmlEditor}
+                    setShowHtmlEditor={setShowHtmlEditor}
+                    htmlContent={htmlContent}
+                    setHtmlContent={setHtmlContent}
+                    onConvertHtmlToJson={convertHtmlToJson}
+                    requestSuccess={requestSuccess}
+                    requestError={error}
+                  />
+                )}
+              </motion.div>
+
+              <motion.div
+                initial={{ opacity: 0, x: 50 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{
+                  delay: 0.3,
+                  duration: 0.2,
+                  ease: [0.4, 0, 0.2, 1],
+                }}
+              >
+                {kind === "websocket" ? (
+                  <WebSocketLog
+                    session={webSocketSession}
+                    onClear={() => clearWebSocketLog(activeTabId)}
+                  />
+                ) : (
+                  <ResponsePanel
+                    key={activeTabId}
+                    response={response}
+                    loading={loading}
+                    error={error}
+                    errorKind={errorKind}
+                    scriptOutput={scriptOutput}
+                    testReport={testReport}
+                    responseFilter={responseFilter}
+                    onResponseFilterChange={setResponseFilter}
+                    onCompare={
+                      comparableResponses.length >= 2
+                        ? () => setDiffDialogOpen(true)
+                        : undefined
+                    }
+                  />
+                )}
+              </motion.div>
+            </div>
+          </div>
         </div>
       </motion.div>
+
+      <ResponseDiffDialog
+        open={diffDialogOpen}
+        onOpenChange={setDiffDialogOpen}
+        responses={comparableResponses}
+        ignoredPaths={settings.diffIgnoredPaths}
+        onIgnoredPathsChange={(diffIgnoredPaths) =>
+          updateSettings({ diffIgnoredPaths })
+        }
+      />
+
+      <SaveRequestDialog
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        collections={collections}
+        defaultName={url ? `${method} ${url}` : "New Request"}
+        onCreateCollection={createCollection}
+        onSave={handleSaveToCollection}
+      />
     </div>
   );
 }
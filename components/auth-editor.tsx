@@ -0,0 +1,211 @@
+"use client";
+
+import React, { useCallback, useState } from "react";
+import { KeyRound, RefreshCw, Eye, EyeOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AUTH_TYPE_LABELS, type AuthConfig, type AuthType } from "@/lib/auth";
+
+interface AuthEditorProps {
+  auth: AuthConfig;
+  setAuth: (auth: AuthConfig) => void;
+  /** Discards any cached OAuth 2.0 token and fetches a fresh one */
+  onRequestToken: () => void;
+}
+
+const selectClassName =
+  "px-3 py-2 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent";
+
+function Field({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex flex-col gap-1.5 text-xs font-medium text-muted-foreground">
+      {label}
+      {children}
+    </label>
+  );
+}
+
+export function AuthEditor({ auth, setAuth, onRequestToken }: AuthEditorProps) {
+  const [showSecrets, setShowSecrets] = useState(false);
+  const secretType = showSecrets ? "text" : "password";
+
+  const update = useCallback(
+    <K extends Exclude<AuthType, "none">>(
+      type: K,
+      changes: Partial<AuthConfig[K]>
+    ) => {
+      setAuth({ ...auth, [type]: { ...auth[type], ...changes } });
+    },
+    [auth, setAuth]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={auth.type}
+          onChange={(e) =>
+            setAuth({ ...auth, type: e.target.value as AuthType })
+          }
+          className={`${selectClassName} flex-1`}
+        >
+          {(Object.keys(AUTH_TYPE_LABELS) as AuthType[]).map((type) => (
+            <option key={type} value={type}>
+              {AUTH_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        {auth.type !== "none" && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowSecrets(!showSecrets)}
+            aria-label={showSecrets ? "Hide secrets" : "Show secrets"}
+          >
+            {showSecrets ? (
+              <EyeOff className="w-4 h-4" />
+            ) : (
+              <Eye className="w-4 h-4" />
+            )}
+          </Button>
+        )}
+      </div>
+
+      {auth.type === "basic" && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <Field label="Username">
+            <Input
+              value={auth.basic.username}
+              onChange={(e) => update("basic", { username: e.target.value })}
+              placeholder="Username"
+            />
+          </Field>
+          <Field label="Password">
+            <Input
+              type={secretType}
+              value={auth.basic.password}
+              onChange={(e) => update("basic", { password: e.target.value })}
+              placeholder="Password"
+            />
+          </Field>
+        </div>
+      )}
+
+      {auth.type === "bearer" && (
+        <Field label="Token">
+          <Input
+            type={secretType}
+            value={auth.bearer.token}
+            onChange={(e) => update("bearer", { token: e.target.value })}
+            placeholder="Token or {{variable}}"
+            className="font-mono"
+          />
+        </Field>
+      )}
+
+      {auth.type === "apikey" && (
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 sm:items-end">
+          <Field label="Key">
+            <Input
+              value={auth.apikey.key}
+              onChange={(e) => update("apikey", { key: e.target.value })}
+              placeholder="X-API-Key"
+            />
+          </Field>
+          <Field label="Value">
+            <Input
+              type={secretType}
+              value={auth.apikey.value}
+              onChange={(e) => update("apikey", { value: e.target.value })}
+              placeholder="Value"
+            />
+          </Field>
+          <Field label="Add to">
+            <select
+              value={auth.apikey.addTo}
+              onChange={(e) =>
+                update("apikey", {
+                  addTo: e.target.value as "header" | "query",
+                })
+              }
+              className={selectClassName}
+            >
+              <option value="header">Header</option>
+              <option value="query">Query Params</option>
+            </select>
+          </Field>
+        </div>
+      )}
+
+      {auth.type === "oauth2" && (
+        <div className="space-y-2">
+          <Field label="Token URL">
+            <Input
+              value={auth.oauth2.tokenUrl}
+              onChange={(e) => update("oauth2", { tokenUrl: e.target.value })}
+              placeholder="https://auth.example.com/oauth/token"
+            />
+          </Field>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <Field label="Client ID">
+              <Input
+                value={auth.oauth2.clientId}
+                onChange={(e) =>
+                  update("oauth2", { clientId: e.target.value })
+                }
+                placeholder="Client ID"
+              />
+            </Field>
+            <Field label="Client Secret">
+              <Input
+                type={secretType}
+                value={auth.oauth2.clientSecret}
+                onChange={(e) =>
+                  update("oauth2", { clientSecret: e.target.value })
+                }
+                placeholder="Client Secret"
+              />
+            </Field>
+            <Field label="Scope">
+              <Input
+                value={auth.oauth2.scope}
+                onChange={(e) => update("oauth2", { scope: e.target.value })}
+                placeholder="read write"
+              />
+            </Field>
+            <Field label="Client Authentication">
+              <select
+                value={auth.oauth2.clientAuthentication}
+                onChange={(e) =>
+                  update("oauth2", {
+                    clientAuthentication: e.target.value as "header" | "body",
+                  })
+                }
+                className={selectClassName}
+              >
+                <option value="header">Basic Auth header</option>
+                <option value="body">Credentials in body</option>
+              </select>
+            </Field>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onRequestToken}>
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Get New Token
+            </Button>
+          </div>
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <KeyRound className="w-3 h-3" />
+            Tokens are fetched on send and reused until they expire.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Plus, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  KeyValueEditor,
+  UNRESOLVED_CLASS,
+  UnresolvedVariablesHint,
+} from "@/components/key-value-editor";
+import { cn, generateId } from "@/lib/utils";
+import { findUnresolvedVariables } from "@/lib/variables";
+import {
+  BINARY_FILE_KEY,
+  RAW_LANGUAGE_LABELS,
+  type BodyType,
+  type FormField,
+  type MultipartField,
+  type RawLanguage,
+} from "@/lib/request-body";
+
+interface BodyEditorProps {
+  bodyType: Exclude<BodyType, "json" | "graphql">;
+  rawLanguage: RawLanguage;
+  setRawLanguage: (language: RawLanguage) => void;
+  body: string;
+  setBody: (body: string) => void;
+  formFields: FormField[];
+  setFormFields: (fields: FormField[]) => void;
+  multipartFields: MultipartField[];
+  setMultipartFields: (fields: MultipartField[]) => void;
+  /** Selected files by multipart field id, or BINARY_FILE_KEY */
+  files: Record<string, File>;
+  onSelectFile: (key: string, file: File | null) => void;
+  variables: Record<string, string>;
+}
+
+const selectClassName =
+  "px-3 py-2 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent";
+
+const RAW_PLACEHOLDERS: Record<RawLanguage, string> = {
+  text: "Enter plain text",
+  xml: '<?xml version="1.0" encoding="UTF-8"?>\n<root></root>',
+  yaml: "key: value",
+  html: "<p>Hello</p>",
+};
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function FilePicker({
+  file,
+  onSelect,
+}: {
+  file: File | undefined;
+  onSelect: (file: File | null) => void;
+}) {
+  return (
+    <div className="flex flex-1 items-center gap-2 min-w-0">
+      <label className="flex flex-1 items-center gap-2 min-w-0 h-9 px-3 border border-input rounded-md text-sm cursor-pointer hover:bg-accent transition-colors">
+        <Upload className="w-4 h-4 shrink-0 text-muted-foreground" />
+        <span className={cn("truncate", !file && "text-muted-foreground")}>
+          {file
+            ? `${file.name} (${formatFileSize(file.size)})`
+            : "Choose file"}
+        </span>
+        <input
+          type="file"
+          className="sr-only"
+          onChange={(e) => {
+            onSelect(e.target.files?.[0] ?? null);
+            // Allow picking the same file again after clearing it
+            e.target.value = "";
+          }}
+        />
+      </label>
+      {file && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onSelect(null)}
+          aria-label="Clear file"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function BodyEditor({
+  bodyType,
+  rawLanguage,
+  setRawLanguage,
+  body,
+  setBody,
+  formFields,
+  setFormFields,
+  multipartFields,
+  setMultipartFields,
+  files,
+  onSelectFile,
+  variables,
+}: BodyEditorProps) {
+  const unresolvedInBody = useMemo(
+    () => findUnresolvedVariables(body, variables),
+    [body, variables]
+  );
+
+  if (bodyType === "urlencoded") {
+    return (
+      <div className="space-y-2">
+        <KeyValueEditor
+          rows={formFields}
+          onChange={setFormFields}
+          keyPlaceholder="Field name"
+          valuePlaceholder="Field value"
+          removeLabel="Remove field"
+          showEnabledToggle
+          variables={variables}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            setFormFields([
+              ...formFields,
+              { id: generateId(), key: "", value: "", enabled: true },
+            ])
+          }
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Field
+        </Button>
+      </div>
+    );
+  }
+
+  if (bodyType === "multipart") {
+    return (
+      <div className="space-y-2">
+        <KeyValueEditor
+          rows={multipartFields}
+          onChange={setMultipartFields}
+          keyPlaceholder="Field name"
+          valuePlaceholder="Field value"
+          removeLabel="Remove field"
+          showEnabledToggle
+          variables={variables}
+          renderValue={(field, updateField) => (
+            <div className="flex flex-1 gap-2 min-w-0">
+              <select
+                value={field.type}
+                onChange={(e) =>
+                  updateField({
+                    type: e.target.value as MultipartField["type"],
+                  })
+                }
+                className={selectClassName}
+                aria-label="Field type"
+              >
+                <option value="text">Text</option>
+                <option value="file">File</option>
+              </select>
+              {field.type === "file" ? (
+                <FilePicker
+                  file={files[field.id]}
+                  onSelect={(file) => onSelectFile(field.id, file)}
+                />
+              ) : (
+                <Input
+                  value={field.value}
+                  onChange={(e) => updateField({ value: e.target.value })}
+                  placeholder="Field value"
+                  className={cn(
+                    "flex-1",
+                    findUnresolvedVariables(field.value, variables).length >
+                      0 && UNRESOLVED_CLASS
+                  )}
+                />
+              )}
+            </div>
+          )}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            setMultipartFields([
+              ...multipartFields,
+              {
+                id: generateId(),
+                key: "",
+                value: "",
+                enabled: true,
+                type: "text",
+              },
+            ])
+          }
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Field
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Selected files are not saved and must be chosen again after a
+          reload.
+        </p>
+      </div>
+    );
+  }
+
+  if (bodyType === "binary") {
+    return (
+      <div className="space-y-2">
+        <FilePicker
+          file={files[BINARY_FILE_KEY]}
+          onSelect={(file) => onSelectFile(BINARY_FILE_KEY, file)}
+        />
+        <p className="text-xs text-muted-foreground">
+          The file is sent as the raw request body. It is not saved and must
+          be chosen again after a reload.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={rawLanguage}
+        onChange={(e) => setRawLanguage(e.target.value as RawLanguage)}
+        className={selectClassName}
+        aria-label="Raw body format"
+      >
+        {(Object.keys(RAW_LANGUAGE_LABELS) as RawLanguage[]).map(
+          (language) => (
+            <option key={language} value={language}>
+              {RAW_LANGUAGE_LABELS[language]}
+            </option>
+          )
+        )}
+      </select>
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={RAW_PLACEHOLDERS[rawLanguage]}
+        rows={8}
+        className={cn(
+          "w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none",
+          unresolvedInBody.length > 0 &&
+            "border-destructive focus:border-destructive"
+        )}
+      />
+      <UnresolvedVariablesHint names={unresolvedInBody} />
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Check, Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import {
+  generateSnippet,
+  SNIPPET_LANGUAGES,
+  type SnippetLanguage,
+  type SnippetRequest,
+} from "@/lib/code-snippets";
+
+interface CodeSnippetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request: SnippetRequest;
+}
+
+export function CodeSnippetsDialog({
+  open,
+  onOpenChange,
+  request,
+}: CodeSnippetsDialogProps) {
+  const [language, setLanguage] = useState<SnippetLanguage>("curl");
+  const [copied, setCopied] = useState(false);
+
+  const snippet = useMemo(
+    () => generateSnippet(language, request),
+    [language, request]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      toast.success("Copied to clipboard!", {
+        description: `${
+          SNIPPET_LANGUAGES.find((option) => option.id === language)?.label
+        } snippet has been copied to your clipboard`,
+        duration: 2000,
+      });
+
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error("Failed to copy", {
+        description: "Unable to copy to clipboard",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Code Snippet</DialogTitle>
+          <DialogDescription>
+            Generated from the current request with environment variables
+            substituted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[11rem_1fr] gap-4 min-w-0">
+          <div className="flex sm:flex-col gap-1 overflow-x-auto">
+            {SNIPPET_LANGUAGES.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setLanguage(option.id)}
+                className={cn(
+                  "px-2 py-1.5 text-left text-sm rounded-md whitespace-nowrap hover:bg-accent transition-colors",
+                  language === option.id && "bg-accent font-medium"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="relative min-w-0">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCopy}
+              className="absolute top-2 right-2"
+            >
+              {copied ? (
+                <Check className="w-4 h-4 mr-1" />
+              ) : (
+                <Copy className="w-4 h-4 mr-1" />
+              )}
+              Copy
+            </Button>
+            <pre className="p-4 pr-24 bg-muted rounded-md border border-border text-sm font-mono overflow-auto max-h-[60vh] whitespace-pre">
+              {snippet}
+            </pre>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
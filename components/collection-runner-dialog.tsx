@@ -0,0 +1,342 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  CheckCircle,
+  Download,
+  Pause,
+  Play,
+  Square,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useCollectionRunner } from "@/hooks/use-collection-runner";
+import {
+  collectRunnerRequests,
+  parseDataFile,
+  summarizeRun,
+  type DataRow,
+  type RunnerResult,
+} from "@/lib/collection-runner";
+import {
+  getCollectionVariables,
+  type Collection,
+  type CollectionFolder,
+} from "@/lib/collections";
+import { cn, downloadFile, getMethodColor } from "@/lib/utils";
+
+/** What to run: a whole collection, or one folder of it. */
+export interface RunTarget {
+  collection: Collection;
+  folder: CollectionFolder | null;
+}
+
+interface CollectionRunnerDialogProps {
+  target: RunTarget | null;
+  /** Variables of the active environment at the start of a run */
+  variables: Record<string, string>;
+  defaultTimeout: number;
+  onOpenChange: (open: boolean) => void;
+  onUpdateEnvironmentVariables: (
+    changes: Record<string, string | null>
+  ) => void;
+}
+
+function RunnerResultRow({ result }: { result: RunnerResult }) {
+  const failedTests = result.tests.filter((test) => !test.passed);
+  const passed =
+    !result.error && (result.status ?? 0) < 400 && failedTests.length === 0;
+
+  return (
+    <div className="py-2 text-sm">
+      <div className="flex items-center gap-2">
+        {passed ? (
+          <CheckCircle className="w-4 h-4 shrink-0 text-green-600 dark:text-green-400" />
+        ) : (
+          <XCircle className="w-4 h-4 shrink-0 text-destructive" />
+        )}
+        <span
+          className={`px-1 py-0.5 text-[10px] font-mono rounded shrink-0 ${getMethodColor(
+            result.method
+          )}`}
+        >
+          {result.method}
+        </span>
+        <span className="truncate flex-1">{result.name}</span>
+        {result.status !== undefined && (
+          <span className="font-mono text-xs">{result.status}</span>
+        )}
+        {result.time !== undefined && (
+          <span className="text-xs text-muted-foreground">
+            {result.time}ms
+          </span>
+        )}
+        {result.tests.length > 0 && (
+          <span
+            className={cn(
+              "text-xs",
+              failedTests.length > 0
+                ? "text-destructive"
+                : "text-muted-foreground"
+            )}
+          >
+            {result.tests.length - failedTests.length}/{result.tests.length}{" "}
+            tests
+          </span>
+        )}
+      </div>
+      {result.error && (
+        <p className="mt-1 pl-6 text-xs text-destructive break-words">
+          {result.error}
+        </p>
+      )}
+      {failedTests.map((test, index) => (
+        <p
+          key={index}
+          className="mt-1 pl-6 text-xs text-muted-foreground break-words"
+        >
+          <span className="text-destructive">{test.name}</span>
+          {test.message && ` – ${test.message}`}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function CollectionRunnerDialog({
+  target,
+  variables,
+  defaultTimeout,
+  onOpenChange,
+  onUpdateEnvironmentVariables,
+}: CollectionRunnerDialogProps) {
+  const runner = useCollectionRunner();
+  const [iterations, setIterations] = useState("1");
+  const [delay, setDelay] = useState("0");
+  const [data, setData] = useState<DataRow[]>([]);
+  const [dataFileName, setDataFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const requests = useMemo(
+    () =>
+      target
+        ? collectRunnerRequests(target.folder?.items ?? target.collection.items)
+        : [],
+    [target]
+  );
+  const iterationCount = Math.max(1, Math.floor(Number(iterations)) || 1);
+  const total = requests.length * iterationCount;
+  const summary = useMemo(() => summarizeRun(runner.results), [runner.results]);
+  const isActive = runner.status === "running" || runner.status === "paused";
+  const title = target?.folder?.name ?? target?.collection.name;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      runner.reset();
+      setIterations("1");
+      setDelay("0");
+      setData([]);
+      setDataFileName(null);
+      setError(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleDataFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const rows = parseDataFile(await file.text(), file.name);
+      setData(rows);
+      setDataFileName(file.name);
+      // One iteration per row, like Postman
+      setIterations(String(Math.max(1, rows.length)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid data file");
+    }
+  };
+
+  const handleStart = () => {
+    if (!target) return;
+    runner.start({
+      requests,
+      iterations: iterationCount,
+      delay: Math.max(0, Number(delay) || 0),
+      data,
+      environment: variables,
+      collectionVariables: getCollectionVariables(target.collection),
+      defaultTimeout,
+      onEnvironmentChange: onUpdateEnvironmentVariables,
+    });
+  };
+
+  const handleExport = () => {
+    if (!target) return;
+    const report = {
+      name: title,
+      startedAt: new Date(runner.startedAt ?? Date.now()).toISOString(),
+      finishedAt: new Date().toISOString(),
+      status: runner.status,
+      iterations: iterationCount,
+      delay: Math.max(0, Number(delay) || 0),
+      dataFile: dataFileName,
+      summary,
+      results: runner.results,
+    };
+    downloadFile(
+      JSON.stringify(report, null, 2),
+      `${title ?? "collection"}-run.json`
+    );
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Run {title}</DialogTitle>
+          <DialogDescription>
+            Sends {requests.length}{" "}
+            {requests.length === 1 ? "request" : "requests"} in order with
+            their scripts and tests. Columns of a CSV or JSON data file are
+            available as variables, one row per iteration.
+          </DialogDescription>
+        </DialogHeader>
+
+        {runner.status === "idle" ? (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="space-y-1 text-sm">
+              <span className="text-muted-foreground">Iterations</span>
+              <Input
+                type="number"
+                min={1}
+                value={iterations}
+                onChange={(e) => setIterations(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="text-muted-foreground">Delay (ms)</span>
+              <Input
+                type="number"
+                min={0}
+                step={100}
+                value={delay}
+                onChange={(e) => setDelay(e.target.value)}
+              />
+            </label>
+            <div className="space-y-1 text-sm">
+              <span className="text-muted-foreground">Data file</span>
+              <label className="flex items-center gap-2 h-9 px-3 border border-input rounded-md cursor-pointer hover:bg-accent transition-colors">
+                <Upload className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <span className="truncate">
+                  {dataFileName
+                    ? `${dataFileName} (${data.length} rows)`
+                    : "Choose CSV or JSON"}
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,.json"
+                  className="sr-only"
+                  onChange={(e) => {
+                    handleDataFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+            {error && (
+              <p className="sm:col-span-3 text-sm text-destructive">{error}</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+              <span className="font-medium">
+                {runner.results.length}/{total} requests
+              </span>
+              <span className="text-muted-foreground">
+                {summary.passedTests}/{summary.tests} tests passed
+              </span>
+              {summary.failedRequests > 0 && (
+                <span className="text-destructive">
+                  {summary.failedRequests} failed
+                </span>
+              )}
+              <span className="text-muted-foreground">
+                avg {summary.averageTime}ms
+              </span>
+              <span className="ml-auto text-muted-foreground capitalize">
+                {runner.status}
+              </span>
+            </div>
+            <div className="max-h-80 overflow-y-auto divide-y divide-border border border-border rounded-md px-3">
+              {runner.results.map((result, index) => (
+                <React.Fragment key={index}>
+                  {iterationCount > 1 &&
+                    runner.results[index - 1]?.iteration !==
+                      result.iteration && (
+                      <div className="pt-3 pb-1 text-xs font-medium text-muted-foreground">
+                        Iteration {result.iteration + 1}
+                      </div>
+                    )}
+                  <RunnerResultRow result={result} />
+                </React.Fragment>
+              ))}
+              {runner.results.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  Waiting for the first response...
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {runner.status === "idle" && (
+            <Button onClick={handleStart} disabled={requests.length === 0}>
+              <Play className="w-4 h-4 mr-2" />
+              Run
+            </Button>
+          )}
+          {isActive && (
+            <>
+              {runner.status === "paused" ? (
+                <Button variant="ghost" onClick={runner.resume}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Resume
+                </Button>
+              ) : (
+                <Button variant="ghost" onClick={runner.pause}>
+                  <Pause className="w-4 h-4 mr-2" />
+                  Pause
+                </Button>
+              )}
+              <Button variant="destructive" onClick={runner.stop}>
+                <Square className="w-4 h-4 mr-2" />
+                Stop
+              </Button>
+            </>
+          )}
+          {!isActive && runner.status !== "idle" && (
+            <>
+              <Button variant="ghost" onClick={handleExport}>
+                <Download className="w-4 h-4 mr-2" />
+                Export Summary
+              </Button>
+              <Button onClick={runner.reset}>Run Again</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import React from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyValueEditor } from "@/components/key-value-editor";
+import type { Collection, CollectionVariable } from "@/lib/collections";
+import { generateId } from "@/lib/utils";
+
+interface CollectionVariablesDialogProps {
+  collection: Collection | null;
+  onOpenChange: (open: boolean) => void;
+  onUpdateVariables: (id: string, variables: CollectionVariable[]) => void;
+}
+
+export function CollectionVariablesDialog({
+  collection,
+  onOpenChange,
+  onUpdateVariables,
+}: CollectionVariablesDialogProps) {
+  const variables = collection?.variables ?? [];
+
+  const updateVariables = (updated: CollectionVariable[]) => {
+    if (collection) {
+      onUpdateVariables(collection.id, updated);
+    }
+  };
+
+  return (
+    <Dialog open={collection !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{collection?.name} Variables</DialogTitle>
+          <DialogDescription>
+            Available to requests opened from this collection. Variables of
+            the active environment take precedence.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <div className="flex justify-end mb-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                updateVariables([
+                  ...variables,
+                  { id: generateId(), key: "", value: "" },
+                ])
+              }
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Variable
+            </Button>
+          </div>
+          {variables.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No variables yet
+            </p>
+          ) : (
+            <KeyValueEditor
+              rows={variables}
+              onChange={updateVariables}
+              keyPlaceholder="Variable name"
+              valuePlaceholder="Value"
+              removeLabel="Remove variable"
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,592 @@
+"use client";
+
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import {
+  ChevronRight,
+  Download,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Library,
+  MoreHorizontal,
+  Pencil,
+  Copy,
+  Trash2,
+  Plus,
+  Play,
+  Variable,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CollectionVariablesDialog } from "@/components/collection-variables-dialog";
+import {
+  CollectionRunnerDialog,
+  type RunTarget,
+} from "@/components/collection-runner-dialog";
+import {
+  findItem,
+  getCollectionVariables,
+  type Collection,
+  type CollectionItem,
+  type CollectionRequest,
+  type CollectionVariable,
+  type DropPosition,
+} from "@/lib/collections";
+import { exportPostmanCollection } from "@/lib/postman";
+import { collectHarSources, exportHar } from "@/lib/har";
+import { cn, downloadFile, getMethodColor } from "@/lib/utils";
+import { getRequestBadge } from "@/lib/websocket";
+
+interface CollectionsSidebarProps {
+  collections: Collection[];
+  /** Environment variables, for HAR export and the collection runner */
+  variables: Record<string, string>;
+  /** Timeout for runner requests that don't set their own, 0 for none */
+  defaultTimeout: number;
+  onOpenRequest: (item: CollectionRequest, collectionId: string) => void;
+  onCreateCollection: (name: string) => Collection;
+  onRenameCollection: (id: string, name: string) => void;
+  onDuplicateCollection: (id: string) => void;
+  onUpdateCollectionVariables: (
+    id: string,
+    variables: CollectionVariable[]
+  ) => void;
+  onDeleteCollection: (id: string) => void;
+  /** Applies variables set by scripts in the runner to the environment */
+  onUpdateEnvironmentVariables: (
+    changes: Record<string, string | null>
+  ) => void;
+  onCreateFolder: (
+    collectionId: string,
+    parentId: string | null,
+    name: string
+  ) => void;
+  onRenameItem: (collectionId: string, itemId: string, name: string) => void;
+  onDuplicateItem: (collectionId: string, itemId: string) => void;
+  onDeleteItem: (collectionId: string, itemId: string) => void;
+  onMoveItem: (
+    source: { collectionId: string; itemId: string },
+    target: { collectionId: string; itemId: string | null },
+    position: DropPosition
+  ) => void;
+}
+
+interface DragSource {
+  collectionId: string;
+  itemId: string;
+}
+
+interface DropTarget {
+  collectionId: string;
+  itemId: string | null;
+  position: DropPosition;
+}
+
+// Works out where a dragged item would land based on the pointer position
+// within the row: top quarter before, bottom quarter after, and the middle
+// of a folder row drops into the folder.
+function getDropPosition(
+  e: React.DragEvent<HTMLElement>,
+  isFolder: boolean
+): DropPosition {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  if (isFolder) {
+    if (offset < 0.25) return "before";
+    if (offset > 0.75) return "after";
+    return "inside";
+  }
+  return offset < 0.5 ? "before" : "after";
+}
+
+export function CollectionsSidebar({
+  collections,
+  variables,
+  defaultTimeout,
+  onOpenRequest,
+  onCreateCollection,
+  onRenameCollection,
+  onDuplicateCollection,
+  onUpdateCollectionVariables,
+  onDeleteCollection,
+  onUpdateEnvironmentVariables,
+  onCreateFolder,
+  onRenameItem,
+  onDuplicateItem,
+  onDeleteItem,
+  onMoveItem,
+}: CollectionsSidebarProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  // Escape unmounts the input, which fires a blur that must not commit
+  const renameCancelledRef = useRef(false);
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [variablesCollectionId, setVariablesCollectionId] = useState<
+    string | null
+  >(null);
+  const [runIds, setRunIds] = useState<{
+    collectionId: string;
+    folderId: string | null;
+  } | null>(null);
+
+  const runTarget = useMemo((): RunTarget | null => {
+    const collection = collections.find(
+      (candidate) => candidate.id === runIds?.collectionId
+    );
+    if (!runIds || !collection) return null;
+    const folder = runIds.folderId
+      ? findItem(collection.items, runIds.folderId)
+      : null;
+    return {
+      collection,
+      folder: folder?.type === "folder" ? folder : null,
+    };
+  }, [collections, runIds]);
+
+  const toggleExpanded = useCallback((id: string, force?: boolean) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      const open = force ?? !next.has(id);
+      if (open) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const startRename = useCallback((id: string, name: string) => {
+    renameCancelledRef.current = false;
+    setEditingId(id);
+    setEditingName(name);
+  }, []);
+
+  const commitRename = useCallback(
+    (collectionId: string, itemId: string | null) => {
+      const name = editingName.trim();
+      if (name && !renameCancelledRef.current) {
+        if (itemId) {
+          onRenameItem(collectionId, itemId, name);
+        } else {
+          onRenameCollection(collectionId, name);
+        }
+      }
+      renameCancelledRef.current = true;
+      setEditingId(null);
+    },
+    [editingName, onRenameItem, onRenameCollection]
+  );
+
+  const handleNewCollection = useCallback(() => {
+    const collection = onCreateCollection(
+      `New Collection ${collections.length + 1}`
+    );
+    toggleExpanded(collection.id, true);
+    startRename(collection.id, collection.name);
+  }, [collections.length, onCreateCollection, toggleExpanded, startRename]);
+
+  const handleNewFolder = useCallback(
+    (collectionId: string, parentId: string | null) => {
+      onCreateFolder(collectionId, parentId, "New Folder");
+      toggleExpanded(parentId ?? collectionId, true);
+    },
+    [onCreateFolder, toggleExpanded]
+  );
+
+  const handleExport = useCallback((collection: Collection) => {
+    downloadFile(
+      JSON.stringify(exportPostmanCollection(collection), null, 2),
+      `${collection.name}.postman_collection.json`
+    );
+  }, []);
+
+  const handleExportHar = useCallback(
+    (collection: Collection) => {
+      // Environment variables override collection variables, as when sending
+      const har = exportHar(collectHarSources(collection), {
+        ...getCollectionVariables(collection),
+        ...variables,
+      });
+      downloadFile(JSON.stringify(har, null, 2), `${collection.name}.har`);
+    },
+    [variables]
+  );
+
+  const handleDrop = useCallback(() => {
+    if (dragSource && dropTarget) {
+      onMoveItem(
+        dragSource,
+        { collectionId: dropTarget.collectionId, itemId: dropTarget.itemId },
+        dropTarget.position
+      );
+      if (dropTarget.itemId && dropTarget.position === "inside") {
+        toggleExpanded(dropTarget.itemId, true);
+      }
+    }
+    setDragSource(null);
+    setDropTarget(null);
+  }, [dragSource, dropTarget, onMoveItem, toggleExpanded]);
+
+  const renderName = (
+    id: string,
+    name: string,
+    collectionId: string,
+    itemId: string | null
+  ) =>
+    editingId === id ? (
+      <Input
+        value={editingName}
+        autoFocus
+        onChange={(e) => setEditingName(e.target.value)}
+        onClick={(e) => e.stopPropagation()}
+        onBlur={() => commitRename(collectionId, itemId)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commitRename(collectionId, itemId);
+          if (e.key === "Escape") {
+            renameCancelledRef.current = true;
+            setEditingId(null);
+          }
+        }}
+        className="h-7 px-2 text-sm"
+      />
+    ) : (
+      <span className="flex-1 truncate text-sm">{name}</span>
+    );
+
+  const renderItems = (
+    collectionId: string,
+    items: CollectionItem[],
+    depth: number
+  ): React.ReactNode =>
+    items.map((item) => {
+      const isFolder = item.type === "folder";
+      const isOpen = isFolder && expanded.has(item.id);
+      const isDropTarget = dropTarget?.itemId === item.id;
+
+      return (
+        <div key={item.id}>
+          <div
+            draggable={editingId !== item.id}
+            onDragStart={(e) => {
+              e.stopPropagation();
+              e.dataTransfer.effectAllowed = "move";
+              setDragSource({ collectionId, itemId: item.id });
+            }}
+            onDragOver={(e) => {
+              if (!dragSource || dragSource.itemId === item.id) return;
+              e.preventDefault();
+              e.stopPropagation();
+              setDropTarget({
+                collectionId,
+                itemId: item.id,
+                position: getDropPosition(e, isFolder),
+              });
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              handleDrop();
+            }}
+            onDragEnd={() => {
+              setDragSource(null);
+              setDropTarget(null);
+            }}
+            onClick={() =>
+              isFolder
+                ? toggleExpanded(item.id)
+                : onOpenRequest(item, collectionId)
+            }
+            style={{ paddingLeft: `${depth * 0.75 + 0.5}rem` }}
+            className={cn(
+              "group flex items-center gap-2 pr-1 py-1 rounded-md cursor-pointer hover:bg-accent transition-colors border-y-2 border-transparent",
+              dragSource?.itemId === item.id && "opacity-50",
+              isDropTarget &&
+                dropTarget?.position === "before" &&
+                "border-t-primary",
+              isDropTarget &&
+                dropTarget?.position === "after" &&
+                "border-b-primary",
+              isDropTarget &&
+                dropTarget?.position === "inside" &&
+                "bg-accent ring-1 ring-primary"
+            )}
+          >
+            {isFolder ? (
+              <>
+                <ChevronRight
+                  className={cn(
+                    "w-3.5 h-3.5 shrink-0 text-muted-foreground transition-transform",
+                    isOpen && "rotate-90"
+                  )}
+                />
+                {isOpen ? (
+                  <FolderOpen className="w-4 h-4 shrink-0 text-muted-foreground" />
+                ) : (
+                  <Folder className="w-4 h-4 shrink-0 text-muted-foreground" />
+                )}
+              </>
+            ) : (
+              <span
+                className={`px-1 py-0.5 text-[10px] font-mono rounded shrink-0 ${getMethodColor(
+                  getRequestBadge(item.request)
+                )}`}
+              >
+                {getRequestBadge(item.request)}
+              </span>
+            )}
+            {renderName(item.id, item.name, collectionId, item.id)}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={(e) => e.stopPropagation()}
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                >
+                  <MoreHorizontal className="w-3.5 h-3.5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent
+                align="end"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {isFolder && (
+                  <>
+                    <DropdownMenuItem
+                      onClick={() =>
+                        setRunIds({ collectionId, folderId: item.id })
+                      }
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      Run Folder
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => handleNewFolder(collectionId, item.id)}
+                    >
+                      <FolderPlus className="w-4 h-4 mr-2" />
+                      New Folder
+                    </DropdownMenuItem>
+                  </>
+                )}
+                <DropdownMenuItem
+                  onClick={() => startRename(item.id, item.name)}
+                >
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => onDuplicateItem(collectionId, item.id)}
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Duplicate
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => onDeleteItem(collectionId, item.id)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          {isFolder && isOpen && (
+            <div>
+              {item.items.length === 0 ? (
+                <div
+                  style={{ paddingLeft: `${(depth + 1) * 0.75 + 1.5}rem` }}
+                  className="py-1 text-xs text-muted-foreground"
+                >
+                  Empty folder
+                </div>
+              ) : (
+                renderItems(collectionId, item.items, depth + 1)
+              )}
+            </div>
+          )}
+        </div>
+      );
+    });
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-border">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Library className="w-4 h-4" />
+          Collections
+        </CardTitle>
+        <Button variant="ghost" size="sm" onClick={handleNewCollection}>
+          <Plus className="w-4 h-4 mr-1" />
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="p-2 max-h-[70vh] overflow-y-auto">
+        {collections.length === 0 ? (
+          <div className="p-6 text-center text-muted-foreground text-sm">
+            <Library className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            No collections yet. Save a request to create one.
+          </div>
+        ) : (
+          collections.map((collection) => {
+            const isOpen = expanded.has(collection.id);
+            const isDropTarget =
+              dropTarget?.collectionId === collection.id &&
+              dropTarget.itemId === null;
+
+            return (
+              <div key={collection.id}>
+                <div
+                  onClick={() => toggleExpanded(collection.id)}
+                  onDragOver={(e) => {
+                    if (!dragSource) return;
+                    e.preventDefault();
+                    setDropTarget({
+                      collectionId: collection.id,
+                      itemId: null,
+                      position: "inside",
+                    });
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop();
+                  }}
+                  className={cn(
+                    "group flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer hover:bg-accent transition-colors font-medium",
+                    isDropTarget && "bg-accent ring-1 ring-primary"
+                  )}
+                >
+                  <ChevronRight
+                    className={cn(
+                      "w-3.5 h-3.5 shrink-0 text-muted-foreground transition-transform",
+                      isOpen && "rotate-90"
+                    )}
+                  />
+                  {renderName(
+                    collection.id,
+                    collection.name,
+                    collection.id,
+                    null
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(e) => e.stopPropagation()}
+                        className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                      >
+                        <MoreHorizontal className="w-3.5 h-3.5" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent
+                      align="end"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <DropdownMenuItem
+                        onClick={() =>
+                          setRunIds({
+                            collectionId: collection.id,
+                            folderId: null,
+                          })
+                        }
+                      >
+                        <Play className="w-4 h-4 mr-2" />
+                        Run Collection
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleNewFolder(collection.id, null)}
+                      >
+                        <FolderPlus className="w-4 h-4 mr-2" />
+                        New Folder
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() =>
+                          startRename(collection.id, collection.name)
+                        }
+                      >
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => onDuplicateCollection(collection.id)}
+                      >
+                        <Copy className="w-4 h-4 mr-2" />
+                        Duplicate
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => setVariablesCollectionId(collection.id)}
+                      >
+                        <Variable className="w-4 h-4 mr-2" />
+                        Variables
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleExport(collection)}
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Export as Postman
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleExportHar(collection)}
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Export as HAR
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onClick={() => onDeleteCollection(collection.id)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                {isOpen && (
+                  <div className="ml-2">
+                    {collection.items.length === 0 ? (
+                      <div className="pl-6 py-1 text-xs text-muted-foreground">
+                        Empty collection
+                      </div>
+                    ) : (
+                      renderItems(collection.id, collection.items, 0)
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <CollectionVariablesDialog
+        collection={
+          collections.find(
+            (collection) => collection.id === variablesCollectionId
+          ) ?? null
+        }
+        onOpenChange={(open) => !open && setVariablesCollectionId(null)}
+        onUpdateVariables={onUpdateCollectionVariables}
+      />
+      <CollectionRunnerDialog
+        target={runTarget}
+        variables={variables}
+        defaultTimeout={defaultTimeout}
+        onOpenChange={(open) => !open && setRunIds(null)}
+        onUpdateEnvironmentVariables={onUpdateEnvironmentVariables}
+      />
+    </Card>
+  );
+}
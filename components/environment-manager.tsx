@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useState } from "react";
+import { Plus, Trash2, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyValueEditor } from "@/components/key-value-editor";
+import type {
+  Environment,
+  EnvironmentVariable,
+} from "@/hooks/use-environments";
+import { cn, generateId } from "@/lib/utils";
+
+interface EnvironmentManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+  onSelectEnvironment: (id: string | null) => void;
+  onCreateEnvironment: (name: string) => Environment;
+  onUpdateEnvironment: (
+    id: string,
+    changes: Partial<Omit<Environment, "id">>
+  ) => void;
+  onDeleteEnvironment: (id: string) => void;
+}
+
+export function EnvironmentManager({
+  open,
+  onOpenChange,
+  environments,
+  activeEnvironmentId,
+  onSelectEnvironment,
+  onCreateEnvironment,
+  onUpdateEnvironment,
+  onDeleteEnvironment,
+}: EnvironmentManagerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected =
+    environments.find((env) => env.id === selectedId) ??
+    environments.find((env) => env.id === activeEnvironmentId) ??
+    environments[0];
+
+  const handleCreate = () => {
+    const environment = onCreateEnvironment(
+      `Environment ${environments.length + 1}`
+    );
+    setSelectedId(environment.id);
+  };
+
+  const updateVariables = (variables: EnvironmentVariable[]) => {
+    if (selected) {
+      onUpdateEnvironment(selected.id, { variables });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Environments</DialogTitle>
+          <DialogDescription>
+            Reference variables as{" "}
+            <code className="px-1 bg-muted rounded border border-border">
+              {"{{name}}"}
+            </code>{" "}
+            in the URL, headers and body.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[12rem_1fr] gap-4 min-h-64">
+          <div className="space-y-1 sm:border-r sm:border-border sm:pr-4">
+            {environments.map((env) => (
+              <button
+                key={env.id}
+                onClick={() => setSelectedId(env.id)}
+                className={cn(
+                  "flex items-center gap-2 w-full px-2 py-1.5 text-left text-sm rounded-md hover:bg-accent transition-colors",
+                  selected?.id === env.id && "bg-accent font-medium"
+                )}
+              >
+                <span className="flex-1 truncate">{env.name}</span>
+                {env.id === activeEnvironmentId && (
+                  <Check className="w-3.5 h-3.5 text-primary" />
+                )}
+              </button>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start"
+              onClick={handleCreate}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              New Environment
+            </Button>
+          </div>
+
+          {selected ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  value={selected.name}
+                  onChange={(e) =>
+                    onUpdateEnvironment(selected.id, { name: e.target.value })
+                  }
+                  placeholder="Environment name"
+                />
+                <Button
+                  variant={
+                    selected.id === activeEnvironmentId ? "secondary" : "outline"
+                  }
+                  onClick={() =>
+                    onSelectEnvironment(
+                      selected.id === activeEnvironmentId ? null : selected.id
+                    )
+                  }
+                >
+                  {selected.id === activeEnvironmentId ? "Active" : "Activate"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => {
+                    onDeleteEnvironment(selected.id);
+                    setSelectedId(null);
+                  }}
+                  className="text-destructive hover:text-destructive border-destructive/30 bg-destructive/5"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium">Variables</h3>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateVariables([
+                        ...selected.variables,
+                        { id: generateId(), key: "", value: "" },
+                      ])
+                    }
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Variable
+                  </Button>
+                </div>
+                <KeyValueEditor
+                  rows={selected.variables}
+                  onChange={updateVariables}
+                  keyPlaceholder="Variable name"
+                  valuePlaceholder="Value"
+                  removeLabel="Remove variable"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center text-sm text-muted-foreground">
+              Create an environment to get started
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useState } from "react";
+import { Layers, Check, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EnvironmentManager } from "@/components/environment-manager";
+import type { Environment } from "@/hooks/use-environments";
+
+interface EnvironmentSwitcherProps {
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+  onSelectEnvironment: (id: string | null) => void;
+  onCreateEnvironment: (name: string) => Environment;
+  onUpdateEnvironment: (
+    id: string,
+    changes: Partial<Omit<Environment, "id">>
+  ) => void;
+  onDeleteEnvironment: (id: string) => void;
+}
+
+export function EnvironmentSwitcher({
+  environments,
+  activeEnvironmentId,
+  onSelectEnvironment,
+  onCreateEnvironment,
+  onUpdateEnvironment,
+  onDeleteEnvironment,
+}: EnvironmentSwitcherProps) {
+  const [managerOpen, setManagerOpen] = useState(false);
+
+  const activeEnvironment = environments.find(
+    (env) => env.id === activeEnvironmentId
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-muted-foreground hover:text-foreground gap-2"
+          >
+            <Layers className="h-4 w-4" />
+            <span className="max-w-[16ch] truncate">
+              {activeEnvironment?.name ?? "No Environment"}
+            </span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Environment</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => onSelectEnvironment(null)}
+            className="flex items-center gap-3 cursor-pointer"
+          >
+            <span className="flex-1 text-sm">No Environment</span>
+            {!activeEnvironment && <Check className="h-4 w-4 text-primary" />}
+          </DropdownMenuItem>
+          {environments.map((env) => (
+            <DropdownMenuItem
+              key={env.id}
+              onClick={() => onSelectEnvironment(env.id)}
+              className="flex items-center gap-3 cursor-pointer"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{env.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {env.variables.filter((v) => v.key).length} variables
+                </div>
+              </div>
+              {env.id === activeEnvironmentId && (
+                <Check className="h-4 w-4 text-primary" />
+              )}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setManagerOpen(true)}
+            className="flex items-center gap-3 cursor-pointer"
+          >
+            <Settings2 className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm">Manage Environments</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <EnvironmentManager
+        open={managerOpen}
+        onOpenChange={setManagerOpen}
+        environments={environments}
+        activeEnvironmentId={activeEnvironmentId}
+        onSelectEnvironment={onSelectEnvironment}
+        onCreateEnvironment={onCreateEnvironment}
+        onUpdateEnvironment={onUpdateEnvironment}
+        onDeleteEnvironment={onDeleteEnvironment}
+      />
+    </>
+  );
+}
@@ -24,6 +24,7 @@ import {
   DropdownMenuSubContent,
   DropdownMenuPortal,
 } from "@/components/ui/dropdown-menu";
+import { getMethodColor } from "@/lib/utils";
 
 interface ExampleApi {
   name: string;
@@ -398,23 +399,6 @@ const exampleApis: ExampleApi[] = [
   },
 ];
 
-const getMethodColor = (method: string) => {
-  switch (method) {
-    case "GET":
-      return "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-200 dark:border-green-800";
-    case "POST":
-      return "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-200 dark:border-blue-800";
-    case "PUT":
-      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300 border border-yellow-200 dark:border-yellow-800";
-    case "PATCH":
-      return "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300 border border-orange-200 dark:border-orange-800";
-    case "DELETE":
-      return "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300 border border-red-200 dark:border-red-800";
-    default:
-      return "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300 border border-gray-200 dark:border-gray-800";
-  }
-};
-
 const getCategoryIcon = (category: string) => {
   switch (category) {
     case "REST APIs":
@@ -0,0 +1,381 @@
+"use client";
+
+import React, {
+  useDeferredValue,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { BookOpen, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { UnresolvedVariablesHint } from "@/components/key-value-editor";
+import { GraphqlSchemaExplorer } from "@/components/graphql-schema-explorer";
+import { cn } from "@/lib/utils";
+import { findUnresolvedVariables, resolveVariables } from "@/lib/variables";
+import {
+  buildGraphqlBody,
+  type GraphqlBody,
+  type GraphqlSchema,
+} from "@/lib/graphql";
+import {
+  getGraphqlCompletions,
+  getOperations,
+  validateGraphqlDocument,
+  type GraphqlCompletion,
+  type GraphqlCompletionResult,
+} from "@/lib/graphql-document";
+
+interface GraphqlEditorProps {
+  graphql: GraphqlBody;
+  setGraphql: (graphql: GraphqlBody) => void;
+  /** Introspected schema of the endpoint, once fetched */
+  schema: GraphqlSchema | null;
+  onFetchSchema: () => Promise<void>;
+  variables: Record<string, string>;
+}
+
+const TEXTAREA_CLASS_NAME =
+  "w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none";
+
+const SELECT_CLASS_NAME =
+  "px-2 py-1 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent";
+
+const MAX_SUGGESTIONS = 50;
+const MAX_DIAGNOSTICS = 5;
+
+// Typing one of these opens the suggestions; other input closes them
+const COMPLETION_TRIGGER = /[_A-Za-z0-9{(:.@]$/;
+
+const COMPLETION_KIND_CLASSES: Record<GraphqlCompletion["kind"], string> = {
+  field: "text-blue-600 dark:text-blue-400",
+  argument: "text-purple-600 dark:text-purple-400",
+  value: "text-green-600 dark:text-green-400",
+  type: "text-yellow-600 dark:text-yellow-400",
+  keyword: "text-muted-foreground",
+};
+
+export function GraphqlEditor({
+  graphql,
+  setGraphql,
+  schema,
+  onFetchSchema,
+  variables,
+}: GraphqlEditorProps) {
+  const [completion, setCompletion] = useState<GraphqlCompletionResult | null>(
+    null
+  );
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [fetchingSchema, setFetchingSchema] = useState(false);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [showExplorer, setShowExplorer] = useState(false);
+  const queryRef = useRef<HTMLTextAreaElement>(null);
+  const suggestionsRef = useRef<HTMLUListElement>(null);
+
+  const deferredQuery = useDeferredValue(graphql.query);
+  const diagnostics = useMemo(
+    () => validateGraphqlDocument(deferredQuery, schema),
+    [deferredQuery, schema]
+  );
+
+  const operations = useMemo(
+    () => getOperations(graphql.query),
+    [graphql.query]
+  );
+  const namedOperations = useMemo(
+    () => operations.flatMap(({ name }) => (name ? [name] : [])),
+    [operations]
+  );
+  const needsOperationName = operations.length > 1;
+
+  // A selected operation that was renamed or removed would fail on send
+  useEffect(() => {
+    if (
+      graphql.operationName &&
+      !namedOperations.includes(graphql.operationName)
+    ) {
+      setGraphql({ ...graphql, operationName: "" });
+    }
+  }, [graphql, namedOperations, setGraphql]);
+
+  // Variables are checked as they will be sent, after {{substitution}}
+  const variablesError = useMemo(() => {
+    try {
+      buildGraphqlBody({
+        query: "",
+        operationName: "",
+        variables: resolveVariables(graphql.variables, variables).value,
+      });
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }, [graphql.variables, variables]);
+
+  const unresolved = useMemo(
+    () =>
+      findUnresolvedVariables(
+        `${graphql.query}\n${graphql.variables}`,
+        variables
+      ),
+    [graphql.query, graphql.variables, variables]
+  );
+
+  const suggestions = completion?.items.slice(0, MAX_SUGGESTIONS) ?? [];
+
+  useEffect(() => {
+    suggestionsRef.current?.children[selectedIndex]?.scrollIntoView({
+      block: "nearest",
+    });
+  }, [selectedIndex]);
+
+  const showCompletions = (query: string, cursor: number) => {
+    setCompletion(getGraphqlCompletions(query, cursor, schema));
+    setSelectedIndex(0);
+  };
+
+  const acceptCompletion = (item: GraphqlCompletion) => {
+    if (!completion) return;
+    const { from, to } = completion;
+    const cursor = from + item.label.length;
+    setGraphql({
+      ...graphql,
+      query:
+        graphql.query.slice(0, from) + item.label + graphql.query.slice(to),
+    });
+    setCompletion(null);
+    // The caret can only be placed once the new value is rendered
+    requestAnimationFrame(() => {
+      queryRef.current?.focus();
+      queryRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleQueryChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart } = e.target;
+    setGraphql({ ...graphql, query: value });
+
+    const inserted = (e.nativeEvent as InputEvent).data;
+    if (inserted ? COMPLETION_TRIGGER.test(inserted) : completion) {
+      // Deleting while the list is open narrows it again
+      showCompletions(value, selectionStart);
+    } else {
+      setCompletion(null);
+    }
+  };
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === " " && e.ctrlKey) {
+      e.preventDefault();
+      showCompletions(graphql.query, e.currentTarget.selectionStart);
+      return;
+    }
+    if (!completion || suggestions.length === 0) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setSelectedIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setSelectedIndex(
+          (index) => (index - 1 + suggestions.length) % suggestions.length
+        );
+        break;
+      case "Enter":
+      case "Tab":
+        e.preventDefault();
+        acceptCompletion(suggestions[selectedIndex]);
+        break;
+      case "Escape":
+        e.preventDefault();
+        setCompletion(null);
+        break;
+    }
+  };
+
+  const handleFetchSchema = async () => {
+    setFetchingSchema(true);
+    setSchemaError(null);
+    try {
+      await onFetchSchema();
+    } catch (error) {
+      setSchemaError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setFetchingSchema(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleFetchSchema}
+          disabled={fetchingSchema}
+        >
+          <RefreshCw
+            className={cn("w-4 h-4 mr-1", fetchingSchema && "animate-spin")}
+          />
+          {schema ? "Refresh Schema" : "Fetch Schema"}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowExplorer(true)}
+          disabled={!schema}
+        >
+          <BookOpen className="w-4 h-4 mr-1" />
+          Explorer
+        </Button>
+        {needsOperationName && (
+          <select
+            value={graphql.operationName}
+            onChange={(e) =>
+              setGraphql({ ...graphql, operationName: e.target.value })
+            }
+            className={SELECT_CLASS_NAME}
+            aria-label="Operation"
+          >
+            <option value="">Select an operation</option>
+            {namedOperations.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {schema
+            ? `${Object.keys(schema.types).length} types`
+            : "Fetch the schema for autocomplete and validation"}
+        </span>
+      </div>
+      {schemaError && (
+        <p className="text-sm text-destructive">
+          <strong>Schema Error:</strong> {schemaError}
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-muted-foreground">
+          Query
+        </label>
+        <div className="relative">
+          <textarea
+            ref={queryRef}
+            value={graphql.query}
+            onChange={handleQueryChange}
+            onKeyDown={handleQueryKeyDown}
+            onClick={() => setCompletion(null)}
+            onBlur={() => setCompletion(null)}
+            placeholder={"query {\n  field\n}"}
+            rows={10}
+            spellCheck={false}
+            className={cn(
+              TEXTAREA_CLASS_NAME,
+              diagnostics.length > 0 &&
+                "border-destructive focus:border-destructive"
+            )}
+          />
+          {suggestions.length > 0 && (
+            <ul
+              ref={suggestionsRef}
+              role="listbox"
+              className="absolute left-0 right-0 top-full z-10 mt-1 max-h-56 overflow-y-auto rounded-md border border-border bg-popover text-popover-foreground shadow-md"
+            >
+              {suggestions.map((item, index) => (
+                <li
+                  key={`${item.kind}-${item.label}`}
+                  role="option"
+                  aria-selected={index === selectedIndex}
+                  // Keeps focus in the textarea so the caret is not lost
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    acceptCompletion(item);
+                  }}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  className={cn(
+                    "flex items-baseline gap-2 px-2 py-1 text-sm cursor-pointer",
+                    index === selectedIndex && "bg-accent"
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "font-mono",
+                      COMPLETION_KIND_CLASSES[item.kind],
+                      item.deprecated && "line-through"
+                    )}
+                  >
+                    {item.label}
+                  </span>
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {item.detail}
+                  </span>
+                  {item.description && (
+                    <span className="ml-auto truncate text-xs text-muted-foreground">
+                      {item.description}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {diagnostics.length > 0 && (
+          <ul className="text-sm text-destructive space-y-0.5">
+            {diagnostics.slice(0, MAX_DIAGNOSTICS).map((diagnostic, index) => (
+              <li key={index}>
+                <span className="font-mono text-xs">
+                  {diagnostic.line}:{diagnostic.column}
+                </span>{" "}
+                {diagnostic.message}
+              </li>
+            ))}
+            {diagnostics.length > MAX_DIAGNOSTICS && (
+              <li className="text-xs">
+                and {diagnostics.length - MAX_DIAGNOSTICS} more
+              </li>
+            )}
+          </ul>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Press Ctrl+Space for suggestions.
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs font-medium text-muted-foreground">
+          Variables
+        </label>
+        <textarea
+          value={graphql.variables}
+          onChange={(e) =>
+            setGraphql({ ...graphql, variables: e.target.value })
+          }
+          placeholder={'{\n  "id": 1\n}'}
+          rows={4}
+          spellCheck={false}
+          className={cn(
+            TEXTAREA_CLASS_NAME,
+            variablesError && "border-destructive focus:border-destructive"
+          )}
+        />
+        {variablesError && (
+          <p className="text-sm text-destructive">{variablesError}</p>
+        )}
+      </div>
+      <UnresolvedVariablesHint names={unresolved} />
+
+      {schema && (
+        <GraphqlSchemaExplorer
+          open={showExplorer}
+          onOpenChange={setShowExplorer}
+          schema={schema}
+        />
+      )}
+    </div>
+  );
+}
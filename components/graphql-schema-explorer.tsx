@@ -0,0 +1,342 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ChevronRight, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import {
+  formatTypeRef,
+  getNamedType,
+  isIntrospectionType,
+  type GraphqlInputValue,
+  type GraphqlSchema,
+  type GraphqlTypeRef,
+} from "@/lib/graphql";
+
+interface GraphqlSchemaExplorerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schema: GraphqlSchema;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  SCALAR: "scalar",
+  OBJECT: "type",
+  INTERFACE: "interface",
+  UNION: "union",
+  ENUM: "enum",
+  INPUT_OBJECT: "input",
+};
+
+function TypeLink({
+  typeRef,
+  onOpen,
+}: {
+  typeRef: GraphqlTypeRef;
+  onOpen: (name: string) => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen(getNamedType(typeRef))}
+      className="font-mono text-primary hover:underline"
+    >
+      {formatTypeRef(typeRef)}
+    </button>
+  );
+}
+
+function Description({ text }: { text: string | null }) {
+  if (!text) return null;
+  return (
+    <p className="text-xs text-muted-foreground whitespace-pre-wrap">{text}</p>
+  );
+}
+
+function ArgumentList({
+  args,
+  onOpen,
+}: {
+  args: GraphqlInputValue[];
+  onOpen: (name: string) => void;
+}) {
+  if (args.length === 0) return null;
+  return (
+    <span className="font-mono">
+      (
+      {args.map((arg, index) => (
+        <span key={arg.name}>
+          {index > 0 && ", "}
+          <span className="text-foreground">{arg.name}</span>:{" "}
+          <TypeLink typeRef={arg.type} onOpen={onOpen} />
+          {arg.defaultValue !== null && ` = ${arg.defaultValue}`}
+        </span>
+      ))}
+      )
+    </span>
+  );
+}
+
+export function GraphqlSchemaExplorer({
+  open,
+  onOpenChange,
+  schema,
+}: GraphqlSchemaExplorerProps) {
+  // Type names from the root, for the breadcrumb and going back
+  const [path, setPath] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+
+  const current = path.length > 0 ? schema.types[path[path.length - 1]] : null;
+
+  const rootTypes = [
+    schema.queryType,
+    schema.mutationType,
+    schema.subscriptionType,
+  ].filter((name): name is string => Boolean(name && schema.types[name]));
+
+  const matchingTypes = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return Object.values(schema.types)
+      .filter(
+        (type) =>
+          !isIntrospectionType(type.name) &&
+          type.name.toLowerCase().includes(needle)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [schema, search]);
+
+  const openType = (name: string) => {
+    if (schema.types[name]) {
+      setPath((prev) => [...prev, name]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Schema Explorer</DialogTitle>
+          <DialogDescription>
+            Types, fields and arguments from the introspected schema.
+          </DialogDescription>
+        </DialogHeader>
+
+        <nav className="flex flex-wrap items-center gap-1 text-sm">
+          <button
+            type="button"
+            onClick={() => setPath([])}
+            className={cn(
+              "hover:underline",
+              path.length === 0 ? "font-medium" : "text-muted-foreground"
+            )}
+          >
+            Schema
+          </button>
+          {path.map((name, index) => (
+            <React.Fragment key={`${name}-${index}`}>
+              <ChevronRight className="w-3 h-3 text-muted-foreground" />
+              <button
+                type="button"
+                onClick={() => setPath(path.slice(0, index + 1))}
+                className={cn(
+                  "font-mono hover:underline",
+                  index === path.length - 1
+                    ? "font-medium"
+                    : "text-muted-foreground"
+                )}
+              >
+                {name}
+              </button>
+            </React.Fragment>
+          ))}
+        </nav>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4 text-sm min-w-0">
+          {!current ? (
+            <>
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium uppercase text-muted-foreground">
+                  Root Types
+                </h4>
+                {rootTypes.map((name) => (
+                  <div key={name}>
+                    <span className="text-muted-foreground">
+                      {name === schema.queryType
+                        ? "query"
+                        : name === schema.mutationType
+                          ? "mutation"
+                          : "subscription"}
+                      :{" "}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => openType(name)}
+                      className="font-mono text-primary hover:underline"
+                    >
+                      {name}
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-xs font-medium uppercase text-muted-foreground">
+                  All Types
+                </h4>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search types"
+                    className="pl-9"
+                  />
+                </div>
+                <div className="divide-y divide-border border border-border rounded-md">
+                  {matchingTypes.map((type) => (
+                    <button
+                      key={type.name}
+                      type="button"
+                      onClick={() => openType(type.name)}
+                      className="flex w-full items-center justify-between gap-2 px-2 py-1.5 text-left hover:bg-muted"
+                    >
+                      <span className="font-mono truncate">{type.name}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {KIND_LABELS[type.kind]}
+                      </span>
+                    </button>
+                  ))}
+                  {matchingTypes.length === 0 && (
+                    <p className="p-3 text-center text-muted-foreground">
+                      No types match &quot;{search}&quot;
+                    </p>
+                  )}
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <p>
+                  <span className="text-muted-foreground">
+                    {KIND_LABELS[current.kind]}{" "}
+                  </span>
+                  <span className="font-mono font-medium">{current.name}</span>
+                  {current.interfaces.length > 0 && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      implements{" "}
+                      {current.interfaces.map((name, index) => (
+                        <span key={name}>
+                          {index > 0 && " & "}
+                          <button
+                            type="button"
+                            onClick={() => openType(name)}
+                            className="font-mono text-primary hover:underline"
+                          >
+                            {name}
+                          </button>
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </p>
+                <Description text={current.description} />
+              </div>
+
+              {current.fields.length > 0 && (
+                <ul className="space-y-2">
+                  {current.fields.map((field) => (
+                    <li key={field.name} className="break-words">
+                      <span
+                        className={cn(
+                          "font-mono",
+                          field.isDeprecated && "line-through opacity-70"
+                        )}
+                      >
+                        {field.name}
+                      </span>
+                      <ArgumentList args={field.args} onOpen={openType} />
+                      <span className="font-mono">: </span>
+                      <TypeLink typeRef={field.type} onOpen={openType} />
+                      <Description text={field.description} />
+                      {field.isDeprecated && (
+                        <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                          Deprecated
+                          {field.deprecationReason &&
+                            `: ${field.deprecationReason}`}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {current.inputFields.length > 0 && (
+                <ul className="space-y-2">
+                  {current.inputFields.map((field) => (
+                    <li key={field.name} className="break-words">
+                      <span className="font-mono">{field.name}: </span>
+                      <TypeLink typeRef={field.type} onOpen={openType} />
+                      {field.defaultValue !== null && (
+                        <span className="font-mono">
+                          {" "}
+                          = {field.defaultValue}
+                        </span>
+                      )}
+                      <Description text={field.description} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {current.enumValues.length > 0 && (
+                <ul className="space-y-2">
+                  {current.enumValues.map((value) => (
+                    <li key={value.name}>
+                      <span
+                        className={cn(
+                          "font-mono",
+                          value.isDeprecated && "line-through opacity-70"
+                        )}
+                      >
+                        {value.name}
+                      </span>
+                      <Description text={value.description} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {current.possibleTypes.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-xs font-medium uppercase text-muted-foreground">
+                    Possible Types
+                  </h4>
+                  {current.possibleTypes.map((name) => (
+                    <div key={name}>
+                      <button
+                        type="button"
+                        onClick={() => openType(name)}
+                        className="font-mono text-primary hover:underline"
+                      >
+                        {name}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
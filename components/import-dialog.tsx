@@ -0,0 +1,281 @@
+"use client";
+
+import React, { useState } from "react";
+import { AlertTriangle, CheckCircle, Import, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { parseCurlCommand, type ParsedCurl } from "@/lib/curl";
+import { importPostmanCollection } from "@/lib/postman";
+import { importOpenApiDocument, parseApiDocument } from "@/lib/openapi";
+import { importHar } from "@/lib/har";
+import type { ImportResult, ImportSummary } from "@/lib/import-report";
+import type { Collection } from "@/lib/collections";
+
+type ImportSource = "curl" | "postman" | "openapi" | "har";
+
+interface ImportDialogProps {
+  onImportCurl: (request: ParsedCurl) => void;
+  onImportCollection: (collection: Collection) => void;
+}
+
+const SOURCES: Array<{
+  id: ImportSource;
+  label: string;
+  description: string;
+}> = [
+  {
+    id: "curl",
+    label: "cURL",
+    description:
+      "Paste a cURL command to load its method, URL, headers, body and basic auth into the request editor.",
+  },
+  {
+    id: "postman",
+    label: "Postman Collection",
+    description:
+      "Paste or upload a Postman Collection v2.1 export to add it to your collections.",
+  },
+  {
+    id: "openapi",
+    label: "OpenAPI",
+    description:
+      "Paste or upload an OpenAPI 3 or Swagger 2.0 document in JSON or YAML. Each operation becomes a request, grouped by tag.",
+  },
+  {
+    id: "har",
+    label: "HAR",
+    description:
+      "Upload a HAR file, e.g. one saved from the Network tab of the browser DevTools, to turn the recorded traffic into a collection of requests.",
+  },
+];
+
+const CURL_PLACEHOLDER = `curl -X POST 'https://api.example.com/users' \\
+  -H 'Content-Type: application/json' \\
+  -d '{"name": "Jane"}'`;
+
+const POSTMAN_PLACEHOLDER = `{
+  "info": {
+    "name": "My API",
+    "schema": "https://schema.getpostman.com/json/collection/v2.1.0/collection.json"
+  },
+  "item": []
+}`;
+
+const OPENAPI_PLACEHOLDER = `openapi: 3.0.3
+info:
+  title: My API
+servers:
+  - url: https://api.example.com
+paths: {}`;
+
+const HAR_PLACEHOLDER = `{
+  "log": {
+    "version": "1.2",
+    "entries": []
+  }
+}`;
+
+const PLACEHOLDERS: Record<ImportSource, string> = {
+  curl: CURL_PLACEHOLDER,
+  postman: POSTMAN_PLACEHOLDER,
+  openapi: OPENAPI_PLACEHOLDER,
+  har: HAR_PLACEHOLDER,
+};
+
+function ImportSummaryView({ summary }: { summary: ImportSummary }) {
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="flex items-center gap-2">
+        <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
+        Imported {summary.requests}{" "}
+        {summary.requests === 1 ? "request" : "requests"} in {summary.folders}{" "}
+        {summary.folders === 1 ? "folder" : "folders"} into &quot;
+        {summary.collectionName}&quot;.
+      </p>
+      {summary.warnings.length > 0 && (
+        <div className="p-3 rounded-md border border-yellow-300 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 max-h-64 overflow-y-auto">
+          <p className="flex items-center gap-2 mb-2 font-medium text-yellow-800 dark:text-yellow-300">
+            <AlertTriangle className="w-4 h-4" />
+            Some parts could not be imported
+          </p>
+          <ul className="space-y-1.5 list-disc pl-5">
+            {summary.warnings.map((warning) => (
+              <li key={warning.message}>
+                {warning.message}
+                <span className="block text-xs text-muted-foreground truncate">
+                  {warning.items.join(", ")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ImportDialog({
+  onImportCurl,
+  onImportCollection,
+}: ImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState<ImportSource>("curl");
+  const [text, setText] = useState("");
+  // Names the collection of a HAR import after the uploaded file
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setText("");
+      setFileName(undefined);
+      setError(null);
+      setSummary(null);
+    }
+  };
+
+  const handleSourceChange = (next: ImportSource) => {
+    setSource(next);
+    setText("");
+    setFileName(undefined);
+    setError(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setFileName(file.name);
+    setError(null);
+  };
+
+  const handleImport = () => {
+    try {
+      if (source === "curl") {
+        onImportCurl(parseCurlCommand(text));
+        handleOpenChange(false);
+        return;
+      }
+
+      let result: ImportResult;
+      if (source === "openapi") {
+        result = importOpenApiDocument(parseApiDocument(text));
+      } else {
+        let json: unknown;
+        try {
+          json = JSON.parse(text);
+        } catch {
+          throw new Error("The file is not valid JSON");
+        }
+        result =
+          source === "har"
+            ? importHar(json, fileName)
+            : importPostmanCollection(json);
+      }
+      onImportCollection(result.collection);
+      // Keep the dialog open so anything that was skipped can be reviewed
+      setSummary(result.summary);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Import className="w-4 h-4 mr-2" />
+        Import
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Import className="w-4 h-4" />
+              Import
+            </DialogTitle>
+            <DialogDescription>
+              {SOURCES.find((option) => option.id === source)?.description}
+            </DialogDescription>
+          </DialogHeader>
+
+          {summary ? (
+            <ImportSummaryView summary={summary} />
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                {SOURCES.map((option) => (
+                  <Button
+                    key={option.id}
+                    variant={source === option.id ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => handleSourceChange(option.id)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+                {source !== "curl" && (
+                  <label className="ml-auto flex items-center gap-2 h-8 px-3 border border-input rounded-md text-sm cursor-pointer hover:bg-accent transition-colors">
+                    <Upload className="w-4 h-4 text-muted-foreground" />
+                    Choose file
+                    <input
+                      type="file"
+                      accept=".json,.yaml,.yml,.har"
+                      className="sr-only"
+                      onChange={(e) => {
+                        handleFile(e.target.files?.[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+
+              <textarea
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  setError(null);
+                }}
+                placeholder={PLACEHOLDERS[source]}
+                rows={10}
+                autoFocus
+                className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none"
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </>
+          )}
+
+          <DialogFooter>
+            {summary ? (
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleImport} disabled={!text.trim()}>
+                  <Import className="w-4 h-4 mr-2" />
+                  Import
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useCallback } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Delete } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { findUnresolvedVariables, formatVariableList } from "@/lib/variables";
+
+export interface KeyValueRow {
+  id: string;
+  key: string;
+  value: string;
+  enabled?: boolean;
+}
+
+interface KeyValueEditorProps<T extends KeyValueRow> {
+  rows: T[];
+  onChange: (rows: T[]) => void;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  removeLabel?: string;
+  /** Show a checkbox per row that toggles its `enabled` flag */
+  showEnabledToggle?: boolean;
+  /** When given, {{variables}} missing from this map are highlighted */
+  variables?: Record<string, string>;
+  /** Replaces the value input of a row, e.g. with a file picker */
+  renderValue?: (
+    row: T,
+    updateRow: (changes: Partial<T>) => void
+  ) => React.ReactNode;
+}
+
+export const UNRESOLVED_CLASS =
+  "border-destructive focus-visible:ring-destructive";
+
+export function UnresolvedVariablesHint({ names }: { names: string[] }) {
+  if (names.length === 0) return null;
+  return (
+    <p className="mt-1 text-xs text-destructive">
+      Unresolved: {formatVariableList(names)}
+    </p>
+  );
+}
+
+export function KeyValueEditor<T extends KeyValueRow>({
+  rows,
+  onChange,
+  keyPlaceholder = "Key",
+  valuePlaceholder = "Value",
+  removeLabel = "Remove",
+  showEnabledToggle = false,
+  variables,
+  renderValue,
+}: KeyValueEditorProps<T>) {
+  const updateRow = useCallback(
+    (id: string, changes: Partial<T>) => {
+      onChange(
+        rows.map((row) => (row.id === id ? { ...row, ...changes } : row))
+      );
+    },
+    [rows, onChange]
+  );
+
+  const removeRow = useCallback(
+    (id: string) => {
+      onChange(rows.filter((row) => row.id !== id));
+    },
+    [rows, onChange]
+  );
+
+  return (
+    <div className="space-y-2">
+      <AnimatePresence>
+        {rows.map((row) => {
+          const unresolvedKey = variables
+            ? findUnresolvedVariables(row.key, variables)
+            : [];
+          const unresolvedValue = variables
+            ? findUnresolvedVariables(row.value, variables)
+            : [];
+          const unresolved = [...unresolvedKey, ...unresolvedValue];
+
+          return (
+            <motion.div
+              key={row.id}
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              exit={{ opacity: 0, height: 0 }}
+              transition={{ duration: 0.2, ease: "easeInOut" }}
+              className={cn(
+                "grid gap-2 sm:items-center",
+                showEnabledToggle
+                  ? "grid-cols-[auto_1fr_auto]"
+                  : "grid-cols-[1fr_auto]"
+              )}
+            >
+              {showEnabledToggle && (
+                <input
+                  type="checkbox"
+                  checked={row.enabled !== false}
+                  onChange={(e) =>
+                    updateRow(row.id, {
+                      enabled: e.target.checked,
+                    } as Partial<T>)
+                  }
+                  aria-label="Enabled"
+                  className="w-4 h-4 accent-primary cursor-pointer"
+                />
+              )}
+              <div
+                className={cn(
+                  "flex-1",
+                  showEnabledToggle && row.enabled === false && "opacity-50"
+                )}
+              >
+                <div className="flex flex-col sm:flex-row gap-2 flex-1">
+                  <Input
+                    value={row.key}
+                    onChange={(e) =>
+                      updateRow(row.id, { key: e.target.value } as Partial<T>)
+                    }
+                    placeholder={keyPlaceholder}
+                    className={cn(
+                      "flex-1",
+                      unresolvedKey.length > 0 && UNRESOLVED_CLASS
+                    )}
+                  />
+                  {renderValue ? (
+                    renderValue(row, (changes) => updateRow(row.id, changes))
+                  ) : (
+                    <Input
+                      value={row.value}
+                      onChange={(e) =>
+                        updateRow(row.id, {
+                          value: e.target.value,
+                        } as Partial<T>)
+                      }
+                      placeholder={valuePlaceholder}
+                      className={cn(
+                        "flex-1",
+                        unresolvedValue.length > 0 && UNRESOLVED_CLASS
+                      )}
+                    />
+                  )}
+                </div>
+                <UnresolvedVariablesHint names={unresolved} />
+              </div>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => removeRow(row.id)}
+                    className="text-destructive hover:text-destructive h-full border-destructive/30 bg-destructive/5"
+                  >
+                    <Delete className="w-4 h-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{removeLabel}</p>
+                </TooltipContent>
+              </Tooltip>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
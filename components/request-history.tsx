@@ -1,145 +1,400 @@
 "use client";
 
-import React, { useCallback, useState } from "react";
-import { History, Trash2, Play } from "lucide-react";
+import React, { useCallback, useDeferredValue, useMemo, useState } from "react";
+import { Download, History, Pin, Play, Search, Trash2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuLabel,
-  DropdownMenuSeparator,
-  DropdownMenuTrigger,
-} from "@/components/ui/dropdown-menu";
-import { useLocalStorage, type SavedRequest } from "@/hooks/use-local-storage";
-import { formatTime } from "@/lib/utils";
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { SavedRequest } from "@/hooks/use-history";
+import type { ApiResponse } from "@/lib/http-client";
+import { cn, downloadFile, formatTime, getMethodColor } from "@/lib/utils";
+import { AUTH_TYPE_LABELS } from "@/lib/auth";
+import { exportHar } from "@/lib/har";
+import {
+  EMPTY_HISTORY_FILTERS,
+  filterHistory,
+  getStatusClass,
+  STATUS_CLASS_LABELS,
+  type HistoryFilters,
+  type StatusClass,
+} from "@/lib/history";
 
 interface RequestHistoryProps {
-  onLoadRequest: (request: Omit<SavedRequest, "id" | "timestamp">) => void;
+  requests: SavedRequest[];
+  /** The stored response is passed along so it can be shown again */
+  onLoadRequest: (
+    request: Omit<SavedRequest, "id" | "timestamp">,
+    response?: ApiResponse
+  ) => void;
+  onTogglePin: (id: string) => void;
+  onDeleteRequest: (id: string) => void;
+  onClearHistory: () => void;
+  /** Used to resolve {{variables}} when exporting to HAR */
+  variables: Record<string, string>;
 }
 
-const getMethodColor = (method: string) => {
-  switch (method) {
-    case "GET":
-      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
-    case "POST":
-      return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
-    case "PUT":
-      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200";
-    case "DELETE":
-      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
-    default:
-      return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
-  }
+// Rendering every match of a long history would make typing sluggish
+const PAGE_SIZE = 100;
+
+const STATUS_CLASS_COLORS: Record<StatusClass, string> = {
+  "2xx": "text-green-600 dark:text-green-400",
+  "3xx": "text-muted-foreground",
+  "4xx": "text-yellow-600 dark:text-yellow-400",
+  "5xx": "text-destructive",
+  none: "text-muted-foreground",
 };
 
-export default function RequestHistory({ onLoadRequest }: RequestHistoryProps) {
-  const { requests, deleteRequest, clearHistory } = useLocalStorage();
+const SELECT_CLASS_NAME =
+  "px-2 py-1.5 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent";
+
+export default function RequestHistory({
+  requests,
+  onLoadRequest,
+  onTogglePin,
+  onDeleteRequest,
+  onClearHistory,
+  variables,
+}: RequestHistoryProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const deferredFilters = useDeferredValue(filters);
+
+  const methods = useMemo(
+    () => [...new Set(requests.map((request) => request.method))].sort(),
+    [requests]
+  );
+
+  // Pinned entries are listed first, each group newest first
+  const matches = useMemo(() => {
+    const filtered = filterHistory(requests, deferredFilters);
+    return [
+      ...filtered.filter((request) => request.pinned),
+      ...filtered.filter((request) => !request.pinned),
+    ];
+  }, [requests, deferredFilters]);
+
+  const isFiltered = Object.values(filters).some(Boolean);
+  const hasPinned = requests.some((request) => request.pinned);
+
+  const updateFilters = useCallback((changes: Partial<HistoryFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes }));
+    setVisibleCount(PAGE_SIZE);
+  }, []);
 
   const handleLoadRequest = useCallback(
     (request: SavedRequest) => {
-      onLoadRequest({
-        method: request.method,
-        url: request.url,
-        headers: request.headers,
-        body: request.body,
-      });
-      setIsOpen(false); // Close dropdown after loading
+      onLoadRequest(
+        {
+          kind: request.kind,
+          method: request.method,
+          url: request.url,
+          params: request.params,
+          headers: request.headers,
+          body: request.body,
+          bodyType: request.bodyType,
+          rawLanguage: request.rawLanguage,
+          formFields: request.formFields,
+          multipartFields: request.multipartFields,
+          graphql: request.graphql,
+          authType: request.authType,
+          executionMode: request.executionMode,
+          preRequestScript: request.preRequestScript,
+          testScript: request.testScript,
+          assertions: request.assertions,
+          timeout: request.timeout,
+          responseFilter: request.responseFilter,
+          websocket: request.websocket,
+        },
+        request.response
+      );
+      setIsOpen(false); // Close the dialog after loading
     },
     [onLoadRequest]
   );
 
-  const handleDeleteRequest = useCallback(
-    (id: string) => {
-      deleteRequest(id);
+  const handleExportHar = useCallback(
+    (entries: SavedRequest[], fileName: string) => {
+      const har = exportHar(
+        entries.map((entry) => ({
+          request: entry,
+          response: entry.response,
+          startedAt: entry.timestamp,
+        })),
+        variables
+      );
+      downloadFile(JSON.stringify(har, null, 2), fileName);
     },
-    [deleteRequest]
+    [variables]
   );
 
-  const handleClearHistory = useCallback(() => {
-    clearHistory();
-  }, [clearHistory]);
-
   return (
-    <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="ghost"
-          size="sm"
-          className="text-muted-foreground hover:text-foreground"
-        >
-          <History className="w-4 h-4 mr-2" />
-          History ({requests.length})
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent className="w-96" align="start">
-        <DropdownMenuLabel className="flex items-center justify-between">
-          <span>Request History</span>
-          {requests.length > 0 && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleClearHistory}
-              className="text-red-600 hover:text-red-700 text-xs h-auto p-1"
-            >
-              Clear All
-            </Button>
-          )}
-        </DropdownMenuLabel>
-        <DropdownMenuSeparator />
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className="text-muted-foreground hover:text-foreground"
+      >
+        <History className="w-4 h-4 mr-2" />
+        History ({requests.length})
+      </Button>
 
-        {requests.length === 0 ? (
-          <div className="p-6 text-center text-muted-foreground text-sm">
-            <History className="w-8 h-8 mx-auto mb-2 opacity-50" />
-            No saved requests
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Request History</DialogTitle>
+            <DialogDescription>
+              Every request you send, with its response. Pin an entry to keep it
+              when older history is cleared or evicted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={filters.query}
+                onChange={(e) => updateFilters({ query: e.target.value })}
+                placeholder="Search URLs, headers and bodies"
+                className="pl-9"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={filters.method}
+                onChange={(e) => updateFilters({ method: e.target.value })}
+                aria-label="Method"
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">Any method</option>
+                {methods.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={filters.statusClass}
+                onChange={(e) =>
+                  updateFilters({
+                    statusClass: e.target.value as StatusClass | "",
+                  })
+                }
+                aria-label="Status"
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">Any status</option>
+                {(Object.keys(STATUS_CLASS_LABELS) as StatusClass[]).map(
+                  (statusClass) => (
+                    <option key={statusClass} value={statusClass}>
+                      {STATUS_CLASS_LABELS[statusClass]}
+                    </option>
+                  )
+                )}
+              </select>
+              <input
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+                aria-label="From date"
+                className={SELECT_CLASS_NAME}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+                aria-label="To date"
+                className={SELECT_CLASS_NAME}
+              />
+              {isFiltered && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateFilters(EMPTY_HISTORY_FILTERS)}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Reset
+                </Button>
+              )}
+            </div>
           </div>
-        ) : (
-          <div className="max-h-80 overflow-y-auto scrollbar-hide">
-            {requests.map((request) => (
-              <div key={request.id} className="p-2">
-                <div className="flex items-center justify-between mb-2">
-                  <div className="flex items-center gap-2">
-                    <span
-                      className={`px-2 py-1 text-xs font-mono rounded ${getMethodColor(
-                        request.method
-                      )}`}
-                    >
-                      {request.method}
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {formatTime(request.timestamp)}
-                    </span>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {isFiltered
+                ? `${matches.length} of ${requests.length} requests`
+                : `${requests.length} requests`}
+            </span>
+            {requests.length > 0 && (
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    handleExportHar(
+                      matches,
+                      isFiltered ? "history-filtered.har" : "history.har"
+                    )
+                  }
+                  disabled={matches.length === 0}
+                  className="text-xs h-auto p-1"
+                >
+                  Export HAR
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onClearHistory}
+                  className="text-red-600 hover:text-red-700 text-xs h-auto p-1"
+                >
+                  {hasPinned ? "Clear Unpinned" : "Clear All"}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {matches.length === 0 ? (
+            <div className="p-6 text-center text-muted-foreground text-sm">
+              <History className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              {requests.length === 0
+                ? "No requests sent yet"
+                : "No requests match these filters"}
+            </div>
+          ) : (
+            <div className="max-h-96 overflow-y-auto border border-border rounded-md divide-y divide-border">
+              {matches.slice(0, visibleCount).map((request) => {
+                const statusClass = getStatusClass(request.response);
+
+                return (
+                  <div key={request.id} className="group p-2 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span
+                          className={`px-2 py-1 text-xs font-mono rounded ${getMethodColor(
+                            request.method
+                          )}`}
+                        >
+                          {request.method}
+                        </span>
+                        <span
+                          className={cn(
+                            "text-xs font-mono",
+                            STATUS_CLASS_COLORS[statusClass]
+                          )}
+                        >
+                          {request.response
+                            ? `${request.response.status} · ${request.response.time}ms`
+                            : "No response"}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {formatTime(request.timestamp)}
+                        </span>
+                        {request.authType && request.authType !== "none" && (
+                          <span className="px-1.5 py-0.5 text-[10px] rounded border border-border text-muted-foreground">
+                            {AUTH_TYPE_LABELS[request.authType]}
+                          </span>
+                        )}
+                        {request.responseBodyOmitted && (
+                          <span
+                            title="The response body was too large to keep"
+                            className="px-1.5 py-0.5 text-[10px] rounded border border-border text-muted-foreground"
+                          >
+                            Body not stored
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onTogglePin(request.id)}
+                          aria-label={request.pinned ? "Unpin" : "Pin"}
+                          className={cn(
+                            "h-6 w-6",
+                            request.pinned
+                              ? "text-primary"
+                              : "text-muted-foreground hover:text-foreground"
+                          )}
+                        >
+                          <Pin
+                            className={cn(
+                              "w-3 h-3",
+                              request.pinned && "fill-current"
+                            )}
+                          />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleLoadRequest(request)}
+                          aria-label="Open request"
+                          className="h-6 w-6 text-green-600 hover:text-green-700 hover:bg-green-50 dark:hover:bg-green-900/20"
+                        >
+                          <Play className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            handleExportHar(
+                              [request],
+                              `${request.method.toLowerCase()}-${request.id}.har`
+                            )
+                          }
+                          aria-label="Export as HAR"
+                          className="h-6 w-6 text-muted-foreground hover:text-foreground"
+                        >
+                          <Download className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onDeleteRequest(request.id)}
+                          aria-label="Delete"
+                          className="h-6 w-6 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    <button
+                      type="button"
                       onClick={() => handleLoadRequest(request)}
-                      className="h-6 w-6 text-green-600 hover:text-green-700 hover:bg-green-50 dark:hover:bg-green-900/20"
+                      className="block w-full text-left text-sm text-foreground truncate font-mono hover:underline"
                     >
-                      <Play className="w-3 h-3" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleDeleteRequest(request.id)}
-                      className="h-6 w-6 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
+                      {request.url}
+                    </button>
                   </div>
+                );
+              })}
+              {matches.length > visibleCount && (
+                <div className="p-2 text-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setVisibleCount((count) => count + PAGE_SIZE)
+                    }
+                  >
+                    Show {Math.min(PAGE_SIZE, matches.length - visibleCount)}{" "}
+                    more
+                  </Button>
                 </div>
-                <div className="text-sm text-foreground truncate font-mono">
-                  {request.url}
-                </div>
-                {requests.indexOf(request) < requests.length - 1 && (
-                  <DropdownMenuSeparator className="mt-2" />
-                )}
-              </div>
-            ))}
-          </div>
-        )}
-      </DropdownMenuContent>
-    </DropdownMenu>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
   );
 }
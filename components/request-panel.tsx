@@ -5,11 +5,16 @@ import { motion, AnimatePresence } from "framer-motion";
 import {
   Send,
   Plus,
-  Delete,
   Code,
   Eye,
   Check,
   AlertCircle,
+  Globe,
+  Server,
+  Save,
+  FileCode,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -21,6 +26,34 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { cn, generateId } from "@/lib/utils";
+import type { ExecutionMode } from "@/lib/http-client";
+import { findUnresolvedVariables } from "@/lib/variables";
+import { METHODS_WITH_BODY } from "@/lib/request-builder";
+import { buildSnippetRequest } from "@/lib/code-snippets";
+import { isCurlCommand, parseCurlCommand, type ParsedCurl } from "@/lib/curl";
+import type { QueryParam } from "@/lib/query-params";
+import type { AuthConfig } from "@/lib/auth";
+import type { Assertion } from "@/lib/assertions";
+import {
+  BODY_TYPE_LABELS,
+  type BodyType,
+  type FormField,
+  type MultipartField,
+  type RawLanguage,
+} from "@/lib/request-body";
+import type { GraphqlBody, GraphqlSchema } from "@/lib/graphql";
+import { REQUEST_KIND_LABELS, type RequestKind } from "@/lib/websocket";
+import { AuthEditor } from "@/components/auth-editor";
+import { BodyEditor } from "@/components/body-editor";
+import { GraphqlEditor } from "@/components/graphql-editor";
+import { CodeSnippetsDialog } from "@/components/code-snippets-dialog";
+import { TestsEditor } from "@/components/tests-editor";
+import { toast } from "sonner";
+import {
+  KeyValueEditor,
+  UNRESOLVED_CLASS,
+  UnresolvedVariablesHint,
+} from "@/components/key-value-editor";
 
 interface Header {
   id: string;
@@ -29,17 +62,54 @@ interface Header {
 }
 
 interface RequestPanelProps {
+  /** Switches the tab to another kind of request, e.g. WebSocket */
+  setKind: (kind: RequestKind) => void;
   method: string;
   setMethod: (method: string) => void;
   url: string;
   setUrl: (url: string) => void;
+  params: QueryParam[];
+  setParams: (params: QueryParam[]) => void;
   headers: Header[];
   setHeaders: (headers: Header[]) => void;
   body: string;
   setBody: (body: string) => void;
+  bodyType: BodyType;
+  setBodyType: (bodyType: BodyType) => void;
+  rawLanguage: RawLanguage;
+  setRawLanguage: (language: RawLanguage) => void;
+  formFields: FormField[];
+  setFormFields: (fields: FormField[]) => void;
+  multipartFields: MultipartField[];
+  setMultipartFields: (fields: MultipartField[]) => void;
+  bodyFiles: Record<string, File>;
+  onSelectBodyFile: (key: string, file: File | null) => void;
+  graphql: GraphqlBody;
+  setGraphql: (graphql: GraphqlBody) => void;
+  graphqlSchema: GraphqlSchema | null;
+  onFetchGraphqlSchema: () => Promise<void>;
+  auth: AuthConfig;
+  setAuth: (auth: AuthConfig) => void;
+  onRequestToken: () => void;
+  executionMode: ExecutionMode;
+  setExecutionMode: (mode: ExecutionMode) => void;
+  preRequestScript: string;
+  setPreRequestScript: (script: string) => void;
+  testScript: string;
+  setTestScript: (script: string) => void;
+  assertions: Assertion[];
+  setAssertions: (assertions: Assertion[]) => void;
+  /** Per-request timeout in ms; null uses the default from Settings */
+  timeout: number | null;
+  setRequestTimeout: (timeout: number | null) => void;
+  defaultTimeout: number;
+  variables: Record<string, string>;
   loading: boolean;
   onSendRequest: () => void;
+  onCancelRequest: () => void;
   onSaveRequest: () => void;
+  /** Called when a cURL command is pasted into the URL box */
+  onImportCurl: (request: ParsedCurl) => void;
   onClearState?: () => void;
   jsonError: string | null;
   showHtmlEditor: boolean;
@@ -61,20 +131,67 @@ const HTTP_METHODS = [
   "OPTIONS",
 ] as const;
 
-const METHODS_WITH_BODY = ["POST", "PUT", "PATCH"];
+const EXECUTION_MODES = [
+  {
+    value: "browser",
+    label: "Browser",
+    icon: Globe,
+    description: "Send directly from your browser (subject to CORS)",
+  },
+  {
+    value: "proxy",
+    label: "Proxy",
+    icon: Server,
+    description: "Send from the server to avoid CORS restrictions",
+  },
+] as const;
 
 export const RequestPanel = React.memo(function RequestPanel({
+  setKind,
   method,
   setMethod,
   url,
   setUrl,
+  params,
+  setParams,
   headers,
   setHeaders,
   body,
   setBody,
+  bodyType,
+  setBodyType,
+  rawLanguage,
+  setRawLanguage,
+  formFields,
+  setFormFields,
+  multipartFields,
+  setMultipartFields,
+  bodyFiles,
+  onSelectBodyFile,
+  graphql,
+  setGraphql,
+  graphqlSchema,
+  onFetchGraphqlSchema,
+  auth,
+  setAuth,
+  onRequestToken,
+  executionMode,
+  setExecutionMode,
+  preRequestScript,
+  setPreRequestScript,
+  testScript,
+  setTestScript,
+  assertions,
+  setAssertions,
+  timeout,
+  setRequestTimeout,
+  defaultTimeout,
+  variables,
   loading,
   onSendRequest,
+  onCancelRequest,
   onSaveRequest,
+  onImportCurl,
   onClearState,
   jsonError,
   showHtmlEditor,
@@ -86,6 +203,11 @@ export const RequestPanel = React.memo(function RequestPanel({
   requestError = null,
 }: RequestPanelProps) {
   const [activeTab, setActiveTab] = useState<"json" | "html">("json");
+  const [showCode, setShowCode] = useState(false);
+  const [showScript, setShowScript] = useState(preRequestScript !== "");
+  const hasTests = testScript.trim() !== "" || assertions.length > 0;
+  const [showTests, setShowTests] = useState(hasTests);
+  const [showSettings, setShowSettings] = useState(timeout !== null);
   const [buttonState, setButtonState] = useState<
     "idle" | "loading" | "success" | "error"
   >("idle");
@@ -95,27 +217,63 @@ export const RequestPanel = React.memo(function RequestPanel({
     [method]
   );
 
-  const addHeader = useCallback(() => {
-    setHeaders([...headers, { id: generateId(), key: "", value: "" }]);
-  }, [headers, setHeaders]);
+  // Only built while the dialog is open so editing stays cheap
+  const snippetRequest = useMemo(
+    () =>
+      showCode
+        ? buildSnippetRequest(
+            {
+              method,
+              url,
+              headers,
+              body,
+              bodyType,
+              formFields,
+              multipartFields,
+              graphql,
+              auth,
+            },
+            variables,
+            bodyFiles
+          )
+        : null,
+    [
+      showCode,
+      method,
+      url,
+      headers,
+      body,
+      bodyType,
+      formFields,
+      multipartFields,
+      graphql,
+      auth,
+      variables,
+      bodyFiles,
+    ]
+  );
 
-  const updateHeader = useCallback(
-    (id: string, field: "key" | "value", value: string) => {
-      const newHeaders = headers.map((header) =>
-        header.id === id ? { ...header, [field]: value } : header
-      );
-      setHeaders(newHeaders);
-    },
-    [headers, setHeaders]
+  const unresolvedInUrl = useMemo(
+    () => findUnresolvedVariables(url, variables),
+    [url, variables]
   );
 
-  const removeHeader = useCallback(
-    (id: string) => {
-      setHeaders(headers.filter((header) => header.id !== id));
-    },
-    [headers, setHeaders]
+  const unresolvedInBody = useMemo(
+    () => findUnresolvedVariables(body, variables),
+    [body, variables]
   );
 
+  const addHeader = useCallback(() => {
+    setHeaders([...headers, { id: generateId(), key: "", value: "" }]);
+  }, [headers, setHeaders]);
+
+  const addParam = useCallback(() => {
+    setParams([
+      ...params,
+      { id: generateId(), key: "", value: "", enabled: true },
+    ]);
+  }, [params, setParams]);
+
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
@@ -126,6 +284,23 @@ export const RequestPanel = React.memo(function RequestPanel({
     [onSendRequest]
   );
 
+  const handleUrlPaste = useCallback(
+    (e: React.ClipboardEvent<HTMLInputElement>) => {
+      const text = e.clipboardData.getData("text");
+      if (!isCurlCommand(text)) return;
+
+      e.preventDefault();
+      try {
+        onImportCurl(parseCurlCommand(text));
+      } catch (err) {
+        toast.error("Could not import cURL command", {
+          description: err instanceof Error ? err.message : "Unknown error",
+        });
+      }
+    },
+    [onImportCurl]
+  );
+
   const formatJson = useCallback(() => {
     try {
       const formatted = JSON.stringify(JSON.parse(body), null, 2);
@@ -218,7 +393,7 @@ export const RequestPanel = React.memo(function RequestPanel({
               transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
               className="w-4 h-4 mr-2 border-2 border-current border-t-transparent rounded-full"
             />
-            Sending...
+            Cancel
           </>
         );
       case "success":
@@ -259,6 +434,8 @@ export const RequestPanel = React.memo(function RequestPanel({
 
   const getButtonVariant = () => {
     switch (buttonState) {
+      case "loading":
+        return "secondary";
       case "success":
         return "default";
       case "error":
@@ -273,6 +450,40 @@ export const RequestPanel = React.memo(function RequestPanel({
       <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-border">
         <CardTitle className="text-lg font-semibold">Request</CardTitle>
         <div className="flex items-center gap-2">
+          <div className="flex items-center rounded-md border border-border p-0.5">
+            {EXECUTION_MODES.map((mode) => {
+              const Icon = mode.icon;
+              return (
+                <Tooltip key={mode.value}>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant={
+                        executionMode === mode.value ? "secondary" : "ghost"
+                      }
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      aria-pressed={executionMode === mode.value}
+                      onClick={() => setExecutionMode(mode.value)}
+                    >
+                      <Icon className="w-3.5 h-3.5 mr-1" />
+                      {mode.label}
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{mode.description}</p>
+                  </TooltipContent>
+                </Tooltip>
+              );
+            })}
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setShowCode(true)}>
+            <FileCode className="w-4 h-4 mr-1" />
+            Code
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onSaveRequest}>
+            <Save className="w-4 h-4 mr-1" />
+            Save
+          </Button>
           {onClearState && (
             <Button variant="ghost" size="sm" onClick={onClearState}>
               Clear
@@ -298,6 +509,18 @@ export const RequestPanel = React.memo(function RequestPanel({
           >
             <TooltipTrigger asChild>
               <div className="flex gap-2 w-full flex-wrap">
+                <select
+                  value="http"
+                  onChange={(e) => setKind(e.target.value as RequestKind)}
+                  className="px-3 py-2 border border-input rounded-md bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-transparent max-w-[15ch]"
+                  aria-label="Request kind"
+                >
+                  {Object.entries(REQUEST_KIND_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
                 <select
                   value={method}
                   onChange={(e) => setMethod(e.target.value)}
@@ -314,9 +537,18 @@ export const RequestPanel = React.memo(function RequestPanel({
                   value={url}
                   onChange={(e) => setUrl(e.target.value)}
                   onKeyDown={handleKeyDown}
-                  placeholder="Enter URL"
-                  className="flex-1 min-w-[25ch]"
+                  onPaste={handleUrlPaste}
+                  placeholder="Enter URL or paste a cURL command"
+                  className={cn(
+                    "flex-1 min-w-[25ch]",
+                    unresolvedInUrl.length > 0 && UNRESOLVED_CLASS
+                  )}
                 />
+                {unresolvedInUrl.length > 0 && (
+                  <div className="w-full -mt-1">
+                    <UnresolvedVariablesHint names={unresolvedInUrl} />
+                  </div>
+                )}
               </div>
             </TooltipTrigger>
             <TooltipContent side="top">
@@ -346,8 +578,7 @@ export const RequestPanel = React.memo(function RequestPanel({
             className="w-full md:w-auto"
           >
             <Button
-              onClick={handleSendRequest}
-              disabled={loading || buttonState === "loading"}
+              onClick={loading ? onCancelRequest : handleSendRequest}
               variant={getButtonVariant()}
               className={cn(
                 "relative overflow-hidden transition-all duration-300 ease-out w-full md:w-auto",
@@ -422,6 +653,45 @@ export const RequestPanel = React.memo(function RequestPanel({
           </motion.div>
         </motion.div>
 
+        {/* Query Params Section */}
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.15, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+        >
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium">Params</h3>
+            <Button variant="ghost" size="sm" onClick={addParam}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Param
+            </Button>
+          </div>
+
+          <KeyValueEditor
+            rows={params}
+            onChange={setParams}
+            keyPlaceholder="Parameter name"
+            valuePlaceholder="Parameter value"
+            removeLabel="Remove parameter"
+            showEnabledToggle
+            variables={variables}
+          />
+        </motion.div>
+
+        {/* Authorization Section */}
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.18, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+        >
+          <h3 className="text-sm font-medium mb-3">Authorization</h3>
+          <AuthEditor
+            auth={auth}
+            setAuth={setAuth}
+            onRequestToken={onRequestToken}
+          />
+        </motion.div>
+
         {/* Headers Section */}
         <motion.div
           initial={{ opacity: 0, x: -20 }}
@@ -436,58 +706,14 @@ export const RequestPanel = React.memo(function RequestPanel({
             </Button>
           </div>
 
-          <div className="space-y-2">
-            <AnimatePresence>
-              {headers.map((header, index) => (
-                <motion.div
-                  key={header.id}
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: "auto" }}
-                  exit={{ opacity: 0, height: 0 }}
-                  transition={{ duration: 0.2, ease: "easeInOut" }}
-                  className="grid grid-cols-[1fr_auto] gap-2 sm:items-center"
-                >
-                  <div className="flex flex-col sm:flex-row gap-2 flex-1">
-                    <Input
-                      value={header.key}
-                      onChange={(e) =>
-                        updateHeader(header.id, "key", e.target.value)
-                      }
-                      placeholder="Header name"
-                      className="flex-1"
-                    />
-                    <Input
-                      value={header.value}
-                      onChange={(e) =>
-                        updateHeader(header.id, "value", e.target.value)
-                      }
-                      placeholder="Header value"
-                      className="flex-1"
-                    />
-                  </div>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        onClick={() => removeHeader(header.id)}
-                        className="text-destructive hover:text-destructive h-full border-destructive/30 bg-destructive/5"
-                      >
-                        <Delete className="w-4 h-4" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Remove header</p>
-                    </TooltipContent>
-                  </Tooltip>
-                  {index < headers.length - 1 && (
-                    <div className="sm:hidden mb-2">
-                    </div>
-                  )}
-                </motion.div>
-              ))}
-            </AnimatePresence>
-          </div>
+          <KeyValueEditor
+            rows={headers}
+            onChange={setHeaders}
+            keyPlaceholder="Header name"
+            valuePlaceholder="Header value"
+            removeLabel="Remove header"
+            variables={variables}
+          />
         </motion.div>
 
         {/* Request Body */}
@@ -497,117 +723,297 @@ export const RequestPanel = React.memo(function RequestPanel({
             animate={{ opacity: 1, x: 0 }}
             transition={{ delay: 0.3, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
           >
-            <div className="flex items-center justify-between mb-3">
-              <h3 className="text-sm font-medium">Body</h3>
-              <div className="flex gap-2">
-                <Button
-                  variant={activeTab === "json" ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => {
-                    setActiveTab("json");
-                    setShowHtmlEditor(false);
-                  }}
-                >
-                  <Code className="w-4 h-4 mr-1" />
-                  JSON
-                </Button>
-                <Button
-                  variant={activeTab === "html" ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => {
-                    setActiveTab("html");
-                    setShowHtmlEditor(true);
-                  }}
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <div className="flex items-center gap-3">
+                <h3 className="text-sm font-medium">Body</h3>
+                <select
+                  value={bodyType}
+                  onChange={(e) => setBodyType(e.target.value as BodyType)}
+                  className="px-2 py-1 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent"
+                  aria-label="Body type"
                 >
-                  <Eye className="w-4 h-4 mr-1" />
-                  HTML Editor
-                </Button>
+                  {(Object.keys(BODY_TYPE_LABELS) as BodyType[]).map(
+                    (type) => (
+                      <option key={type} value={type}>
+                        {BODY_TYPE_LABELS[type]}
+                      </option>
+                    )
+                  )}
+                </select>
               </div>
+              {bodyType === "json" && (
+                <div className="flex gap-2">
+                  <Button
+                    variant={activeTab === "json" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => {
+                      setActiveTab("json");
+                      setShowHtmlEditor(false);
+                    }}
+                  >
+                    <Code className="w-4 h-4 mr-1" />
+                    JSON
+                  </Button>
+                  <Button
+                    variant={activeTab === "html" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => {
+                      setActiveTab("html");
+                      setShowHtmlEditor(true);
+                    }}
+                  >
+                    <Eye className="w-4 h-4 mr-1" />
+                    HTML Editor
+                  </Button>
+                </div>
+              )}
             </div>
 
-            <AnimatePresence mode="wait">
-              {!showHtmlEditor ? (
-                <motion.div
-                  key="json-editor"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                >
-                  <textarea
-                    value={body}
-                    onChange={(e) => setBody(e.target.value)}
-                    placeholder="Enter request body (JSON) - Use ``` to wrap HTML content"
-                    rows={8}
-                    className={cn(
-                      "w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none",
-                      jsonError
-                        ? "border-destructive focus:border-destructive"
-                        : "border-input"
+            {bodyType === "graphql" ? (
+              <GraphqlEditor
+                graphql={graphql}
+                setGraphql={setGraphql}
+                schema={graphqlSchema}
+                onFetchSchema={onFetchGraphqlSchema}
+                variables={variables}
+              />
+            ) : bodyType !== "json" ? (
+              <BodyEditor
+                bodyType={bodyType}
+                rawLanguage={rawLanguage}
+                setRawLanguage={setRawLanguage}
+                body={body}
+                setBody={setBody}
+                formFields={formFields}
+                setFormFields={setFormFields}
+                multipartFields={multipartFields}
+                setMultipartFields={setMultipartFields}
+                files={bodyFiles}
+                onSelectFile={onSelectBodyFile}
+                variables={variables}
+              />
+            ) : (
+              <AnimatePresence mode="wait">
+                {!showHtmlEditor ? (
+                  <motion.div
+                    key="json-editor"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                  >
+                    <textarea
+                      value={body}
+                      onChange={(e) => setBody(e.target.value)}
+                      placeholder="Enter request body (JSON) - Use ``` to wrap HTML content"
+                      rows={8}
+                      className={cn(
+                        "w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none",
+                        jsonError || unresolvedInBody.length > 0
+                          ? "border-destructive focus:border-destructive"
+                          : "border-input"
+                      )}
+                    />
+                    <UnresolvedVariablesHint names={unresolvedInBody} />
+                    {jsonError && (
+                      <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: "auto" }}
+                        transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+                        className="mt-2 text-sm text-destructive"
+                      >
+                        <strong>JSON Error:</strong> {jsonError}
+                      </motion.div>
                     )}
-                  />
-                  {jsonError && (
-                    <motion.div
-                      initial={{ opacity: 0, height: 0 }}
-                      animate={{ opacity: 1, height: "auto" }}
-                      transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
-                      className="mt-2 text-sm text-destructive"
-                    >
-                      <strong>JSON Error:</strong> {jsonError}
-                    </motion.div>
-                  )}
 
-                  <div className="mt-3 flex gap-2">
-                    <Button variant="ghost" size="sm" onClick={formatJson}>
-                      Format JSON
-                    </Button>
-                    <Button variant="ghost" size="sm" onClick={loadExample}>
-                      Load Example
-                    </Button>
-                  </div>
-                </motion.div>
-              ) : (
-                <motion.div
-                  key="html-editor"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                >
-                  <div className="mb-3 p-3 bg-muted border border-border rounded-md">
-                    <p className="text-sm text-muted-foreground">
-                      💡 <strong>HTML Editor Mode:</strong> Write clean HTML
-                      here. It will be automatically converted to properly
-                      escaped JSON.
-                    </p>
-                  </div>
-                  <textarea
-                    value={htmlContent}
-                    onChange={(e) => setHtmlContent(e.target.value)}
-                    placeholder="Write your HTML content here (no need to escape quotes)..."
-                    rows={10}
-                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none"
-                  />
-                  <div className="mt-3 flex gap-2">
-                    <Button
-                      variant="default"
-                      size="sm"
-                      onClick={onConvertHtmlToJson}
-                    >
-                      Convert to JSON
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={loadHtmlTemplate}
-                    >
-                      Load Template
-                    </Button>
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
+                    <div className="mt-3 flex gap-2">
+                      <Button variant="ghost" size="sm" onClick={formatJson}>
+                        Format JSON
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={loadExample}>
+                        Load Example
+                      </Button>
+                    </div>
+                  </motion.div>
+                ) : (
+                  <motion.div
+                    key="html-editor"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                  >
+                    <div className="mb-3 p-3 bg-muted border border-border rounded-md">
+                      <p className="text-sm text-muted-foreground">
+                        💡 <strong>HTML Editor Mode:</strong> Write clean HTML
+                        here. It will be automatically converted to properly
+                        escaped JSON.
+                      </p>
+                    </div>
+                    <textarea
+                      value={htmlContent}
+                      onChange={(e) => setHtmlContent(e.target.value)}
+                      placeholder="Write your HTML content here (no need to escape quotes)..."
+                      rows={10}
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none"
+                    />
+                    <div className="mt-3 flex gap-2">
+                      <Button
+                        variant="default"
+                        size="sm"
+                        onClick={onConvertHtmlToJson}
+                      >
+                        Convert to JSON
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={loadHtmlTemplate}
+                      >
+                        Load Template
+                      </Button>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            )}
           </motion.div>
         )}
+
+        {/* Pre-request Script */}
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.35, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+        >
+          <button
+            type="button"
+            onClick={() => setShowScript(!showScript)}
+            className="flex items-center gap-1 mb-3 text-sm font-medium"
+            aria-expanded={showScript}
+          >
+            {showScript ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            Pre-request Script
+            {!showScript && preRequestScript.trim() && (
+              <span className="ml-1 w-1.5 h-1.5 rounded-full bg-primary" />
+            )}
+          </button>
+          {showScript && (
+            <>
+              <textarea
+                value={preRequestScript}
+                onChange={(e) => setPreRequestScript(e.target.value)}
+                placeholder={
+                  'pm.environment.set("timestamp", Date.now());\npm.request.headers.upsert({ key: "X-Signature", value: await pm.crypto.hmacSha256("secret", pm.request.body) });'
+                }
+                rows={6}
+                spellCheck={false}
+                className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none"
+              />
+              <p className="mt-2 text-xs text-muted-foreground">
+                Runs in a sandbox before the request is sent. Use{" "}
+                <code>pm.request</code> (method, url, headers, body),{" "}
+                <code>pm.environment</code>, <code>pm.variables</code> and{" "}
+                <code>pm.crypto</code>; <code>console</code> output appears
+                with the response.
+              </p>
+            </>
+          )}
+        </motion.div>
+
+        {/* Tests */}
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.4, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+        >
+          <button
+            type="button"
+            onClick={() => setShowTests(!showTests)}
+            className="flex items-center gap-1 mb-3 text-sm font-medium"
+            aria-expanded={showTests}
+          >
+            {showTests ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            Tests
+            {!showTests && hasTests && (
+              <span className="ml-1 w-1.5 h-1.5 rounded-full bg-primary" />
+            )}
+          </button>
+          {showTests && (
+            <TestsEditor
+              testScript={testScript}
+              setTestScript={setTestScript}
+              assertions={assertions}
+              setAssertions={setAssertions}
+            />
+          )}
+        </motion.div>
+
+        {/* Settings */}
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.45, duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+        >
+          <button
+            type="button"
+            onClick={() => setShowSettings(!showSettings)}
+            className="flex items-center gap-1 mb-3 text-sm font-medium"
+            aria-expanded={showSettings}
+          >
+            {showSettings ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            Settings
+            {!showSettings && timeout !== null && (
+              <span className="ml-1 w-1.5 h-1.5 rounded-full bg-primary" />
+            )}
+          </button>
+          {showSettings && (
+            <label className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Timeout (ms)</span>
+              <Input
+                type="number"
+                min={0}
+                step={1000}
+                value={timeout ?? ""}
+                onChange={(e) =>
+                  setRequestTimeout(
+                    e.target.value === ""
+                      ? null
+                      : Math.max(0, Number(e.target.value) || 0)
+                  )
+                }
+                placeholder={
+                  defaultTimeout
+                    ? `Default (${defaultTimeout})`
+                    : "Default (none)"
+                }
+                className="w-40"
+              />
+              <span className="text-xs text-muted-foreground">
+                Empty uses the default from Settings; 0 waits indefinitely.
+              </span>
+            </label>
+          )}
+        </motion.div>
       </CardContent>
+
+      {snippetRequest && (
+        <CodeSnippetsDialog
+          open={showCode}
+          onOpenChange={setShowCode}
+          request={snippetRequest}
+        />
+      )}
     </Card>
   );
 });
@@ -0,0 +1,171 @@
+"use client";
+
+import React from "react";
+import { MoreHorizontal, Plus, RotateCcw, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { isTabDirty, type WorkspaceTab } from "@/hooks/use-request-state";
+import { cn, getMethodColor } from "@/lib/utils";
+import { getRequestBadge } from "@/lib/websocket";
+
+interface RequestTabsProps {
+  tabs: WorkspaceTab[];
+  activeTabId: string;
+  /** Tabs with a request in flight */
+  loadingTabIds: string[];
+  canReopenTab: boolean;
+  onSelectTab: (tabId: string) => void;
+  onNewTab: () => void;
+  onCloseTab: (tabId: string) => void;
+  onCloseOtherTabs: (tabId: string) => void;
+  onReopenClosedTab: () => void;
+}
+
+function getTabTitle(tab: WorkspaceTab) {
+  return (
+    tab.name || tab.state.url.replace(/^https?:\/\//, "") || "Untitled Request"
+  );
+}
+
+export function RequestTabs({
+  tabs,
+  activeTabId,
+  loadingTabIds,
+  canReopenTab,
+  onSelectTab,
+  onNewTab,
+  onCloseTab,
+  onCloseOtherTabs,
+  onReopenClosedTab,
+}: RequestTabsProps) {
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <div
+        role="tablist"
+        className="flex flex-1 items-center gap-1 min-w-0 overflow-x-auto"
+      >
+        {tabs.map((tab) => {
+          const isActive = tab.id === activeTabId;
+          const isDirty = isTabDirty(tab);
+          const title = getTabTitle(tab);
+
+          return (
+            <div
+              key={tab.id}
+              role="tab"
+              aria-selected={isActive}
+              tabIndex={0}
+              title={tab.state.url || title}
+              onClick={() => onSelectTab(tab.id)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  onSelectTab(tab.id);
+                }
+              }}
+              // Middle click closes a tab, like in a browser
+              onAuxClick={(e) => {
+                if (e.button === 1) {
+                  e.preventDefault();
+                  onCloseTab(tab.id);
+                }
+              }}
+              className={cn(
+                "group flex items-center gap-2 max-w-56 shrink-0 pl-2 pr-1 py-1 rounded-md border text-sm cursor-pointer select-none",
+                isActive
+                  ? "bg-card border-border shadow-sm"
+                  : "border-transparent text-muted-foreground hover:bg-muted"
+              )}
+            >
+              <span
+                className={`px-1 py-0.5 text-[10px] font-mono rounded shrink-0 ${getMethodColor(
+                  getRequestBadge(tab.state)
+                )}`}
+              >
+                {getRequestBadge(tab.state)}
+              </span>
+              <span className="truncate">{title}</span>
+              <span className="relative w-5 h-5 shrink-0">
+                {loadingTabIds.includes(tab.id) ? (
+                  <span className="absolute inset-1 border-2 border-current border-t-transparent rounded-full animate-spin group-hover:hidden" />
+                ) : (
+                  isDirty && (
+                    <span
+                      aria-label="Unsaved changes"
+                      className="absolute inset-0 m-auto w-2 h-2 rounded-full bg-primary group-hover:hidden"
+                    />
+                  )
+                )}
+                <button
+                  type="button"
+                  aria-label={`Close ${title}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCloseTab(tab.id);
+                  }}
+                  className={cn(
+                    "absolute inset-0 flex items-center justify-center rounded hover:bg-muted-foreground/20",
+                    isActive && !isDirty
+                      ? "opacity-100"
+                      : "opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  )}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onNewTab}
+        title="New tab"
+        className="h-8 w-8 shrink-0"
+      >
+        <Plus className="w-4 h-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Tab actions"
+            className="h-8 w-8 shrink-0"
+          >
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => onCloseTab(activeTabId)}>
+            <X className="w-4 h-4 mr-2" />
+            Close Tab
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => onCloseOtherTabs(activeTabId)}
+            disabled={tabs.length < 2}
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            Close Other Tabs
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={onReopenClosedTab}
+            disabled={!canReopenTab}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reopen Closed Tab
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { JsonViewer } from "./json-viewer";
+import { XmlViewer } from "./xml-viewer";
+import { StreamEventList } from "./stream-event-list";
+import type { ApiResponse } from "@/lib/http-client";
+import {
+  formatHexDump,
+  getMimeType,
+  getResponseBytes,
+  type ResponseViewKind,
+} from "@/lib/response-content";
+
+interface ResponseBodyViewerProps {
+  response: ApiResponse;
+  kind: ResponseViewKind;
+  /** Shown instead of a JSON body, such as the matches of a filter */
+  data?: unknown;
+  /** Source instead of a preview, or a hex dump for images and PDFs */
+  isRawView: boolean;
+}
+
+export function ResponseBodyViewer({
+  response,
+  kind,
+  data,
+  isRawView,
+}: ResponseBodyViewerProps) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const isMedia = kind === "image" || kind === "pdf";
+  const showHexDump = kind === "binary" || (isMedia && isRawView);
+
+  // Images and PDFs are previewed from a blob URL of the received bytes
+  useEffect(() => {
+    if (!isMedia) return;
+    const url = URL.createObjectURL(
+      new Blob([getResponseBytes(response)], {
+        type: getMimeType(response.headers),
+      })
+    );
+    setObjectUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setObjectUrl(null);
+    };
+  }, [response, isMedia]);
+
+  const hexDump = useMemo(
+    () => (showHexDump ? formatHexDump(getResponseBytes(response)) : ""),
+    [response, showHexDump]
+  );
+
+  if (showHexDump) {
+    return <pre className="font-mono text-xs">{hexDump}</pre>;
+  }
+
+  switch (kind) {
+    case "json":
+      return (
+        <JsonViewer
+          data={data ?? response.data}
+          className="text-sm"
+          isRawView={isRawView}
+        />
+      );
+    case "html":
+      return isRawView ? (
+        <pre className="font-mono whitespace-pre-wrap break-all">
+          {String(response.data)}
+        </pre>
+      ) : (
+        // An empty sandbox blocks scripts, forms and navigation of the page
+        <iframe
+          sandbox=""
+          srcDoc={String(response.data)}
+          title="HTML preview"
+          className="w-full h-80 rounded-md border border-border bg-white"
+        />
+      );
+    case "xml":
+      return (
+        <XmlViewer
+          xml={String(response.data)}
+          className="text-sm"
+          isRawView={isRawView}
+        />
+      );
+    case "image":
+      return objectUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={objectUrl}
+          alt="Response image"
+          className="max-w-full max-h-80 mx-auto"
+        />
+      ) : null;
+    case "stream":
+      return isRawView || !response.stream ? (
+        <pre className="font-mono whitespace-pre-wrap break-all">
+          {String(response.data)}
+        </pre>
+      ) : (
+        <StreamEventList stream={response.stream} />
+      );
+    case "pdf":
+      return objectUrl ? (
+        <iframe
+          src={objectUrl}
+          title="PDF preview"
+          className="w-full h-80 rounded-md border border-border"
+        />
+      ) : null;
+    default:
+      return <pre className="font-mono">{String(response.data)}</pre>;
+  }
+}
@@ -0,0 +1,415 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn, formatTime } from "@/lib/utils";
+import type { ApiResponse } from "@/lib/http-client";
+import { getResponseBytes } from "@/lib/response-content";
+import {
+  diffHeaders,
+  diffJson,
+  diffText,
+  type DiffKind,
+  type JsonDiffEntry,
+  type TextDiffRow,
+} from "@/lib/response-diff";
+
+/** A stored response that can be picked for a comparison. */
+export interface ComparableResponse {
+  id: string;
+  method: string;
+  url: string;
+  timestamp: number;
+  response: ApiResponse;
+  /** Received in this session, or restored from history */
+  source: "session" | "history";
+}
+
+interface ResponseDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Newest first; the two newest are compared by default */
+  responses: ComparableResponse[];
+  ignoredPaths: string[];
+  onIgnoredPathsChange: (paths: string[]) => void;
+}
+
+type BodyComparison =
+  | { kind: "json"; entries: JsonDiffEntry[] }
+  | { kind: "text"; rows: TextDiffRow[] }
+  | { kind: "binary"; identical: boolean; before: number; after: number }
+  | { kind: "error"; message: string };
+
+const DIFF_KIND_CLASSES: Record<DiffKind | "unchanged", string> = {
+  added: "bg-green-500/10 text-green-700 dark:text-green-400",
+  removed: "bg-destructive/10 text-destructive",
+  changed: "bg-yellow-500/10 text-yellow-700 dark:text-yellow-400",
+  unchanged: "text-muted-foreground",
+};
+
+const DIFF_KIND_MARKERS: Record<DiffKind, string> = {
+  added: "+",
+  removed: "−",
+  changed: "~",
+};
+
+function isJsonBody(response: ApiResponse) {
+  return (
+    response.bodyEncoding !== "base64" &&
+    typeof response.data === "object" &&
+    response.data !== null
+  );
+}
+
+function bodyText(response: ApiResponse): string {
+  return typeof response.data === "string"
+    ? response.data
+    : JSON.stringify(response.data, null, 2);
+}
+
+function compareBodies(
+  before: ApiResponse,
+  after: ApiResponse,
+  ignoredPaths: string[]
+): BodyComparison {
+  if (before.bodyEncoding === "base64" || after.bodyEncoding === "base64") {
+    const left = getResponseBytes(before);
+    const right = getResponseBytes(after);
+    return {
+      kind: "binary",
+      identical:
+        left.length === right.length &&
+        left.every((byte, i) => byte === right[i]),
+      before: left.length,
+      after: right.length,
+    };
+  }
+  if (isJsonBody(before) && isJsonBody(after)) {
+    try {
+      return {
+        kind: "json",
+        entries: diffJson(before.data, after.data, ignoredPaths),
+      };
+    } catch (err) {
+      return {
+        kind: "error",
+        message: err instanceof Error ? err.message : "Invalid ignored path",
+      };
+    }
+  }
+  return { kind: "text", rows: diffText(bodyText(before), bodyText(after)) };
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "" : JSON.stringify(value);
+}
+
+function ResponseOption({ item }: { item: ComparableResponse }) {
+  return (
+    <option value={item.id}>
+      {item.response.status} {item.method} {item.url} ·{" "}
+      {formatTime(item.timestamp)}
+    </option>
+  );
+}
+
+function ResponseSelect({
+  label,
+  value,
+  responses,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  responses: ComparableResponse[];
+  onChange: (id: string) => void;
+}) {
+  const session = responses.filter((item) => item.source === "session");
+  const history = responses.filter((item) => item.source === "history");
+
+  return (
+    <label className="space-y-1 text-sm min-w-0">
+      <span className="text-muted-foreground">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-2 py-1.5 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent"
+      >
+        {session.length > 0 && (
+          <optgroup label="This session">
+            {session.map((item) => (
+              <ResponseOption key={item.id} item={item} />
+            ))}
+          </optgroup>
+        )}
+        {history.length > 0 && (
+          <optgroup label="History">
+            {history.map((item) => (
+              <ResponseOption key={item.id} item={item} />
+            ))}
+          </optgroup>
+        )}
+      </select>
+    </label>
+  );
+}
+
+function TextDiffCell({
+  line,
+  text,
+  className,
+}: {
+  line?: number;
+  text?: string;
+  className?: string;
+}) {
+  return (
+    <div className={cn("flex min-w-0", className)}>
+      <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground select-none">
+        {line}
+      </span>
+      <span className="whitespace-pre-wrap break-all">{text}</span>
+    </div>
+  );
+}
+
+export function ResponseDiffDialog({
+  open,
+  onOpenChange,
+  responses,
+  ignoredPaths,
+  onIgnoredPathsChange,
+}: ResponseDiffDialogProps) {
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [tab, setTab] = useState<"body" | "headers">("body");
+  // Edited text of the ignored paths, so blank lines survive while typing
+  const [ignoredText, setIgnoredText] = useState<string | null>(null);
+
+  const before =
+    responses.find((item) => item.id === beforeId) ?? responses[1];
+  const after = responses.find((item) => item.id === afterId) ?? responses[0];
+
+  const bodyComparison = useMemo(
+    () =>
+      before && after
+        ? compareBodies(before.response, after.response, ignoredPaths)
+        : null,
+    [before, after, ignoredPaths]
+  );
+  const headerDiff = useMemo(
+    () =>
+      before && after
+        ? diffHeaders(before.response.headers, after.response.headers)
+        : [],
+    [before, after]
+  );
+  const changedHeaders = headerDiff.filter(
+    (entry) => entry.kind !== "unchanged"
+  ).length;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setIgnoredText(null);
+    }
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Compare Responses</DialogTitle>
+          <DialogDescription>
+            Pick two responses from this session or your history to see what
+            changed in their bodies and headers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] gap-3 sm:items-end">
+          <ResponseSelect
+            label="Before"
+            value={before?.id}
+            responses={responses}
+            onChange={setBeforeId}
+          />
+          <ArrowRight className="hidden sm:block w-4 h-4 mb-2.5 text-muted-foreground" />
+          <ResponseSelect
+            label="After"
+            value={after?.id}
+            responses={responses}
+            onChange={setAfterId}
+          />
+        </div>
+
+        {before && after && (
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+            <span>
+              <span className="text-muted-foreground">Status</span>{" "}
+              <span className="font-mono">
+                {before.response.status} → {after.response.status}
+              </span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Time</span>{" "}
+              <span className="font-mono">
+                {before.response.time}ms → {after.response.time}ms
+              </span>
+            </span>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            variant={tab === "body" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setTab("body")}
+          >
+            Body
+          </Button>
+          <Button
+            variant={tab === "headers" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setTab("headers")}
+          >
+            Headers ({changedHeaders})
+          </Button>
+        </div>
+
+        {tab === "body" && bodyComparison && (
+          <div className="space-y-3 min-w-0">
+            {bodyComparison.kind !== "text" &&
+              bodyComparison.kind !== "binary" && (
+                <label className="block space-y-1 text-sm">
+                  <span className="text-muted-foreground">
+                    Ignored paths, one per line
+                  </span>
+                  <textarea
+                    value={ignoredText ?? ignoredPaths.join("\n")}
+                    onChange={(e) => {
+                      setIgnoredText(e.target.value);
+                      onIgnoredPathsChange(
+                        e.target.value
+                          .split("\n")
+                          .map((path) => path.trim())
+                          .filter(Boolean)
+                      );
+                    }}
+                    placeholder={"$..updatedAt\n$.items[*].id"}
+                    rows={2}
+                    spellCheck={false}
+                    className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none"
+                  />
+                </label>
+              )}
+
+            {bodyComparison.kind === "error" && (
+              <p className="text-sm text-destructive">
+                {bodyComparison.message}
+              </p>
+            )}
+
+            {bodyComparison.kind === "binary" && (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                {bodyComparison.identical
+                  ? "The binary bodies are identical"
+                  : `The binary bodies differ (${bodyComparison.before} → ${bodyComparison.after} bytes)`}
+              </p>
+            )}
+
+            {bodyComparison.kind === "json" &&
+              (bodyComparison.entries.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  The JSON bodies are identical
+                  {ignoredPaths.length > 0 && " apart from ignored paths"}
+                </p>
+              ) : (
+                <div className="max-h-96 overflow-y-auto border border-border rounded-md divide-y divide-border text-sm font-mono">
+                  {bodyComparison.entries.map((entry) => (
+                    <div
+                      key={`${entry.kind}:${entry.path}`}
+                      className={cn(
+                        "grid grid-cols-3 gap-3 px-3 py-1.5",
+                        DIFF_KIND_CLASSES[entry.kind]
+                      )}
+                    >
+                      <span className="break-all">
+                        {DIFF_KIND_MARKERS[entry.kind]} {entry.path}
+                      </span>
+                      <span className="break-all">
+                        {formatValue(entry.before)}
+                      </span>
+                      <span className="break-all">
+                        {formatValue(entry.after)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+            {bodyComparison.kind === "text" &&
+              (bodyComparison.rows.every((row) => row.kind === "unchanged") ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  The bodies are identical
+                </p>
+              ) : (
+                <div className="max-h-96 overflow-y-auto border border-border rounded-md text-xs font-mono">
+                  {bodyComparison.rows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-2">
+                      <TextDiffCell
+                        line={row.beforeLine}
+                        text={row.before}
+                        className={
+                          row.kind === "removed" || row.kind === "changed"
+                            ? DIFF_KIND_CLASSES.removed
+                            : undefined
+                        }
+                      />
+                      <TextDiffCell
+                        line={row.afterLine}
+                        text={row.after}
+                        className={cn(
+                          "border-l border-border",
+                          (row.kind === "added" || row.kind === "changed") &&
+                            DIFF_KIND_CLASSES.added
+                        )}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+          </div>
+        )}
+
+        {tab === "headers" && (
+          <div className="max-h-96 overflow-y-auto border border-border rounded-md divide-y divide-border text-sm font-mono">
+            {headerDiff.map((entry) => (
+              <div
+                key={entry.name}
+                className={cn(
+                  "grid grid-cols-3 gap-3 px-3 py-1.5",
+                  DIFF_KIND_CLASSES[entry.kind]
+                )}
+              >
+                <span className="break-all">
+                  {entry.kind !== "unchanged" && DIFF_KIND_MARKERS[entry.kind]}{" "}
+                  {entry.name}
+                </span>
+                <span className="break-all">{entry.before}</span>
+                <span className="break-all">{entry.after}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
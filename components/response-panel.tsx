@@ -19,33 +19,116 @@ import {
   Server,
   Wifi,
   Wrench,
+  Download,
+  Filter,
+  GitCompare,
+  Radio,
+  X,
 } from "lucide-react";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Button } from "./ui/button";
-import { JsonViewer } from "./json-viewer";
+import { ResponseBodyViewer } from "./response-body-viewer";
+import { ResponseTimingBreakdown } from "./response-timing";
 import { toast } from "sonner";
-
-interface ApiResponse {
-  status: number;
-  statusText: string;
-  headers: Record<string, string>;
-  data: unknown;
-  time: number;
-}
+import type { ApiResponse } from "@/lib/http-client";
+import {
+  getMimeType,
+  getResponseBytes,
+  getResponseFileName,
+  getResponseViewKind,
+  type ResponseViewKind,
+} from "@/lib/response-content";
+import { filterJson, getFilterLanguage } from "@/lib/json-filter";
+import {
+  STREAM_FORMAT_LABELS,
+  type ResponseStream,
+} from "@/lib/response-stream";
+import { cn, downloadFile } from "@/lib/utils";
+import type { ConsoleLevel, ScriptOutput } from "@/lib/scripts";
+import type { TestReport } from "@/lib/assertions";
 
 interface ResponsePanelProps {
   response: ApiResponse | null;
   loading: boolean;
   error: string | null;
+  /** Set when the error is a cancelled or timed out request */
+  errorKind?: "cancelled" | "timeout" | null;
+  /** Console output of the pre-request and test scripts of the last send */
+  scriptOutput?: ScriptOutput | null;
+  /** Assertion and test script results for the current response */
+  testReport?: TestReport | null;
+  /** JSONPath or jq expression that narrows a JSON body */
+  responseFilter?: string;
+  onResponseFilterChange?: (filter: string) => void;
+  /** Opens the response comparison; omitted until two responses exist */
+  onCompare?: () => void;
 }
 
+const CONSOLE_LEVEL_CLASSES: Record<ConsoleLevel, string> = {
+  log: "text-foreground",
+  info: "text-blue-600 dark:text-blue-400",
+  warn: "text-yellow-600 dark:text-yellow-400",
+  error: "text-destructive",
+};
+
+// Labels of the rendered and raw views, for bodies that have both
+const VIEW_TOGGLE_LABELS: Partial<
+  Record<ResponseViewKind, { rendered: string; raw: string }>
+> = {
+  json: { rendered: "Pretty", raw: "Raw" },
+  xml: { rendered: "Pretty", raw: "Raw" },
+  html: { rendered: "Preview", raw: "Source" },
+  image: { rendered: "Preview", raw: "Hex" },
+  pdf: { rendered: "Preview", raw: "Hex" },
+  stream: { rendered: "Events", raw: "Raw" },
+};
+
+const STREAM_STATE_LABELS: Record<ResponseStream["state"], string> = {
+  streaming: "Receiving...",
+  done: "Ended by the server",
+  stopped: "Stopped before the server ended it",
+};
+
 export function ResponsePanel({
   response,
   loading,
   error,
+  errorKind,
+  scriptOutput,
+  testReport,
+  responseFilter = "",
+  onResponseFilterChange,
+  onCompare,
 }: ResponsePanelProps) {
   const [copied, setCopied] = React.useState(false);
   const [isRawView, setIsRawView] = React.useState(false);
+  const [activeTab, setActiveTab] = React.useState<"body" | "tests">("body");
+  const [showTiming, setShowTiming] = React.useState(false);
+  const passedCount =
+    testReport?.results.filter((result) => result.passed).length ?? 0;
+  const viewKind = response ? getResponseViewKind(response) : "text";
+  const viewToggleLabels = VIEW_TOGGLE_LABELS[viewKind];
+  // Filtering large bodies on every keystroke would make typing lag
+  const deferredFilter = React.useDeferredValue(responseFilter);
+
+  const filterResult = React.useMemo(() => {
+    if (!response || viewKind !== "json" || !deferredFilter.trim()) {
+      return null;
+    }
+    try {
+      return {
+        matches: filterJson(response.data, deferredFilter),
+        error: null,
+      };
+    } catch (err) {
+      return {
+        matches: null,
+        error: err instanceof Error ? err.message : "Invalid filter",
+      };
+    }
+  }, [response, viewKind, deferredFilter]);
+  const filteredData = filterResult?.matches ?? undefined;
 
   const getStatusColor = (status: number): string => {
     if (status >= 200 && status < 300)
@@ -109,15 +192,18 @@ export function ResponsePanel({
     if (!response) return;
 
     try {
+      const data = filteredData ?? response.data;
       const text =
-        typeof response.data === "object"
-          ? JSON.stringify(response.data, null, 2)
-          : String(response.data);
+        typeof data === "object"
+          ? JSON.stringify(data, null, 2)
+          : String(data);
 
       await navigator.clipboard.writeText(text);
       setCopied(true);
       toast.success("Copied to clipboard!", {
-        description: "Response data has been copied to your clipboard",
+        description: filteredData
+          ? "The filtered result has been copied to your clipboard"
+          : "Response data has been copied to your clipboard",
         duration: 2000,
       });
 
@@ -129,12 +215,34 @@ export function ResponsePanel({
     }
   };
 
+  const handleSave = () => {
+    if (!response) return;
+    downloadFile(
+      getResponseBytes(response),
+      getResponseFileName(response),
+      getMimeType(response.headers) || "application/octet-stream"
+    );
+  };
+
   return (
     <Card className="shadow-card">
       <div className="p-6">
-        <h2 className="text-lg font-semibold mb-4">Response</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Response</h2>
+          {onCompare && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onCompare}
+              className="gap-1.5"
+            >
+              <GitCompare className="h-4 w-4" />
+              <span className="text-xs">Compare</span>
+            </Button>
+          )}
+        </div>
 
-        {loading && (
+        {loading && !response && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -148,7 +256,44 @@ export function ResponsePanel({
           </motion.div>
         )}
 
-        {error && (
+        {error && errorKind && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+            className={
+              errorKind === "timeout"
+                ? "bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-800 rounded-md p-4 mb-6"
+                : "bg-muted/50 border border-border rounded-md p-4 mb-6"
+            }
+          >
+            <div
+              className={`flex items-center gap-2 ${
+                errorKind === "timeout"
+                  ? "text-yellow-800 dark:text-yellow-300"
+                  : "text-foreground"
+              }`}
+            >
+              {errorKind === "timeout" ? (
+                <Timer className="w-5 h-5" />
+              ) : (
+                <Ban className="w-5 h-5" />
+              )}
+              <span className="font-medium">
+                {errorKind === "timeout" ? "Timed out" : "Cancelled"}
+              </span>
+            </div>
+            <p className="mt-1 text-muted-foreground text-sm">{error}</p>
+            {errorKind === "timeout" && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Raise the timeout in the request&apos;s Settings section, or
+                the default timeout in Settings.
+              </p>
+            )}
+          </motion.div>
+        )}
+
+        {error && !errorKind && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -177,8 +322,8 @@ export function ResponsePanel({
                   </li>
                   <li>• Some APIs require specific CORS headers to be set</li>
                   <li>
-                    • Consider using a CORS proxy or testing with a different
-                    API
+                    • Switch the request to Proxy execution to send it from
+                    the server instead of the browser
                   </li>
                 </ul>
               </div>
@@ -201,6 +346,37 @@ export function ResponsePanel({
           </motion.div>
         )}
 
+        {scriptOutput &&
+          (scriptOutput.logs.length > 0 || scriptOutput.error) && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+              className="mb-6"
+            >
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                Console
+              </h3>
+              <Card className="rounded-md p-3 max-h-40 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-transparent">
+                {scriptOutput.logs.map((entry, index) => (
+                  <pre
+                    key={index}
+                    className={`text-sm font-mono whitespace-pre-wrap break-all ${
+                      CONSOLE_LEVEL_CLASSES[entry.level]
+                    }`}
+                  >
+                    {entry.message}
+                  </pre>
+                ))}
+                {scriptOutput.error && (
+                  <pre className="text-sm font-mono whitespace-pre-wrap break-all text-destructive">
+                    {scriptOutput.error}
+                  </pre>
+                )}
+              </Card>
+            </motion.div>
+          )}
+
         {response && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
@@ -249,92 +425,260 @@ export function ResponsePanel({
                   </span>
                 </span>
               </div>
-              <div className="flex items-center gap-1 text-muted-foreground">
-                <Clock className="w-4 h-4" />
-                <span className="text-sm">{response.time}ms</span>
-              </div>
+              {response.timings ? (
+                <button
+                  type="button"
+                  onClick={() => setShowTiming(!showTiming)}
+                  className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                  title={showTiming ? "Hide timing" : "Show timing"}
+                >
+                  <Clock className="w-4 h-4" />
+                  <span className="text-sm underline decoration-dotted underline-offset-4">
+                    {response.time}ms
+                  </span>
+                </button>
+              ) : (
+                <div className="flex items-center gap-1 text-muted-foreground">
+                  <Clock className="w-4 h-4" />
+                  <span className="text-sm">{response.time}ms</span>
+                </div>
+              )}
+              {response.ttfb !== undefined && (
+                <span
+                  className="text-sm text-muted-foreground"
+                  title="Time to first byte"
+                >
+                  TTFB {response.ttfb}ms
+                </span>
+              )}
             </div>
 
-            {/* Response Headers */}
-            <div>
-              <h3 className="text-sm font-medium text-muted-foreground mb-2">
-                Response Headers
-              </h3>
-              <Card className="rounded-md p-3 max-h-32 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-transparent">
-                {Object.entries(response.headers).map(([key, value]) => (
-                  <div key={key} className="text-sm font-mono">
-                    <span className="text-muted-foreground">{key}:</span>{" "}
-                    <span className="text-foreground">{value}</span>
-                  </div>
-                ))}
-              </Card>
-            </div>
+            {response.timings && showTiming && (
+              <ResponseTimingBreakdown
+                timings={response.timings}
+                sizes={response.sizes}
+              />
+            )}
 
-            {/* Response Body */}
-            <div>
-              <h3 className="text-sm font-medium text-muted-foreground mb-2">
-                Response Body
-              </h3>
-              <Card className="rounded-md relative overflow-hidden">
-                <div className="relative">
-                  <div className="text-sm overflow-x-auto max-h-96 scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-transparent p-3 pt-6 pb-6">
-                    {typeof response.data === "object" ? (
-                      <JsonViewer
-                        data={response.data}
-                        className="text-sm"
-                        isRawView={isRawView}
-                      />
+            {response.stream && (
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1.5">
+                  <Radio
+                    className={cn(
+                      "w-4 h-4",
+                      response.stream.state === "streaming" &&
+                        "text-green-600 dark:text-green-400 animate-pulse"
+                    )}
+                  />
+                  {STREAM_FORMAT_LABELS[response.stream.format]}
+                </span>
+                <span>
+                  {response.stream.events.length}{" "}
+                  {response.stream.events.length === 1 ? "event" : "events"}
+                </span>
+                <span title="Time from the first byte to the end of the stream">
+                  Stream {response.stream.duration}ms
+                </span>
+                <span>{STREAM_STATE_LABELS[response.stream.state]}</span>
+              </div>
+            )}
+
+            {testReport && (
+              <div className="flex gap-2">
+                <Button
+                  variant={activeTab === "body" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setActiveTab("body")}
+                >
+                  Response
+                </Button>
+                <Button
+                  variant={activeTab === "tests" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setActiveTab("tests")}
+                >
+                  Test Results ({passedCount}/{testReport.results.length})
+                </Button>
+              </div>
+            )}
+
+            {testReport && activeTab === "tests" ? (
+              <div className="space-y-2">
+                {testReport.error && (
+                  <div className="p-3 rounded-md border border-destructive/20 bg-destructive/10 text-sm text-destructive">
+                    <span className="font-medium">Test script failed:</span>{" "}
+                    {testReport.error}
+                  </div>
+                )}
+                {testReport.results.length === 0 && !testReport.error && (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    No tests were recorded
+                  </p>
+                )}
+                {testReport.results.map((result, index) => (
+                  <div
+                    key={index}
+                    className="flex items-start gap-2 p-2 rounded-md border border-border text-sm"
+                  >
+                    {result.passed ? (
+                      <CheckCircle className="w-4 h-4 mt-0.5 shrink-0 text-green-600 dark:text-green-400" />
                     ) : (
-                      <pre className="font-mono">{String(response.data)}</pre>
+                      <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
                     )}
+                    <div className="min-w-0">
+                      <div className="font-medium break-words">
+                        {result.name}
+                      </div>
+                      {result.message && (
+                        <div className="text-xs font-mono text-muted-foreground break-words">
+                          {result.message}
+                        </div>
+                      )}
+                    </div>
                   </div>
+                ))}
+              </div>
+            ) : (
+              <>
+                {/* Response Headers */}
+                <div>
+                  <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                    Response Headers
+                  </h3>
+                  <Card className="rounded-md p-3 max-h-32 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-transparent">
+                    {Object.entries(response.headers).map(([key, value]) => (
+                      <div key={key} className="text-sm font-mono">
+                        <span className="text-muted-foreground">{key}:</span>{" "}
+                        <span className="text-foreground">{value}</span>
+                      </div>
+                    ))}
+                  </Card>
                 </div>
-                <div className="absolute top-2 right-2 flex gap-2 z-10">
-                  {typeof response.data === "object" && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 hover:bg-accent gap-1.5"
-                      onClick={() => setIsRawView(!isRawView)}
-                    >
-                      {isRawView ? (
-                        <>
-                          <Eye className="h-4 w-4" />
-                          <span className="text-xs">Pretty</span>
-                        </>
-                      ) : (
-                        <>
-                          <Code className="h-4 w-4" />
-                          <span className="text-xs">Raw</span>
-                        </>
+
+                {/* Response Body */}
+                <div>
+                  <h3 className="text-sm font-medium text-muted-foreground mb-2">
+                    Response Body
+                  </h3>
+                  {viewKind === "json" && onResponseFilterChange && (
+                    <div className="mb-2">
+                      <div className="flex items-center gap-2">
+                        <div className="relative flex-1">
+                          <Filter className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                          <Input
+                            value={responseFilter}
+                            onChange={(e) =>
+                              onResponseFilterChange(e.target.value)
+                            }
+                            placeholder="Filter with JSONPath ($.items[*].id) or jq (.items[] | .id)"
+                            spellCheck={false}
+                            className="pl-8 font-mono text-sm"
+                          />
+                        </div>
+                        {filterResult?.matches && (
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {getFilterLanguage(deferredFilter) === "jq"
+                              ? "jq"
+                              : "JSONPath"}{" "}
+                            · {filterResult.matches.length}{" "}
+                            {filterResult.matches.length === 1
+                              ? "match"
+                              : "matches"}
+                          </span>
+                        )}
+                        {responseFilter && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 shrink-0"
+                            onClick={() => onResponseFilterChange("")}
+                            aria-label="Clear filter"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                      {filterResult?.error && (
+                        <p className="mt-1 text-xs text-destructive">
+                          {filterResult.error}
+                        </p>
                       )}
-                    </Button>
+                    </div>
                   )}
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-8 hover:bg-accent gap-1.5"
-                    onClick={handleCopy}
-                  >
-                    {copied ? (
-                      <>
-                        <Check className="h-4 w-4 text-green-500" />
-                        <span className="text-xs">Copied</span>
-                      </>
-                    ) : (
-                      <>
-                        <Copy className="h-4 w-4" />
-                        <span className="text-xs">Copy</span>
-                      </>
-                    )}
-                  </Button>
+                  <Card className="rounded-md relative overflow-hidden">
+                    <div className="relative">
+                      <div className="text-sm overflow-x-auto max-h-96 scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-gray-600 scrollbar-track-transparent p-3 pt-6 pb-6">
+                        <ResponseBodyViewer
+                          response={response}
+                          kind={viewKind}
+                          data={filteredData}
+                          isRawView={isRawView}
+                        />
+                      </div>
+                    </div>
+                    <div className="absolute top-2 right-2 flex gap-2 z-10">
+                      {viewToggleLabels && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 hover:bg-accent gap-1.5"
+                          onClick={() => setIsRawView(!isRawView)}
+                        >
+                          {isRawView ? (
+                            <>
+                              <Eye className="h-4 w-4" />
+                              <span className="text-xs">
+                                {viewToggleLabels.rendered}
+                              </span>
+                            </>
+                          ) : (
+                            <>
+                              <Code className="h-4 w-4" />
+                              <span className="text-xs">
+                                {viewToggleLabels.raw}
+                              </span>
+                            </>
+                          )}
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 hover:bg-accent gap-1.5"
+                        onClick={handleSave}
+                      >
+                        <Download className="h-4 w-4" />
+                        <span className="text-xs">Save</span>
+                      </Button>
+                      {response.bodyEncoding !== "base64" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 hover:bg-accent gap-1.5"
+                          onClick={handleCopy}
+                        >
+                          {copied ? (
+                            <>
+                              <Check className="h-4 w-4 text-green-500" />
+                              <span className="text-xs">Copied</span>
+                            </>
+                          ) : (
+                            <>
+                              <Copy className="h-4 w-4" />
+                              <span className="text-xs">Copy</span>
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                    {/* Top gradient */}
+                    <div className="absolute top-0 left-0 right-0 h-6 bg-gradient-to-b from-background to-transparent pointer-events-none" />
+                    {/* Bottom gradient */}
+                    <div className="absolute bottom-0 left-0 right-0 h-6 bg-gradient-to-t from-background to-transparent pointer-events-none" />
+                  </Card>
                 </div>
-                {/* Top gradient */}
-                <div className="absolute top-0 left-0 right-0 h-6 bg-gradient-to-b from-background to-transparent pointer-events-none" />
-                {/* Bottom gradient */}
-                <div className="absolute bottom-0 left-0 right-0 h-6 bg-gradient-to-t from-background to-transparent pointer-events-none" />
-              </Card>
-            </div>
+              </>
+            )}
           </motion.div>
         )}
       </div>
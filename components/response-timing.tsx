@@ -0,0 +1,114 @@
+"use client";
+
+import React from "react";
+import {
+  getWaterfall,
+  TIMING_PHASE_LABELS,
+  type ResponseSizes,
+  type ResponseTimings,
+  type TimingPhase,
+} from "@/lib/response-timing";
+import { cn } from "@/lib/utils";
+
+interface ResponseTimingBreakdownProps {
+  timings: ResponseTimings;
+  sizes?: ResponseSizes;
+}
+
+const PHASE_CLASSES: Record<TimingPhase, string> = {
+  redirect: "bg-gray-400",
+  dns: "bg-teal-500",
+  connect: "bg-orange-500",
+  tls: "bg-purple-500",
+  wait: "bg-green-500",
+  download: "bg-blue-500",
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function SizeRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  );
+}
+
+export function ResponseTimingBreakdown({
+  timings,
+  sizes,
+}: ResponseTimingBreakdownProps) {
+  const segments = getWaterfall(timings);
+  // Keeps instant responses from dividing by zero
+  const total = Math.max(timings.total, 0.1);
+  const isEncoded =
+    sizes !== undefined && sizes.responseBodyDecoded !== sizes.responseBody;
+
+  return (
+    <div className="p-3 rounded-md border border-border space-y-3 text-sm">
+      <div className="space-y-1.5">
+        {segments.map(({ phase, start, duration }) => (
+          <div key={phase} className="flex items-center gap-3">
+            <span className="w-36 shrink-0 text-muted-foreground">
+              {TIMING_PHASE_LABELS[phase]}
+            </span>
+            <div className="relative flex-1 h-2 rounded-full bg-muted">
+              <div
+                className={cn(
+                  "absolute inset-y-0 min-w-[2px] rounded-full",
+                  PHASE_CLASSES[phase]
+                )}
+                style={{
+                  left: `${(start / total) * 100}%`,
+                  width: `${(duration / total) * 100}%`,
+                }}
+              />
+            </div>
+            <span className="w-20 shrink-0 text-right font-mono">
+              {duration}ms
+            </span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between pt-1.5 border-t border-border font-medium">
+          <span>Total</span>
+          <span className="font-mono">{timings.total}ms</span>
+        </div>
+      </div>
+
+      {sizes && (
+        <div className="grid gap-x-6 gap-y-1 pt-2 border-t border-border sm:grid-cols-2">
+          <div className="space-y-1">
+            <p className="font-medium">Request</p>
+            <SizeRow
+              label="Headers"
+              value={formatBytes(sizes.requestHeaders)}
+            />
+            <SizeRow label="Body" value={formatBytes(sizes.requestBody)} />
+          </div>
+          <div className="space-y-1">
+            <p className="font-medium">Response</p>
+            <SizeRow
+              label="Headers"
+              value={formatBytes(sizes.responseHeaders)}
+            />
+            <SizeRow
+              label={isEncoded ? "Body (compressed)" : "Body"}
+              value={formatBytes(sizes.responseBody)}
+            />
+            {isEncoded && (
+              <SizeRow
+                label="Decoded body"
+                value={formatBytes(sizes.responseBodyDecoded)}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { listFolders, type Collection } from "@/lib/collections";
+
+interface SaveRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  collections: Collection[];
+  defaultName: string;
+  onCreateCollection: (name: string) => Collection;
+  onSave: (collectionId: string, folderId: string | null, name: string) => void;
+}
+
+const NEW_COLLECTION = "__new__";
+const ROOT_FOLDER = "__root__";
+
+const selectClassName =
+  "w-full px-3 py-2 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent";
+
+type SaveRequestFormProps = Omit<SaveRequestDialogProps, "open">;
+
+// Dialog content unmounts while closed, so the form starts fresh on each open
+function SaveRequestForm({
+  onOpenChange,
+  collections,
+  defaultName,
+  onCreateCollection,
+  onSave,
+}: SaveRequestFormProps) {
+  const [name, setName] = useState(defaultName);
+  const [collectionId, setCollectionId] = useState<string>(
+    collections[0]?.id ?? NEW_COLLECTION
+  );
+  const [folderId, setFolderId] = useState<string>(ROOT_FOLDER);
+  const [newCollectionName, setNewCollectionName] = useState("My Collection");
+
+  const folders = useMemo(() => {
+    const collection = collections.find((c) => c.id === collectionId);
+    return collection ? listFolders(collection.items) : [];
+  }, [collections, collectionId]);
+
+  const isNewCollection = collectionId === NEW_COLLECTION;
+  const canSave =
+    name.trim().length > 0 &&
+    (!isNewCollection || newCollectionName.trim().length > 0);
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const targetId = isNewCollection
+      ? onCreateCollection(newCollectionName.trim()).id
+      : collectionId;
+    onSave(
+      targetId,
+      isNewCollection || folderId === ROOT_FOLDER ? null : folderId,
+      name.trim()
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSave();
+      }}
+    >
+      <div className="space-y-1.5">
+        <label className="text-sm font-medium" htmlFor="save-request-name">
+          Name
+        </label>
+        <Input
+          id="save-request-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Request name"
+          autoFocus
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <label
+          className="text-sm font-medium"
+          htmlFor="save-request-collection"
+        >
+          Collection
+        </label>
+        <select
+          id="save-request-collection"
+          value={collectionId}
+          onChange={(e) => {
+            setCollectionId(e.target.value);
+            setFolderId(ROOT_FOLDER);
+          }}
+          className={selectClassName}
+        >
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name}
+            </option>
+          ))}
+          <option value={NEW_COLLECTION}>+ New collection…</option>
+        </select>
+        {isNewCollection && (
+          <Input
+            value={newCollectionName}
+            onChange={(e) => setNewCollectionName(e.target.value)}
+            placeholder="Collection name"
+          />
+        )}
+      </div>
+
+      {!isNewCollection && (
+        <div className="space-y-1.5">
+          <label className="text-sm font-medium" htmlFor="save-request-folder">
+            Folder
+          </label>
+          <select
+            id="save-request-folder"
+            value={folderId}
+            onChange={(e) => setFolderId(e.target.value)}
+            className={selectClassName}
+          >
+            <option value={ROOT_FOLDER}>(Collection root)</option>
+            {folders.map((folder) => (
+              <option key={folder.id} value={folder.id}>
+                {"\u00a0\u00a0".repeat(folder.depth + 1)}
+                {folder.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => onOpenChange(false)}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!canSave}>
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function SaveRequestDialog({
+  open,
+  ...formProps
+}: SaveRequestDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={formProps.onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save Request</DialogTitle>
+          <DialogDescription>
+            Choose the collection and folder to save this request into.
+          </DialogDescription>
+        </DialogHeader>
+        <SaveRequestForm {...formProps} />
+      </DialogContent>
+    </Dialog>
+  );
+}
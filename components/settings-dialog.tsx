@@ -0,0 +1,70 @@
+"use client";
+
+import React, { useState } from "react";
+import { Settings as SettingsIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Settings } from "@/hooks/use-settings";
+
+interface SettingsDialogProps {
+  settings: Settings;
+  onUpdateSettings: (changes: Partial<Settings>) => void;
+}
+
+export function SettingsDialog({
+  settings,
+  onUpdateSettings,
+}: SettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="text-muted-foreground hover:text-foreground gap-2"
+      >
+        <SettingsIcon className="h-4 w-4" />
+        <span className="hidden sm:inline">Settings</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Settings</DialogTitle>
+            <DialogDescription>
+              Defaults for every request. Saved in this browser.
+            </DialogDescription>
+          </DialogHeader>
+
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Default timeout (ms)</span>
+            <Input
+              type="number"
+              min={0}
+              step={1000}
+              value={settings.defaultTimeout}
+              onChange={(e) =>
+                onUpdateSettings({
+                  defaultTimeout: Math.max(0, Number(e.target.value) || 0),
+                })
+              }
+            />
+            <span className="block text-xs text-muted-foreground">
+              0 waits for a response indefinitely. A request can set its own
+              timeout under Settings in the request editor.
+            </span>
+          </label>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
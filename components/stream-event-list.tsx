@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { ResponseStream } from "@/lib/response-stream";
+
+interface StreamEventListProps {
+  stream: ResponseStream;
+}
+
+export function StreamEventList({ stream }: StreamEventListProps) {
+  // Empty shows every event type
+  const [eventType, setEventType] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+  // Scrolling up to read older events stops following new ones
+  const followRef = useRef(true);
+
+  const eventTypes = useMemo(
+    () =>
+      [...new Set(stream.events.flatMap(({ event }) => event ?? []))].sort(),
+    [stream.events]
+  );
+
+  const events = useMemo(
+    () =>
+      eventType
+        ? stream.events.filter(({ event }) => event === eventType)
+        : stream.events,
+    [stream.events, eventType]
+  );
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && followRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [events]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    followRef.current = scrollHeight - scrollTop - clientHeight < 24;
+  };
+
+  return (
+    <div className="space-y-2">
+      {eventTypes.length > 1 && (
+        <select
+          value={eventType}
+          onChange={(e) => setEventType(e.target.value)}
+          className="px-2 py-1 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent"
+          aria-label="Event type"
+        >
+          <option value="">All events</option>
+          {eventTypes.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      )}
+      <div
+        ref={listRef}
+        onScroll={handleScroll}
+        className="max-h-80 overflow-y-auto divide-y divide-border"
+      >
+        {events.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">
+            {stream.state === "streaming"
+              ? "Waiting for events..."
+              : "No events were received"}
+          </p>
+        ) : (
+          events.map((event, index) => (
+            <div key={index} className="flex gap-3 py-1.5">
+              <span className="w-16 shrink-0 text-right font-mono text-xs text-muted-foreground">
+                +{event.time}ms
+              </span>
+              <div className="min-w-0 flex-1">
+                {(event.event || event.id) && (
+                  <div className="flex gap-2 text-xs">
+                    {event.event && (
+                      <span className="font-mono text-blue-600 dark:text-blue-400">
+                        {event.event}
+                      </span>
+                    )}
+                    {event.id && (
+                      <span className="font-mono text-muted-foreground">
+                        id: {event.id}
+                      </span>
+                    )}
+                  </div>
+                )}
+                <pre className="font-mono text-xs whitespace-pre-wrap break-all">
+                  {event.data}
+                </pre>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
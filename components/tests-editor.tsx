@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useCallback } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Delete, Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn, generateId } from "@/lib/utils";
+import {
+  ASSERTION_TYPE_LABELS,
+  type Assertion,
+  type AssertionType,
+} from "@/lib/assertions";
+
+interface TestsEditorProps {
+  testScript: string;
+  setTestScript: (script: string) => void;
+  assertions: Assertion[];
+  setAssertions: (assertions: Assertion[]) => void;
+}
+
+const TARGET_PLACEHOLDERS: Partial<Record<AssertionType, string>> = {
+  header: "Header name",
+  jsonPath: "$.data.id",
+};
+
+const VALUE_PLACEHOLDERS: Partial<Record<AssertionType, string>> = {
+  status: "200",
+  jsonPath: "Expected value (optional)",
+  time: "500",
+};
+
+const TEST_SCRIPT_PLACEHOLDER = `test("Status is 200", () => {
+  expect(response.status).toBe(200);
+});
+test("Returns an id", () => {
+  expect(response.body).toHaveProperty("id");
+});`;
+
+export function TestsEditor({
+  testScript,
+  setTestScript,
+  assertions,
+  setAssertions,
+}: TestsEditorProps) {
+  const updateAssertion = useCallback(
+    (id: string, changes: Partial<Assertion>) => {
+      setAssertions(
+        assertions.map((assertion) =>
+          assertion.id === id ? { ...assertion, ...changes } : assertion
+        )
+      );
+    },
+    [assertions, setAssertions]
+  );
+
+  const addAssertion = useCallback(() => {
+    setAssertions([
+      ...assertions,
+      {
+        id: generateId(),
+        type: "status",
+        target: "",
+        value: "200",
+        enabled: true,
+      },
+    ]);
+  }, [assertions, setAssertions]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs text-muted-foreground">Assertions</span>
+          <Button variant="ghost" size="sm" onClick={addAssertion}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Assertion
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <AnimatePresence>
+            {assertions.map((assertion) => (
+              <motion.div
+                key={assertion.id}
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: "auto" }}
+                exit={{ opacity: 0, height: 0 }}
+                transition={{ duration: 0.2, ease: "easeInOut" }}
+                className="grid grid-cols-[auto_1fr_auto] gap-2 sm:items-center"
+              >
+                <input
+                  type="checkbox"
+                  checked={assertion.enabled}
+                  onChange={(e) =>
+                    updateAssertion(assertion.id, {
+                      enabled: e.target.checked,
+                    })
+                  }
+                  aria-label="Enabled"
+                  className="w-4 h-4 accent-primary cursor-pointer"
+                />
+                <div
+                  className={cn(
+                    "flex flex-col sm:flex-row gap-2",
+                    !assertion.enabled && "opacity-50"
+                  )}
+                >
+                  <select
+                    value={assertion.type}
+                    onChange={(e) =>
+                      updateAssertion(assertion.id, {
+                        type: e.target.value as AssertionType,
+                      })
+                    }
+                    className="px-2 py-1 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent"
+                    aria-label="Assertion type"
+                  >
+                    {(Object.keys(ASSERTION_TYPE_LABELS) as AssertionType[]).map(
+                      (type) => (
+                        <option key={type} value={type}>
+                          {ASSERTION_TYPE_LABELS[type]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  {TARGET_PLACEHOLDERS[assertion.type] && (
+                    <Input
+                      value={assertion.target}
+                      onChange={(e) =>
+                        updateAssertion(assertion.id, {
+                          target: e.target.value,
+                        })
+                      }
+                      placeholder={TARGET_PLACEHOLDERS[assertion.type]}
+                      className="flex-1 font-mono"
+                    />
+                  )}
+                  {VALUE_PLACEHOLDERS[assertion.type] && (
+                    <Input
+                      value={assertion.value}
+                      onChange={(e) =>
+                        updateAssertion(assertion.id, {
+                          value: e.target.value,
+                        })
+                      }
+                      placeholder={VALUE_PLACEHOLDERS[assertion.type]}
+                      className="flex-1"
+                    />
+                  )}
+                </div>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() =>
+                        setAssertions(
+                          assertions.filter(({ id }) => id !== assertion.id)
+                        )
+                      }
+                      className="text-destructive hover:text-destructive h-full border-destructive/30 bg-destructive/5"
+                    >
+                      <Delete className="w-4 h-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Remove assertion</p>
+                  </TooltipContent>
+                </Tooltip>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      </div>
+
+      <div>
+        <span className="block mb-2 text-xs text-muted-foreground">
+          Test Script
+        </span>
+        <textarea
+          value={testScript}
+          onChange={(e) => setTestScript(e.target.value)}
+          placeholder={TEST_SCRIPT_PLACEHOLDER}
+          rows={6}
+          spellCheck={false}
+          className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none"
+        />
+        <p className="mt-2 text-xs text-muted-foreground">
+          Runs after the response arrives. <code>response</code> has the
+          status, headers, parsed body and time; record checks with{" "}
+          <code>test(name, fn)</code> and <code>expect(value)</code> matchers
+          such as <code>toBe</code>, <code>toEqual</code> and{" "}
+          <code>toContain</code>.
+        </p>
+      </div>
+    </div>
+  );
+}
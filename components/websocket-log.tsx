@@ -0,0 +1,248 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  AlertTriangle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Copy,
+  PlugZap,
+  Trash2,
+  Unplug,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { decodeBase64 } from "@/lib/http-client";
+import { formatHexDump } from "@/lib/response-content";
+import type { WsConnectionStatus, WsLogEntry } from "@/lib/websocket";
+import type { WebSocketSession } from "@/hooks/use-websocket-sessions";
+
+interface WebSocketLogProps {
+  session: WebSocketSession;
+  onClear: () => void;
+}
+
+type LogFilter = "all" | "sent" | "received";
+
+const FILTER_LABELS: Record<LogFilter, string> = {
+  all: "All",
+  sent: "Sent",
+  received: "Received",
+};
+
+const STATUS_LABELS: Record<WsConnectionStatus, string> = {
+  connecting: "Connecting",
+  open: "Connected",
+  closing: "Closing",
+  closed: "Disconnected",
+};
+
+const STATUS_CLASSES: Record<WsConnectionStatus, string> = {
+  connecting: "bg-yellow-500 animate-pulse",
+  open: "bg-green-500",
+  closing: "bg-yellow-500",
+  closed: "bg-gray-400",
+};
+
+const ENTRY_ICONS: Record<WsLogEntry["type"], React.ElementType> = {
+  sent: ArrowUpRight,
+  received: ArrowDownLeft,
+  open: PlugZap,
+  close: Unplug,
+  error: AlertTriangle,
+};
+
+const ENTRY_CLASSES: Record<WsLogEntry["type"], string> = {
+  sent: "text-green-600 dark:text-green-400",
+  received: "text-blue-600 dark:text-blue-400",
+  open: "text-muted-foreground",
+  close: "text-muted-foreground",
+  error: "text-destructive",
+};
+
+function formatLogTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], {
+    hour12: false,
+  })}.${String(date.getMilliseconds()).padStart(3, "0")}`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function LogEntryContent({ entry }: { entry: WsLogEntry }) {
+  // Binary frames are logged as base64 and shown as a hex dump
+  const content = useMemo(
+    () => (entry.binary ? formatHexDump(decodeBase64(entry.data)) : entry.data),
+    [entry]
+  );
+
+  if (entry.type === "close") {
+    return (
+      <p className="text-sm">
+        Closed with <span className="font-mono">{entry.code}</span> {entry.data}
+        {entry.reason && (
+          <span className="text-muted-foreground">: {entry.reason}</span>
+        )}
+      </p>
+    );
+  }
+  if (entry.type !== "sent" && entry.type !== "received") {
+    return <p className="text-sm">{entry.data}</p>;
+  }
+  return (
+    <pre className="text-xs font-mono whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+      {content || <span className="text-muted-foreground">(empty)</span>}
+    </pre>
+  );
+}
+
+export function WebSocketLog({ session, onClear }: WebSocketLogProps) {
+  const [filter, setFilter] = useState<LogFilter>("all");
+  const listRef = useRef<HTMLDivElement>(null);
+  // Scrolling up to read older frames stops following new ones
+  const followRef = useRef(true);
+
+  const entries = useMemo(
+    () =>
+      filter === "all"
+        ? session.log
+        : session.log.filter((entry) => entry.type === filter),
+    [session.log, filter]
+  );
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && followRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [entries]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    followRef.current = scrollHeight - scrollTop - clientHeight < 24;
+  };
+
+  const copyEntry = async (entry: WsLogEntry) => {
+    try {
+      await navigator.clipboard.writeText(entry.data);
+      toast.success("Copied to clipboard!", {
+        description: entry.binary
+          ? "The frame has been copied as base64"
+          : "The frame has been copied to your clipboard",
+        duration: 2000,
+      });
+    } catch {
+      toast.error("Failed to copy", {
+        description: "Unable to copy to clipboard",
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <div className="p-6">
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <h2 className="text-lg font-semibold">Messages</h2>
+            <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
+              <span
+                className={cn(
+                  "w-2 h-2 rounded-full",
+                  STATUS_CLASSES[session.status]
+                )}
+              />
+              {STATUS_LABELS[session.status]}
+              {session.protocol && (
+                <span className="font-mono text-xs truncate">
+                  ({session.protocol})
+                </span>
+              )}
+            </span>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClear}
+            disabled={session.log.length === 0}
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-1 mb-3">
+          {(Object.keys(FILTER_LABELS) as LogFilter[]).map((value) => (
+            <Button
+              key={value}
+              variant={filter === value ? "default" : "ghost"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setFilter(value)}
+            >
+              {FILTER_LABELS[value]}
+            </Button>
+          ))}
+          <span className="ml-auto text-xs text-muted-foreground">
+            {entries.length} {entries.length === 1 ? "entry" : "entries"}
+          </span>
+        </div>
+
+        <div
+          ref={listRef}
+          onScroll={handleScroll}
+          className="max-h-[70vh] overflow-y-auto divide-y divide-border border border-border rounded-md"
+        >
+          {entries.length === 0 ? (
+            <p className="p-8 text-center text-sm text-muted-foreground">
+              {session.log.length === 0
+                ? "Connect to see the messages sent and received."
+                : "No messages match this filter."}
+            </p>
+          ) : (
+            entries.map((entry) => {
+              const Icon = ENTRY_ICONS[entry.type];
+              const isFrame =
+                entry.type === "sent" || entry.type === "received";
+              return (
+                <div key={entry.id} className="group flex gap-2 p-2">
+                  <Icon
+                    className={cn(
+                      "w-4 h-4 mt-0.5 shrink-0",
+                      ENTRY_CLASSES[entry.type]
+                    )}
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span className="font-mono">
+                        {formatLogTime(entry.timestamp)}
+                      </span>
+                      {entry.size !== undefined && (
+                        <span>{formatSize(entry.size)}</span>
+                      )}
+                      {entry.binary && <span>Binary</span>}
+                      {isFrame && (
+                        <button
+                          type="button"
+                          onClick={() => copyEntry(entry)}
+                          className="ml-auto opacity-0 group-hover:opacity-100 hover:text-foreground"
+                          title="Copy"
+                        >
+                          <Copy className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                    <LogEntryContent entry={entry} />
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
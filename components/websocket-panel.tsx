@@ -0,0 +1,384 @@
+"use client";
+
+import React, { useCallback, useMemo } from "react";
+import { Plug, PlugZap, Plus, Save, Send, Trash2, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  KeyValueEditor,
+  UNRESOLVED_CLASS,
+  UnresolvedVariablesHint,
+} from "@/components/key-value-editor";
+import { cn, generateId } from "@/lib/utils";
+import { findUnresolvedVariables } from "@/lib/variables";
+import type { QueryParam } from "@/lib/query-params";
+import {
+  REQUEST_KIND_LABELS,
+  WS_MESSAGE_FORMAT_LABELS,
+  type RequestKind,
+  type WebSocketConfig,
+  type WsConnectionStatus,
+  type WsMessageFormat,
+  type WsMessageTemplate,
+} from "@/lib/websocket";
+
+interface WebSocketPanelProps {
+  setKind: (kind: RequestKind) => void;
+  url: string;
+  setUrl: (url: string) => void;
+  params: QueryParam[];
+  setParams: (params: QueryParam[]) => void;
+  websocket: WebSocketConfig;
+  setWebsocket: (websocket: WebSocketConfig) => void;
+  status: WsConnectionStatus;
+  onConnect: () => void;
+  onDisconnect: () => void;
+  onSendMessage: (format: WsMessageFormat, content: string) => void;
+  onSaveRequest: () => void;
+  onClearState?: () => void;
+  variables: Record<string, string>;
+}
+
+const SELECT_CLASS_NAME =
+  "px-3 py-2 border border-input rounded-md bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-transparent max-w-[15ch]";
+
+const FORMAT_SELECT_CLASS_NAME =
+  "px-2 py-1 border border-input rounded-md bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent";
+
+const MESSAGE_PLACEHOLDERS: Record<WsMessageFormat, string> = {
+  text: "Message to send",
+  json: '{\n  "type": "ping"\n}',
+  binary: "Base64 encoded bytes, e.g. AAECAw==",
+};
+
+// Templates are named after their content until they are renamed
+function getTemplateName(content: string, index: number): string {
+  const firstLine = content.trim().split("\n")[0];
+  if (!firstLine) return `Message ${index + 1}`;
+  return firstLine.length > 30 ? `${firstLine.slice(0, 30)}…` : firstLine;
+}
+
+export const WebSocketPanel = React.memo(function WebSocketPanel({
+  setKind,
+  url,
+  setUrl,
+  params,
+  setParams,
+  websocket,
+  setWebsocket,
+  status,
+  onConnect,
+  onDisconnect,
+  onSendMessage,
+  onSaveRequest,
+  onClearState,
+  variables,
+}: WebSocketPanelProps) {
+  const { message, format, templates } = websocket;
+  const connected = status === "open";
+  const disconnected = status === "closed";
+
+  const unresolvedInUrl = useMemo(
+    () => findUnresolvedVariables(url, variables),
+    [url, variables]
+  );
+
+  const unresolvedInMessage = useMemo(
+    () => findUnresolvedVariables(message, variables),
+    [message, variables]
+  );
+
+  const updateWebsocket = useCallback(
+    (changes: Partial<WebSocketConfig>) => {
+      setWebsocket({ ...websocket, ...changes });
+    },
+    [websocket, setWebsocket]
+  );
+
+  const updateTemplate = (id: string, changes: Partial<WsMessageTemplate>) => {
+    updateWebsocket({
+      templates: templates.map((template) =>
+        template.id === id ? { ...template, ...changes } : template
+      ),
+    });
+  };
+
+  const addParam = useCallback(() => {
+    setParams([
+      ...params,
+      { id: generateId(), key: "", value: "", enabled: true },
+    ]);
+  }, [params, setParams]);
+
+  const saveTemplate = () => {
+    updateWebsocket({
+      templates: [
+        ...templates,
+        {
+          id: generateId(),
+          name: getTemplateName(message, templates.length),
+          format,
+          content: message,
+        },
+      ],
+    });
+  };
+
+  const sendMessage = () => {
+    if (connected) {
+      onSendMessage(format, message);
+    }
+  };
+
+  const handleUrlKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && disconnected) {
+      e.preventDefault();
+      onConnect();
+    }
+  };
+
+  const handleMessageKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+      e.preventDefault();
+      sendMessage();
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between p-4 border-b border-border">
+        <CardTitle className="text-lg font-semibold">WebSocket</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onSaveRequest}>
+            <Save className="w-4 h-4 mr-1" />
+            Save
+          </Button>
+          {onClearState && (
+            <Button variant="ghost" size="sm" onClick={onClearState}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-6 space-y-6">
+        {/* Kind and URL */}
+        <div className="flex gap-2 flex-wrap md:flex-nowrap">
+          <div className="flex gap-2 w-full flex-wrap">
+            <select
+              value="websocket"
+              onChange={(e) => setKind(e.target.value as RequestKind)}
+              className={SELECT_CLASS_NAME}
+              aria-label="Request kind"
+            >
+              {Object.entries(REQUEST_KIND_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={handleUrlKeyDown}
+              placeholder="wss://echo.websocket.org"
+              disabled={!disconnected}
+              className={cn(
+                "flex-1 min-w-[25ch]",
+                unresolvedInUrl.length > 0 && UNRESOLVED_CLASS
+              )}
+            />
+            {unresolvedInUrl.length > 0 && (
+              <div className="w-full -mt-1">
+                <UnresolvedVariablesHint names={unresolvedInUrl} />
+              </div>
+            )}
+          </div>
+          <Button
+            onClick={disconnected ? onConnect : onDisconnect}
+            variant={disconnected ? "default" : "secondary"}
+            disabled={status === "closing"}
+            className="w-full md:w-auto"
+          >
+            {disconnected ? (
+              <PlugZap className="w-4 h-4 mr-2" />
+            ) : (
+              <Plug className="w-4 h-4 mr-2" />
+            )}
+            {disconnected
+              ? "Connect"
+              : status === "connecting"
+                ? "Cancel"
+                : status === "closing"
+                  ? "Disconnecting..."
+                  : "Disconnect"}
+          </Button>
+        </div>
+
+        {/* Subprotocols */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Subprotocols</h3>
+          <Input
+            value={websocket.protocols}
+            onChange={(e) => updateWebsocket({ protocols: e.target.value })}
+            placeholder="e.g. graphql-transport-ws, json"
+            disabled={!disconnected}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Offered to the server in the order given. Browsers can&apos;t send
+            custom headers on WebSocket connections, so pass credentials as
+            params or subprotocols.
+          </p>
+        </div>
+
+        {/* Query Params Section */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium">Params</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={addParam}
+              disabled={!disconnected}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Param
+            </Button>
+          </div>
+
+          <KeyValueEditor
+            rows={params}
+            onChange={setParams}
+            keyPlaceholder="Parameter name"
+            valuePlaceholder="Parameter value"
+            removeLabel="Remove parameter"
+            showEnabledToggle
+            variables={variables}
+          />
+        </div>
+
+        {/* Message composer */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-sm font-medium">Message</h3>
+            <select
+              value={format}
+              onChange={(e) =>
+                updateWebsocket({ format: e.target.value as WsMessageFormat })
+              }
+              className={FORMAT_SELECT_CLASS_NAME}
+              aria-label="Message format"
+            >
+              {Object.entries(WS_MESSAGE_FORMAT_LABELS).map(
+                ([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+          <textarea
+            value={message}
+            onChange={(e) => updateWebsocket({ message: e.target.value })}
+            onKeyDown={handleMessageKeyDown}
+            placeholder={MESSAGE_PLACEHOLDERS[format]}
+            rows={6}
+            spellCheck={false}
+            className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground font-mono text-sm focus:ring-2 focus:ring-ring focus:border-transparent resize-none"
+          />
+          <UnresolvedVariablesHint names={unresolvedInMessage} />
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Press Ctrl+Enter to send.
+            </p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={saveTemplate}
+                disabled={!message.trim()}
+              >
+                <Save className="w-4 h-4 mr-1" />
+                Save as Template
+              </Button>
+              <Button size="sm" onClick={sendMessage} disabled={!connected}>
+                <Send className="w-4 h-4 mr-1" />
+                Send
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Templates */}
+        {templates.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Templates</h3>
+            <ul className="divide-y divide-border border border-border rounded-md">
+              {templates.map((template) => (
+                <li key={template.id} className="flex items-center gap-2 p-2">
+                  <Input
+                    value={template.name}
+                    onChange={(e) =>
+                      updateTemplate(template.id, { name: e.target.value })
+                    }
+                    aria-label="Template name"
+                    className="h-8 flex-1 min-w-0"
+                  />
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {WS_MESSAGE_FORMAT_LABELS[template.format]}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() =>
+                      updateWebsocket({
+                        message: template.content,
+                        format: template.format,
+                      })
+                    }
+                    title="Load into the composer"
+                  >
+                    <Upload className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() =>
+                      onSendMessage(template.format, template.content)
+                    }
+                    disabled={!connected}
+                    title="Send"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                    onClick={() =>
+                      updateWebsocket({
+                        templates: templates.filter(
+                          ({ id }) => id !== template.id
+                        ),
+                      })
+                    }
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
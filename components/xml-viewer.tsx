@@ -0,0 +1,178 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface XmlViewerProps {
+  xml: string;
+  className?: string;
+  isRawView?: boolean;
+}
+
+function parseXml(xml: string): Document | null {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  return doc.getElementsByTagName("parsererror").length > 0 ? null : doc;
+}
+
+// Whitespace between elements is formatting, not content
+function visibleChildren(node: Node): Node[] {
+  return Array.from(node.childNodes).filter(
+    (child) =>
+      child.nodeType !== Node.TEXT_NODE || child.textContent?.trim()
+  );
+}
+
+function OpeningTag({
+  element,
+  selfClosing = false,
+}: {
+  element: Element;
+  selfClosing?: boolean;
+}) {
+  return (
+    <>
+      <span className="text-blue-600 dark:text-blue-400">
+        &lt;{element.tagName}
+      </span>
+      {Array.from(element.attributes).map((attribute) => (
+        <span key={attribute.name}>
+          {" "}
+          <span className="text-orange-600 dark:text-orange-400">
+            {attribute.name}
+          </span>
+          =
+          <span className="text-green-600 dark:text-green-400">
+            &quot;{attribute.value}&quot;
+          </span>
+        </span>
+      ))}
+      <span className="text-blue-600 dark:text-blue-400">
+        {selfClosing ? " />" : ">"}
+      </span>
+    </>
+  );
+}
+
+function ClosingTag({ element }: { element: Element }) {
+  return (
+    <span className="text-blue-600 dark:text-blue-400">
+      &lt;/{element.tagName}&gt;
+    </span>
+  );
+}
+
+function XmlNode({ node }: { node: Node }) {
+  const [expanded, setExpanded] = useState(true);
+
+  switch (node.nodeType) {
+    case Node.TEXT_NODE:
+      return <div className="pl-5">{node.textContent?.trim()}</div>;
+    case Node.CDATA_SECTION_NODE:
+      return (
+        <div className="pl-5 text-muted-foreground">
+          &lt;![CDATA[{node.textContent}]]&gt;
+        </div>
+      );
+    case Node.COMMENT_NODE:
+      return (
+        <div className="pl-5 text-muted-foreground italic">
+          &lt;!--{node.textContent}--&gt;
+        </div>
+      );
+    case Node.PROCESSING_INSTRUCTION_NODE:
+      return (
+        <div className="pl-5 text-muted-foreground">
+          &lt;?{(node as ProcessingInstruction).target} {node.textContent}?&gt;
+        </div>
+      );
+    case Node.ELEMENT_NODE:
+      break;
+    default:
+      return null;
+  }
+
+  const element = node as Element;
+  const children = visibleChildren(element);
+
+  if (children.length === 0) {
+    return (
+      <div className="pl-5">
+        <OpeningTag element={element} selfClosing />
+      </div>
+    );
+  }
+
+  // Short text content stays on the line of its element
+  if (
+    children.length === 1 &&
+    children[0].nodeType === Node.TEXT_NODE &&
+    (children[0].textContent?.trim().length ?? 0) <= 80
+  ) {
+    return (
+      <div className="pl-5">
+        <OpeningTag element={element} />
+        {children[0].textContent?.trim()}
+        <ClosingTag element={element} />
+      </div>
+    );
+  }
+
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-start gap-1 text-left hover:bg-accent rounded"
+      >
+        <Chevron className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+        <span>
+          <OpeningTag element={element} />
+          {!expanded && (
+            <>
+              <span className="text-muted-foreground">…</span>
+              <ClosingTag element={element} />
+            </>
+          )}
+        </span>
+      </button>
+      {expanded && (
+        <>
+          <div className="pl-4 border-l border-border ml-2">
+            {children.map((child, index) => (
+              <XmlNode key={index} node={child} />
+            ))}
+          </div>
+          <div className="pl-5">
+            <ClosingTag element={element} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function XmlViewer({
+  xml,
+  className,
+  isRawView = false,
+}: XmlViewerProps) {
+  const doc = useMemo(() => parseXml(xml), [xml]);
+
+  if (isRawView || !doc) {
+    return (
+      <pre className={cn("font-mono whitespace-pre-wrap break-all", className)}>
+        {xml}
+      </pre>
+    );
+  }
+
+  return (
+    <div className={cn("font-mono", className)}>
+      {visibleChildren(doc).map((child, index) => (
+        <XmlNode key={index} node={child} />
+      ))}
+    </div>
+  );
+}
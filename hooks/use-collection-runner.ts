@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import { withVariableChanges } from "@/lib/scripts";
+import {
+  runCollectionRequest,
+  type DataRow,
+  type RunnerResult,
+} from "@/lib/collection-runner";
+import type { CollectionRequest } from "@/lib/collections";
+
+export type RunnerStatus =
+  | "idle"
+  | "running"
+  | "paused"
+  | "stopped"
+  | "finished";
+
+export interface RunOptions {
+  requests: CollectionRequest[];
+  iterations: number;
+  /** Pause between two requests, in milliseconds */
+  delay: number;
+  /** Variables for each iteration; rows are reused when they run out */
+  data: DataRow[];
+  environment: Record<string, string>;
+  collectionVariables: Record<string, string>;
+  /** Timeout for requests that don't set their own, 0 for none */
+  defaultTimeout: number;
+  /** Called with variables set or unset by scripts during the run */
+  onEnvironmentChange: (changes: Record<string, string | null>) => void;
+}
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export function useCollectionRunner() {
+  const [status, setStatus] = useState<RunnerStatus>("idle");
+  const [results, setResults] = useState<RunnerResult[]>([]);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  // The run loop reads these between requests, so they live in refs
+  const pausedRef = useRef(false);
+  const stoppedRef = useRef(false);
+  // Bumped by every start and reset, so a run that was reset while a
+  // request was in flight doesn't report into the next one
+  const runIdRef = useRef(0);
+  // Aborts the request in flight when the run is stopped or reset
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(async (options: RunOptions) => {
+    const runId = ++runIdRef.current;
+    pausedRef.current = false;
+    stoppedRef.current = false;
+    setResults([]);
+    setStartedAt(Date.now());
+    setStatus("running");
+
+    let environment = options.environment;
+    let first = true;
+
+    for (let iteration = 0; iteration < options.iterations; iteration++) {
+      const row = options.data.length
+        ? options.data[iteration % options.data.length]
+        : {};
+
+      for (const item of options.requests) {
+        if (!first && options.delay > 0) {
+          await sleep(options.delay);
+        }
+        first = false;
+        while (pausedRef.current && !stoppedRef.current) {
+          await sleep(100);
+        }
+        if (runIdRef.current !== runId) return;
+        if (stoppedRef.current) {
+          setStatus("stopped");
+          return;
+        }
+
+        // Data file columns override environment and collection variables
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        const run = await runCollectionRequest(item.request, {
+          environment,
+          variables: {
+            ...options.collectionVariables,
+            ...environment,
+            ...row,
+          },
+          signal: controller.signal,
+          defaultTimeout: options.defaultTimeout,
+        });
+        abortControllerRef.current = null;
+        if (runIdRef.current !== runId) return;
+        if (Object.keys(run.environment).length > 0) {
+          environment = withVariableChanges(environment, run.environment);
+          options.onEnvironmentChange(run.environment);
+        }
+        setResults((prev) => [
+          ...prev,
+          { ...run.result, iteration, itemId: item.id, name: item.name },
+        ]);
+        // Stop was clicked while the request was in flight
+        if (stoppedRef.current) {
+          setStatus("stopped");
+          return;
+        }
+      }
+    }
+    setStatus(stoppedRef.current ? "stopped" : "finished");
+  }, []);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    setStatus("paused");
+  }, []);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    setStatus("running");
+  }, []);
+
+  // Cancels the request in flight, which is still reported, then ends the run
+  const stop = useCallback(() => {
+    stoppedRef.current = true;
+    pausedRef.current = false;
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    runIdRef.current++;
+    stoppedRef.current = true;
+    abortControllerRef.current?.abort();
+    setResults([]);
+    setStartedAt(null);
+    setStatus("idle");
+  }, []);
+
+  return {
+    status,
+    results,
+    startedAt,
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+  };
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { generateId } from "@/lib/utils";
+import {
+  cloneItem,
+  findItem,
+  insertItem,
+  isDescendant,
+  placeItem,
+  removeItem,
+  updateItem,
+  type Collection,
+  type CollectionFolder,
+  type CollectionItem,
+  type CollectionRequest,
+  type CollectionVariable,
+  type DropPosition,
+  type RequestData,
+} from "@/lib/collections";
+
+const COLLECTIONS_KEY = "api-tester-collections";
+
+export function useCollections() {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(COLLECTIONS_KEY);
+    if (saved) {
+      try {
+        setCollections(JSON.parse(saved));
+      } catch (error) {
+        console.error("Failed to parse saved collections:", error);
+      }
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Saved once the collections have been read, so the empty initial state
+  // never overwrites them. Changes below are functional updates, so several
+  // in one event (e.g. create a collection, then save into it) add up.
+  useEffect(() => {
+    if (!isLoaded) return;
+    try {
+      localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+    } catch (error) {
+      // Usually the storage quota, after importing a large collection
+      console.error("Failed to save collections:", error);
+      toast.error("Collections not saved", {
+        description:
+          "Browser storage is full. Changes are kept until the page is closed.",
+      });
+    }
+  }, [collections, isLoaded]);
+
+  // Applies a change to the item tree of a single collection
+  const updateCollectionItems = useCallback(
+    (
+      collectionId: string,
+      updater: (items: CollectionItem[]) => CollectionItem[]
+    ) => {
+      setCollections((collections) =>
+        collections.map((collection) =>
+          collection.id === collectionId
+            ? { ...collection, items: updater(collection.items) }
+            : collection
+        )
+      );
+    },
+    []
+  );
+
+  const createCollection = useCallback((name: string) => {
+    const collection: Collection = { id: generateId(), name, items: [] };
+    setCollections((collections) => [...collections, collection]);
+    return collection;
+  }, []);
+
+  const renameCollection = useCallback((id: string, name: string) => {
+    setCollections((collections) =>
+      collections.map((collection) =>
+        collection.id === id ? { ...collection, name } : collection
+      )
+    );
+  }, []);
+
+  const duplicateCollection = useCallback((id: string) => {
+    setCollections((collections) => {
+      const index = collections.findIndex((collection) => collection.id === id);
+      if (index === -1) return collections;
+      const source = collections[index];
+      const copy: Collection = {
+        ...source,
+        id: generateId(),
+        name: `${source.name} Copy`,
+        items: source.items.map(cloneItem),
+      };
+      const updated = [...collections];
+      updated.splice(index + 1, 0, copy);
+      return updated;
+    });
+  }, []);
+
+  const updateCollectionVariables = useCallback(
+    (id: string, variables: CollectionVariable[]) => {
+      setCollections((collections) =>
+        collections.map((collection) =>
+          collection.id === id ? { ...collection, variables } : collection
+        )
+      );
+    },
+    []
+  );
+
+  // Adds an already built collection, e.g. one converted from a Postman export
+  const importCollection = useCallback((collection: Collection) => {
+    setCollections((collections) => [...collections, collection]);
+  }, []);
+
+  const deleteCollection = useCallback((id: string) => {
+    setCollections((collections) =>
+      collections.filter((collection) => collection.id !== id)
+    );
+  }, []);
+
+  const createFolder = useCallback(
+    (collectionId: string, parentId: string | null, name: string) => {
+      const folder: CollectionFolder = {
+        type: "folder",
+        id: generateId(),
+        name,
+        items: [],
+      };
+      updateCollectionItems(collectionId, (items) =>
+        insertItem(items, parentId, folder)
+      );
+      return folder;
+    },
+    [updateCollectionItems]
+  );
+
+  const saveRequest = useCallback(
+    (
+      collectionId: string,
+      folderId: string | null,
+      name: string,
+      request: RequestData
+    ) => {
+      const item: CollectionRequest = {
+        type: "request",
+        id: generateId(),
+        name,
+        request,
+      };
+      updateCollectionItems(collectionId, (items) =>
+        insertItem(items, folderId, item)
+      );
+      return item;
+    },
+    [updateCollectionItems]
+  );
+
+  const renameItem = useCallback(
+    (collectionId: string, itemId: string, name: string) => {
+      updateCollectionItems(collectionId, (items) =>
+        updateItem(items, itemId, (item) => ({ ...item, name }))
+      );
+    },
+    [updateCollectionItems]
+  );
+
+  const duplicateItem = useCallback(
+    (collectionId: string, itemId: string) => {
+      updateCollectionItems(collectionId, (items) => {
+        const source = findItem(items, itemId);
+        if (!source) return items;
+        const copy = { ...cloneItem(source), name: `${source.name} Copy` };
+        return placeItem(items, copy, itemId, "after");
+      });
+    },
+    [updateCollectionItems]
+  );
+
+  const deleteItem = useCallback(
+    (collectionId: string, itemId: string) => {
+      updateCollectionItems(
+        collectionId,
+        (items) => removeItem(items, itemId)[0]
+      );
+    },
+    [updateCollectionItems]
+  );
+
+  /**
+   * Moves an item to a new position, possibly in another collection.
+   * A null target drops the item at the end of the target collection.
+   */
+  const moveItem = useCallback(
+    (
+      source: { collectionId: string; itemId: string },
+      target: { collectionId: string; itemId: string | null },
+      position: DropPosition
+    ) => {
+      if (source.itemId === target.itemId) return;
+
+      setCollections((collections) => {
+        const sourceCollection = collections.find(
+          (collection) => collection.id === source.collectionId
+        );
+        const item = sourceCollection
+          ? findItem(sourceCollection.items, source.itemId)
+          : null;
+        if (!item) return collections;
+
+        // A folder cannot be dropped into itself or one of its descendants
+        if (target.itemId && isDescendant(item, target.itemId)) {
+          return collections;
+        }
+
+        return collections
+          .map((collection) =>
+            collection.id === source.collectionId
+              ? {
+                  ...collection,
+                  items: removeItem(collection.items, source.itemId)[0],
+                }
+              : collection
+          )
+          .map((collection) =>
+            collection.id === target.collectionId
+              ? {
+                  ...collection,
+                  items: placeItem(
+                    collection.items,
+                    item,
+                    target.itemId,
+                    position
+                  ),
+                }
+              : collection
+          );
+      });
+    },
+    []
+  );
+
+  return {
+    collections,
+    createCollection,
+    renameCollection,
+    duplicateCollection,
+    updateCollectionVariables,
+    importCollection,
+    deleteCollection,
+    createFolder,
+    saveRequest,
+    renameItem,
+    duplicateItem,
+    deleteItem,
+    moveItem,
+  };
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { generateId } from "@/lib/utils";
+import { applyVariableChanges } from "@/lib/scripts";
+
+export interface EnvironmentVariable {
+  id: string;
+  key: string;
+  value: string;
+}
+
+export interface Environment {
+  id: string;
+  name: string;
+  variables: EnvironmentVariable[];
+}
+
+const ENVIRONMENTS_KEY = "api-tester-environments";
+const ACTIVE_ENVIRONMENT_KEY = "api-tester-active-environment";
+
+export function useEnvironments() {
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+  const [activeEnvironmentId, setActiveEnvironmentIdState] = useState<
+    string | null
+  >(null);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(ENVIRONMENTS_KEY);
+    if (saved) {
+      try {
+        setEnvironments(JSON.parse(saved));
+      } catch (error) {
+        console.error("Failed to parse saved environments:", error);
+      }
+    }
+    setActiveEnvironmentIdState(localStorage.getItem(ACTIVE_ENVIRONMENT_KEY));
+  }, []);
+
+  const persist = useCallback((updated: Environment[]) => {
+    setEnvironments(updated);
+    localStorage.setItem(ENVIRONMENTS_KEY, JSON.stringify(updated));
+  }, []);
+
+  const setActiveEnvironmentId = useCallback((id: string | null) => {
+    setActiveEnvironmentIdState(id);
+    if (id) {
+      localStorage.setItem(ACTIVE_ENVIRONMENT_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_ENVIRONMENT_KEY);
+    }
+  }, []);
+
+  const createEnvironment = useCallback(
+    (name: string) => {
+      const environment: Environment = {
+        id: generateId(),
+        name,
+        variables: [{ id: generateId(), key: "", value: "" }],
+      };
+      persist([...environments, environment]);
+      return environment;
+    },
+    [environments, persist]
+  );
+
+  const updateEnvironment = useCallback(
+    (id: string, changes: Partial<Omit<Environment, "id">>) => {
+      persist(
+        environments.map((env) =>
+          env.id === id ? { ...env, ...changes } : env
+        )
+      );
+    },
+    [environments, persist]
+  );
+
+  // Functional update, so the pre-request and test scripts of one send can
+  // both change variables without overwriting each other
+  const updateEnvironmentVariables = useCallback(
+    (id: string, changes: Record<string, string | null>) => {
+      setEnvironments((prev) => {
+        const updated = prev.map((env) =>
+          env.id === id
+            ? { ...env, variables: applyVariableChanges(env.variables, changes) }
+            : env
+        );
+        localStorage.setItem(ENVIRONMENTS_KEY, JSON.stringify(updated));
+        return updated;
+      });
+    },
+    []
+  );
+
+  const deleteEnvironment = useCallback(
+    (id: string) => {
+      persist(environments.filter((env) => env.id !== id));
+      if (activeEnvironmentId === id) {
+        setActiveEnvironmentId(null);
+      }
+    },
+    [environments, persist, activeEnvironmentId, setActiveEnvironmentId]
+  );
+
+  const activeEnvironment = useMemo(
+    () => environments.find((env) => env.id === activeEnvironmentId) ?? null,
+    [environments, activeEnvironmentId]
+  );
+
+  // Flattened key/value map of the active environment, used for {{name}} lookups
+  const variables = useMemo(() => {
+    const map: Record<string, string> = {};
+    activeEnvironment?.variables.forEach((variable) => {
+      if (variable.key) {
+        map[variable.key] = variable.value;
+      }
+    });
+    return map;
+  }, [activeEnvironment]);
+
+  return {
+    environments,
+    activeEnvironment,
+    activeEnvironmentId: activeEnvironment?.id ?? null,
+    variables,
+    setActiveEnvironmentId,
+    createEnvironment,
+    updateEnvironment,
+    updateEnvironmentVariables,
+    deleteEnvironment,
+  };
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ApiResponse, ExecutionMode } from '@/lib/http-client';
+import type { QueryParam } from '@/lib/query-params';
+import type { AuthConfig, AuthType } from '@/lib/auth';
+import type {
+  BodyType,
+  FormField,
+  MultipartField,
+  RawLanguage,
+} from '@/lib/request-body';
+import type { GraphqlBody } from '@/lib/graphql';
+import type { RequestKind, WebSocketConfig } from '@/lib/websocket';
+import type { Assertion } from '@/lib/assertions';
+import { limitResponseSize, pruneHistory } from '@/lib/history';
+import { generateId } from '@/lib/utils';
+import {
+  deleteHistoryEntries,
+  loadHistory,
+  saveHistoryEntries,
+} from '@/lib/history-store';
+
+export interface SavedRequest {
+  id: string;
+  /** Missing for requests saved before WebSocket support, which are HTTP */
+  kind?: RequestKind;
+  method: string;
+  url: string;
+  params?: QueryParam[];
+  headers: Array<{ id: string; key: string; value: string }>;
+  body: string;
+  bodyType?: BodyType;
+  rawLanguage?: RawLanguage;
+  formFields?: FormField[];
+  multipartFields?: MultipartField[];
+  graphql?: GraphqlBody;
+  /** Full auth settings, kept for requests saved to collections */
+  auth?: AuthConfig;
+  /** Auth type only, recorded in history so secrets are not logged */
+  authType?: AuthType;
+  executionMode?: ExecutionMode;
+  preRequestScript?: string;
+  testScript?: string;
+  assertions?: Assertion[];
+  timeout?: number | null;
+  responseFilter?: string;
+  /** Subprotocols and message templates of a WebSocket request */
+  websocket?: WebSocketConfig;
+  /** Response received for a history entry, restored when it is opened */
+  response?: ApiResponse;
+  /** Set when the response body was too large to keep */
+  responseBodyOmitted?: boolean;
+  /** Pinned history entries are never evicted or cleared */
+  pinned?: boolean;
+  timestamp: number;
+}
+
+// History was kept in localStorage before; it is moved to IndexedDB once
+const LEGACY_HISTORY_KEY = 'api-tester-history';
+
+function logStorageError(error: unknown) {
+  console.error('Failed to update saved history:', error);
+}
+
+// Writes the changed entries and removes any that no longer fit
+function commitHistory(entries: SavedRequest[], changed: SavedRequest[]) {
+  const { kept, evicted } = pruneHistory(entries);
+  saveHistoryEntries(changed.filter(entry => kept.includes(entry))).catch(
+    logStorageError
+  );
+  deleteHistoryEntries(evicted.map(entry => entry.id)).catch(logStorageError);
+  return kept;
+}
+
+export function useHistory() {
+  const [requests, setRequests] = useState<SavedRequest[]>([]);
+
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const legacy = localStorage.getItem(LEGACY_HISTORY_KEY);
+        if (legacy) {
+          await saveHistoryEntries(JSON.parse(legacy));
+          localStorage.removeItem(LEGACY_HISTORY_KEY);
+        }
+        const saved = await loadHistory();
+        // Keep entries sent while history was loading
+        setRequests(prev => [
+          ...prev,
+          ...saved.filter(entry => !prev.some(req => req.id === entry.id)),
+        ]);
+      } catch (error) {
+        console.error('Failed to load saved history:', error);
+      }
+    };
+    restore();
+  }, []);
+
+  const saveRequest = useCallback((requestData: Omit<SavedRequest, 'id' | 'timestamp'>) => {
+    const newRequest: SavedRequest = {
+      ...requestData,
+      id: generateId(),
+      timestamp: Date.now(),
+    };
+
+    setRequests(prev => commitHistory([newRequest, ...prev], [newRequest]));
+    return newRequest;
+  }, []);
+
+  const attachResponse = useCallback((id: string, response: ApiResponse) => {
+    const { response: stored, omitted } = limitResponseSize(response);
+
+    setRequests(prev => {
+      const changed: SavedRequest[] = [];
+      const updated = prev.map(req => {
+        if (req.id !== id) return req;
+        const entry = {
+          ...req,
+          response: stored,
+          responseBodyOmitted: omitted || undefined,
+        };
+        changed.push(entry);
+        return entry;
+      });
+      return commitHistory(updated, changed);
+    });
+  }, []);
+
+  const togglePin = useCallback((id: string) => {
+    setRequests(prev => {
+      const changed: SavedRequest[] = [];
+      const updated = prev.map(req => {
+        if (req.id !== id) return req;
+        const entry = { ...req, pinned: !req.pinned || undefined };
+        changed.push(entry);
+        return entry;
+      });
+      return commitHistory(updated, changed);
+    });
+  }, []);
+
+  const deleteRequest = useCallback((id: string) => {
+    setRequests(prev => prev.filter(req => req.id !== id));
+    deleteHistoryEntries([id]).catch(logStorageError);
+  }, []);
+
+  // Pinned entries survive clearing
+  const clearHistory = useCallback(() => {
+    setRequests(prev => {
+      deleteHistoryEntries(
+        prev.filter(req => !req.pinned).map(req => req.id)
+      ).catch(logStorageError);
+      return prev.filter(req => req.pinned);
+    });
+  }, []);
+
+  return {
+    requests,
+    saveRequest,
+    attachResponse,
+    togglePin,
+    deleteRequest,
+    clearHistory,
+  };
+}
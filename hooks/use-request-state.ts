@@ -1,8 +1,31 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import Cookies from "js-cookie";
 import { generateId } from "@/lib/utils";
+import { loadWorkspace, saveWorkspace } from "@/lib/draft-store";
+import type { ExecutionMode } from "@/lib/http-client";
+import {
+  buildUrlWithParams,
+  syncParamsWithUrl,
+  type QueryParam,
+} from "@/lib/query-params";
+import { DEFAULT_AUTH, normalizeAuth, type AuthConfig } from "@/lib/auth";
+import {
+  applyContentTypeHeader,
+  getBodyContentType,
+  type BodyType,
+  type FormField,
+  type MultipartField,
+  type RawLanguage,
+} from "@/lib/request-body";
+import { DEFAULT_GRAPHQL_BODY, type GraphqlBody } from "@/lib/graphql";
+import {
+  DEFAULT_WEBSOCKET_CONFIG,
+  type RequestKind,
+  type WebSocketConfig,
+} from "@/lib/websocket";
+import type { Assertion } from "@/lib/assertions";
 
 interface Header {
   id: string;
@@ -11,168 +34,675 @@ interface Header {
 }
 
 interface RequestState {
+  kind: RequestKind;
   method: string;
   url: string;
+  params: QueryParam[];
   headers: Header[];
   body: string;
+  bodyType: BodyType;
+  rawLanguage: RawLanguage;
+  formFields: FormField[];
+  multipartFields: MultipartField[];
+  graphql: GraphqlBody;
+  auth: AuthConfig;
+  executionMode: ExecutionMode;
+  preRequestScript: string;
+  testScript: string;
+  assertions: Assertion[];
+  /** Milliseconds to wait for a response; null uses the global default */
+  timeout: number | null;
+  /** Last JSONPath or jq filter applied to the response */
+  responseFilter: string;
+  websocket: WebSocketConfig;
 }
 
-const COOKIE_NAME = "api-tester-state";
-const COOKIE_OPTIONS = {
-  expires: 30, // 30 days
-  sameSite: "strict" as const,
-  secure:
-    typeof window !== "undefined" && window.location.protocol === "https:",
-};
+// Fields that only change how the tab is viewed, so editing them doesn't
+// make it dirty
+type ViewOnlyField = "responseFilter";
+
+/** The parts of a request that count as changes to it. */
+type SavedRequestState = Omit<RequestState, ViewOnlyField>;
+
+/** Where a tab's request came from, for titles and saving back. */
+interface TabOrigin {
+  name?: string | null;
+  collectionId?: string | null;
+}
+
+export interface WorkspaceTab {
+  id: string;
+  state: RequestState;
+  /** The state when the tab was opened or last saved */
+  savedState: SavedRequestState;
+  /** Name of the saved request the tab was opened from */
+  name: string | null;
+  collectionId: string | null;
+}
+
+interface Workspace {
+  tabs: WorkspaceTab[];
+  activeTabId: string;
+  /** Newest first, for reopening */
+  closedTabs: WorkspaceTab[];
+}
 
 const DEFAULT_STATE: RequestState = {
+  kind: "http",
   method: "GET",
   url: "",
+  params: [],
   headers: [
     { id: generateId(), key: "Content-Type", value: "application/json" },
   ],
   body: "",
+  bodyType: "json",
+  rawLanguage: "text",
+  formFields: [],
+  multipartFields: [],
+  graphql: DEFAULT_GRAPHQL_BODY,
+  auth: DEFAULT_AUTH,
+  executionMode: "browser",
+  preRequestScript: "",
+  testScript: "",
+  assertions: [],
+  timeout: null,
+  responseFilter: "",
+  websocket: DEFAULT_WEBSOCKET_CONFIG,
 };
 
+// Drafts saved before body types existed only have a JSON body
+function withBodyDefaults(state: Partial<RequestState>) {
+  return {
+    bodyType: state.bodyType ?? DEFAULT_STATE.bodyType,
+    rawLanguage: state.rawLanguage ?? DEFAULT_STATE.rawLanguage,
+    formFields: state.formFields ?? [],
+    multipartFields: state.multipartFields ?? [],
+    graphql: state.graphql ?? DEFAULT_GRAPHQL_BODY,
+  };
+}
+
+// Drafts used to be kept in a cookie, which is read once to migrate them
+const LEGACY_COOKIE_NAME = "api-tester-state";
+const MAX_CLOSED_TABS = 10;
+// Typing is saved once it pauses for this long
+const SAVE_DELAY = 500;
+
+// Fills in fields that drafts saved by older versions don't have. Returns
+// null when the value isn't a draft at all.
+function normalizeState(value: unknown): RequestState | null {
+  const parsed = value as Partial<RequestState> | null;
+  if (
+    !parsed ||
+    typeof parsed.method !== "string" ||
+    typeof parsed.url !== "string" ||
+    !Array.isArray(parsed.headers) ||
+    typeof parsed.body !== "string"
+  ) {
+    return null;
+  }
+
+  return {
+    ...(parsed as RequestState),
+    ...withBodyDefaults(parsed),
+    // Drafts saved before proxy support have no execution mode
+    executionMode: parsed.executionMode === "proxy" ? "proxy" : "browser",
+    auth: normalizeAuth(parsed.auth),
+    preRequestScript: parsed.preRequestScript ?? "",
+    testScript: parsed.testScript ?? "",
+    assertions: parsed.assertions ?? [],
+    timeout: parsed.timeout ?? null,
+    responseFilter: parsed.responseFilter ?? "",
+    kind: parsed.kind ?? "http",
+    websocket: parsed.websocket ?? DEFAULT_WEBSOCKET_CONFIG,
+    params: Array.isArray(parsed.params)
+      ? parsed.params
+      : syncParamsWithUrl(parsed.url, []),
+  };
+}
+
+function toSavedState(state: RequestState): SavedRequestState {
+  const { responseFilter, ...savedState } = state;
+  return savedState;
+}
+
+function createTab(state: RequestState = DEFAULT_STATE): WorkspaceTab {
+  return {
+    id: generateId(),
+    state,
+    savedState: toSavedState(state),
+    name: null,
+    collectionId: null,
+  };
+}
+
+function createWorkspace(state?: RequestState): Workspace {
+  const tab = createTab(state);
+  return { tabs: [tab], activeTabId: tab.id, closedTabs: [] };
+}
+
+// Returns null when the value isn't a saved workspace with at least one tab
+function normalizeWorkspace(value: unknown): Workspace | null {
+  const parsed = value as Workspace | undefined;
+  if (!parsed || !Array.isArray(parsed.tabs)) return null;
+
+  const tabs = parsed.tabs.flatMap((tab) => {
+    const state = normalizeState(tab.state);
+    if (!state) return [];
+    const savedState = normalizeState(tab.savedState) ?? state;
+    return [{ ...tab, state, savedState: toSavedState(savedState) }];
+  });
+  if (tabs.length === 0) return null;
+
+  return {
+    tabs,
+    activeTabId: tabs.some((tab) => tab.id === parsed.activeTabId)
+      ? parsed.activeTabId
+      : tabs[0].id,
+    closedTabs: Array.isArray(parsed.closedTabs) ? parsed.closedTabs : [],
+  };
+}
+
+function readLegacyWorkspace(): Workspace | null {
+  try {
+    const saved = Cookies.get(LEGACY_COOKIE_NAME);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    // Cookies written before tabs hold a single request
+    const state = normalizeState(parsed);
+    return state ? createWorkspace(state) : normalizeWorkspace(parsed);
+  } catch (error) {
+    console.warn("Failed to migrate the saved request:", error);
+    return null;
+  }
+}
+
+/** Whether a tab has changes since it was opened or saved. */
+export function isTabDirty(tab: WorkspaceTab): boolean {
+  return (
+    JSON.stringify(toSavedState(tab.state)) !== JSON.stringify(tab.savedState)
+  );
+}
+
 export function useRequestState() {
-  const [state, setState] = useState<RequestState>(DEFAULT_STATE);
+  const [workspace, setWorkspace] = useState<Workspace>(() =>
+    createWorkspace()
+  );
   const [isLoaded, setIsLoaded] = useState(false);
+  const activeTab =
+    workspace.tabs.find((tab) => tab.id === workspace.activeTabId) ??
+    workspace.tabs[0];
+  const state = activeTab.state;
+
+  // Set while a change is waiting to be written
+  const pendingSaveRef = useRef<Workspace | null>(null);
 
-  // Load state from cookies on mount
+  // Restore the open tabs on mount
   useEffect(() => {
-    try {
-      const savedState = Cookies.get(COOKIE_NAME);
-      if (savedState) {
-        const parsedState = JSON.parse(savedState) as RequestState;
-
-        // Validate the structure
-        if (
-          parsedState &&
-          typeof parsedState.method === "string" &&
-          typeof parsedState.url === "string" &&
-          Array.isArray(parsedState.headers) &&
-          typeof parsedState.body === "string"
-        ) {
-          setState(parsedState);
+    const restore = async () => {
+      try {
+        const saved = normalizeWorkspace(await loadWorkspace());
+        if (saved) {
+          setWorkspace(saved);
+          return;
+        }
+
+        const legacy = readLegacyWorkspace();
+        if (legacy) {
+          setWorkspace(legacy);
+          await saveWorkspace(legacy);
+          Cookies.remove(LEGACY_COOKIE_NAME);
         }
+      } catch (error) {
+        console.warn("Failed to load the saved tabs:", error);
+      } finally {
+        setIsLoaded(true);
       }
-    } catch (error) {
-      console.warn("Failed to load request state from cookies:", error);
-      // Reset to default if corrupted
-      Cookies.remove(COOKIE_NAME);
-    } finally {
-      setIsLoaded(true);
-    }
+    };
+    restore();
   }, []);
 
-  // Save state to cookies whenever it changes
-  const saveState = useCallback((newState: RequestState) => {
-    try {
-      setState(newState);
-      Cookies.set(COOKIE_NAME, JSON.stringify(newState), COOKIE_OPTIONS);
-    } catch (error) {
-      console.warn("Failed to save request state to cookies:", error);
-    }
+  const flushSave = useCallback(() => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    saveWorkspace(pending).catch((error) => {
+      console.warn("Failed to save the open tabs:", error);
+    });
   }, []);
 
-  // Individual setters that automatically save
+  // Changes are written after a pause rather than on every keystroke
+  useEffect(() => {
+    if (!isLoaded) return;
+    pendingSaveRef.current = workspace;
+    const timer = setTimeout(flushSave, SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [workspace, isLoaded, flushSave]);
+
+  // Write a pending change right away when the page is hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flushSave();
+    };
+    window.addEventListener("pagehide", flushSave);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      window.removeEventListener("pagehide", flushSave);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [flushSave]);
+
+  const updateTab = useCallback(
+    (tabId: string, updater: (prevTab: WorkspaceTab) => WorkspaceTab) => {
+      setWorkspace((prevWorkspace) => ({
+        ...prevWorkspace,
+        tabs: prevWorkspace.tabs.map((tab) =>
+          tab.id === tabId ? updater(tab) : tab
+        ),
+      }));
+    },
+    []
+  );
+
+  /**
+   * Changes the draft of a tab. Sends use this so a result lands in the
+   * tab it was sent from, even after switching to another one.
+   */
+  const updateTabState = useCallback(
+    (tabId: string, changes: Partial<RequestState>) => {
+      updateTab(tabId, (tab) => ({
+        ...tab,
+        state: { ...tab.state, ...changes },
+      }));
+    },
+    [updateTab]
+  );
+
+  // Functional update of the active tab, so several setters called in one
+  // event all apply
+  const updateState = useCallback(
+    (updater: (prevState: RequestState) => RequestState) => {
+      setWorkspace((prevWorkspace) => ({
+        ...prevWorkspace,
+        tabs: prevWorkspace.tabs.map((tab) =>
+          tab.id === prevWorkspace.activeTabId
+            ? { ...tab, state: updater(tab.state) }
+            : tab
+        ),
+      }));
+    },
+    []
+  );
+
   const setMethod = useCallback(
     (method: string) => {
-      console.log("setMethod called with:", method, "current state:", state);
-      setState((prevState) => {
-        const newState = { ...prevState, method };
-        try {
-          Cookies.set(COOKIE_NAME, JSON.stringify(newState), COOKIE_OPTIONS);
-        } catch (error) {
-          console.warn("Failed to save request state to cookies:", error);
-        }
-        return newState;
-      });
+      updateState((prevState) => ({ ...prevState, method }));
     },
-    [state]
+    [updateState]
   );
 
   const setUrl = useCallback(
     (url: string) => {
-      console.log("setUrl called with:", url, "current state:", state);
-      setState((prevState) => {
-        const newState = { ...prevState, url };
-        try {
-          Cookies.set(COOKIE_NAME, JSON.stringify(newState), COOKIE_OPTIONS);
-        } catch (error) {
-          console.warn("Failed to save request state to cookies:", error);
-        }
-        return newState;
-      });
+      updateState((prevState) => ({
+        ...prevState,
+        url,
+        params: syncParamsWithUrl(url, prevState.params),
+      }));
     },
-    [state]
+    [updateState]
   );
 
   const setHeaders = useCallback(
     (headers: Header[]) => {
-      console.log("setHeaders called with:", headers, "current state:", state);
-      setState((prevState) => {
-        const newState = { ...prevState, headers };
-        try {
-          Cookies.set(COOKIE_NAME, JSON.stringify(newState), COOKIE_OPTIONS);
-        } catch (error) {
-          console.warn("Failed to save request state to cookies:", error);
-        }
-        return newState;
-      });
+      updateState((prevState) => ({ ...prevState, headers }));
     },
-    [state]
+    [updateState]
   );
 
   const setBody = useCallback(
     (body: string) => {
-      console.log("setBody called with:", body, "current state:", state);
-      setState((prevState) => {
-        const newState = { ...prevState, body };
-        try {
-          Cookies.set(COOKIE_NAME, JSON.stringify(newState), COOKIE_OPTIONS);
-        } catch (error) {
-          console.warn("Failed to save request state to cookies:", error);
-        }
-        return newState;
-      });
+      updateState((prevState) => ({ ...prevState, body }));
+    },
+    [updateState]
+  );
+
+  // Editing the params table rewrites the query string of the URL
+  const setParams = useCallback(
+    (params: QueryParam[]) => {
+      updateState((prevState) => ({
+        ...prevState,
+        params,
+        url: buildUrlWithParams(prevState.url, params),
+      }));
     },
-    [state]
+    [updateState]
   );
 
-  // Load a complete request (from history or examples)
+  // Switching the body type also updates the Content-Type header to match
+  const setBodyType = useCallback(
+    (bodyType: BodyType, binaryFile?: File | null) => {
+      updateState((prevState) => ({
+        ...prevState,
+        bodyType,
+        headers: applyContentTypeHeader(
+          prevState.headers,
+          getBodyContentType(bodyType, prevState.rawLanguage, binaryFile),
+          generateId
+        ),
+      }));
+    },
+    [updateState]
+  );
+
+  const setRawLanguage = useCallback(
+    (rawLanguage: RawLanguage) => {
+      updateState((prevState) => ({
+        ...prevState,
+        rawLanguage,
+        headers: applyContentTypeHeader(
+          prevState.headers,
+          getBodyContentType(prevState.bodyType, rawLanguage),
+          generateId
+        ),
+      }));
+    },
+    [updateState]
+  );
+
+  const setFormFields = useCallback(
+    (formFields: FormField[]) => {
+      updateState((prevState) => ({ ...prevState, formFields }));
+    },
+    [updateState]
+  );
+
+  const setMultipartFields = useCallback(
+    (multipartFields: MultipartField[]) => {
+      updateState((prevState) => ({ ...prevState, multipartFields }));
+    },
+    [updateState]
+  );
+
+  const setKind = useCallback(
+    (kind: RequestKind) => {
+      updateState((prevState) => ({ ...prevState, kind }));
+    },
+    [updateState]
+  );
+
+  const setWebsocket = useCallback(
+    (websocket: WebSocketConfig) => {
+      updateState((prevState) => ({ ...prevState, websocket }));
+    },
+    [updateState]
+  );
+
+  const setGraphql = useCallback(
+    (graphql: GraphqlBody) => {
+      updateState((prevState) => ({ ...prevState, graphql }));
+    },
+    [updateState]
+  );
+
+  const setAuth = useCallback(
+    (auth: AuthConfig) => {
+      updateState((prevState) => ({ ...prevState, auth }));
+    },
+    [updateState]
+  );
+
+  const setExecutionMode = useCallback(
+    (executionMode: ExecutionMode) => {
+      updateState((prevState) => ({ ...prevState, executionMode }));
+    },
+    [updateState]
+  );
+
+  const setPreRequestScript = useCallback(
+    (preRequestScript: string) => {
+      updateState((prevState) => ({ ...prevState, preRequestScript }));
+    },
+    [updateState]
+  );
+
+  const setTestScript = useCallback(
+    (testScript: string) => {
+      updateState((prevState) => ({ ...prevState, testScript }));
+    },
+    [updateState]
+  );
+
+  const setAssertions = useCallback(
+    (assertions: Assertion[]) => {
+      updateState((prevState) => ({ ...prevState, assertions }));
+    },
+    [updateState]
+  );
+
+  const setRequestTimeout = useCallback(
+    (timeout: number | null) => {
+      updateState((prevState) => ({ ...prevState, timeout }));
+    },
+    [updateState]
+  );
+
+  const setResponseFilter = useCallback(
+    (responseFilter: string) => {
+      updateState((prevState) => ({ ...prevState, responseFilter }));
+    },
+    [updateState]
+  );
+
+  // Load a complete request (from history or examples). A tab with unsaved
+  // changes is kept and the request opens in a new tab instead. Returns the
+  // id of the tab the request was loaded into.
   const loadRequest = useCallback(
-    (request: Omit<RequestState, "timestamp" | "id">) => {
+    (
+      request: Pick<RequestState, "method" | "url" | "headers" | "body"> &
+        Partial<RequestState>,
+      origin: TabOrigin = {}
+    ) => {
       const newState: RequestState = {
+        kind: request.kind ?? "http",
         method: request.method,
         url: request.url,
+        params: request.params ?? syncParamsWithUrl(request.url, []),
         headers: request.headers,
         body: request.body,
+        ...withBodyDefaults(request),
+        auth: normalizeAuth(request.auth),
+        executionMode: request.executionMode ?? "browser",
+        preRequestScript: request.preRequestScript ?? "",
+        testScript: request.testScript ?? "",
+        assertions: request.assertions ?? [],
+        timeout: request.timeout ?? null,
+        responseFilter: request.responseFilter ?? "",
+        websocket: request.websocket ?? DEFAULT_WEBSOCKET_CONFIG,
       };
-      saveState(newState);
+      const tabId = isTabDirty(activeTab) ? generateId() : activeTab.id;
+      setWorkspace((prevWorkspace) => {
+        const tab: WorkspaceTab = {
+          id: tabId,
+          state: newState,
+          savedState: toSavedState(newState),
+          name: origin.name ?? null,
+          collectionId: origin.collectionId ?? null,
+        };
+        return prevWorkspace.tabs.some(({ id }) => id === tabId)
+          ? {
+              ...prevWorkspace,
+              tabs: prevWorkspace.tabs.map((prevTab) =>
+                prevTab.id === tabId ? tab : prevTab
+              ),
+            }
+          : {
+              ...prevWorkspace,
+              tabs: [...prevWorkspace.tabs, tab],
+              activeTabId: tabId,
+            };
+      });
+      return tabId;
     },
-    [saveState]
+    [activeTab]
   );
 
-  // Clear state and reset to default
+  // Clear the active tab and reset it to default
   const clearState = useCallback(() => {
-    saveState(DEFAULT_STATE);
-  }, [saveState]);
+    updateTab(workspace.activeTabId, (tab) => ({
+      ...tab,
+      state: DEFAULT_STATE,
+      savedState: toSavedState(DEFAULT_STATE),
+      name: null,
+      collectionId: null,
+    }));
+  }, [updateTab, workspace.activeTabId]);
+
+  const newTab = useCallback(() => {
+    setWorkspace((prevWorkspace) => {
+      const tab = createTab();
+      return {
+        ...prevWorkspace,
+        tabs: [...prevWorkspace.tabs, tab],
+        activeTabId: tab.id,
+      };
+    });
+  }, []);
+
+  const selectTab = useCallback((tabId: string) => {
+    setWorkspace((prevWorkspace) => ({
+      ...prevWorkspace,
+      activeTabId: tabId,
+    }));
+  }, []);
+
+  // Closed tabs are remembered for reopening. Closing the last tab leaves
+  // a blank one, so there is always a request to edit.
+  const closeTabs = useCallback((tabIds: string[]) => {
+    setWorkspace((prevWorkspace) => {
+      const closing = prevWorkspace.tabs.filter((tab) =>
+        tabIds.includes(tab.id)
+      );
+      if (closing.length === 0) return prevWorkspace;
+
+      const remaining = prevWorkspace.tabs.filter(
+        (tab) => !tabIds.includes(tab.id)
+      );
+      const tabs = remaining.length > 0 ? remaining : [createTab()];
+      let activeTabId = prevWorkspace.activeTabId;
+      if (!tabs.some((tab) => tab.id === activeTabId)) {
+        // Select the neighbour of the closed tab, like a browser does
+        const index = prevWorkspace.tabs.findIndex(
+          (tab) => tab.id === activeTabId
+        );
+        activeTabId = tabs[Math.min(index, tabs.length - 1)].id;
+      }
+      return {
+        tabs,
+        activeTabId,
+        closedTabs: [...closing.reverse(), ...prevWorkspace.closedTabs].slice(
+          0,
+          MAX_CLOSED_TABS
+        ),
+      };
+    });
+  }, []);
+
+  const closeTab = useCallback(
+    (tabId: string) => closeTabs([tabId]),
+    [closeTabs]
+  );
+
+  const closeOtherTabs = useCallback(
+    (tabId: string) => {
+      closeTabs(
+        workspace.tabs.filter((tab) => tab.id !== tabId).map((tab) => tab.id)
+      );
+    },
+    [closeTabs, workspace.tabs]
+  );
+
+  const reopenClosedTab = useCallback(() => {
+    setWorkspace((prevWorkspace) => {
+      const [tab, ...closedTabs] = prevWorkspace.closedTabs;
+      if (!tab) return prevWorkspace;
+      return {
+        tabs: [...prevWorkspace.tabs, tab],
+        activeTabId: tab.id,
+        closedTabs,
+      };
+    });
+  }, []);
+
+  // After saving, the tab's current state becomes its clean baseline
+  const markTabSaved = useCallback(
+    (tabId: string, origin: TabOrigin) => {
+      updateTab(tabId, (tab) => ({
+        ...tab,
+        savedState: toSavedState(tab.state),
+        name: origin.name ?? tab.name,
+        collectionId: origin.collectionId ?? tab.collectionId,
+      }));
+    },
+    [updateTab]
+  );
 
   return {
     // State values
+    kind: state.kind,
     method: state.method,
     url: state.url,
+    params: state.params,
     headers: state.headers,
     body: state.body,
+    bodyType: state.bodyType,
+    rawLanguage: state.rawLanguage,
+    formFields: state.formFields,
+    multipartFields: state.multipartFields,
+    graphql: state.graphql,
+    auth: state.auth,
+    executionMode: state.executionMode,
+    preRequestScript: state.preRequestScript,
+    testScript: state.testScript,
+    assertions: state.assertions,
+    timeout: state.timeout,
+    responseFilter: state.responseFilter,
+    websocket: state.websocket,
     isLoaded,
 
+    // Tabs
+    tabs: workspace.tabs,
+    activeTab,
+    activeTabId: activeTab.id,
+    canReopenTab: workspace.closedTabs.length > 0,
+
     // Setters
+    setKind,
     setMethod,
     setUrl,
+    setParams,
     setHeaders,
     setBody,
+    setBodyType,
+    setRawLanguage,
+    setFormFields,
+    setMultipartFields,
+    setGraphql,
+    setAuth,
+    setExecutionMode,
+    setPreRequestScript,
+    setTestScript,
+    setAssertions,
+    setRequestTimeout,
+    setResponseFilter,
+    setWebsocket,
     loadRequest,
     clearState,
+    updateTabState,
+    newTab,
+    selectTab,
+    closeTab,
+    closeOtherTabs,
+    reopenClosedTab,
+    markTabSaved,
   };
 }
@@ -0,0 +1,42 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+export interface Settings {
+  /** Milliseconds to wait for a response; 0 waits forever */
+  defaultTimeout: number;
+  /** Paths left out of response diffs, such as `$..updatedAt` */
+  diffIgnoredPaths: string[];
+}
+
+const SETTINGS_KEY = "api-tester-settings";
+
+const DEFAULT_SETTINGS: Settings = {
+  defaultTimeout: 0,
+  diffIgnoredPaths: [],
+};
+
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      try {
+        setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(saved) });
+      } catch (error) {
+        console.error("Failed to parse saved settings:", error);
+      }
+    }
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings((prev) => {
+      const updated = { ...prev, ...changes };
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ApiResponse } from "@/lib/http-client";
+import {
+  deleteResponses,
+  loadResponses,
+  saveResponse,
+} from "@/lib/draft-store";
+import type { ScriptOutput } from "@/lib/scripts";
+import type { TestReport } from "@/lib/assertions";
+import type { GraphqlSchema } from "@/lib/graphql";
+
+/**
+ * The outcome of a tab's last send. Only the response is saved across
+ * reloads.
+ */
+export interface TabSession {
+  response: ApiResponse | null;
+  loading: boolean;
+  error: string | null;
+  /** Cancelled and timed out requests get their own error states */
+  errorKind: "cancelled" | "timeout" | null;
+  scriptOutput: ScriptOutput | null;
+  testReport: TestReport | null;
+  requestSuccess: boolean;
+  /** Files can't be saved with the draft, so they only live for a session */
+  bodyFiles: Record<string, File>;
+  /** Introspected schema of a GraphQL endpoint, fetched on demand */
+  graphqlSchema: GraphqlSchema | null;
+}
+
+export const EMPTY_TAB_SESSION: TabSession = {
+  response: null,
+  loading: false,
+  error: null,
+  errorKind: null,
+  scriptOutput: null,
+  testReport: null,
+  requestSuccess: false,
+  bodyFiles: {},
+  graphqlSchema: null,
+};
+
+type SessionChanges =
+  Partial<TabSession> | ((prevSession: TabSession) => Partial<TabSession>);
+
+export function useTabSessions() {
+  const [sessions, setSessions] = useState<Record<string, TabSession>>({});
+
+  // Restore the last response of each tab on mount
+  useEffect(() => {
+    loadResponses()
+      .then((responses) => {
+        setSessions((prev) => ({
+          ...Object.fromEntries(
+            Object.entries(responses).map(([tabId, response]) => [
+              tabId,
+              { ...EMPTY_TAB_SESSION, response },
+            ])
+          ),
+          // Tabs that already sent since the page loaded keep their result
+          ...prev,
+        }));
+      })
+      .catch((error) => {
+        console.warn("Failed to load the saved responses:", error);
+      });
+  }, []);
+
+  // Requests finish in the tab they were sent from, so updates name the tab
+  const updateSession = useCallback(
+    (tabId: string, changes: SessionChanges) => {
+      if (typeof changes === "object" && "response" in changes) {
+        saveResponse(tabId, changes.response ?? null).catch((error) => {
+          console.warn("Failed to save the response:", error);
+        });
+      }
+      setSessions((prev) => {
+        const session = prev[tabId] ?? EMPTY_TAB_SESSION;
+        return {
+          ...prev,
+          [tabId]: {
+            ...session,
+            ...(typeof changes === "function" ? changes(session) : changes),
+          },
+        };
+      });
+    },
+    []
+  );
+
+  const removeSessions = useCallback((tabIds: string[]) => {
+    deleteResponses(tabIds).catch((error) => {
+      console.warn("Failed to delete the saved responses:", error);
+    });
+    setSessions((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([tabId]) => !tabIds.includes(tabId))
+      )
+    );
+  }, []);
+
+  return { sessions, updateSession, removeSessions };
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { generateId } from "@/lib/utils";
+import { encodeBase64 } from "@/lib/http-client";
+import {
+  describeCloseCode,
+  MAX_WS_LOG_ENTRIES,
+  type WsConnectionStatus,
+  type WsLogEntry,
+} from "@/lib/websocket";
+
+/** The connection of a WebSocket tab and the frames it has seen. */
+export interface WebSocketSession {
+  status: WsConnectionStatus;
+  /** Subprotocol the server picked, once connected */
+  protocol: string;
+  log: WsLogEntry[];
+}
+
+export const CLOSED_WEBSOCKET_SESSION: WebSocketSession = {
+  status: "closed",
+  protocol: "",
+  log: [],
+};
+
+type LogInput = Omit<WsLogEntry, "id" | "timestamp">;
+
+export function useWebSocketSessions() {
+  const [sessions, setSessions] = useState<Record<string, WebSocketSession>>(
+    {}
+  );
+  // Sockets stay open while their tab is in the background
+  const socketsRef = useRef<Record<string, WebSocket>>({});
+
+  const updateSession = useCallback(
+    (
+      tabId: string,
+      update: (prevSession: WebSocketSession) => Partial<WebSocketSession>
+    ) => {
+      setSessions((prev) => {
+        const session = prev[tabId] ?? CLOSED_WEBSOCKET_SESSION;
+        return { ...prev, [tabId]: { ...session, ...update(session) } };
+      });
+    },
+    []
+  );
+
+  const appendLog = useCallback(
+    (tabId: string, entry: LogInput, changes?: Partial<WebSocketSession>) => {
+      updateSession(tabId, ({ log }) => ({
+        ...changes,
+        log: [
+          ...log,
+          { ...entry, id: generateId(), timestamp: Date.now() },
+        ].slice(-MAX_WS_LOG_ENTRIES),
+      }));
+    },
+    [updateSession]
+  );
+
+  const connect = useCallback(
+    (tabId: string, url: string, protocols: string[]) => {
+      const previous = socketsRef.current[tabId];
+      delete socketsRef.current[tabId];
+      previous?.close();
+
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(url, protocols);
+      } catch (error) {
+        appendLog(
+          tabId,
+          {
+            type: "error",
+            data: error instanceof Error ? error.message : String(error),
+          },
+          { status: "closed" }
+        );
+        return;
+      }
+      socket.binaryType = "arraybuffer";
+      socketsRef.current[tabId] = socket;
+      updateSession(tabId, () => ({ status: "connecting", protocol: "" }));
+
+      // Events of a socket that was replaced or discarded are ignored
+      const isCurrent = () => socketsRef.current[tabId] === socket;
+
+      socket.onopen = () => {
+        if (!isCurrent()) return;
+        appendLog(
+          tabId,
+          {
+            type: "open",
+            data: socket.protocol
+              ? `Connected to ${url} using "${socket.protocol}"`
+              : `Connected to ${url}`,
+          },
+          { status: "open", protocol: socket.protocol }
+        );
+      };
+      socket.onmessage = (event: MessageEvent<string | ArrayBuffer>) => {
+        if (!isCurrent()) return;
+        if (typeof event.data === "string") {
+          appendLog(tabId, {
+            type: "received",
+            data: event.data,
+            size: new TextEncoder().encode(event.data).length,
+          });
+        } else {
+          const bytes = new Uint8Array(event.data);
+          appendLog(tabId, {
+            type: "received",
+            data: encodeBase64(bytes),
+            binary: true,
+            size: bytes.length,
+          });
+        }
+      };
+      // Browsers give no details about why a connection failed
+      socket.onerror = () => {
+        if (!isCurrent()) return;
+        appendLog(tabId, { type: "error", data: "Connection error" });
+      };
+      socket.onclose = (event) => {
+        if (!isCurrent()) return;
+        delete socketsRef.current[tabId];
+        appendLog(
+          tabId,
+          {
+            type: "close",
+            data: describeCloseCode(event.code),
+            code: event.code,
+            reason: event.reason,
+          },
+          { status: "closed", protocol: "" }
+        );
+      };
+    },
+    [appendLog, updateSession]
+  );
+
+  const disconnect = useCallback(
+    (tabId: string) => {
+      const socket = socketsRef.current[tabId];
+      if (!socket) return;
+      updateSession(tabId, () => ({ status: "closing" }));
+      socket.close(1000);
+    },
+    [updateSession]
+  );
+
+  /** Sends a frame, throwing when the tab is not connected. */
+  const send = useCallback(
+    (tabId: string, data: string | Uint8Array) => {
+      const socket = socketsRef.current[tabId];
+      if (socket?.readyState !== WebSocket.OPEN) {
+        throw new Error("Connect before sending messages");
+      }
+      socket.send(data);
+      appendLog(
+        tabId,
+        typeof data === "string"
+          ? { type: "sent", data, size: new TextEncoder().encode(data).length }
+          : {
+              type: "sent",
+              data: encodeBase64(data),
+              binary: true,
+              size: data.length,
+            }
+      );
+    },
+    [appendLog]
+  );
+
+  const clearLog = useCallback(
+    (tabId: string) => {
+      updateSession(tabId, () => ({ log: [] }));
+    },
+    [updateSession]
+  );
+
+  // Closed tabs take their connections with them
+  const removeSessions = useCallback((tabIds: string[]) => {
+    for (const tabId of tabIds) {
+      const socket = socketsRef.current[tabId];
+      delete socketsRef.current[tabId];
+      socket?.close(1000);
+    }
+    setSessions((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([tabId]) => !tabIds.includes(tabId))
+      )
+    );
+  }, []);
+
+  useEffect(() => {
+    const sockets = socketsRef.current;
+    return () => {
+      Object.values(sockets).forEach((socket) => socket.close(1000));
+    };
+  }, []);
+
+  return {
+    sessions,
+    connect,
+    disconnect,
+    send,
+    clearLog,
+    removeSessions,
+  };
+}
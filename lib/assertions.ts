@@ -0,0 +1,129 @@
+import type { ApiResponse } from "@/lib/http-client";
+import { queryJsonPath } from "@/lib/json-path";
+import { resolveVariables } from "@/lib/variables";
+
+export type AssertionType = "status" | "header" | "jsonPath" | "time";
+
+/** A check configured without code, run against every response. */
+export interface Assertion {
+  id: string;
+  type: AssertionType;
+  /** Header name or JSONPath; unused by status and time checks */
+  target: string;
+  /** Expected value; for JSON paths an empty value only checks existence */
+  value: string;
+  enabled: boolean;
+}
+
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  message?: string;
+}
+
+/** Outcome of the assertions and test script of one send. */
+export interface TestReport {
+  results: TestResult[];
+  /** Set when the test script itself failed to run */
+  error?: string;
+}
+
+export const ASSERTION_TYPE_LABELS: Record<AssertionType, string> = {
+  status: "Status code equals",
+  header: "Header exists",
+  jsonPath: "JSON path matches",
+  time: "Response time below (ms)",
+};
+
+function describe(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function evaluate(
+  assertion: Assertion,
+  response: ApiResponse,
+  target: string,
+  expected: string
+): TestResult {
+  switch (assertion.type) {
+    case "status":
+      return {
+        name: `Status code is ${expected}`,
+        passed: String(response.status) === expected,
+        message: `Got ${response.status}`,
+      };
+    case "header": {
+      const name = target.toLowerCase();
+      return {
+        name: `Header ${target} exists`,
+        passed: Object.keys(response.headers).some(
+          (key) => key.toLowerCase() === name
+        ),
+      };
+    }
+    case "time": {
+      const limit = Number(expected);
+      if (!Number.isFinite(limit)) {
+        return {
+          name: `Response time is below ${expected}ms`,
+          passed: false,
+          message: "The limit is not a number",
+        };
+      }
+      return {
+        name: `Response time is below ${limit}ms`,
+        passed: response.time < limit,
+        message: `Took ${response.time}ms`,
+      };
+    }
+    case "jsonPath": {
+      const name = expected
+        ? `${target} equals ${expected}`
+        : `${target} exists`;
+      if (typeof response.data !== "object" || response.data === null) {
+        return { name, passed: false, message: "The body is not JSON" };
+      }
+      try {
+        const matches = queryJsonPath(response.data, target);
+        if (matches.length === 0) {
+          return { name, passed: false, message: "No match" };
+        }
+        return {
+          name,
+          passed:
+            !expected || matches.some((match) => describe(match) === expected),
+          message: `Got ${matches.map(describe).join(", ")}`,
+        };
+      } catch (error) {
+        return {
+          name,
+          passed: false,
+          message: error instanceof Error ? error.message : "Invalid path",
+        };
+      }
+    }
+  }
+}
+
+/**
+ * Runs the enabled assertions against a response. {{variables}} in targets
+ * and expected values are substituted first.
+ */
+export function evaluateAssertions(
+  assertions: Assertion[],
+  response: ApiResponse,
+  variables: Record<string, string>
+): TestResult[] {
+  return assertions
+    .filter((assertion) => assertion.enabled)
+    .map((assertion) => {
+      const result = evaluate(
+        assertion,
+        response,
+        resolveVariables(assertion.target.trim(), variables).value,
+        resolveVariables(assertion.value.trim(), variables).value
+      );
+      // Details are only interesting when the check failed
+      return result.passed ? { name: result.name, passed: true } : result;
+    });
+}
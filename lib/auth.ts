@@ -0,0 +1,332 @@
+import {
+  encodeBase64,
+  executeRequest,
+  type ExecutionMode,
+  type PreparedRequest,
+} from "@/lib/http-client";
+import { encodeQueryComponent } from "@/lib/query-params";
+import { resolveVariables } from "@/lib/variables";
+
+export type AuthType = "none" | "basic" | "bearer" | "apikey" | "oauth2";
+
+export interface BasicAuth {
+  username: string;
+  password: string;
+}
+
+export interface BearerAuth {
+  token: string;
+}
+
+export interface ApiKeyAuth {
+  key: string;
+  value: string;
+  addTo: "header" | "query";
+}
+
+export interface OAuth2ClientCredentials {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  /** Send the client credentials as a Basic header or in the form body */
+  clientAuthentication: "header" | "body";
+}
+
+/**
+ * Settings for every auth type are kept side by side so switching the type
+ * back and forth does not throw away what was typed.
+ */
+export interface AuthConfig {
+  type: AuthType;
+  basic: BasicAuth;
+  bearer: BearerAuth;
+  apikey: ApiKeyAuth;
+  oauth2: OAuth2ClientCredentials;
+}
+
+export const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  none: "No Auth",
+  basic: "Basic Auth",
+  bearer: "Bearer Token",
+  apikey: "API Key",
+  oauth2: "OAuth 2.0 (Client Credentials)",
+};
+
+export const DEFAULT_AUTH: AuthConfig = {
+  type: "none",
+  basic: { username: "", password: "" },
+  bearer: { token: "" },
+  apikey: { key: "X-API-Key", value: "", addTo: "header" },
+  oauth2: {
+    tokenUrl: "",
+    clientId: "",
+    clientSecret: "",
+    scope: "",
+    clientAuthentication: "header",
+  },
+};
+
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  /** Epoch ms after which the token must be refreshed, null if it never expires */
+  expiresAt: number | null;
+}
+
+// Refresh tokens slightly before they actually expire
+const EXPIRY_MARGIN_MS = 30_000;
+
+const tokenCache = new Map<string, CachedToken>();
+
+function tokenCacheKey(config: OAuth2ClientCredentials): string {
+  return [
+    config.tokenUrl,
+    config.clientId,
+    config.clientSecret,
+    config.clientAuthentication,
+    config.scope,
+  ].join("|");
+}
+
+/** Fills in settings missing from drafts saved by older versions. */
+export function normalizeAuth(auth?: Partial<AuthConfig> | null): AuthConfig {
+  return {
+    type: auth?.type ?? "none",
+    basic: { ...DEFAULT_AUTH.basic, ...auth?.basic },
+    bearer: { ...DEFAULT_AUTH.bearer, ...auth?.bearer },
+    apikey: { ...DEFAULT_AUTH.apikey, ...auth?.apikey },
+    oauth2: { ...DEFAULT_AUTH.oauth2, ...auth?.oauth2 },
+  };
+}
+
+export function encodeBasicCredentials(
+  username: string,
+  password: string
+): string {
+  return encodeBase64(new TextEncoder().encode(`${username}:${password}`));
+}
+
+/**
+ * Substitutes {{variables}} in the settings of the active auth type and
+ * reports any that could not be resolved.
+ */
+export function resolveAuthVariables(
+  auth: AuthConfig,
+  variables: Record<string, string>
+): { auth: AuthConfig; unresolved: string[] } {
+  const unresolved: string[] = [];
+
+  const resolveFields = <T extends object>(section: T): T => {
+    const resolved = { ...section };
+    (Object.keys(resolved) as Array<keyof T>).forEach((field) => {
+      const value = resolved[field];
+      if (typeof value === "string") {
+        const result = resolveVariables(value, variables);
+        result.unresolved.forEach((name) => {
+          if (!unresolved.includes(name)) unresolved.push(name);
+        });
+        resolved[field] = result.value as T[keyof T];
+      }
+    });
+    return resolved;
+  };
+
+  if (auth.type === "none") return { auth, unresolved };
+
+  return {
+    auth: { ...auth, [auth.type]: resolveFields(auth[auth.type]) },
+    unresolved,
+  };
+}
+
+export function getCachedOAuth2Token(
+  config: OAuth2ClientCredentials
+): CachedToken | null {
+  const cached = tokenCache.get(tokenCacheKey(config));
+  if (!cached) return null;
+  if (cached.expiresAt !== null && cached.expiresAt <= Date.now()) {
+    tokenCache.delete(tokenCacheKey(config));
+    return null;
+  }
+  return cached;
+}
+
+export function clearOAuth2Token(config: OAuth2ClientCredentials): void {
+  tokenCache.delete(tokenCacheKey(config));
+}
+
+/**
+ * Returns a cached access token for the client credentials, requesting a
+ * new one from the token URL when there is none or it has expired.
+ */
+export async function getOAuth2Token(
+  config: OAuth2ClientCredentials,
+  mode: ExecutionMode
+): Promise<CachedToken> {
+  const cached = getCachedOAuth2Token(config);
+  if (cached) return cached;
+
+  if (!config.tokenUrl || !config.clientId) {
+    throw new Error("OAuth 2.0 requires a token URL and client ID");
+  }
+
+  const form = new URLSearchParams({ grant_type: "client_credentials" });
+  if (config.scope) form.set("scope", config.scope);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (config.clientAuthentication === "header") {
+    headers.Authorization = `Basic ${encodeBasicCredentials(
+      config.clientId,
+      config.clientSecret
+    )}`;
+  } else {
+    form.set("client_id", config.clientId);
+    form.set("client_secret", config.clientSecret);
+  }
+
+  const response = await executeRequest(
+    {
+      method: "POST",
+      url: config.tokenUrl,
+      headers,
+      body: form.toString(),
+    },
+    mode
+  );
+
+  const data =
+    response.data && typeof response.data === "object"
+      ? (response.data as Record<string, unknown>)
+      : {};
+
+  if (response.status >= 400 || typeof data.access_token !== "string") {
+    const reason =
+      typeof data.error_description === "string"
+        ? data.error_description
+        : typeof data.error === "string"
+          ? data.error
+          : `status ${response.status}`;
+    throw new Error(`OAuth 2.0 token request failed: ${reason}`);
+  }
+
+  const expiresIn = Number(data.expires_in);
+  const token: CachedToken = {
+    accessToken: data.access_token,
+    tokenType:
+      typeof data.token_type === "string" &&
+      data.token_type.toLowerCase() !== "bearer"
+        ? data.token_type
+        : "Bearer",
+    expiresAt:
+      Number.isFinite(expiresIn) && expiresIn > 0
+        ? Date.now() + expiresIn * 1000 - EXPIRY_MARGIN_MS
+        : null,
+  };
+
+  tokenCache.set(tokenCacheKey(config), token);
+  return token;
+}
+
+function withHeader(
+  headers: Record<string, string>,
+  name: string,
+  value: string
+): Record<string, string> {
+  // Drop any manually entered header of the same name, whatever its casing
+  const result: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, existing]) => {
+    if (key.toLowerCase() !== name.toLowerCase()) {
+      result[key] = existing;
+    }
+  });
+  result[name] = value;
+  return result;
+}
+
+/**
+ * Applies the chosen authorization to a prepared request, using `oauth2Token`
+ * for OAuth 2.0. Auth settings must already have their {{variables}}
+ * resolved.
+ */
+export function applyAuthWithToken<
+  T extends Pick<PreparedRequest, "url" | "headers">,
+>(
+  auth: AuthConfig,
+  request: T,
+  oauth2Token: Pick<CachedToken, "tokenType" | "accessToken"> | null
+): T {
+  switch (auth.type) {
+    case "basic":
+      return {
+        ...request,
+        headers: withHeader(
+          request.headers,
+          "Authorization",
+          `Basic ${encodeBasicCredentials(
+            auth.basic.username,
+            auth.basic.password
+          )}`
+        ),
+      };
+    case "bearer":
+      if (!auth.bearer.token) return request;
+      return {
+        ...request,
+        headers: withHeader(
+          request.headers,
+          "Authorization",
+          `Bearer ${auth.bearer.token}`
+        ),
+      };
+    case "apikey": {
+      const { key, value, addTo } = auth.apikey;
+      if (!key) return request;
+      if (addTo === "query") {
+        // The parameter goes before any #fragment, which is never sent
+        const hashIndex = request.url.indexOf("#");
+        const base =
+          hashIndex === -1 ? request.url : request.url.slice(0, hashIndex);
+        const fragment = hashIndex === -1 ? "" : request.url.slice(hashIndex);
+        const separator = base.includes("?") ? "&" : "?";
+        return {
+          ...request,
+          url: `${base}${separator}${encodeQueryComponent(
+            key
+          )}=${encodeQueryComponent(value)}${fragment}`,
+        };
+      }
+      return { ...request, headers: withHeader(request.headers, key, value) };
+    }
+    case "oauth2":
+      if (!oauth2Token) return request;
+      return {
+        ...request,
+        headers: withHeader(
+          request.headers,
+          "Authorization",
+          `${oauth2Token.tokenType} ${oauth2Token.accessToken}`
+        ),
+      };
+    default:
+      return request;
+  }
+}
+
+/**
+ * Applies the chosen authorization to a prepared request, fetching an
+ * OAuth 2.0 token first when needed. Auth settings must already have their
+ * {{variables}} resolved.
+ */
+export async function applyAuth(
+  auth: AuthConfig,
+  request: PreparedRequest,
+  mode: ExecutionMode
+): Promise<PreparedRequest> {
+  const token =
+    auth.type === "oauth2" ? await getOAuth2Token(auth.oauth2, mode) : null;
+  return applyAuthWithToken(auth, request, token);
+}
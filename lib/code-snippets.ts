@@ -0,0 +1,645 @@
+import { applyAuthWithToken, getCachedOAuth2Token } from "@/lib/auth";
+import { buildGraphqlBody } from "@/lib/graphql";
+import { BINARY_FILE_KEY } from "@/lib/request-body";
+import {
+  buildHeaderRecord,
+  expandTripleBackticks,
+  METHODS_WITH_BODY,
+  resolveRequestDraft,
+  withProtocol,
+  type RequestDraft,
+} from "@/lib/request-builder";
+
+export type SnippetLanguage =
+  | "curl"
+  | "fetch"
+  | "axios"
+  | "node"
+  | "python"
+  | "go"
+  | "powershell";
+
+export const SNIPPET_LANGUAGES: Array<{ id: SnippetLanguage; label: string }> =
+  [
+    { id: "curl", label: "cURL" },
+    { id: "fetch", label: "JavaScript (fetch)" },
+    { id: "axios", label: "JavaScript (axios)" },
+    { id: "node", label: "Node.js (http)" },
+    { id: "python", label: "Python (requests)" },
+    { id: "go", label: "Go (net/http)" },
+    { id: "powershell", label: "PowerShell" },
+  ];
+
+export interface SnippetField {
+  key: string;
+  value: string;
+  /** Set for file fields; snippets read the file from this path */
+  fileName?: string;
+}
+
+export type SnippetBody =
+  | { kind: "text"; text: string }
+  | { kind: "urlencoded"; fields: SnippetField[] }
+  | { kind: "multipart"; fields: SnippetField[] }
+  | { kind: "file"; fileName: string };
+
+export interface SnippetRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: SnippetBody;
+}
+
+// Stands in for files that have not been picked yet
+const FILE_PLACEHOLDER = "path/to/file";
+const TOKEN_PLACEHOLDER = {
+  tokenType: "Bearer",
+  accessToken: "<access_token>",
+};
+
+function buildSnippetBody(
+  draft: RequestDraft,
+  files: Record<string, File>
+): SnippetBody | undefined {
+  switch (draft.bodyType) {
+    case "urlencoded":
+      return draft.formFields.length > 0
+        ? { kind: "urlencoded", fields: draft.formFields }
+        : undefined;
+    case "multipart":
+      return {
+        kind: "multipart",
+        fields: draft.multipartFields.map((field) =>
+          field.type === "file"
+            ? {
+                key: field.key,
+                value: "",
+                fileName: files[field.id]?.name ?? FILE_PLACEHOLDER,
+              }
+            : { key: field.key, value: field.value }
+        ),
+      };
+    case "binary":
+      return {
+        kind: "file",
+        fileName: files[BINARY_FILE_KEY]?.name ?? FILE_PLACEHOLDER,
+      };
+    case "json":
+      return draft.body
+        ? { kind: "text", text: expandTripleBackticks(draft.body) }
+        : undefined;
+    case "graphql":
+      try {
+        return { kind: "text", text: buildGraphqlBody(draft.graphql) };
+      } catch {
+        // Variables that are not valid JSON yet are left out
+        return {
+          kind: "text",
+          text: buildGraphqlBody({ ...draft.graphql, variables: "" }),
+        };
+      }
+    default:
+      return draft.body ? { kind: "text", text: draft.body } : undefined;
+  }
+}
+
+/**
+ * Percent-encodes what variables put into the URL, like spaces, so every
+ * snippet gets a URL its tool accepts. Unresolved {{variables}} stay legible.
+ */
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href.replace(
+      /%7B%7B(.*?)%7D%7D/g,
+      (_match, name: string) => `{{${name}}}`
+    );
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Builds the request a snippet describes, following the same rules as
+ * sending it. Unresolved {{variables}} are left in place and an OAuth 2.0
+ * token that has not been fetched yet is shown as a placeholder.
+ */
+export function buildSnippetRequest(
+  draft: RequestDraft,
+  variables: Record<string, string>,
+  files: Record<string, File>
+): SnippetRequest {
+  const { draft: resolved } = resolveRequestDraft(draft, variables);
+  const oauth2Token =
+    resolved.auth.type === "oauth2"
+      ? (getCachedOAuth2Token(resolved.auth.oauth2) ?? TOKEN_PLACEHOLDER)
+      : null;
+
+  const { url, headers } = applyAuthWithToken(
+    resolved.auth,
+    {
+      url: withProtocol(resolved.url),
+      headers: buildHeaderRecord(resolved.method, resolved.headers),
+    },
+    oauth2Token
+  );
+
+  return {
+    method: resolved.method,
+    url: normalizeUrl(url),
+    headers,
+    body: METHODS_WITH_BODY.includes(resolved.method)
+      ? buildSnippetBody(resolved, files)
+      : undefined,
+  };
+}
+
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+function powershellQuote(text: string): string {
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+// JSON string literals are also valid in JavaScript, Python and Go
+function quote(text: string): string {
+  return JSON.stringify(text);
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 ? line : prefix + line))
+    .join("\n");
+}
+
+function getContentType(headers: Record<string, string>): string | undefined {
+  const key = Object.keys(headers).find(
+    (name) => name.toLowerCase() === "content-type"
+  );
+  return key ? headers[key] : undefined;
+}
+
+/** Pretty-prints a JSON text body, or returns null if it is not JSON. */
+function parseJsonBody(request: SnippetRequest): string | null {
+  if (request.body?.kind !== "text") return null;
+  if (!getContentType(request.headers)?.includes("json")) return null;
+  try {
+    return JSON.stringify(JSON.parse(request.body.text), null, 2);
+  } catch {
+    return null;
+  }
+}
+
+function objectLiteral(
+  entries: Array<[string, string]>,
+  prefix: string,
+  indentUnit = "  "
+): string {
+  if (entries.length === 0) return "{}";
+  const lines = entries.map(
+    ([key, value]) => `${prefix}${indentUnit}${quote(key)}: ${quote(value)},`
+  );
+  return `{\n${lines.join("\n")}\n${prefix}}`;
+}
+
+function generateCurl(request: SnippetRequest): string {
+  const method = request.method === "GET" ? "" : ` -X ${request.method}`;
+  const parts = [`curl${method} ${shellQuote(request.url)}`];
+  Object.entries(request.headers).forEach(([key, value]) => {
+    parts.push(`-H ${shellQuote(`${key}: ${value}`)}`);
+  });
+
+  const body = request.body;
+  if (body?.kind === "text") {
+    parts.push(`--data-raw ${shellQuote(body.text)}`);
+  } else if (body?.kind === "urlencoded") {
+    body.fields.forEach((field) => {
+      const pair = `${field.key}=${field.value}`;
+      parts.push(`--data-urlencode ${shellQuote(pair)}`);
+    });
+  } else if (body?.kind === "multipart") {
+    body.fields.forEach((field) => {
+      parts.push(
+        field.fileName !== undefined
+          ? `-F ${shellQuote(`${field.key}=@${field.fileName}`)}`
+          : `--form-string ${shellQuote(`${field.key}=${field.value}`)}`
+      );
+    });
+  } else if (body?.kind === "file") {
+    parts.push(`--data-binary ${shellQuote(`@${body.fileName}`)}`);
+  }
+
+  return parts.join(" \\\n  ");
+}
+
+/** Statements that prepare a FormData or URLSearchParams body in JavaScript. */
+function javascriptBodySetup(body: SnippetBody | undefined): string[] {
+  if (body?.kind === "urlencoded") {
+    return [
+      "const body = new URLSearchParams();",
+      ...body.fields.map(
+        (field) => `body.append(${quote(field.key)}, ${quote(field.value)});`
+      ),
+      "",
+    ];
+  }
+  if (body?.kind === "multipart") {
+    return [
+      "const body = new FormData();",
+      ...body.fields.map((field) => {
+        const value =
+          field.fileName !== undefined
+            ? `new Blob([/* contents of ${field.fileName} */]), ${quote(
+                field.fileName
+              )}`
+            : quote(field.value);
+        return `body.append(${quote(field.key)}, ${value});`;
+      }),
+      "",
+    ];
+  }
+  if (body?.kind === "file") {
+    return [`const body = new Blob([/* contents of ${body.fileName} */]);`, ""];
+  }
+  return [];
+}
+
+function javascriptBodyValue(request: SnippetRequest): string | null {
+  if (!request.body) return null;
+  if (request.body.kind !== "text") return "body";
+  const json = parseJsonBody(request);
+  return json
+    ? `JSON.stringify(${indent(json, "  ")})`
+    : quote(request.body.text);
+}
+
+function generateFetch(request: SnippetRequest): string {
+  const options = [`  method: ${quote(request.method)},`];
+  if (Object.keys(request.headers).length > 0) {
+    options.push(
+      `  headers: ${objectLiteral(Object.entries(request.headers), "  ")},`
+    );
+  }
+  const bodyValue = javascriptBodyValue(request);
+  if (bodyValue) {
+    options.push(bodyValue === "body" ? "  body," : `  body: ${bodyValue},`);
+  }
+
+  return [
+    ...javascriptBodySetup(request.body),
+    `const response = await fetch(${quote(request.url)}, {`,
+    ...options,
+    "});",
+    "",
+    "console.log(response.status);",
+    "console.log(await response.text());",
+  ].join("\n");
+}
+
+function generateAxios(request: SnippetRequest): string {
+  const options = [
+    `  method: ${quote(request.method.toLowerCase())},`,
+    `  url: ${quote(request.url)},`,
+  ];
+  if (Object.keys(request.headers).length > 0) {
+    options.push(
+      `  headers: ${objectLiteral(Object.entries(request.headers), "  ")},`
+    );
+  }
+  const json = parseJsonBody(request);
+  const bodyValue = json ? indent(json, "  ") : javascriptBodyValue(request);
+  if (bodyValue) options.push(`  data: ${bodyValue},`);
+
+  return [
+    'import axios from "axios";',
+    "",
+    ...javascriptBodySetup(request.body),
+    "const response = await axios({",
+    ...options,
+    "});",
+    "",
+    "console.log(response.status);",
+    "console.log(response.data);",
+  ].join("\n");
+}
+
+function generateNodeHttp(request: SnippetRequest): string {
+  const moduleName = request.url.startsWith("http://") ? "http" : "https";
+  const body = request.body;
+  const lines = [`const ${moduleName} = require("${moduleName}");`];
+  if (body?.kind === "file" || body?.kind === "multipart") {
+    lines.push('const fs = require("fs");');
+  }
+  if (body?.kind === "multipart") {
+    // Node's http module has no multipart encoder of its own
+    lines.push('const FormData = require("form-data");');
+  }
+  lines.push("");
+
+  lines.push(
+    `const headers = ${objectLiteral(Object.entries(request.headers), "")};`
+  );
+  if (body?.kind === "multipart") {
+    lines.push("", "const form = new FormData();");
+    body.fields.forEach((field) => {
+      const value =
+        field.fileName !== undefined
+          ? `fs.createReadStream(${quote(field.fileName)})`
+          : quote(field.value);
+      lines.push(`form.append(${quote(field.key)}, ${value});`);
+    });
+  } else if (body?.kind === "urlencoded") {
+    lines.push(
+      "",
+      `const body = new URLSearchParams(${objectLiteral(
+        body.fields.map((field) => [field.key, field.value]),
+        ""
+      )}).toString();`
+    );
+  } else if (body?.kind === "text") {
+    lines.push("", `const body = ${quote(body.text)};`);
+  }
+  lines.push("");
+
+  lines.push(
+    "const options = {",
+    `  method: ${quote(request.method)},`,
+    body?.kind === "multipart"
+      ? "  headers: { ...headers, ...form.getHeaders() },"
+      : "  headers,",
+    "};",
+    "",
+    `const req = ${moduleName}.request(${quote(request.url)}, options, (res) => {`,
+    '  let data = "";',
+    '  res.on("data", (chunk) => {',
+    "    data += chunk;",
+    "  });",
+    '  res.on("end", () => {',
+    "    console.log(res.statusCode);",
+    "    console.log(data);",
+    "  });",
+    "});",
+    "",
+    'req.on("error", (error) => {',
+    "  console.error(error);",
+    "});",
+    ""
+  );
+
+  if (body?.kind === "multipart") {
+    lines.push("form.pipe(req);");
+  } else if (body?.kind === "file") {
+    lines.push(`fs.createReadStream(${quote(body.fileName)}).pipe(req);`);
+  } else {
+    if (body) lines.push("req.write(body);");
+    lines.push("req.end();");
+  }
+
+  return lines.join("\n");
+}
+
+function generatePython(request: SnippetRequest): string {
+  const body = request.body;
+  const args = ["url", "headers=headers"];
+  const lines = [
+    "import requests",
+    "",
+    `url = ${quote(request.url)}`,
+    `headers = ${objectLiteral(Object.entries(request.headers), "", "    ")}`,
+  ];
+
+  if (body?.kind === "text") {
+    lines.push(`payload = ${quote(body.text)}`);
+    args.push("data=payload");
+  } else if (body?.kind === "urlencoded") {
+    lines.push(
+      `payload = ${objectLiteral(
+        body.fields.map((field) => [field.key, field.value]),
+        "",
+        "    "
+      )}`
+    );
+    args.push("data=payload");
+  } else if (body?.kind === "multipart") {
+    const textFields = body.fields.filter((f) => f.fileName === undefined);
+    const fileFields = body.fields.filter((f) => f.fileName !== undefined);
+    if (textFields.length > 0) {
+      lines.push(
+        `payload = ${objectLiteral(
+          textFields.map((field) => [field.key, field.value]),
+          "",
+          "    "
+        )}`
+      );
+      args.push("data=payload");
+    }
+    lines.push(
+      "files = [",
+      ...fileFields.map((field) => {
+        const fileName = quote(field.fileName ?? "");
+        return `    (${quote(field.key)}, (${fileName}, open(${fileName}, "rb"))),`;
+      }),
+      "]"
+    );
+    args.push("files=files");
+  } else if (body?.kind === "file") {
+    lines.push(`payload = open(${quote(body.fileName)}, "rb")`);
+    args.push("data=payload");
+  }
+
+  lines.push(
+    "",
+    `response = requests.request(${quote(request.method)}, ${args.join(", ")})`,
+    "",
+    "print(response.status_code)",
+    "print(response.text)"
+  );
+  return lines.join("\n");
+}
+
+function generateGo(request: SnippetRequest): string {
+  const body = request.body;
+  const imports = new Set(["fmt", "io", "net/http"]);
+  const setup: string[] = [];
+  let bodyValue = "nil";
+
+  if (body?.kind === "text") {
+    imports.add("strings");
+    setup.push(`\tbody := strings.NewReader(${quote(body.text)})`);
+    bodyValue = "body";
+  } else if (body?.kind === "urlencoded") {
+    imports.add("net/url");
+    imports.add("strings");
+    setup.push(
+      "\tform := url.Values{}",
+      ...body.fields.map(
+        (field) => `\tform.Add(${quote(field.key)}, ${quote(field.value)})`
+      ),
+      "\tbody := strings.NewReader(form.Encode())"
+    );
+    bodyValue = "body";
+  } else if (body?.kind === "multipart") {
+    imports.add("bytes");
+    imports.add("mime/multipart");
+    setup.push(
+      "\tbody := &bytes.Buffer{}",
+      "\twriter := multipart.NewWriter(body)"
+    );
+    body.fields.forEach((field) => {
+      if (field.fileName === undefined) {
+        setup.push(
+          `\twriter.WriteField(${quote(field.key)}, ${quote(field.value)})`
+        );
+        return;
+      }
+      imports.add("os");
+      setup.push(
+        "\t{",
+        `\t\tfile, err := os.Open(${quote(field.fileName)})`,
+        "\t\tif err != nil {",
+        "\t\t\tpanic(err)",
+        "\t\t}",
+        "\t\tdefer file.Close()",
+        `\t\tpart, err := writer.CreateFormFile(${quote(field.key)}, ${quote(field.fileName)})`,
+        "\t\tif err != nil {",
+        "\t\t\tpanic(err)",
+        "\t\t}",
+        "\t\tio.Copy(part, file)",
+        "\t}"
+      );
+    });
+    setup.push("\twriter.Close()");
+    bodyValue = "body";
+  } else if (body?.kind === "file") {
+    imports.add("os");
+    setup.push(
+      `\tbody, err := os.Open(${quote(body.fileName)})`,
+      "\tif err != nil {",
+      "\t\tpanic(err)",
+      "\t}",
+      "\tdefer body.Close()"
+    );
+    bodyValue = "body";
+  }
+
+  const headerLines = Object.entries(request.headers).map(
+    ([key, value]) => `\treq.Header.Set(${quote(key)}, ${quote(value)})`
+  );
+  if (body?.kind === "multipart") {
+    headerLines.push(
+      '\treq.Header.Set("Content-Type", writer.FormDataContentType())'
+    );
+  }
+
+  return [
+    "package main",
+    "",
+    "import (",
+    ...[...imports].sort().map((name) => `\t"${name}"`),
+    ")",
+    "",
+    "func main() {",
+    ...setup,
+    ...(setup.length > 0 ? [""] : []),
+    `\treq, err := http.NewRequest(${quote(request.method)}, ${quote(request.url)}, ${bodyValue})`,
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    ...headerLines,
+    "",
+    "\tres, err := http.DefaultClient.Do(req)",
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    "\tdefer res.Body.Close()",
+    "",
+    "\tdata, err := io.ReadAll(res.Body)",
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    "\tfmt.Println(res.Status)",
+    "\tfmt.Println(string(data))",
+    "}",
+  ].join("\n");
+}
+
+function powershellHashtable(entries: Array<[string, string]>): string {
+  if (entries.length === 0) return "@{}";
+  const lines = entries.map(
+    ([key, value]) => `    ${powershellQuote(key)} = ${powershellQuote(value)}`
+  );
+  return `@{\n${lines.join("\n")}\n}`;
+}
+
+function generatePowerShell(request: SnippetRequest): string {
+  const body = request.body;
+  // Invoke-WebRequest takes the content type as a parameter, not a header
+  const contentType = getContentType(request.headers);
+  const headers = Object.entries(request.headers).filter(
+    ([key]) => key.toLowerCase() !== "content-type"
+  );
+
+  const lines: string[] = [];
+  const args = [
+    `-Uri ${powershellQuote(request.url)}`,
+    `-Method ${request.method}`,
+  ];
+  if (headers.length > 0) {
+    lines.push(`$headers = ${powershellHashtable(headers)}`);
+    args.push("-Headers $headers");
+  }
+  if (contentType && body?.kind !== "multipart") {
+    args.push(`-ContentType ${powershellQuote(contentType)}`);
+  }
+
+  if (body?.kind === "text") {
+    lines.push(`$body = ${powershellQuote(body.text)}`);
+    args.push("-Body $body");
+  } else if (body?.kind === "urlencoded") {
+    lines.push(
+      `$body = ${powershellHashtable(
+        body.fields.map((field) => [field.key, field.value])
+      )}`
+    );
+    args.push("-Body $body");
+  } else if (body?.kind === "multipart") {
+    // -Form requires PowerShell 7 or later
+    const entries = body.fields.map((field) =>
+      field.fileName !== undefined
+        ? `    ${powershellQuote(field.key)} = Get-Item -Path ${powershellQuote(field.fileName)}`
+        : `    ${powershellQuote(field.key)} = ${powershellQuote(field.value)}`
+    );
+    lines.push(`$form = @{\n${entries.join("\n")}\n}`);
+    args.push("-Form $form");
+  } else if (body?.kind === "file") {
+    args.push(`-InFile ${powershellQuote(body.fileName)}`);
+  }
+
+  if (lines.length > 0) lines.push("");
+  lines.push(
+    `$response = Invoke-WebRequest ${args.join(" ")}`,
+    "",
+    "$response.StatusCode",
+    "$response.Content"
+  );
+  return lines.join("\n");
+}
+
+const GENERATORS: Record<SnippetLanguage, (request: SnippetRequest) => string> =
+  {
+    curl: generateCurl,
+    fetch: generateFetch,
+    axios: generateAxios,
+    node: generateNodeHttp,
+    python: generatePython,
+    go: generateGo,
+    powershell: generatePowerShell,
+  };
+
+export function generateSnippet(
+  language: SnippetLanguage,
+  request: SnippetRequest
+): string {
+  return GENERATORS[language](request);
+}
@@ -0,0 +1,304 @@
+import { applyAuth, normalizeAuth } from "@/lib/auth";
+import { executeRequest } from "@/lib/http-client";
+import { formatVariableList } from "@/lib/variables";
+import {
+  buildHeaderRecord,
+  expandTripleBackticks,
+  METHODS_WITH_BODY,
+  resolveRequestDraft,
+  withProtocol,
+} from "@/lib/request-builder";
+import { buildRequestBody } from "@/lib/request-body";
+import { DEFAULT_GRAPHQL_BODY } from "@/lib/graphql";
+import { evaluateAssertions, type TestResult } from "@/lib/assertions";
+import {
+  runPreRequestScript,
+  runTestScript,
+  withVariableChanges,
+  type ScriptRequest,
+} from "@/lib/scripts";
+import type {
+  CollectionItem,
+  CollectionRequest,
+  RequestData,
+} from "@/lib/collections";
+
+/** A row of a data file; its columns are variables for one iteration. */
+export type DataRow = Record<string, string>;
+
+/** Outcome of one request in one iteration of a run. */
+export interface RunnerResult {
+  iteration: number;
+  itemId: string;
+  name: string;
+  method: string;
+  url: string;
+  status?: number;
+  time?: number;
+  /** Why the request could not be sent or got no response */
+  error?: string;
+  tests: TestResult[];
+}
+
+export interface RunnerSummary {
+  requests: number;
+  failedRequests: number;
+  tests: number;
+  passedTests: number;
+  failedTests: number;
+  averageTime: number;
+}
+
+interface RequestContext {
+  /** Variables of the active environment, changeable by scripts */
+  environment: Record<string, string>;
+  /** Every variable the request can use */
+  variables: Record<string, string>;
+  signal?: AbortSignal;
+  /** Timeout for requests that don't set their own, 0 for none */
+  defaultTimeout?: number;
+}
+
+/** Lists the requests of a collection or folder in the order they run. */
+export function collectRunnerRequests(
+  items: CollectionItem[]
+): CollectionRequest[] {
+  return items.flatMap((item) =>
+    item.type === "folder" ? collectRunnerRequests(item.items) : [item]
+  );
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Reads a CSV file with a header row, or a JSON array of objects, into one
+ * row of variables per iteration. Throws if the file has neither shape.
+ */
+export function parseDataFile(text: string, fileName: string): DataRow[] {
+  const trimmed = text.trim();
+
+  if (/\.json$/i.test(fileName) || trimmed.startsWith("[")) {
+    const data: unknown = JSON.parse(trimmed);
+    if (
+      !Array.isArray(data) ||
+      !data.every((row) => typeof row === "object" && row !== null)
+    ) {
+      throw new Error("A JSON data file must contain an array of objects");
+    }
+    return data.map((row: Record<string, unknown>) =>
+      Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [
+          key,
+          typeof value === "string" ? value : JSON.stringify(value),
+        ])
+      )
+    );
+  }
+
+  const [header, ...rows] = parseCsv(trimmed);
+  if (!header) {
+    throw new Error("The data file is empty");
+  }
+  const columns = header.map((column) => column.trim());
+  return rows.map((cells) =>
+    Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""]))
+  );
+}
+
+/**
+ * Sends a saved request the way the editor does: pre-request script,
+ * {{variable}} substitution, auth, then assertions and the test script.
+ * Failures are reported in the result instead of being thrown. Files of
+ * binary and multipart bodies are not saved, so those fields are empty.
+ */
+export async function runCollectionRequest(
+  request: RequestData,
+  { environment, variables, signal, defaultTimeout = 0 }: RequestContext
+): Promise<{
+  result: Omit<RunnerResult, "iteration" | "itemId" | "name">;
+  environment: Record<string, string | null>;
+}> {
+  let changes: Record<string, string | null> = {};
+  let scripted: ScriptRequest = {
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    body: request.body,
+  };
+  let sendVariables = variables;
+  const failed = (
+    error: string,
+    method = request.method,
+    url = request.url
+  ) => ({
+    result: { method, url, error, tests: [] },
+    environment: changes,
+  });
+
+  // Connections have no single response to test, so they are left out
+  if (request.kind === "websocket") {
+    return failed("WebSocket requests can't be run", "WS");
+  }
+
+  if (request.preRequestScript?.trim()) {
+    const run = await runPreRequestScript(
+      request.preRequestScript,
+      scripted,
+      { environment, variables }
+    );
+    if (run.error) {
+      return failed(`Pre-request script failed: ${run.error}`);
+    }
+    changes = run.environment;
+    scripted = run.request;
+    sendVariables = withVariableChanges(variables, changes);
+  }
+
+  const { draft: resolved, unresolved } = resolveRequestDraft(
+    {
+      ...scripted,
+      bodyType: request.bodyType ?? "json",
+      formFields: request.formFields ?? [],
+      multipartFields: request.multipartFields ?? [],
+      graphql: request.graphql ?? DEFAULT_GRAPHQL_BODY,
+      auth: normalizeAuth(request.auth),
+    },
+    sendVariables
+  );
+  if (unresolved.length > 0) {
+    return failed(`Unresolved variables: ${formatVariableList(unresolved)}`);
+  }
+
+  const url = withProtocol(resolved.url);
+  const executionMode = request.executionMode ?? "browser";
+
+  try {
+    new URL(url);
+    const body =
+      resolved.bodyType === "json"
+        ? expandTripleBackticks(resolved.body)
+        : resolved.body;
+    const authorized = await applyAuth(
+      resolved.auth,
+      {
+        method: resolved.method,
+        url,
+        headers: buildHeaderRecord(resolved.method, resolved.headers),
+        body: METHODS_WITH_BODY.includes(resolved.method)
+          ? buildRequestBody({ ...resolved, body }, {})
+          : undefined,
+      },
+      executionMode
+    );
+    const response = await executeRequest(authorized, executionMode, {
+      signal,
+      timeout: request.timeout ?? defaultTimeout,
+    });
+
+    const tests = evaluateAssertions(
+      request.assertions ?? [],
+      response,
+      sendVariables
+    );
+    if (request.testScript?.trim()) {
+      const run = await runTestScript(
+        request.testScript,
+        {
+          method: resolved.method,
+          url,
+          headers: resolved.headers,
+          body,
+        },
+        response,
+        {
+          environment: withVariableChanges(environment, changes),
+          variables: sendVariables,
+        }
+      );
+      tests.push(...run.tests);
+      if (run.error) {
+        tests.push({
+          name: "Test script",
+          passed: false,
+          message: run.error,
+        });
+      }
+      changes = { ...changes, ...run.environment };
+    }
+
+    return {
+      result: {
+        method: resolved.method,
+        url,
+        status: response.status,
+        time: response.time,
+        tests,
+      },
+      environment: changes,
+    };
+  } catch (error) {
+    return failed(
+      error instanceof Error ? error.message : "Request failed",
+      resolved.method,
+      url
+    );
+  }
+}
+
+export function summarizeRun(results: RunnerResult[]): RunnerSummary {
+  const tests = results.flatMap((result) => result.tests);
+  const timed = results.filter((result) => result.time !== undefined);
+  const passedTests = tests.filter((test) => test.passed).length;
+
+  return {
+    requests: results.length,
+    failedRequests: results.filter((result) => result.error).length,
+    tests: tests.length,
+    passedTests,
+    failedTests: tests.length - passedTests,
+    averageTime: timed.length
+      ? Math.round(
+          timed.reduce((total, result) => total + (result.time ?? 0), 0) /
+            timed.length
+        )
+      : 0,
+  };
+}
@@ -0,0 +1,228 @@
+import { generateId } from "@/lib/utils";
+import type { SavedRequest } from "@/hooks/use-history";
+import type { EnvironmentVariable } from "@/hooks/use-environments";
+
+export type RequestData = Omit<SavedRequest, "id" | "timestamp">;
+
+export interface CollectionRequest {
+  type: "request";
+  id: string;
+  name: string;
+  request: RequestData;
+}
+
+export interface CollectionFolder {
+  type: "folder";
+  id: string;
+  name: string;
+  items: CollectionItem[];
+}
+
+export type CollectionItem = CollectionRequest | CollectionFolder;
+
+export type CollectionVariable = EnvironmentVariable;
+
+export interface Collection {
+  id: string;
+  name: string;
+  items: CollectionItem[];
+  /** Variables shared by the requests of this collection */
+  variables?: CollectionVariable[];
+}
+
+export type DropPosition = "before" | "after" | "inside";
+
+export interface FolderOption {
+  id: string;
+  name: string;
+  depth: number;
+}
+
+/** Collection variables as a lookup map; rows without a name are skipped. */
+export function getCollectionVariables(
+  collection: Collection | undefined
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+  collection?.variables?.forEach(({ key, value }) => {
+    if (key) variables[key] = value;
+  });
+  return variables;
+}
+
+export function findItem(
+  items: CollectionItem[],
+  id: string
+): CollectionItem | null {
+  for (const item of items) {
+    if (item.id === id) return item;
+    if (item.type === "folder") {
+      const found = findItem(item.items, id);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+export function updateItem(
+  items: CollectionItem[],
+  id: string,
+  updater: (item: CollectionItem) => CollectionItem
+): CollectionItem[] {
+  return items.map((item) => {
+    if (item.id === id) return updater(item);
+    if (item.type === "folder") {
+      return { ...item, items: updateItem(item.items, id, updater) };
+    }
+    return item;
+  });
+}
+
+/**
+ * Removes an item anywhere in the tree and returns the new tree together
+ * with the removed item (null when the id was not found).
+ */
+export function removeItem(
+  items: CollectionItem[],
+  id: string
+): [CollectionItem[], CollectionItem | null] {
+  let removed: CollectionItem | null = null;
+
+  const walk = (list: CollectionItem[]): CollectionItem[] =>
+    list
+      .filter((item) => {
+        if (item.id === id) {
+          removed = item;
+          return false;
+        }
+        return true;
+      })
+      .map((item) =>
+        item.type === "folder" ? { ...item, items: walk(item.items) } : item
+      );
+
+  const result = walk(items);
+  return [result, removed];
+}
+
+/**
+ * Inserts an item into the folder `parentId` (or the collection root when
+ * null) at `index`, appending when no index is given.
+ */
+export function insertItem(
+  items: CollectionItem[],
+  parentId: string | null,
+  item: CollectionItem,
+  index?: number
+): CollectionItem[] {
+  const insertInto = (list: CollectionItem[]) => {
+    const copy = [...list];
+    copy.splice(index ?? copy.length, 0, item);
+    return copy;
+  };
+
+  if (parentId === null) return insertInto(items);
+
+  return updateItem(items, parentId, (parent) =>
+    parent.type === "folder"
+      ? { ...parent, items: insertInto(parent.items) }
+      : parent
+  );
+}
+
+/** Deep copies an item, giving it and all of its descendants fresh ids. */
+export function cloneItem(item: CollectionItem): CollectionItem {
+  if (item.type === "folder") {
+    return { ...item, id: generateId(), items: item.items.map(cloneItem) };
+  }
+  return {
+    ...item,
+    id: generateId(),
+    request: {
+      ...item.request,
+      headers: item.request.headers.map((header) => ({
+        ...header,
+        id: generateId(),
+      })),
+    },
+  };
+}
+
+/** Returns the folder id that contains `id`, null for the root, undefined if missing. */
+export function findParentId(
+  items: CollectionItem[],
+  id: string,
+  parentId: string | null = null
+): string | null | undefined {
+  for (const item of items) {
+    if (item.id === id) return parentId;
+    if (item.type === "folder") {
+      const found = findParentId(item.items, id, item.id);
+      if (found !== undefined) return found;
+    }
+  }
+  return undefined;
+}
+
+function siblingsOf(
+  items: CollectionItem[],
+  parentId: string | null
+): CollectionItem[] {
+  if (parentId === null) return items;
+  const parent = findItem(items, parentId);
+  return parent?.type === "folder" ? parent.items : [];
+}
+
+/**
+ * Places `item` relative to `targetId` inside `items`. A null target
+ * appends to the root. Used by drag-to-reorder once the dragged item has
+ * been removed from its source.
+ */
+export function placeItem(
+  items: CollectionItem[],
+  item: CollectionItem,
+  targetId: string | null,
+  position: DropPosition
+): CollectionItem[] {
+  if (targetId === null) return insertItem(items, null, item);
+
+  const target = findItem(items, targetId);
+  if (!target) return insertItem(items, null, item);
+
+  if (position === "inside" && target.type === "folder") {
+    return insertItem(items, target.id, item);
+  }
+
+  const parentId = findParentId(items, targetId) ?? null;
+  const index = siblingsOf(items, parentId).findIndex(
+    (sibling) => sibling.id === targetId
+  );
+  return insertItem(
+    items,
+    parentId,
+    item,
+    position === "after" ? index + 1 : index
+  );
+}
+
+export function isDescendant(
+  item: CollectionItem,
+  candidateId: string
+): boolean {
+  if (item.type !== "folder") return false;
+  return findItem(item.items, candidateId) !== null;
+}
+
+/** Flattens the folder tree into an indented list for folder pickers. */
+export function listFolders(
+  items: CollectionItem[],
+  depth = 0
+): FolderOption[] {
+  return items.flatMap((item) =>
+    item.type === "folder"
+      ? [
+          { id: item.id, name: item.name, depth },
+          ...listFolders(item.items, depth + 1),
+        ]
+      : []
+  );
+}
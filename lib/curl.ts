@@ -0,0 +1,413 @@
+import { generateId } from "@/lib/utils";
+import {
+  rawLanguageFor,
+  type BodyType,
+  type FormField,
+  type MultipartField,
+  type RawLanguage,
+} from "@/lib/request-body";
+
+export interface ParsedCurl {
+  method: string;
+  url: string;
+  headers: Array<{ id: string; key: string; value: string }>;
+  body: string;
+  bodyType: BodyType;
+  rawLanguage: RawLanguage;
+  formFields: FormField[];
+  multipartFields: MultipartField[];
+  basicAuth: { username: string; password: string } | null;
+}
+
+// Options that take a value but have no equivalent in the request editor
+const IGNORED_OPTIONS_WITH_VALUE = new Set([
+  "-o",
+  "--output",
+  "-m",
+  "--max-time",
+  "--connect-timeout",
+  "--retry",
+  "--retry-delay",
+  "--retry-max-time",
+  "--max-redirs",
+  "-r",
+  "--range",
+  "-w",
+  "--write-out",
+  "-x",
+  "--proxy",
+  "--cacert",
+  "-E",
+  "--cert",
+  "--key",
+  "-c",
+  "--cookie-jar",
+  "--resolve",
+  "--connect-to",
+  "--interface",
+  "--limit-rate",
+  "-K",
+  "--config",
+  "--oauth2-bearer",
+  "-T",
+  "--upload-file",
+]);
+
+// Short options whose value may be attached, as in -XPOST
+const SHORT_OPTIONS_WITH_VALUE = new Set([
+  "X",
+  "H",
+  "d",
+  "u",
+  "F",
+  "A",
+  "e",
+  "b",
+  "o",
+  "m",
+  "w",
+  "x",
+  "c",
+  "T",
+  "r",
+  "E",
+  "K",
+]);
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+export function isCurlCommand(text: string): boolean {
+  return /^\s*curl(\.exe)?\s/i.test(text);
+}
+
+/**
+ * Splits a shell command line into words, following POSIX quoting rules
+ * closely enough for commands copied from browsers and API docs.
+ */
+export function tokenizeShellCommand(command: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let inToken = false;
+  let i = 0;
+
+  // Drop line continuations before splitting
+  const input = command.replace(/\\\r?\n/g, " ");
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = "";
+        inToken = false;
+      }
+      i++;
+      continue;
+    }
+
+    inToken = true;
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw new Error("Unterminated single quote");
+      current += input.slice(i + 1, end);
+      i = end + 1;
+    } else if (char === "$" && input[i + 1] === "'") {
+      // ANSI-C quoting, used by "Copy as cURL (bash)" in Chrome
+      i += 2;
+      while (i < input.length && input[i] !== "'") {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          const next = input[i + 1];
+          const hexLength = next === "x" ? 2 : next === "u" ? 4 : 0;
+          const hex = input.slice(i + 2, i + 2 + hexLength);
+          if (
+            hexLength > 0 &&
+            hex.length === hexLength &&
+            /^[0-9a-fA-F]+$/.test(hex)
+          ) {
+            current += String.fromCharCode(parseInt(hex, 16));
+            i += 2 + hexLength;
+          } else {
+            current += ANSI_C_ESCAPES[next] ?? `\\${next}`;
+            i += 2;
+          }
+        } else {
+          current += input[i];
+          i++;
+        }
+      }
+      if (i >= input.length) throw new Error("Unterminated $'...' quote");
+      i++;
+    } else if (char === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && '"\\$`'.includes(input[i + 1])) {
+          current += input[i + 1];
+          i += 2;
+        } else {
+          current += input[i];
+          i++;
+        }
+      }
+      if (i >= input.length) throw new Error("Unterminated double quote");
+      i++;
+    } else if (char === "\\" && i + 1 < input.length) {
+      current += input[i + 1];
+      i += 2;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+function splitHeader(header: string): { key: string; value: string } | null {
+  const separator = header.indexOf(":");
+  if (separator === -1) return null;
+  return {
+    key: header.slice(0, separator).trim(),
+    value: header.slice(separator + 1).trim(),
+  };
+}
+
+function encodeDataUrlencode(data: string): string {
+  // --data-urlencode accepts "content", "=content" or "name=content"
+  const separator = data.indexOf("=");
+  if (separator === -1) return encodeURIComponent(data);
+  const name = data.slice(0, separator);
+  const content = encodeURIComponent(data.slice(separator + 1));
+  return name ? `${name}=${content}` : content;
+}
+
+/**
+ * Parses a cURL command into the fields of the request editor. Throws when
+ * the text is not a cURL command or has no URL.
+ */
+export function parseCurlCommand(command: string): ParsedCurl {
+  const tokens = tokenizeShellCommand(command.trim());
+  if (tokens.length === 0 || !/^curl(\.exe)?$/i.test(tokens[0])) {
+    throw new Error("Not a cURL command");
+  }
+
+  let method: string | null = null;
+  let url = "";
+  let useGet = false;
+  const headers: Array<{ key: string; value: string }> = [];
+  const data: string[] = [];
+  const formParts: Array<{ key: string; value: string; isFile: boolean }> = [];
+  let basicAuth: ParsedCurl["basicAuth"] = null;
+
+  for (let i = 1; i < tokens.length; i++) {
+    let option = tokens[i];
+    let value: string | undefined;
+
+    if (option.startsWith("--") && option.includes("=")) {
+      value = option.slice(option.indexOf("=") + 1);
+      option = option.slice(0, option.indexOf("="));
+    } else if (/^-[a-zA-Z]/.test(option) && option.length > 2) {
+      // Combined flags such as -sSL, where the first flag that takes a value
+      // ends the cluster: -XPOST, -sX POST or -sHAccept:*/*
+      const cluster = option;
+      let flagWithValue: string | null = null;
+      for (let j = 1; j < cluster.length; j++) {
+        const flag = cluster[j];
+        if (SHORT_OPTIONS_WITH_VALUE.has(flag)) {
+          flagWithValue = flag;
+          value = cluster.slice(j + 1) || undefined;
+          break;
+        }
+        if (flag === "G") useGet = true;
+        if (flag === "I") method = method ?? "HEAD";
+      }
+      if (!flagWithValue) continue;
+      option = `-${flagWithValue}`;
+    }
+
+    const takeValue = () => {
+      if (value !== undefined) return value;
+      i++;
+      if (i >= tokens.length) {
+        throw new Error(`Option ${option} is missing its value`);
+      }
+      return tokens[i];
+    };
+
+    switch (option) {
+      case "-X":
+      case "--request":
+        method = takeValue().toUpperCase();
+        break;
+      case "-H":
+      case "--header": {
+        const header = splitHeader(takeValue());
+        if (header) headers.push(header);
+        break;
+      }
+      case "-d":
+      case "--data":
+      case "--data-raw":
+      case "--data-binary":
+      case "--data-ascii":
+        data.push(takeValue());
+        break;
+      case "--data-urlencode":
+        data.push(encodeDataUrlencode(takeValue()));
+        break;
+      case "--json":
+        data.push(takeValue());
+        headers.push({ key: "Content-Type", value: "application/json" });
+        headers.push({ key: "Accept", value: "application/json" });
+        break;
+      case "-F":
+      case "--form":
+      case "--form-string": {
+        const part = takeValue();
+        const separator = part.indexOf("=");
+        if (separator === -1) break;
+        const partValue = part.slice(separator + 1);
+        const isFile = option !== "--form-string" && partValue.startsWith("@");
+        formParts.push({
+          key: part.slice(0, separator),
+          // Files are referenced by path and have to be picked again
+          value: isFile ? partValue.slice(1).split(";")[0] : partValue,
+          isFile,
+        });
+        break;
+      }
+      case "-u":
+      case "--user": {
+        const credentials = takeValue();
+        const separator = credentials.indexOf(":");
+        basicAuth =
+          separator === -1
+            ? { username: credentials, password: "" }
+            : {
+                username: credentials.slice(0, separator),
+                password: credentials.slice(separator + 1),
+              };
+        break;
+      }
+      case "-A":
+      case "--user-agent":
+        headers.push({ key: "User-Agent", value: takeValue() });
+        break;
+      case "-e":
+      case "--referer":
+        headers.push({ key: "Referer", value: takeValue() });
+        break;
+      case "-b":
+      case "--cookie":
+        headers.push({ key: "Cookie", value: takeValue() });
+        break;
+      case "--url":
+        url = takeValue();
+        break;
+      case "-G":
+      case "--get":
+        useGet = true;
+        break;
+      case "-I":
+      case "--head":
+        method = method ?? "HEAD";
+        break;
+      case "--compressed":
+        // The browser negotiates compression on its own
+        break;
+      default:
+        if (IGNORED_OPTIONS_WITH_VALUE.has(option)) {
+          takeValue();
+        } else if (!option.startsWith("-") && !url) {
+          url = option;
+        }
+        // Other flags (-s, -L, -k, -v, ...) do not affect the request
+    }
+  }
+
+  if (!url) throw new Error("The cURL command has no URL");
+
+  const contentTypeHeader = headers.find(
+    (header) => header.key.toLowerCase() === "content-type"
+  );
+  const contentType = contentTypeHeader?.value.toLowerCase() ?? "";
+  const joinedData = data.join("&");
+
+  let body = "";
+  let bodyType: BodyType = "json";
+  let rawLanguage: RawLanguage = "text";
+  let formFields: FormField[] = [];
+  let multipartFields: MultipartField[] = [];
+
+  if (useGet && data.length > 0) {
+    // -G moves the data into the query string
+    url = `${url}${url.includes("?") ? "&" : "?"}${joinedData}`;
+  } else if (formParts.length > 0) {
+    bodyType = "multipart";
+    multipartFields = formParts.map((part) => ({
+      id: generateId(),
+      key: part.key,
+      value: part.value,
+      enabled: true,
+      type: part.isFile ? "file" : "text",
+    }));
+  } else if (data.length > 0) {
+    if (contentType.includes("json")) {
+      body = joinedData;
+      try {
+        body = JSON.stringify(JSON.parse(joinedData), null, 2);
+      } catch {
+        // Keep the data as sent when it is not strict JSON
+      }
+    } else if (
+      !contentTypeHeader ||
+      contentType.includes("application/x-www-form-urlencoded")
+    ) {
+      // cURL sends -d data as a url-encoded form unless told otherwise
+      bodyType = "urlencoded";
+      formFields = Array.from(new URLSearchParams(joinedData)).map(
+        ([key, value]) => ({ id: generateId(), key, value, enabled: true })
+      );
+      if (!contentTypeHeader) {
+        headers.push({
+          key: "Content-Type",
+          value: "application/x-www-form-urlencoded",
+        });
+      }
+    } else {
+      bodyType = "raw";
+      rawLanguage = rawLanguageFor(contentType);
+      body = joinedData;
+    }
+  }
+
+  const hasBody = bodyType === "multipart" || (!useGet && data.length > 0);
+
+  return {
+    method: method ?? (hasBody ? "POST" : "GET"),
+    url,
+    headers: headers
+      // multipart needs the browser to set the boundary itself
+      .filter(
+        (header) =>
+          bodyType !== "multipart" ||
+          header.key.toLowerCase() !== "content-type"
+      )
+      .map((header) => ({ ...header, id: generateId() })),
+    body,
+    bodyType,
+    rawLanguage,
+    formFields,
+    multipartFields,
+    basicAuth,
+  };
+}
@@ -0,0 +1,57 @@
+import type { ApiResponse } from "@/lib/http-client";
+import { RESPONSE_STORE, transact, WORKSPACE_STORE } from "@/lib/idb";
+
+// The workspace store holds a single record
+const WORKSPACE_KEY = "current";
+
+interface StoredResponse {
+  tabId: string;
+  response: ApiResponse;
+}
+
+/** Reads the saved tabs, or undefined if nothing was saved yet. */
+export function loadWorkspace(): Promise<unknown> {
+  return transact(WORKSPACE_STORE, "readonly", (store) =>
+    store.get(WORKSPACE_KEY)
+  );
+}
+
+export async function saveWorkspace(workspace: unknown): Promise<void> {
+  await transact(WORKSPACE_STORE, "readwrite", (store) =>
+    store.put(workspace, WORKSPACE_KEY)
+  );
+}
+
+/** The last response of each tab, by tab id. */
+export async function loadResponses(): Promise<Record<string, ApiResponse>> {
+  const records = await transact<StoredResponse[]>(
+    RESPONSE_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return Object.fromEntries(
+    (records ?? []).map(({ tabId, response }) => [tabId, response])
+  );
+}
+
+/** Saves the last response of a tab; null removes it. */
+export async function saveResponse(
+  tabId: string,
+  response: ApiResponse | null
+): Promise<void> {
+  await transact(RESPONSE_STORE, "readwrite", (store) => {
+    if (response) {
+      store.put({ tabId, response } satisfies StoredResponse);
+    } else {
+      store.delete(tabId);
+    }
+  });
+}
+
+export async function deleteResponses(tabIds: string[]): Promise<void> {
+  await transact(RESPONSE_STORE, "readwrite", (store) => {
+    for (const tabId of tabIds) {
+      store.delete(tabId);
+    }
+  });
+}
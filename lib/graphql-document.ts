@@ -0,0 +1,1073 @@
+import {
+  formatTypeRef,
+  getNamedType,
+  getRootTypeName,
+  isCompositeType,
+  isIntrospectionType,
+  type GraphqlField,
+  type GraphqlOperationType,
+  type GraphqlSchema,
+  type GraphqlType,
+} from "@/lib/graphql";
+
+type TokenKind = "punct" | "name" | "number" | "string";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface LexResult {
+  tokens: Token[];
+  error: { message: string; position: number } | null;
+  /** Set when the source ends inside a comment or an unterminated string */
+  endsInside: "comment" | "string" | null;
+}
+
+const OPERATION_TYPES: GraphqlOperationType[] = [
+  "query",
+  "mutation",
+  "subscription",
+];
+const PUNCTUATORS = "!$&()[]{}:=@|";
+const NAME_START = /[_A-Za-z]/;
+const NAME_CHAR = /[_0-9A-Za-z]/;
+const NAME_PATTERN = /[_A-Za-z][_0-9A-Za-z]*/y;
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Splits a document into tokens. Lexing carries on past the first error so
+ * completions keep working while the document is half written.
+ */
+function tokenize(source: string): LexResult {
+  const tokens: Token[] = [];
+  let error: LexResult["error"] = null;
+  let endsInside: LexResult["endsInside"] = null;
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const start = index;
+
+    if (char === "#") {
+      while (index < source.length && !/[\r\n]/.test(source[index])) {
+        index++;
+      }
+      if (index === source.length) endsInside = "comment";
+      continue;
+    }
+    // Commas are insignificant in GraphQL, like whitespace
+    if (/[\s,\ufeff]/.test(char)) {
+      index++;
+      continue;
+    }
+    if (source.startsWith("...", index)) {
+      tokens.push({ kind: "punct", value: "...", start, end: index + 3 });
+      index += 3;
+      continue;
+    }
+    if (PUNCTUATORS.includes(char)) {
+      tokens.push({ kind: "punct", value: char, start, end: index + 1 });
+      index++;
+      continue;
+    }
+    if (NAME_START.test(char) || char === "-" || /\d/.test(char)) {
+      const isName = NAME_START.test(char);
+      const pattern = isName ? NAME_PATTERN : NUMBER_PATTERN;
+      pattern.lastIndex = index;
+      const match = pattern.exec(source);
+      if (match) {
+        index += match[0].length;
+        tokens.push({
+          kind: isName ? "name" : "number",
+          value: match[0],
+          start,
+          end: index,
+        });
+        continue;
+      }
+    }
+    if (char === '"') {
+      const isBlock = source.startsWith('"""', index);
+      let end = index + (isBlock ? 3 : 1);
+      while (
+        end < source.length &&
+        !(isBlock ? source.startsWith('"""', end) : /["\r\n]/.test(source[end]))
+      ) {
+        if (isBlock) {
+          end += source.startsWith('\\"""', end) ? 4 : 1;
+        } else {
+          end += source[end] === "\\" ? 2 : 1;
+        }
+      }
+      if (end >= source.length || source[end] !== '"') {
+        error ??= { message: "Unterminated string", position: start };
+        if (end >= source.length) endsInside = "string";
+        index = end;
+        continue;
+      }
+      index = end + (isBlock ? 3 : 1);
+      tokens.push({
+        kind: "string",
+        value: source.slice(start, index),
+        start,
+        end: index,
+      });
+      continue;
+    }
+
+    error ??= { message: `Unexpected character "${char}"`, position: start };
+    index++;
+  }
+
+  return { tokens, error, endsInside };
+}
+
+interface Location {
+  start: number;
+  end: number;
+}
+
+type ValueNode =
+  | ({ kind: "variable"; name: string } & Location)
+  | ({ kind: "list"; values: ValueNode[] } & Location)
+  | ({ kind: "object"; fields: ValueNode[] } & Location)
+  | ({ kind: "enum"; value: string } & Location)
+  | ({ kind: "literal" } & Location);
+
+interface ArgumentNode extends Location {
+  name: string;
+  value: ValueNode;
+}
+
+interface NamedTypeNode extends Location {
+  name: string;
+}
+
+interface FieldNode extends Location {
+  kind: "field";
+  name: string;
+  args: ArgumentNode[];
+  /** Arguments of the field's directives, kept to check variable usage */
+  directiveArgs: ArgumentNode[];
+  selections: SelectionNode[] | null;
+}
+
+interface FragmentSpreadNode extends Location {
+  kind: "spread";
+  name: string;
+  directiveArgs: ArgumentNode[];
+}
+
+interface InlineFragmentNode extends Location {
+  kind: "inline";
+  typeCondition: NamedTypeNode | null;
+  directiveArgs: ArgumentNode[];
+  selections: SelectionNode[];
+}
+
+type SelectionNode = FieldNode | FragmentSpreadNode | InlineFragmentNode;
+
+interface VariableDefinitionNode extends Location {
+  name: string;
+  /** The named type inside any list and non-null wrappers */
+  type: NamedTypeNode;
+}
+
+interface OperationNode extends Location {
+  kind: "operation";
+  operation: GraphqlOperationType;
+  name: string | null;
+  variables: VariableDefinitionNode[];
+  selections: SelectionNode[];
+}
+
+interface FragmentNode extends Location {
+  kind: "fragment";
+  name: string;
+  typeCondition: NamedTypeNode;
+  selections: SelectionNode[];
+}
+
+type DefinitionNode = OperationNode | FragmentNode;
+
+class GraphqlSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number
+  ) {
+    super(message);
+    this.name = "GraphqlSyntaxError";
+  }
+}
+
+/** Parses an executable document, throwing on the first syntax error. */
+function parseDocument(source: string): DefinitionNode[] {
+  const { tokens, error } = tokenize(source);
+  if (error) throw new GraphqlSyntaxError(error.message, error.position);
+
+  let index = 0;
+  const peek = (): Token | undefined => tokens[index];
+  const describe = (token: Token | undefined) =>
+    token ? `"${token.value}"` : "end of document";
+  const fail = (expected: string): never => {
+    const token = peek();
+    throw new GraphqlSyntaxError(
+      `Expected ${expected}, found ${describe(token)}`,
+      token?.start ?? source.length
+    );
+  };
+  const isPunct = (value: string) =>
+    peek()?.kind === "punct" && peek()?.value === value;
+  const skip = (value: string) => {
+    if (!isPunct(value)) return false;
+    index++;
+    return true;
+  };
+  const expect = (value: string): Token =>
+    isPunct(value) ? tokens[index++] : fail(`"${value}"`);
+  const expectName = (): Token =>
+    peek()?.kind === "name" ? tokens[index++] : fail("a name");
+
+  function parseValue(): ValueNode {
+    const token = peek();
+    if (!token) return fail("a value");
+    if (token.kind === "punct") {
+      index++;
+      if (token.value === "$") {
+        const name = expectName();
+        return {
+          kind: "variable",
+          name: name.value,
+          start: token.start,
+          end: name.end,
+        };
+      }
+      if (token.value === "[") {
+        const values: ValueNode[] = [];
+        while (!skip("]")) values.push(parseValue());
+        return { kind: "list", values, start: token.start, end: token.end };
+      }
+      if (token.value === "{") {
+        const fields: ValueNode[] = [];
+        while (!skip("}")) {
+          expectName();
+          expect(":");
+          fields.push(parseValue());
+        }
+        return { kind: "object", fields, start: token.start, end: token.end };
+      }
+      index--;
+      return fail("a value");
+    }
+    index++;
+    if (
+      token.kind === "name" &&
+      !["true", "false", "null"].includes(token.value)
+    ) {
+      return {
+        kind: "enum",
+        value: token.value,
+        start: token.start,
+        end: token.end,
+      };
+    }
+    return { kind: "literal", start: token.start, end: token.end };
+  }
+
+  function parseArguments(): ArgumentNode[] {
+    const args: ArgumentNode[] = [];
+    if (!skip("(")) return args;
+    do {
+      const name = expectName();
+      expect(":");
+      args.push({
+        name: name.value,
+        value: parseValue(),
+        start: name.start,
+        end: name.end,
+      });
+    } while (!skip(")"));
+    return args;
+  }
+
+  function parseDirectives(): ArgumentNode[] {
+    const args: ArgumentNode[] = [];
+    while (skip("@")) {
+      expectName();
+      args.push(...parseArguments());
+    }
+    return args;
+  }
+
+  function parseNamedType(): NamedTypeNode {
+    const name = expectName();
+    return { name: name.value, start: name.start, end: name.end };
+  }
+
+  function parseTypeReference(): NamedTypeNode {
+    let type: NamedTypeNode;
+    if (skip("[")) {
+      type = parseTypeReference();
+      expect("]");
+    } else {
+      type = parseNamedType();
+    }
+    skip("!");
+    return type;
+  }
+
+  function parseSelectionSet(): SelectionNode[] {
+    expect("{");
+    const selections: SelectionNode[] = [];
+    do {
+      selections.push(parseSelection());
+    } while (!skip("}"));
+    return selections;
+  }
+
+  function parseSelection(): SelectionNode {
+    const spread = peek();
+    if (spread && skip("...")) {
+      const next = peek();
+      if (next?.kind === "name" && next.value !== "on") {
+        index++;
+        return {
+          kind: "spread",
+          name: next.value,
+          directiveArgs: parseDirectives(),
+          start: next.start,
+          end: next.end,
+        };
+      }
+      let typeCondition: NamedTypeNode | null = null;
+      if (next?.kind === "name") {
+        index++;
+        typeCondition = parseNamedType();
+      }
+      return {
+        kind: "inline",
+        typeCondition,
+        directiveArgs: parseDirectives(),
+        selections: parseSelectionSet(),
+        start: spread.start,
+        end: spread.end,
+      };
+    }
+
+    let name = expectName();
+    // The first name was an alias
+    if (skip(":")) name = expectName();
+    return {
+      kind: "field",
+      name: name.value,
+      args: parseArguments(),
+      directiveArgs: parseDirectives(),
+      selections: isPunct("{") ? parseSelectionSet() : null,
+      start: name.start,
+      end: name.end,
+    };
+  }
+
+  function parseVariableDefinitions(): VariableDefinitionNode[] {
+    const definitions: VariableDefinitionNode[] = [];
+    if (!skip("(")) return definitions;
+    do {
+      const dollar = expect("$");
+      const name = expectName();
+      expect(":");
+      const type = parseTypeReference();
+      if (skip("=")) parseValue();
+      parseDirectives();
+      definitions.push({
+        name: name.value,
+        type,
+        start: dollar.start,
+        end: name.end,
+      });
+    } while (!skip(")"));
+    return definitions;
+  }
+
+  function parseDefinition(): DefinitionNode {
+    const token = peek();
+    if (token && isPunct("{")) {
+      return {
+        kind: "operation",
+        operation: "query",
+        name: null,
+        variables: [],
+        selections: parseSelectionSet(),
+        start: token.start,
+        end: token.end,
+      };
+    }
+    if (token?.kind === "name" && token.value === "fragment") {
+      index++;
+      const name = expectName();
+      if (name.value === "on") {
+        index--;
+        fail("a fragment name");
+      }
+      if (peek()?.value !== "on") fail('"on"');
+      index++;
+      const typeCondition = parseNamedType();
+      parseDirectives();
+      return {
+        kind: "fragment",
+        name: name.value,
+        typeCondition,
+        selections: parseSelectionSet(),
+        start: name.start,
+        end: name.end,
+      };
+    }
+    if (
+      token?.kind === "name" &&
+      OPERATION_TYPES.includes(token.value as GraphqlOperationType)
+    ) {
+      index++;
+      const name = peek()?.kind === "name" ? tokens[index++] : null;
+      const variables = parseVariableDefinitions();
+      parseDirectives();
+      return {
+        kind: "operation",
+        operation: token.value as GraphqlOperationType,
+        name: name?.value ?? null,
+        variables,
+        selections: parseSelectionSet(),
+        start: (name ?? token).start,
+        end: (name ?? token).end,
+      };
+    }
+    return fail("a query, mutation, subscription or fragment");
+  }
+
+  const definitions: DefinitionNode[] = [];
+  while (index < tokens.length) {
+    definitions.push(parseDefinition());
+  }
+  return definitions;
+}
+
+export interface GraphqlOperationInfo {
+  type: GraphqlOperationType;
+  name: string | null;
+}
+
+/**
+ * Lists the operations of a document in order. Only the top level is
+ * scanned, so this keeps working while the document has syntax errors.
+ */
+export function getOperations(source: string): GraphqlOperationInfo[] {
+  const { tokens } = tokenize(source);
+  const operations: GraphqlOperationInfo[] = [];
+  let braceDepth = 0;
+  let parenDepth = 0;
+
+  tokens.forEach((token, i) => {
+    const isTopLevel = braceDepth === 0 && parenDepth === 0;
+    if (token.kind === "punct") {
+      if (token.value === "(") parenDepth++;
+      if (token.value === ")") parenDepth = Math.max(0, parenDepth - 1);
+      if (token.value === "}") braceDepth = Math.max(0, braceDepth - 1);
+      if (token.value === "{") {
+        // A selection set right at the top level is an anonymous query
+        const prev = tokens[i - 1];
+        if (isTopLevel && (!prev || prev.value === "}")) {
+          operations.push({ type: "query", name: null });
+        }
+        braceDepth++;
+      }
+      return;
+    }
+    if (
+      isTopLevel &&
+      token.kind === "name" &&
+      OPERATION_TYPES.includes(token.value as GraphqlOperationType)
+    ) {
+      const next = tokens[i + 1];
+      operations.push({
+        type: token.value as GraphqlOperationType,
+        name: next?.kind === "name" ? next.value : null,
+      });
+    }
+  });
+
+  return operations;
+}
+
+export interface GraphqlDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+}
+
+function toDiagnostic(
+  source: string,
+  message: string,
+  position: number
+): GraphqlDiagnostic {
+  const lines = source.slice(0, position).split(/\r\n|\r|\n/);
+  return {
+    message,
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+  };
+}
+
+function collectVariables(value: ValueNode, found: ValueNode[]) {
+  switch (value.kind) {
+    case "variable":
+      found.push(value);
+      break;
+    case "list":
+      value.values.forEach((item) => collectVariables(item, found));
+      break;
+    case "object":
+      value.fields.forEach((item) => collectVariables(item, found));
+      break;
+  }
+}
+
+/**
+ * Checks a document for syntax errors and, when a schema is given, for
+ * fields, arguments, fragments and variables the schema does not allow.
+ */
+export function validateGraphqlDocument(
+  source: string,
+  schema: GraphqlSchema | null
+): GraphqlDiagnostic[] {
+  if (!source.trim()) return [];
+
+  let definitions: DefinitionNode[];
+  try {
+    definitions = parseDocument(source);
+  } catch (error) {
+    if (error instanceof GraphqlSyntaxError) {
+      return [toDiagnostic(source, error.message, error.position)];
+    }
+    throw error;
+  }
+
+  const problems: Array<{ message: string; position: number }> = [];
+  const report = (message: string, position: number) =>
+    problems.push({ message, position });
+  const finish = () =>
+    problems
+      .sort((a, b) => a.position - b.position)
+      .map(({ message, position }) => toDiagnostic(source, message, position));
+
+  const operations = definitions.filter(
+    (definition): definition is OperationNode => definition.kind === "operation"
+  );
+  const fragments = new Map<string, FragmentNode>();
+  const operationNames = new Set<string>();
+
+  for (const definition of definitions) {
+    if (definition.kind === "fragment") {
+      if (fragments.has(definition.name)) {
+        report(
+          `There can be only one fragment named "${definition.name}"`,
+          definition.start
+        );
+      }
+      fragments.set(definition.name, definition);
+    } else if (definition.name === null) {
+      if (operations.length > 1) {
+        report(
+          "An anonymous operation must be the only operation in the document",
+          definition.start
+        );
+      }
+    } else {
+      if (operationNames.has(definition.name)) {
+        report(
+          `There can be only one operation named "${definition.name}"`,
+          definition.start
+        );
+      }
+      operationNames.add(definition.name);
+    }
+  }
+
+  if (!schema) return finish();
+
+  // Fragments are checked once on their own, so variables used inside them
+  // are not matched against the operations that spread them
+  const checkVariables = (
+    args: ArgumentNode[],
+    defined: Set<string> | null
+  ) => {
+    if (!defined) return;
+    const used: ValueNode[] = [];
+    args.forEach((arg) => collectVariables(arg.value, used));
+    for (const variable of used) {
+      if (variable.kind === "variable" && !defined.has(variable.name)) {
+        report(`Variable "$${variable.name}" is not defined`, variable.start);
+      }
+    }
+  };
+
+  const checkField = (
+    parentType: GraphqlType,
+    node: FieldNode,
+    defined: Set<string> | null
+  ) => {
+    checkVariables([...node.args, ...node.directiveArgs], defined);
+
+    if (node.name === "__typename") {
+      if (node.selections) {
+        report(
+          'Field "__typename" must not have a selection since type "String!" has no subfields',
+          node.start
+        );
+      }
+      return;
+    }
+    // Introspection fields are not part of the schema's own type list
+    if (
+      (node.name === "__schema" || node.name === "__type") &&
+      parentType.name === schema.queryType
+    ) {
+      return;
+    }
+
+    const field = parentType.fields.find(({ name }) => name === node.name);
+    if (!field) {
+      report(
+        parentType.kind === "UNION"
+          ? `Cannot query field "${node.name}" on union "${parentType.name}"; use an inline fragment`
+          : `Cannot query field "${node.name}" on type "${parentType.name}"`,
+        node.start
+      );
+      return;
+    }
+
+    for (const arg of node.args) {
+      const definition = field.args.find(({ name }) => name === arg.name);
+      if (!definition) {
+        report(
+          `Unknown argument "${arg.name}" on field "${parentType.name}.${field.name}"`,
+          arg.start
+        );
+        continue;
+      }
+      const argType = schema.types[getNamedType(definition.type)];
+      const { value } = arg;
+      if (
+        value.kind === "enum" &&
+        argType?.kind === "ENUM" &&
+        !argType.enumValues.some(({ name }) => name === value.value)
+      ) {
+        report(
+          `Value "${value.value}" does not exist in "${argType.name}" enum`,
+          value.start
+        );
+      }
+    }
+    for (const definition of field.args) {
+      if (
+        definition.type.kind === "NON_NULL" &&
+        definition.defaultValue === null &&
+        !node.args.some(({ name }) => name === definition.name)
+      ) {
+        report(
+          `Field "${field.name}" argument "${definition.name}" of type "${formatTypeRef(definition.type)}" is required`,
+          node.start
+        );
+      }
+    }
+
+    const type = schema.types[getNamedType(field.type)];
+    if (!type) return;
+    if (isCompositeType(type)) {
+      if (node.selections) {
+        checkSelections(type, node.selections, defined);
+      } else {
+        report(
+          `Field "${field.name}" of type "${formatTypeRef(field.type)}" must have a selection of subfields`,
+          node.start
+        );
+      }
+    } else if (node.selections) {
+      report(
+        `Field "${field.name}" must not have a selection since type "${formatTypeRef(field.type)}" has no subfields`,
+        node.start
+      );
+    }
+  };
+
+  const resolveCondition = (condition: NamedTypeNode) => {
+    const type = schema.types[condition.name];
+    if (!type) {
+      report(`Unknown type "${condition.name}"`, condition.start);
+    } else if (!isCompositeType(type)) {
+      report(
+        `Fragment cannot condition on non composite type "${condition.name}"`,
+        condition.start
+      );
+    } else {
+      return type;
+    }
+    return null;
+  };
+
+  function checkSelections(
+    parentType: GraphqlType,
+    selections: SelectionNode[],
+    defined: Set<string> | null
+  ) {
+    for (const selection of selections) {
+      if (selection.kind === "field") {
+        checkField(parentType, selection, defined);
+        continue;
+      }
+      checkVariables(selection.directiveArgs, defined);
+      if (selection.kind === "spread") {
+        if (!fragments.has(selection.name)) {
+          report(`Unknown fragment "${selection.name}"`, selection.start);
+        }
+        continue;
+      }
+      const type = selection.typeCondition
+        ? resolveCondition(selection.typeCondition)
+        : parentType;
+      if (type) checkSelections(type, selection.selections, defined);
+    }
+  }
+
+  for (const operation of operations) {
+    const rootName = getRootTypeName(schema, operation.operation);
+    const rootType = rootName ? schema.types[rootName] : undefined;
+    if (!rootType) {
+      report(
+        `The schema does not support ${operation.operation} operations`,
+        operation.start
+      );
+      continue;
+    }
+    for (const variable of operation.variables) {
+      const type = schema.types[variable.type.name];
+      if (!type) {
+        report(`Unknown type "${variable.type.name}"`, variable.type.start);
+      } else if (isCompositeType(type)) {
+        report(
+          `Variable "$${variable.name}" cannot be of non-input type "${type.name}"`,
+          variable.type.start
+        );
+      }
+    }
+    checkSelections(
+      rootType,
+      operation.selections,
+      new Set(operation.variables.map(({ name }) => name))
+    );
+  }
+
+  for (const fragment of fragments.values()) {
+    const type = resolveCondition(fragment.typeCondition);
+    if (type) checkSelections(type, fragment.selections, null);
+  }
+
+  return finish();
+}
+
+export type GraphqlCompletionKind =
+  "field" | "argument" | "value" | "type" | "keyword";
+
+export interface GraphqlCompletion {
+  label: string;
+  kind: GraphqlCompletionKind;
+  /** Type of a field or argument, or the kind of a type */
+  detail: string;
+  description: string | null;
+  deprecated: boolean;
+}
+
+export interface GraphqlCompletionResult {
+  /** Range of the word the chosen completion replaces */
+  from: number;
+  to: number;
+  items: GraphqlCompletion[];
+}
+
+type CompletionFrame =
+  | { kind: "selection"; type: string | null }
+  | {
+      kind: "arguments";
+      field: GraphqlField | null;
+      used: string[];
+      argument: string | null;
+      expecting: "name" | "value";
+    }
+  | { kind: "variables" }
+  | { kind: "value" };
+
+const EMPTY_SCHEMA: GraphqlSchema = {
+  queryType: null,
+  mutationType: null,
+  subscriptionType: null,
+  types: {},
+};
+
+const keyword = (label: string): GraphqlCompletion => ({
+  label,
+  kind: "keyword",
+  detail: "",
+  description: null,
+  deprecated: false,
+});
+
+const typeCompletion = (type: GraphqlType): GraphqlCompletion => ({
+  label: type.name,
+  kind: "type",
+  detail: type.kind.toLowerCase().replace("_", " "),
+  description: type.description,
+  deprecated: false,
+});
+
+/**
+ * Suggests what can be typed at the cursor: fields of the enclosing
+ * selection, arguments of the enclosing field, enum values, type names and
+ * top-level keywords. The context is worked out from the tokens before the
+ * cursor, so the rest of the document may be incomplete.
+ */
+export function getGraphqlCompletions(
+  source: string,
+  cursor: number,
+  schema: GraphqlSchema | null
+): GraphqlCompletionResult | null {
+  const { types, queryType } = schema ?? EMPTY_SCHEMA;
+
+  let from = cursor;
+  while (from > 0 && NAME_CHAR.test(source[from - 1])) from--;
+  let to = cursor;
+  while (to < source.length && NAME_CHAR.test(source[to])) to++;
+  const prefix = source.slice(from, cursor);
+  if (/^\d/.test(prefix)) return null;
+
+  const { tokens, endsInside } = tokenize(source.slice(0, from));
+  if (endsInside) return null;
+
+  const stack: CompletionFrame[] = [];
+  // The type the next "{" selects from
+  let pendingType: string | null = null;
+  let lastField: GraphqlField | null = null;
+  let inOperationHeader = false;
+  const fragmentNames: string[] = [];
+
+  tokens.forEach((token, i) => {
+    const prev = tokens[i - 1];
+    const frame = stack[stack.length - 1];
+
+    if (token.kind === "punct") {
+      switch (token.value) {
+        case "{":
+          if (!frame || frame.kind === "selection") {
+            stack.push({
+              kind: "selection",
+              type: frame ? pendingType : (pendingType ?? queryType),
+            });
+          } else {
+            stack.push({ kind: "value" });
+          }
+          pendingType = null;
+          lastField = null;
+          inOperationHeader = false;
+          break;
+        case "(":
+          if (!frame) {
+            if (inOperationHeader) stack.push({ kind: "variables" });
+          } else if (frame.kind === "selection") {
+            // Arguments of a directive rather than of the field
+            const isDirective = tokens[i - 2]?.value === "@";
+            stack.push({
+              kind: "arguments",
+              field: isDirective ? null : lastField,
+              used: [],
+              argument: null,
+              expecting: "name",
+            });
+          } else {
+            stack.push({ kind: "value" });
+          }
+          break;
+        case "[":
+          if (frame?.kind === "arguments" || frame?.kind === "value") {
+            stack.push({ kind: "value" });
+          }
+          break;
+        case "}":
+        case "]":
+        case ")": {
+          if (!frame || (token.value === "]" && frame.kind !== "value")) break;
+          stack.pop();
+          const parent = stack[stack.length - 1];
+          // A closed list or object completes the argument value
+          if (parent?.kind === "arguments" && parent.expecting === "value") {
+            parent.expecting = "name";
+            parent.argument = null;
+          }
+          if (frame.kind === "selection") {
+            pendingType = null;
+            lastField = null;
+          }
+          break;
+        }
+        case ":":
+          if (frame?.kind === "arguments" && frame.argument) {
+            frame.expecting = "value";
+          }
+          break;
+      }
+      return;
+    }
+
+    if (!frame) {
+      if (token.kind !== "name") return;
+      if (prev?.value === "fragment") {
+        fragmentNames.push(token.value);
+      } else if (prev?.value === "on") {
+        pendingType = token.value;
+      } else if (
+        OPERATION_TYPES.includes(token.value as GraphqlOperationType) &&
+        schema
+      ) {
+        pendingType = getRootTypeName(
+          schema,
+          token.value as GraphqlOperationType
+        );
+        inOperationHeader = true;
+      }
+      return;
+    }
+
+    if (frame.kind === "selection") {
+      if (token.kind !== "name" || prev?.value === "@") return;
+      if (prev?.value === "...") {
+        if (token.value !== "on") pendingType = null;
+        return;
+      }
+      if (prev?.value === "on" && tokens[i - 2]?.value === "...") {
+        pendingType = token.value;
+        return;
+      }
+      const fields = (frame.type && types[frame.type]?.fields) || [];
+      lastField = fields.find(({ name }) => name === token.value) ?? null;
+      pendingType = lastField ? getNamedType(lastField.type) : null;
+    } else if (frame.kind === "arguments") {
+      if (frame.expecting === "value") {
+        // A scalar, enum value or variable name completes the argument
+        frame.expecting = "name";
+        frame.argument = null;
+      } else if (token.kind === "name") {
+        frame.argument = token.value;
+        frame.used.push(token.value);
+      }
+    }
+  });
+
+  const frame = stack[stack.length - 1];
+  const prev = tokens[tokens.length - 1];
+  let items: GraphqlCompletion[] = [];
+
+  if (!frame) {
+    if (prev?.value === "on") {
+      items = Object.values(types)
+        .filter(
+          (type) => isCompositeType(type) && !isIntrospectionType(type.name)
+        )
+        .map(typeCompletion);
+    } else if (!prev || prev.value === "}") {
+      items = [...OPERATION_TYPES, "fragment"].map(keyword);
+    }
+  } else if (frame.kind === "selection") {
+    const parentType = frame.type ? types[frame.type] : undefined;
+    if (prev?.value === "...") {
+      items = [keyword("on"), ...fragmentNames.map(keyword)];
+    } else if (prev?.value === "on") {
+      const names =
+        parentType?.kind === "OBJECT"
+          ? [parentType.name]
+          : [
+              ...(parentType?.kind === "INTERFACE" ? [parentType.name] : []),
+              ...(parentType?.possibleTypes ?? []),
+            ];
+      items = names
+        .map((name) => types[name])
+        .filter((type): type is GraphqlType => Boolean(type))
+        .map(typeCompletion);
+    } else if (prev?.value === "@") {
+      items = ["include", "skip"].map(keyword);
+    } else if (parentType) {
+      items = [
+        ...parentType.fields.map((field): GraphqlCompletion => ({
+          label: field.name,
+          kind: "field",
+          detail: formatTypeRef(field.type),
+          description: field.description,
+          deprecated: field.isDeprecated,
+        })),
+        {
+          label: "__typename",
+          kind: "field",
+          detail: "String!",
+          description: "The name of the object type",
+          deprecated: false,
+        },
+      ];
+    }
+  } else if (frame.kind === "arguments") {
+    const args = frame.field?.args ?? [];
+    if (frame.expecting === "name") {
+      items = args
+        .filter(({ name }) => !frame.used.includes(name))
+        .map((arg) => ({
+          label: arg.name,
+          kind: "argument",
+          detail: formatTypeRef(arg.type),
+          description: arg.description,
+          deprecated: false,
+        }));
+    } else if (prev?.value !== "$") {
+      const arg = args.find(({ name }) => name === frame.argument);
+      const type = arg ? types[getNamedType(arg.type)] : undefined;
+      if (type?.kind === "ENUM") {
+        items = type.enumValues.map((value) => ({
+          label: value.name,
+          kind: "value",
+          detail: type.name,
+          description: value.description,
+          deprecated: value.isDeprecated,
+        }));
+      } else if (type?.name === "Boolean") {
+        items = ["true", "false"].map(keyword);
+      }
+    }
+  } else if (
+    frame.kind === "variables" &&
+    (prev?.value === ":" || prev?.value === "[")
+  ) {
+    items = Object.values(types)
+      .filter(
+        (type) => !isCompositeType(type) && !isIntrospectionType(type.name)
+      )
+      .map(typeCompletion);
+  }
+
+  // Words starting with what was typed come first, then other matches
+  const needle = prefix.toLowerCase();
+  const matches = items.filter(
+    ({ label }) => label !== prefix && label.toLowerCase().includes(needle)
+  );
+  matches.sort(
+    (a, b) =>
+      Number(!a.label.toLowerCase().startsWith(needle)) -
+      Number(!b.label.toLowerCase().startsWith(needle))
+  );
+
+  return matches.length > 0 ? { from, to, items: matches } : null;
+}
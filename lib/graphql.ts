@@ -0,0 +1,284 @@
+/** The editor state of a GraphQL body. */
+export interface GraphqlBody {
+  query: string;
+  /** JSON text of the variables object */
+  variables: string;
+  /** Operation to run when the document holds several; empty for the only one */
+  operationName: string;
+}
+
+export const DEFAULT_GRAPHQL_BODY: GraphqlBody = {
+  query: "",
+  variables: "",
+  operationName: "",
+};
+
+export type GraphqlOperationType = "query" | "mutation" | "subscription";
+
+export type GraphqlTypeKind =
+  "SCALAR" | "OBJECT" | "INTERFACE" | "UNION" | "ENUM" | "INPUT_OBJECT";
+
+/** A type reference as introspection returns it, wrappers first. */
+export interface GraphqlTypeRef {
+  kind: GraphqlTypeKind | "LIST" | "NON_NULL";
+  name: string | null;
+  ofType: GraphqlTypeRef | null;
+}
+
+export interface GraphqlInputValue {
+  name: string;
+  description: string | null;
+  type: GraphqlTypeRef;
+  defaultValue: string | null;
+}
+
+export interface GraphqlField {
+  name: string;
+  description: string | null;
+  args: GraphqlInputValue[];
+  type: GraphqlTypeRef;
+  isDeprecated: boolean;
+  deprecationReason: string | null;
+}
+
+export interface GraphqlEnumValue {
+  name: string;
+  description: string | null;
+  isDeprecated: boolean;
+}
+
+export interface GraphqlType {
+  kind: GraphqlTypeKind;
+  name: string;
+  description: string | null;
+  fields: GraphqlField[];
+  inputFields: GraphqlInputValue[];
+  interfaces: string[];
+  possibleTypes: string[];
+  enumValues: GraphqlEnumValue[];
+}
+
+export interface GraphqlSchema {
+  queryType: string | null;
+  mutationType: string | null;
+  subscriptionType: string | null;
+  types: Record<string, GraphqlType>;
+}
+
+const TYPE_REF_FRAGMENT = `
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType {
+    kind
+    name
+    ofType {
+      kind
+      name
+      ofType {
+        kind
+        name
+        ofType {
+          kind
+          name
+          ofType {
+            kind
+            name
+            ofType {
+              kind
+              name
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+/** Fetches everything the editor needs; directives are left out. */
+export const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      kind
+      name
+      description
+      fields(includeDeprecated: true) {
+        name
+        description
+        args { ...InputValue }
+        type { ...TypeRef }
+        isDeprecated
+        deprecationReason
+      }
+      inputFields { ...InputValue }
+      interfaces { name }
+      enumValues(includeDeprecated: true) {
+        name
+        description
+        isDeprecated
+      }
+      possibleTypes { name }
+    }
+  }
+}
+
+fragment InputValue on __InputValue {
+  name
+  description
+  type { ...TypeRef }
+  defaultValue
+}
+${TYPE_REF_FRAGMENT}`;
+
+interface IntrospectionType extends Omit<
+  GraphqlType,
+  "fields" | "inputFields" | "interfaces" | "possibleTypes" | "enumValues"
+> {
+  fields?: GraphqlField[] | null;
+  inputFields?: GraphqlInputValue[] | null;
+  interfaces?: Array<{ name: string }> | null;
+  possibleTypes?: Array<{ name: string }> | null;
+  enumValues?: GraphqlEnumValue[] | null;
+}
+
+interface IntrospectionSchema {
+  queryType?: { name: string } | null;
+  mutationType?: { name: string } | null;
+  subscriptionType?: { name: string } | null;
+  types?: IntrospectionType[];
+}
+
+/**
+ * Reads the response of INTROSPECTION_QUERY. GraphQL errors and responses
+ * that are not an introspection result are thrown with a readable message.
+ */
+export function parseIntrospectionResult(result: unknown): GraphqlSchema {
+  // Servers that answer without a JSON Content-Type leave the body as text
+  if (typeof result === "string") {
+    try {
+      result = JSON.parse(result);
+    } catch {
+      // Reported as not being a GraphQL result below
+    }
+  }
+  if (typeof result !== "object" || result === null) {
+    throw new Error("The response is not a GraphQL result");
+  }
+  const { data, errors } = result as {
+    data?: { __schema?: IntrospectionSchema } | null;
+    errors?: Array<{ message?: string }>;
+  };
+  const schema = data?.__schema;
+  if (!schema?.types) {
+    const message = Array.isArray(errors) ? errors[0]?.message : undefined;
+    throw new Error(
+      message
+        ? `Introspection failed: ${message}`
+        : "The response does not contain a GraphQL schema"
+    );
+  }
+
+  const types: Record<string, GraphqlType> = {};
+  for (const type of schema.types) {
+    types[type.name] = {
+      kind: type.kind,
+      name: type.name,
+      description: type.description ?? null,
+      fields: type.fields ?? [],
+      inputFields: type.inputFields ?? [],
+      interfaces: (type.interfaces ?? []).map(({ name }) => name),
+      possibleTypes: (type.possibleTypes ?? []).map(({ name }) => name),
+      enumValues: type.enumValues ?? [],
+    };
+  }
+
+  return {
+    queryType: schema.queryType?.name ?? null,
+    mutationType: schema.mutationType?.name ?? null,
+    subscriptionType: schema.subscriptionType?.name ?? null,
+    types,
+  };
+}
+
+/** Name of the type inside any list and non-null wrappers. */
+export function getNamedType(ref: GraphqlTypeRef): string {
+  let current: GraphqlTypeRef | null = ref;
+  while (current && !current.name) {
+    current = current.ofType;
+  }
+  return current?.name ?? "";
+}
+
+/** Writes a type reference the way SDL does, e.g. `[User!]!`. */
+export function formatTypeRef(ref: GraphqlTypeRef): string {
+  if (ref.kind === "NON_NULL" && ref.ofType) {
+    return `${formatTypeRef(ref.ofType)}!`;
+  }
+  if (ref.kind === "LIST" && ref.ofType) {
+    return `[${formatTypeRef(ref.ofType)}]`;
+  }
+  return ref.name ?? "";
+}
+
+export function getRootTypeName(
+  schema: GraphqlSchema,
+  operation: GraphqlOperationType
+): string | null {
+  switch (operation) {
+    case "query":
+      return schema.queryType;
+    case "mutation":
+      return schema.mutationType;
+    case "subscription":
+      return schema.subscriptionType;
+  }
+}
+
+/** Types with a selection set: objects, interfaces and unions. */
+export function isCompositeType(type: GraphqlType | undefined): boolean {
+  return (
+    type?.kind === "OBJECT" ||
+    type?.kind === "INTERFACE" ||
+    type?.kind === "UNION"
+  );
+}
+
+/** Built-in types such as __Schema, hidden from the explorer. */
+export function isIntrospectionType(name: string): boolean {
+  return name.startsWith("__");
+}
+
+/**
+ * Serializes the body the way GraphQL servers expect it over HTTP. Empty
+ * variables and operation names are left out.
+ */
+export function buildGraphqlBody(graphql: GraphqlBody): string {
+  let variables: unknown;
+  if (graphql.variables.trim()) {
+    try {
+      variables = JSON.parse(graphql.variables);
+    } catch (error) {
+      throw new Error(
+        `GraphQL variables are not valid JSON: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    if (
+      typeof variables !== "object" ||
+      variables === null ||
+      Array.isArray(variables)
+    ) {
+      throw new Error("GraphQL variables must be a JSON object");
+    }
+  }
+
+  return JSON.stringify({
+    query: graphql.query,
+    ...(graphql.operationName ? { operationName: graphql.operationName } : {}),
+    ...(variables ? { variables } : {}),
+  });
+}
@@ -0,0 +1,460 @@
+import { generateId } from "@/lib/utils";
+import { normalizeAuth, DEFAULT_AUTH } from "@/lib/auth";
+import { buildSnippetRequest, type SnippetRequest } from "@/lib/code-snippets";
+import { syncParamsWithUrl, parseQueryParams } from "@/lib/query-params";
+import { ImportReport, type ImportResult } from "@/lib/import-report";
+import {
+  rawLanguageFor,
+  type BodyType,
+  type FormField,
+  type MultipartField,
+} from "@/lib/request-body";
+import type { RequestDraft } from "@/lib/request-builder";
+import { DEFAULT_GRAPHQL_BODY } from "@/lib/graphql";
+import type { ApiResponse } from "@/lib/http-client";
+import { getResponseBytes } from "@/lib/response-content";
+import type {
+  Collection,
+  CollectionFolder,
+  CollectionItem,
+  CollectionRequest,
+  RequestData,
+} from "@/lib/collections";
+
+// HAR 1.2, see http://www.softwareishard.com/blog/har-12-spec/
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarPostParam {
+  name: string;
+  value?: string;
+  fileName?: string;
+  contentType?: string;
+}
+
+interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text?: string;
+    params?: HarPostParam[];
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  comment?: string;
+  // DevTools marks the kind of resource, e.g. "websocket"
+  _resourceType?: string;
+}
+
+export interface HarDocument {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+/** A request to export, optionally with the response it received. */
+export interface HarSource {
+  name?: string;
+  request: RequestData;
+  response?: ApiResponse;
+  startedAt?: number;
+}
+
+// Headers that browsers and the proxy compute themselves when sending
+const SKIPPED_HEADERS = [
+  "content-length",
+  "host",
+  "connection",
+  "accept-encoding",
+];
+
+function toNameValues(record: Record<string, string>): HarNameValue[] {
+  return Object.entries(record).map(([name, value]) => ({ name, value }));
+}
+
+function textSize(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+function findHeader(headers: Record<string, string>, name: string) {
+  return Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === name
+  )?.[1];
+}
+
+function toRequestDraft(request: RequestData): RequestDraft {
+  return {
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    body: request.body,
+    bodyType: request.bodyType ?? "json",
+    formFields: request.formFields ?? [],
+    multipartFields: request.multipartFields ?? [],
+    graphql: request.graphql ?? DEFAULT_GRAPHQL_BODY,
+    // History only keeps the auth type, so no credentials can be added
+    auth: request.auth ? normalizeAuth(request.auth) : DEFAULT_AUTH,
+  };
+}
+
+function exportPostData(request: SnippetRequest): HarRequest["postData"] {
+  const mimeType =
+    findHeader(request.headers, "content-type") ?? "application/json";
+
+  switch (request.body?.kind) {
+    case "text":
+      return { mimeType, text: request.body.text };
+    case "urlencoded":
+      return {
+        mimeType: "application/x-www-form-urlencoded",
+        params: request.body.fields.map(({ key, value }) => ({
+          name: key,
+          value,
+        })),
+      };
+    case "multipart":
+      return {
+        mimeType: "multipart/form-data",
+        params: request.body.fields.map((field) =>
+          field.fileName
+            ? { name: field.key, fileName: field.fileName }
+            : { name: field.key, value: field.value }
+        ),
+      };
+    case "file":
+      return { mimeType, text: "" };
+    default:
+      return undefined;
+  }
+}
+
+function exportResponse(response: ApiResponse | undefined): HarResponse {
+  if (!response) {
+    // HAR uses status 0 for requests that never got a response
+    return {
+      status: 0,
+      statusText: "",
+      httpVersion: "",
+      cookies: [],
+      headers: [],
+      content: { size: 0, mimeType: "x-unknown" },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: -1,
+    };
+  }
+
+  const text =
+    typeof response.data === "string"
+      ? response.data
+      : JSON.stringify(response.data);
+  const size =
+    response.bodyEncoding === "base64"
+      ? getResponseBytes(response).length
+      : textSize(text);
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    httpVersion: "HTTP/1.1",
+    cookies: [],
+    headers: toNameValues(response.headers),
+    content: {
+      size,
+      mimeType:
+        findHeader(response.headers, "content-type") ?? "x-unknown",
+      text,
+      ...(response.bodyEncoding && { encoding: response.bodyEncoding }),
+    },
+    redirectURL: findHeader(response.headers, "location") ?? "",
+    headersSize: -1,
+    bodySize: size,
+  };
+}
+
+/**
+ * Builds a HAR 1.2 log. Requests are exported as they would be sent, with
+ * {{variables}} substituted and auth applied, and the recorded response
+ * time is reported as the time spent waiting for the server.
+ */
+export function exportHar(
+  sources: HarSource[],
+  variables: Record<string, string>
+): HarDocument {
+  const entries = sources.map(
+    ({ name, request, response, startedAt }): HarEntry => {
+      const sent = buildSnippetRequest(
+        toRequestDraft(request),
+        variables,
+        {}
+      );
+      const postData = exportPostData(sent);
+      const time = response?.time ?? 0;
+
+      return {
+        startedDateTime: new Date(startedAt ?? Date.now()).toISOString(),
+        time,
+        request: {
+          method: sent.method,
+          url: sent.url,
+          httpVersion: "HTTP/1.1",
+          cookies: [],
+          headers: toNameValues(sent.headers),
+          queryString: parseQueryParams(sent.url).map(({ key, value }) => ({
+            name: key,
+            value,
+          })),
+          ...(postData ? { postData } : {}),
+          headersSize: -1,
+          bodySize: postData?.text ? textSize(postData.text) : 0,
+        },
+        response: exportResponse(response),
+        cache: {},
+        timings: { send: 0, wait: time, receive: 0 },
+        ...(name ? { comment: name } : {}),
+      };
+    }
+  );
+
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "API Tester", version: "1.0" },
+      entries,
+    },
+  };
+}
+
+/** Lists every request of a collection in tree order for exporting. */
+export function collectHarSources(collection: Collection): HarSource[] {
+  const walk = (items: CollectionItem[]): HarSource[] =>
+    items.flatMap((item) =>
+      item.type === "folder"
+        ? walk(item.items)
+        : [{ name: item.name, request: item.request }]
+    );
+  return walk(collection.items);
+}
+
+function importPostData(
+  postData: HarRequest["postData"],
+  itemName: string,
+  report: ImportReport
+): Pick<
+  RequestData,
+  "body" | "bodyType" | "rawLanguage" | "formFields" | "multipartFields"
+> {
+  const empty = {
+    body: "",
+    bodyType: "json" as BodyType,
+    formFields: [] as FormField[],
+    multipartFields: [] as MultipartField[],
+  };
+  if (!postData) return empty;
+
+  const mimeType = postData.mimeType?.toLowerCase() ?? "";
+  const text = postData.text ?? "";
+
+  if (mimeType.includes("x-www-form-urlencoded")) {
+    const fields = postData.params?.length
+      ? postData.params.map((param) => ({
+          key: param.name,
+          value: param.value ?? "",
+        }))
+      : parseQueryParams(`?${text}`);
+    return {
+      ...empty,
+      bodyType: "urlencoded",
+      formFields: fields.map((field) => ({
+        id: generateId(),
+        ...field,
+        enabled: true,
+      })),
+    };
+  }
+
+  if (mimeType.includes("multipart/form-data")) {
+    if (!postData.params?.length) {
+      report.warn(
+        "Multipart bodies without recorded fields were imported as raw text",
+        itemName
+      );
+      return { ...empty, body: text, bodyType: "raw", rawLanguage: "text" };
+    }
+    if (postData.params.some((param) => param.fileName)) {
+      report.warn(
+        "Uploaded files are not part of the HAR; choose them again before sending",
+        itemName
+      );
+    }
+    return {
+      ...empty,
+      bodyType: "multipart",
+      multipartFields: postData.params.map((param) => ({
+        id: generateId(),
+        key: param.name,
+        value: param.fileName ? "" : (param.value ?? ""),
+        enabled: true,
+        type: param.fileName ? "file" : "text",
+      })),
+    };
+  }
+
+  if (mimeType.includes("json")) {
+    return { ...empty, body: text };
+  }
+  return {
+    ...empty,
+    body: text,
+    bodyType: "raw",
+    rawLanguage: rawLanguageFor(mimeType),
+  };
+}
+
+function importEntry(
+  entry: HarEntry,
+  report: ImportReport
+): CollectionRequest {
+  const { request } = entry;
+  const url = new URL(request.url);
+  const name = entry.comment || `${request.method} ${url.pathname}`;
+
+  const body = importPostData(request.postData, name, report);
+
+  if (request.headers.some((header) => header.name.startsWith(":"))) {
+    report.warn("HTTP/2 pseudo-headers were skipped", name);
+  }
+  const headers = request.headers
+    .filter(
+      (header) =>
+        !header.name.startsWith(":") &&
+        !SKIPPED_HEADERS.includes(header.name.toLowerCase()) &&
+        // The recorded multipart boundary does not match a new body
+        !(
+          body.bodyType === "multipart" &&
+          header.name.toLowerCase() === "content-type"
+        )
+    )
+    .map((header) => ({
+      id: generateId(),
+      key: header.name,
+      value: header.value,
+    }));
+
+  return {
+    type: "request",
+    id: generateId(),
+    name,
+    request: {
+      method: request.method.toUpperCase(),
+      url: request.url,
+      params: syncParamsWithUrl(request.url, []),
+      headers,
+      ...body,
+      auth: DEFAULT_AUTH,
+      executionMode: "browser",
+    },
+  };
+}
+
+/**
+ * Converts a HAR file, e.g. one saved from the browser's DevTools, into a
+ * collection of replayable requests. Requests to several hosts are grouped
+ * into a folder per host. Throws if the JSON is not a HAR log.
+ */
+export function importHar(json: unknown, fileName?: string): ImportResult {
+  const data = json as Partial<HarDocument> | null;
+  if (!data?.log || !Array.isArray(data.log.entries)) {
+    throw new Error("This file is not a HAR log");
+  }
+
+  const name = fileName?.replace(/\.(har|json)$/i, "") || "HAR Import";
+  const report = new ImportReport();
+  const hosts = new Map<string, CollectionRequest[]>();
+  let skipped = 0;
+
+  data.log.entries.forEach((entry) => {
+    const url = entry?.request?.url ?? "";
+    if (!/^https?:\/\//i.test(url) || entry._resourceType === "websocket") {
+      skipped++;
+      return;
+    }
+    try {
+      const item = importEntry(entry, report);
+      const host = new URL(url).host;
+      hosts.set(host, [...(hosts.get(host) ?? []), item]);
+    } catch {
+      // Malformed URLs
+      skipped++;
+    }
+  });
+
+  if (skipped > 0) {
+    report.warn(
+      `Skipped ${skipped} ${skipped === 1 ? "entry" : "entries"} that ` +
+        "are not HTTP requests (data URLs, WebSockets, ...) or could not be read",
+      name
+    );
+  }
+  const requests = [...hosts.values()].flat();
+  if (requests.length > 0) {
+    report.warn("Recorded responses were not imported", name);
+  }
+
+  const items: CollectionItem[] =
+    hosts.size > 1
+      ? [...hosts].map(
+          ([host, hostItems]): CollectionFolder => ({
+            type: "folder",
+            id: generateId(),
+            name: host,
+            items: hostItems,
+          })
+        )
+      : requests;
+
+  return {
+    collection: { id: generateId(), name, items },
+    summary: {
+      collectionName: name,
+      requests: requests.length,
+      folders: hosts.size > 1 ? hosts.size : 0,
+      warnings: report.toList(),
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { SavedRequest } from "@/hooks/use-history";
+import { HISTORY_STORE, transact } from "@/lib/idb";
+
+/** Every stored history entry, newest first. */
+export async function loadHistory(): Promise<SavedRequest[]> {
+  const entries = await transact<SavedRequest[]>(
+    HISTORY_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return (entries ?? []).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function saveHistoryEntries(
+  entries: SavedRequest[]
+): Promise<void> {
+  if (entries.length === 0) return;
+  await transact(HISTORY_STORE, "readwrite", (store) => {
+    for (const entry of entries) {
+      store.put(entry);
+    }
+  });
+}
+
+export async function deleteHistoryEntries(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await transact(HISTORY_STORE, "readwrite", (store) => {
+    for (const id of ids) {
+      store.delete(id);
+    }
+  });
+}
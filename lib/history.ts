@@ -0,0 +1,150 @@
+import type { SavedRequest } from "@/hooks/use-history";
+import type { ApiResponse } from "@/lib/http-client";
+
+export type StatusClass = "2xx" | "3xx" | "4xx" | "5xx" | "none";
+
+export const STATUS_CLASS_LABELS: Record<StatusClass, string> = {
+  "2xx": "2xx Success",
+  "3xx": "3xx Redirect",
+  "4xx": "4xx Client error",
+  "5xx": "5xx Server error",
+  none: "No response",
+};
+
+export interface HistoryFilters {
+  /** Words that must all appear in the URL, headers or bodies */
+  query: string;
+  /** Empty for any method */
+  method: string;
+  /** Empty for any status */
+  statusClass: StatusClass | "";
+  /** Inclusive dates as yyyy-mm-dd; empty for no bound */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  query: "",
+  method: "",
+  statusClass: "",
+  from: "",
+  to: "",
+};
+
+// Larger response bodies are dropped so history stays quick to search
+export const MAX_STORED_BODY_SIZE = 1024 * 1024;
+// Beyond this, the oldest entries that aren't pinned are evicted
+export const MAX_HISTORY_SIZE = 50 * 1024 * 1024;
+
+// Entries never change once stored, so derived values are cached per entry
+const entrySizes = new WeakMap<SavedRequest, number>();
+const searchTexts = new WeakMap<SavedRequest, string>();
+
+function formatBody(data: unknown): string {
+  return typeof data === "string" ? data : JSON.stringify(data ?? "");
+}
+
+export function getStatusClass(response?: ApiResponse): StatusClass {
+  if (!response) return "none";
+  const statusClass = `${Math.floor(response.status / 100)}xx`;
+  return statusClass in STATUS_CLASS_LABELS
+    ? (statusClass as StatusClass)
+    : "none";
+}
+
+/**
+ * Drops the body of a response larger than the stored size cap. Returns
+ * whether the body was dropped.
+ */
+export function limitResponseSize(response: ApiResponse): {
+  response: ApiResponse;
+  omitted: boolean;
+} {
+  return formatBody(response.data).length > MAX_STORED_BODY_SIZE
+    ? { response: { ...response, data: "", stream: undefined }, omitted: true }
+    : { response, omitted: false };
+}
+
+function getEntrySize(entry: SavedRequest): number {
+  let size = entrySizes.get(entry);
+  if (size === undefined) {
+    size = JSON.stringify(entry).length;
+    entrySizes.set(entry, size);
+  }
+  return size;
+}
+
+/**
+ * Keeps the newest entries that fit in the history size cap, plus every
+ * pinned entry. Entries must be sorted newest first.
+ */
+export function pruneHistory(entries: SavedRequest[]): {
+  kept: SavedRequest[];
+  evicted: SavedRequest[];
+} {
+  const kept: SavedRequest[] = [];
+  const evicted: SavedRequest[] = [];
+  let total = 0;
+
+  for (const entry of entries) {
+    const size = getEntrySize(entry);
+    if (entry.pinned || total + size <= MAX_HISTORY_SIZE) {
+      kept.push(entry);
+      total += size;
+    } else {
+      evicted.push(entry);
+    }
+  }
+  return { kept, evicted };
+}
+
+function getSearchText(entry: SavedRequest): string {
+  let text = searchTexts.get(entry);
+  if (text === undefined) {
+    const { response } = entry;
+    text = [
+      entry.url,
+      ...entry.headers.map(({ key, value }) => `${key}: ${value}`),
+      entry.body,
+      ...Object.entries(response?.headers ?? {}).map(
+        ([key, value]) => `${key}: ${value}`
+      ),
+      // Binary bodies are base64, which isn't worth searching
+      response && response.bodyEncoding !== "base64"
+        ? formatBody(response.data)
+        : "",
+    ]
+      .join("\n")
+      .toLowerCase();
+    searchTexts.set(entry, text);
+  }
+  return text;
+}
+
+// Dates are read in local time, so a day covers what the list shows for it
+function parseDate(date: string, endOfDay: boolean): number | null {
+  if (!date) return null;
+  const time = new Date(
+    `${date}T${endOfDay ? "23:59:59.999" : "00:00:00"}`
+  ).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+export function filterHistory(
+  entries: SavedRequest[],
+  filters: HistoryFilters
+): SavedRequest[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = parseDate(filters.from, false);
+  const to = parseDate(filters.to, true);
+
+  return entries.filter(
+    (entry) =>
+      (!filters.method || entry.method === filters.method) &&
+      (!filters.statusClass ||
+        getStatusClass(entry.response) === filters.statusClass) &&
+      (from === null || entry.timestamp >= from) &&
+      (to === null || entry.timestamp <= to) &&
+      terms.every((term) => getSearchText(entry).includes(term))
+  );
+}
@@ -0,0 +1,416 @@
+import { isTextContentType } from "@/lib/response-content";
+import {
+  createStreamParser,
+  getStreamFormat,
+  isNdjsonLines,
+  MAX_STREAM_EVENTS,
+  type ParsedStreamEvent,
+  type ResponseStream,
+  type StreamEvent,
+} from "@/lib/response-stream";
+import type { ResponseSizes, ResponseTimings } from "@/lib/response-timing";
+
+export type ExecutionMode = "browser" | "proxy";
+
+export interface ApiResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: unknown;
+  /** Set when data is the base64 encoded body of a binary response */
+  bodyEncoding?: "base64";
+  time: number;
+  /** Milliseconds until the status and headers arrived */
+  ttfb?: number;
+  /** Events of a streamed body, whose text is still kept in data */
+  stream?: ResponseStream;
+  /** Phase by phase timings, only measured by the proxy executor */
+  timings?: ResponseTimings;
+  sizes?: ResponseSizes;
+}
+
+export interface PreparedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Text bodies are sent as is; form data and files only from the browser */
+  body?: string | FormData | Blob;
+}
+
+/**
+ * What the browser posts to the proxy route. Non-text bodies are serialized
+ * to base64 because the payload itself is JSON.
+ */
+export interface ProxyPayload extends Omit<PreparedRequest, "body"> {
+  body?: string;
+  bodyEncoding?: "base64";
+  /** Milliseconds the proxy waits for the upstream server */
+  timeout?: number;
+}
+
+export interface ExecuteOptions {
+  /** Aborting it cancels the request */
+  signal?: AbortSignal;
+  /** Milliseconds to wait for the response; 0 or undefined waits forever */
+  timeout?: number;
+  /**
+   * Called with the response so far while a streamed body arrives. Streams
+   * stay open as long as the server likes, so once one starts the timeout
+   * no longer applies.
+   */
+  onProgress?: (response: ApiResponse) => void;
+}
+
+/** Thrown when a request is cancelled while it is in flight. */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super("The request was cancelled before a response arrived");
+    this.name = "RequestCancelledError";
+  }
+}
+
+/** Thrown when no response arrives within the timeout. */
+export class RequestTimeoutError extends Error {
+  constructor(readonly timeout: number) {
+    super(`No response within ${timeout} ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+export const PROXY_ENDPOINT = "/api/proxy";
+
+/**
+ * Set by the proxy on streamed responses, which it passes through as they
+ * arrive instead of wrapping them in JSON. Holds the upstream status and
+ * headers as URI encoded JSON.
+ */
+export const PROXY_STREAM_HEADER = "x-proxy-stream";
+
+// Streams report progress at most this often, so fast ones don't re-render
+// the response panel for every chunk
+const PROGRESS_INTERVAL = 100;
+
+function decodeUtf8(bytes: Uint8Array): string | null {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+export type ResponseHead = Pick<
+  ApiResponse,
+  "status" | "statusText" | "headers"
+>;
+
+export function getResponseHead(res: Response): ResponseHead {
+  const headers: Record<string, string> = {};
+  res.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  return { status: res.status, statusText: res.statusText, headers };
+}
+
+/**
+ * Reads a text body as it arrives. Event streams and NDJSON are split into
+ * events and reported through onProgress; when reading is cut off by
+ * cancelling, what arrived is kept and the stream counts as stopped.
+ */
+async function readTextBody(
+  res: Response,
+  contentType: string,
+  startTime: number,
+  onProgress?: (text: string, stream: ResponseStream) => void
+): Promise<{ text: string; stream?: ResponseStream }> {
+  let format = getStreamFormat(contentType);
+  // Bodies served as JSON may still be NDJSON, like httpbin's /stream
+  let maybeNdjson = !format && contentType.includes("application/json");
+  if (!res.body || (!format && !maybeNdjson)) {
+    return { text: await res.text() };
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createStreamParser(format ?? "ndjson");
+  const firstByteTime = Date.now();
+  let text = "";
+  let events: StreamEvent[] = [];
+  let candidates: ParsedStreamEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const snapshot = (state: ResponseStream["state"]) =>
+    format
+      ? { format, events, duration: Date.now() - firstByteTime, state }
+      : undefined;
+
+  const addEvents = (parsed: ParsedStreamEvent[]) => {
+    if (!format) {
+      if (!maybeNdjson) return;
+      candidates.push(...parsed);
+      if (!isNdjsonLines(candidates.map(({ data }) => data))) {
+        maybeNdjson = candidates.length < 2;
+        return;
+      }
+      format = "ndjson";
+      parsed = candidates;
+      candidates = [];
+    }
+    const time = Date.now() - startTime;
+    events = [...events, ...parsed.map((event) => ({ ...event, time }))].slice(
+      -MAX_STREAM_EVENTS
+    );
+  };
+
+  const report = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const stream = snapshot("streaming");
+    if (stream) onProgress?.(text, stream);
+  };
+
+  // Known streams show up before their first event arrives
+  if (format) report();
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      text += chunk;
+      const wasStream = format !== null;
+      addEvents(parser.push(chunk));
+      if (!wasStream && format) {
+        report();
+      } else if (onProgress && format && !timer) {
+        timer = setTimeout(report, PROGRESS_INTERVAL);
+      }
+    }
+  } catch (error) {
+    clearTimeout(timer);
+    if (format) return { text, stream: snapshot("stopped") };
+    throw error;
+  }
+  clearTimeout(timer);
+
+  const rest = decoder.decode();
+  text += rest;
+  addEvents([...parser.push(rest), ...parser.flush()]);
+  return { text, stream: snapshot("done") };
+}
+
+/**
+ * Converts a fetch Response into the ApiResponse shape shown by the
+ * response panel. Shared by the browser executor and the proxy route so
+ * both report headers and bodies the same way.
+ */
+export async function toApiResponse(
+  res: Response,
+  startTime: number,
+  onProgress?: (response: ApiResponse) => void
+): Promise<ApiResponse> {
+  const ttfb = Date.now() - startTime;
+  const head = getResponseHead(res);
+
+  let responseData;
+  let bodyEncoding: ApiResponse["bodyEncoding"];
+  const contentType = res.headers.get("content-type");
+  if (contentType && isTextContentType(contentType)) {
+    const { text, stream } = await readTextBody(
+      res,
+      contentType,
+      startTime,
+      onProgress &&
+        ((data, stream) =>
+          onProgress({
+            ...head,
+            data,
+            time: Date.now() - startTime,
+            ttfb,
+            stream,
+          }))
+    );
+    if (stream) {
+      return {
+        ...head,
+        data: text,
+        time: Date.now() - startTime,
+        ttfb,
+        stream,
+      };
+    }
+    if (contentType.includes("application/json")) {
+      try {
+        responseData = text ? JSON.parse(text) : text;
+      } catch {
+        // Server lied about the content type, show the raw text instead
+        responseData = text;
+      }
+    } else {
+      responseData = text;
+    }
+  } else {
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    // Without a content type, anything that is valid UTF-8 is text
+    const text = contentType ? null : decodeUtf8(bytes);
+    if (text !== null) {
+      responseData = text;
+    } else {
+      responseData = encodeBase64(bytes);
+      bodyEncoding = "base64";
+    }
+  }
+
+  return {
+    ...head,
+    data: responseData,
+    ...(bodyEncoding && { bodyEncoding }),
+    time: Date.now() - startTime,
+    ttfb,
+  };
+}
+
+async function executeInBrowser(
+  request: PreparedRequest,
+  signal: AbortSignal,
+  onProgress?: (response: ApiResponse) => void
+): Promise<ApiResponse> {
+  const startTime = Date.now();
+
+  const options: RequestInit = {
+    method: request.method,
+    headers: request.headers,
+    signal,
+  };
+
+  if (request.body !== undefined) {
+    options.body = request.body;
+  }
+
+  const res = await fetch(request.url, options);
+  return toApiResponse(res, startTime, onProgress);
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked, since spreading a large body exceeds the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function toProxyPayload(request: PreparedRequest): Promise<ProxyPayload> {
+  const { body, ...rest } = request;
+  if (body === undefined || typeof body === "string") {
+    return { ...rest, body };
+  }
+
+  // Let the Fetch API serialize the body so multipart data gets a boundary
+  const serialized = new Response(body);
+  const bytes = new Uint8Array(await serialized.arrayBuffer());
+  const contentType = serialized.headers.get("content-type");
+
+  const headers = { ...rest.headers };
+  const hasContentType = Object.keys(headers).some(
+    (key) => key.toLowerCase() === "content-type"
+  );
+  if (contentType && !hasContentType) {
+    headers["Content-Type"] = contentType;
+  }
+
+  return {
+    ...rest,
+    headers,
+    body: encodeBase64(bytes),
+    bodyEncoding: "base64",
+  };
+}
+
+async function executeThroughProxy(
+  request: PreparedRequest,
+  signal: AbortSignal,
+  timeout?: number,
+  onProgress?: (response: ApiResponse) => void
+): Promise<ApiResponse> {
+  const startTime = Date.now();
+  const res = await fetch(PROXY_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...(await toProxyPayload(request)), timeout }),
+    signal,
+  });
+
+  const streamHead = res.headers.get(PROXY_STREAM_HEADER);
+  if (res.ok && streamHead) {
+    const head: ResponseHead = JSON.parse(decodeURIComponent(streamHead));
+    return toApiResponse(new Response(res.body, head), startTime, onProgress);
+  }
+
+  const payload = await res.json().catch(() => null);
+  if (!res.ok) {
+    const message =
+      payload && typeof payload.error === "string"
+        ? payload.error
+        : `Proxy request failed with status ${res.status}`;
+    throw new Error(message);
+  }
+
+  return payload as ApiResponse;
+}
+
+/**
+ * Runs a prepared request either directly from the browser or through the
+ * server-side proxy route, which is not subject to CORS. Cancelling and
+ * timing out reject with RequestCancelledError and RequestTimeoutError.
+ */
+export async function executeRequest(
+  request: PreparedRequest,
+  mode: ExecutionMode,
+  { signal, timeout, onProgress }: ExecuteOptions = {}
+): Promise<ApiResponse> {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = timeout
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+    : undefined;
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel);
+  const progress =
+    onProgress &&
+    ((response: ApiResponse) => {
+      clearTimeout(timer);
+      onProgress(response);
+    });
+
+  try {
+    return mode === "proxy"
+      ? await executeThroughProxy(request, controller.signal, timeout, progress)
+      : await executeInBrowser(request, controller.signal, progress);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw timedOut
+        ? new RequestTimeoutError(timeout ?? 0)
+        : new RequestCancelledError();
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
@@ -0,0 +1,51 @@
+const DB_NAME = "api-tester";
+const DB_VERSION = 2;
+
+export const WORKSPACE_STORE = "workspace";
+export const RESPONSE_STORE = "responses";
+export const HISTORY_STORE = "history";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Creates the stores added since the version the browser has
+      request.onupgradeneeded = (event) => {
+        const database = request.result;
+        if (event.oldVersion < 1) {
+          database.createObjectStore(WORKSPACE_STORE);
+          database.createObjectStore(RESPONSE_STORE, { keyPath: "tabId" });
+        }
+        if (event.oldVersion < 2) {
+          database.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after a blocked upgrade
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/** Runs one transaction and resolves once it has committed. */
+export async function transact<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () =>
+      resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,40 @@
+import type { Collection } from "@/lib/collections";
+
+export interface ImportWarning {
+  message: string;
+  /** Names of the affected requests or folders */
+  items: string[];
+}
+
+export interface ImportSummary {
+  collectionName: string;
+  requests: number;
+  folders: number;
+  warnings: ImportWarning[];
+}
+
+export interface ImportResult {
+  collection: Collection;
+  summary: ImportSummary;
+}
+
+/**
+ * Groups import warnings by message so the summary lists each problem once
+ * together with everything it affected.
+ */
+export class ImportReport {
+  private warnings = new Map<string, string[]>();
+
+  warn(message: string, itemName: string) {
+    const items = this.warnings.get(message) ?? [];
+    if (!items.includes(itemName)) items.push(itemName);
+    this.warnings.set(message, items);
+  }
+
+  toList(): ImportWarning[] {
+    return Array.from(this.warnings, ([message, items]) => ({
+      message,
+      items,
+    }));
+  }
+}
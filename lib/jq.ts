@@ -0,0 +1,561 @@
+/** Maps one input to every output, like a jq filter. */
+type Filter = (input: unknown) => unknown[];
+
+interface Token {
+  type: "punct" | "ident" | "number" | "string";
+  value: string;
+  /** Offset in the expression, for error messages and adjacency checks */
+  position: number;
+}
+
+const TOKEN_PATTERN =
+  /(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|("(?:[^"\\]|\\.)*")|([A-Za-z_]\w*)|(\.\.|==|!=|<=|>=|\/\/|[.|,;()[\]{}:?<>])/y;
+
+const TYPE_ORDER = ["null", "boolean", "number", "string", "array", "object"];
+
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== false;
+}
+
+// jq orders values by type first: null < false < true < numbers < strings
+// < arrays < objects
+function compareValues(a: unknown, b: unknown): number {
+  const typeA = typeName(a);
+  const typeB = typeName(b);
+  if (typeA !== typeB) {
+    return TYPE_ORDER.indexOf(typeA) - TYPE_ORDER.indexOf(typeB);
+  }
+
+  switch (typeA) {
+    case "boolean":
+    case "number":
+      return Number(a) - Number(b);
+    case "string":
+      return (a as string) < (b as string)
+        ? -1
+        : (a as string) > (b as string)
+          ? 1
+          : 0;
+    case "array": {
+      const left = a as unknown[];
+      const right = b as unknown[];
+      for (let i = 0; i < Math.min(left.length, right.length); i++) {
+        const order = compareValues(left[i], right[i]);
+        if (order !== 0) return order;
+      }
+      return left.length - right.length;
+    }
+    case "object": {
+      const left = a as Record<string, unknown>;
+      const right = b as Record<string, unknown>;
+      const keys = compareValues(
+        Object.keys(left).sort(),
+        Object.keys(right).sort()
+      );
+      if (keys !== 0) return keys;
+      for (const key of Object.keys(left).sort()) {
+        const order = compareValues(left[key], right[key]);
+        if (order !== 0) return order;
+      }
+      return 0;
+    }
+    default:
+      return 0;
+  }
+}
+
+function iterate(value: unknown): unknown[] {
+  if (value !== null && typeof value === "object") {
+    return Object.values(value);
+  }
+  throw new Error(`Cannot iterate over ${typeName(value)}`);
+}
+
+function asArray(value: unknown, name: string): unknown[] {
+  if (Array.isArray(value)) return value;
+  throw new Error(`${name} needs an array, not ${typeName(value)}`);
+}
+
+function asString(value: unknown, name: string): string {
+  if (typeof value === "string") return value;
+  throw new Error(`${name} needs a string, not ${typeName(value)}`);
+}
+
+function index(value: unknown, key: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof key === "string" && typeName(value) === "object") {
+    return Object.prototype.hasOwnProperty.call(value, key)
+      ? (value as Record<string, unknown>)[key]
+      : null;
+  }
+  if (typeof key === "number" && Array.isArray(value)) {
+    const position = key < 0 ? value.length + key : Math.floor(key);
+    return value[position] ?? null;
+  }
+  throw new Error(
+    `Cannot index ${typeName(value)} with ${
+      typeof key === "string" ? `"${key}"` : typeName(key)
+    }`
+  );
+}
+
+function slice(value: unknown, start: unknown, end: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value) && typeof value !== "string") {
+    throw new Error(`Cannot slice ${typeName(value)}`);
+  }
+  return value.slice(
+    start === null ? undefined : Number(start),
+    end === null ? undefined : Number(end)
+  );
+}
+
+function descendants(value: unknown): unknown[] {
+  return value !== null && typeof value === "object"
+    ? [value, ...Object.values(value).flatMap(descendants)]
+    : [value];
+}
+
+const BUILTINS: Record<string, (input: unknown) => unknown[]> = {
+  empty: () => [],
+  not: (input) => [!isTruthy(input)],
+  type: (input) => [typeName(input)],
+  length: (input) => {
+    if (input === null || input === undefined) return [0];
+    if (typeof input === "number") return [Math.abs(input)];
+    if (typeof input === "string" || Array.isArray(input)) {
+      return [input.length];
+    }
+    if (typeof input === "object") return [Object.keys(input).length];
+    throw new Error(`${typeName(input)} has no length`);
+  },
+  keys: (input) => {
+    if (Array.isArray(input)) return [input.map((_, i) => i)];
+    if (typeName(input) === "object") {
+      return [Object.keys(input as object).sort()];
+    }
+    throw new Error(`${typeName(input)} has no keys`);
+  },
+  first: (input) => [asArray(input, "first")[0] ?? null],
+  last: (input) => [asArray(input, "last").at(-1) ?? null],
+  reverse: (input) => [[...asArray(input, "reverse")].reverse()],
+  sort: (input) => [[...asArray(input, "sort")].sort(compareValues)],
+  unique: (input) => [
+    [...asArray(input, "unique")]
+      .sort(compareValues)
+      .filter(
+        (value, i, sorted) => i === 0 || compareValues(sorted[i - 1], value)
+      ),
+  ],
+  min: (input) => [
+    [...asArray(input, "min")].sort(compareValues)[0] ?? null,
+  ],
+  max: (input) => [
+    [...asArray(input, "max")].sort(compareValues).at(-1) ?? null,
+  ],
+  add: (input) => {
+    const values = iterate(input).filter((value) => value !== null);
+    if (values.length === 0) return [null];
+    return [
+      values.reduce((total, value) => {
+        if (Array.isArray(total)) return [...total, ...asArray(value, "add")];
+        if (typeof total === "object" && total !== null) {
+          return { ...total, ...(value as object) };
+        }
+        return (total as number) + (value as number);
+      }),
+    ];
+  },
+  flatten: (input) => [asArray(input, "flatten").flat(Infinity)],
+  to_entries: (input) => {
+    if (typeName(input) !== "object") {
+      throw new Error(`${typeName(input)} has no entries`);
+    }
+    return [
+      Object.entries(input as object).map(([key, value]) => ({ key, value })),
+    ];
+  },
+  tostring: (input) => [
+    typeof input === "string" ? input : JSON.stringify(input),
+  ],
+  tonumber: (input) => {
+    const number = Number(input);
+    if (input === "" || Number.isNaN(number)) {
+      throw new Error(`Cannot parse ${JSON.stringify(input)} as a number`);
+    }
+    return [number];
+  },
+  ascii_downcase: (input) => [asString(input, "ascii_downcase").toLowerCase()],
+  ascii_upcase: (input) => [asString(input, "ascii_upcase").toUpperCase()],
+};
+
+// Functions that take one filter argument, evaluated against their input
+const FUNCTIONS: Record<string, (input: unknown, arg: Filter) => unknown[]> = {
+  select: (input, condition) =>
+    condition(input)
+      .filter(isTruthy)
+      .map(() => input),
+  map: (input, mapper) => [iterate(input).flatMap(mapper)],
+  has: (input, key) =>
+    key(input).map((value) =>
+      Array.isArray(input)
+        ? typeof value === "number" && value >= 0 && value < input.length
+        : typeName(input) === "object" && typeof value === "string"
+          ? Object.prototype.hasOwnProperty.call(input, value)
+          : false
+    ),
+  sort_by: (input, key) => [
+    [...asArray(input, "sort_by")].sort((a, b) =>
+      compareValues(key(a), key(b))
+    ),
+  ],
+  contains: (input, value) =>
+    value(input).map((expected) =>
+      typeof input === "string"
+        ? input.includes(asString(expected, "contains"))
+        : JSON.stringify(input).includes(JSON.stringify(expected))
+    ),
+  startswith: (input, prefix) =>
+    prefix(input).map((value) =>
+      asString(input, "startswith").startsWith(asString(value, "startswith"))
+    ),
+  endswith: (input, suffix) =>
+    suffix(input).map((value) =>
+      asString(input, "endswith").endsWith(asString(value, "endswith"))
+    ),
+  test: (input, pattern) =>
+    pattern(input).map((value) =>
+      new RegExp(asString(value, "test")).test(asString(input, "test"))
+    ),
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    if (/\s/.test(source[position])) {
+      position++;
+      continue;
+    }
+    TOKEN_PATTERN.lastIndex = position;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      throw new Error(`Unsupported jq near "${source.slice(position)}"`);
+    }
+    const [token, number, string, ident] = match;
+    tokens.push({
+      type: number
+        ? "number"
+        : string
+          ? "string"
+          : ident
+            ? "ident"
+            : "punct",
+      value: string ? JSON.parse(string) : token,
+      position,
+    });
+    position = TOKEN_PATTERN.lastIndex;
+  }
+  return tokens;
+}
+
+function compile(source: string): Filter {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const fail = (): never => {
+    const token = tokens[current];
+    throw new Error(
+      token
+        ? `Unsupported jq near "${source.slice(token.position)}"`
+        : "Unexpected end of the jq expression"
+    );
+  };
+  const accept = (value: string) => {
+    const token = tokens[current];
+    if (token && token.type !== "string" && token.value === value) {
+      current++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) fail();
+  };
+  // `.foo` is a field access, `. foo` is not
+  const acceptFieldName = (dot: Token): string | null => {
+    const token = tokens[current];
+    if (
+      token &&
+      (token.type === "ident" || token.type === "string") &&
+      token.position === dot.position + 1
+    ) {
+      current++;
+      return token.value;
+    }
+    return null;
+  };
+
+  function parsePipe(): Filter {
+    let filter = parseComma();
+    while (accept("|")) {
+      const left = filter;
+      const right = parseComma();
+      filter = (input) => left(input).flatMap(right);
+    }
+    return filter;
+  }
+
+  function parseComma(): Filter {
+    let filter = parseAlternative();
+    while (accept(",")) {
+      const left = filter;
+      const right = parseAlternative();
+      filter = (input) => [...left(input), ...right(input)];
+    }
+    return filter;
+  }
+
+  function parseAlternative(): Filter {
+    let filter = parseBoolean("or");
+    while (accept("//")) {
+      const left = filter;
+      const right = parseBoolean("or");
+      filter = (input) => {
+        const values = left(input).filter(isTruthy);
+        return values.length > 0 ? values : right(input);
+      };
+    }
+    return filter;
+  }
+
+  function parseBoolean(operator: "and" | "or"): Filter {
+    const parseOperand = () =>
+      operator === "or" ? parseBoolean("and") : parseComparison();
+    let filter = parseOperand();
+    while (accept(operator)) {
+      const left = filter;
+      const right = parseOperand();
+      filter = (input) =>
+        left(input).flatMap((a) =>
+          right(input).map((b) =>
+            operator === "or"
+              ? isTruthy(a) || isTruthy(b)
+              : isTruthy(a) && isTruthy(b)
+          )
+        );
+    }
+    return filter;
+  }
+
+  function parseComparison(): Filter {
+    const left = parsePostfix();
+    const operator = ["==", "!=", "<=", ">=", "<", ">"].find(accept);
+    if (!operator) return left;
+
+    const right = parsePostfix();
+    return (input) =>
+      left(input).flatMap((a) =>
+        right(input).map((b) => {
+          const order = compareValues(a, b);
+          switch (operator) {
+            case "==":
+              return order === 0;
+            case "!=":
+              return order !== 0;
+            case "<=":
+              return order <= 0;
+            case ">=":
+              return order >= 0;
+            case "<":
+              return order < 0;
+            default:
+              return order > 0;
+          }
+        })
+      );
+  }
+
+  // `[]`, `[key]` and `[start:end]`; keys are evaluated against the input
+  // of the whole term, as in `.items[.selected]`
+  function parseBracket(base: Filter): Filter {
+    if (accept("]")) {
+      return (input) => base(input).flatMap(iterate);
+    }
+
+    const none: Filter = () => [null];
+    const start = tokens[current]?.value === ":" ? none : parsePipe();
+    if (accept(":")) {
+      const end = tokens[current]?.value === "]" ? none : parsePipe();
+      expect("]");
+      return (input) =>
+        base(input).flatMap((value) =>
+          start(input).flatMap((from) =>
+            end(input).map((to) => slice(value, from, to))
+          )
+        );
+    }
+    expect("]");
+    return (input) =>
+      base(input).flatMap((value) =>
+        start(input).map((key) => index(value, key))
+      );
+  }
+
+  function parsePostfix(): Filter {
+    let filter = parsePrimary();
+
+    for (;;) {
+      const token = tokens[current];
+      if (accept("[")) {
+        filter = parseBracket(filter);
+      } else if (token?.value === "." && token.type === "punct") {
+        current++;
+        const name = acceptFieldName(token);
+        if (name !== null) {
+          const base = filter;
+          filter = (input) => base(input).map((value) => index(value, name));
+        } else {
+          expect("[");
+          filter = parseBracket(filter);
+        }
+      } else if (accept("?")) {
+        const base = filter;
+        filter = (input) => {
+          try {
+            return base(input);
+          } catch {
+            return [];
+          }
+        };
+      } else {
+        return filter;
+      }
+    }
+  }
+
+  function parseObject(): Filter {
+    const entries: { key: Filter; value: Filter }[] = [];
+
+    if (!accept("}")) {
+      do {
+        const token = tokens[current];
+        let key: Filter;
+        let value: Filter | null = null;
+        if (token?.type === "ident" || token?.type === "string") {
+          current++;
+          key = () => [token.value];
+          // `{id}` is short for `{id: .id}`
+          value = (input) => [index(input, token.value)];
+        } else if (accept("(")) {
+          key = parsePipe();
+          expect(")");
+        } else {
+          return fail();
+        }
+        if (accept(":")) {
+          value = parseAlternative();
+        } else if (!value) {
+          fail();
+        }
+        entries.push({ key, value: value as Filter });
+      } while (accept(","));
+      expect("}");
+    }
+
+    return (input) =>
+      entries.reduce<Record<string, unknown>[]>(
+        (objects, { key, value }) =>
+          objects.flatMap((object) =>
+            key(input).flatMap((name) =>
+              value(input).map((entry) => ({
+                ...object,
+                [asString(name, "Object key")]: entry,
+              }))
+            )
+          ),
+        [{}]
+      );
+  }
+
+  function parsePrimary(): Filter {
+    const token = tokens[current];
+    if (!token) return fail();
+    current++;
+
+    if (token.type === "number") {
+      return () => [Number(token.value)];
+    }
+    if (token.type === "string") {
+      return () => [token.value];
+    }
+    if (token.type === "ident") {
+      switch (token.value) {
+        case "true":
+          return () => [true];
+        case "false":
+          return () => [false];
+        case "null":
+          return () => [null];
+      }
+      const builtin = BUILTINS[token.value];
+      const fn = FUNCTIONS[token.value];
+      if (fn && accept("(")) {
+        const arg = parsePipe();
+        expect(")");
+        return (input) => fn(input, arg);
+      }
+      if (builtin) return builtin;
+      current--;
+      return fail();
+    }
+
+    switch (token.value) {
+      case ".": {
+        const name = acceptFieldName(token);
+        return name === null
+          ? (input) => [input]
+          : (input) => [index(input, name)];
+      }
+      case "..":
+        return descendants;
+      case "(": {
+        const inner = parsePipe();
+        expect(")");
+        return inner;
+      }
+      case "[": {
+        if (accept("]")) return () => [[]];
+        const inner = parsePipe();
+        expect("]");
+        return (input) => [inner(input)];
+      }
+      case "{":
+        return parseObject();
+    }
+    current--;
+    return fail();
+  }
+
+  const filter = parsePipe();
+  if (current < tokens.length) fail();
+  return filter;
+}
+
+/**
+ * Runs a jq filter such as `.items[] | select(.price < 10) | {id, name}`
+ * and returns every output. Supports paths, iteration, slices, pipes,
+ * commas, comparisons, `and`/`or`/`//`, array and object construction and
+ * common builtins like `select`, `map`, `keys` and `length`; throws on
+ * anything else.
+ */
+export function queryJq(data: unknown, expression: string): unknown[] {
+  return compile(expression)(data);
+}
@@ -0,0 +1,16 @@
+import { queryJsonPath } from "@/lib/json-path";
+import { queryJq } from "@/lib/jq";
+
+export type JsonFilterLanguage = "jsonpath" | "jq";
+
+/** JSONPath expressions start with `$`; anything else is read as jq. */
+export function getFilterLanguage(expression: string): JsonFilterLanguage {
+  return expression.trim().startsWith("$") ? "jsonpath" : "jq";
+}
+
+/** Every node of data matched by a JSONPath or jq expression. */
+export function filterJson(data: unknown, expression: string): unknown[] {
+  return getFilterLanguage(expression) === "jsonpath"
+    ? queryJsonPath(data, expression)
+    : queryJq(data, expression);
+}
@@ -0,0 +1,212 @@
+type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+type PathSegment =
+  | { kind: "name"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "slice"; start?: number; end?: number; step: number }
+  | { kind: "union"; segments: PathSegment[] }
+  | { kind: "descendant"; segment: PathSegment }
+  | {
+      kind: "filter";
+      path: string;
+      operator?: ComparisonOperator;
+      value?: unknown;
+    };
+
+const SEGMENT_PATTERN =
+  /^(?:\.\*|\[\*\]|\.([^.[\]]+)|\[(-?\d+)\]|\[(['"])(.*?)\3\])/;
+const SLICE_PATTERN = /^\[(-?\d*):(-?\d*)(?::(-?\d+))?\]/;
+const UNION_PATTERN =
+  /^\[((?:-?\d+|'[^']*'|"[^"]*")(?:\s*,\s*(?:-?\d+|'[^']*'|"[^"]*"))+)\]/;
+const UNION_ENTRY_PATTERN = /-?\d+|'([^']*)'|"([^"]*)"/g;
+const FILTER_PATTERN = /^\[\?\((.*?)\)\]/;
+const FILTER_EXPRESSION_PATTERN =
+  /^@((?:\.[^.[\]\s=!<>]+|\[[^\]]*\])*)\s*(?:(==|!=|<=|>=|<|>)\s*(.+))?$/;
+
+function parseLiteral(text: string): unknown {
+  const trimmed = text.trim();
+  if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1);
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new Error(`Unsupported JSONPath value ${trimmed}`);
+  }
+}
+
+// Reads the segment at the start of rest; returns it with its length
+function readSegment(rest: string): [PathSegment, number] {
+  if (rest.startsWith("..")) {
+    // "..name" and "..*" are read like ".name" and ".*" at every depth
+    const bracket = rest[2] === "[";
+    const [segment, length] = readSegment(
+      bracket ? rest.slice(2) : `.${rest.slice(2)}`
+    );
+    return [{ kind: "descendant", segment }, length + (bracket ? 2 : 1)];
+  }
+
+  const slice = SLICE_PATTERN.exec(rest);
+  if (slice) {
+    const [token, start, end, step] = slice;
+    return [
+      {
+        kind: "slice",
+        start: start ? Number(start) : undefined,
+        end: end ? Number(end) : undefined,
+        step: step ? Number(step) : 1,
+      },
+      token.length,
+    ];
+  }
+
+  const union = UNION_PATTERN.exec(rest);
+  if (union) {
+    const segments = Array.from(
+      union[1].matchAll(UNION_ENTRY_PATTERN),
+      ([entry, single, double]): PathSegment =>
+        single !== undefined || double !== undefined
+          ? { kind: "name", name: single ?? double }
+          : { kind: "index", index: Number(entry) }
+    );
+    return [{ kind: "union", segments }, union[0].length];
+  }
+
+  const filter = FILTER_PATTERN.exec(rest);
+  if (filter) {
+    const expression = FILTER_EXPRESSION_PATTERN.exec(filter[1].trim());
+    if (!expression) {
+      throw new Error(`Unsupported JSONPath filter "${filter[1]}"`);
+    }
+    const [, path, operator, value] = expression;
+    return [
+      {
+        kind: "filter",
+        path,
+        operator: operator as ComparisonOperator | undefined,
+        value: operator ? parseLiteral(value) : undefined,
+      },
+      filter[0].length,
+    ];
+  }
+
+  const match = SEGMENT_PATTERN.exec(rest);
+  if (!match) {
+    throw new Error(`Unsupported JSONPath near "${rest}"`);
+  }
+  const [token, name, index, , quoted] = match;
+  if (name !== undefined) {
+    return [{ kind: "name", name }, token.length];
+  } else if (index !== undefined) {
+    return [{ kind: "index", index: Number(index) }, token.length];
+  } else if (quoted !== undefined) {
+    return [{ kind: "name", name: quoted }, token.length];
+  }
+  return [{ kind: "wildcard" }, token.length];
+}
+
+function parsePath(path: string): PathSegment[] {
+  const trimmed = path.trim();
+  // "data.id" is read as "$.data.id"
+  let rest = trimmed.startsWith("$")
+    ? trimmed.slice(1)
+    : trimmed.startsWith("[")
+      ? trimmed
+      : `.${trimmed}`;
+  const segments: PathSegment[] = [];
+
+  while (rest) {
+    const [segment, length] = readSegment(rest);
+    segments.push(segment);
+    rest = rest.slice(length);
+  }
+  return segments;
+}
+
+function compare(
+  actual: unknown,
+  operator: ComparisonOperator,
+  expected: unknown
+): boolean {
+  switch (operator) {
+    case "==":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+  }
+  // Ordering only makes sense between two numbers or two strings
+  if (
+    typeof actual !== typeof expected ||
+    (typeof actual !== "number" && typeof actual !== "string")
+  ) {
+    return false;
+  }
+  const [a, b] = [actual as number | string, expected as number | string];
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function descendants(value: unknown): unknown[] {
+  return value !== null && typeof value === "object"
+    ? [value, ...Object.values(value).flatMap(descendants)]
+    : [value];
+}
+
+function step(value: unknown, segment: PathSegment): unknown[] {
+  if (segment.kind === "descendant") {
+    return descendants(value).flatMap((node) => step(node, segment.segment));
+  }
+  if (value === null || typeof value !== "object") return [];
+
+  switch (segment.kind) {
+    case "wildcard":
+      return Object.values(value);
+    case "index": {
+      if (!Array.isArray(value)) return [];
+      const index =
+        segment.index < 0 ? value.length + segment.index : segment.index;
+      return index in value ? [value[index]] : [];
+    }
+    case "name":
+      return Object.prototype.hasOwnProperty.call(value, segment.name)
+        ? [(value as Record<string, unknown>)[segment.name]]
+        : [];
+    case "slice": {
+      if (!Array.isArray(value) || segment.step < 1) return [];
+      return value
+        .slice(segment.start, segment.end)
+        .filter((_, i) => i % segment.step === 0);
+    }
+    case "union":
+      return segment.segments.flatMap((entry) => step(value, entry));
+    case "filter":
+      return Object.values(value).filter((item) => {
+        const matches = queryJsonPath(item, `$${segment.path}`);
+        const { operator } = segment;
+        return operator
+          ? matches.some((match) => compare(match, operator, segment.value))
+          : matches.length > 0;
+      });
+  }
+}
+
+/**
+ * Evaluates a JSONPath expression such as `$.items[0].name`,
+ * `$..id` or `$.users[?(@.age > 30)].email` and returns every match.
+ * Supports names, quoted names, array indexes (negative ones count from the
+ * end), wildcards, recursive descent, slices, unions and comparison
+ * filters; throws on anything else.
+ */
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  return parsePath(path).reduce<unknown[]>(
+    (matches, segment) => matches.flatMap((value) => step(value, segment)),
+    [data]
+  );
+}
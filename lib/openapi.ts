@@ -0,0 +1,763 @@
+import { parse as parseYaml } from "yaml";
+import { generateId } from "@/lib/utils";
+import { DEFAULT_AUTH, type AuthConfig } from "@/lib/auth";
+import { buildUrlWithParams, type QueryParam } from "@/lib/query-params";
+import { ImportReport, type ImportResult } from "@/lib/import-report";
+import {
+  rawLanguageFor,
+  type FormField,
+  type MultipartField,
+} from "@/lib/request-body";
+import type {
+  CollectionFolder,
+  CollectionItem,
+  CollectionVariable,
+  RequestData,
+} from "@/lib/collections";
+
+// Minimal typings of OpenAPI 3.x and Swagger 2.0; only the fields used to
+// build requests are listed.
+interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  example?: unknown;
+  examples?: unknown;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, SchemaObject>;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  readOnly?: boolean;
+}
+
+interface ExampleObject {
+  $ref?: string;
+  value?: unknown;
+}
+
+interface ParameterObject extends SchemaObject {
+  name: string;
+  in: "path" | "query" | "header" | "cookie" | "body" | "formData";
+  required?: boolean;
+  schema?: SchemaObject;
+  "x-example"?: unknown;
+}
+
+interface MediaTypeObject {
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, ExampleObject>;
+}
+
+interface RequestBodyObject {
+  $ref?: string;
+  content?: Record<string, MediaTypeObject>;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+interface OperationObject {
+  tags?: string[];
+  summary?: string;
+  operationId?: string;
+  parameters?: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  security?: SecurityRequirement[];
+  consumes?: string[];
+  callbacks?: Record<string, unknown>;
+}
+
+interface SecuritySchemeObject {
+  $ref?: string;
+  type: string;
+  scheme?: string;
+  name?: string;
+  in?: string;
+  flows?: { clientCredentials?: { tokenUrl?: string } };
+  // Swagger 2.0 describes a single OAuth flow inline
+  flow?: string;
+  tokenUrl?: string;
+}
+
+interface ApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string };
+  servers?: Array<{
+    url: string;
+    variables?: Record<string, { default?: string }>;
+  }>;
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  paths?: Record<string, Record<string, unknown>>;
+  components?: { securitySchemes?: Record<string, SecuritySchemeObject> };
+  securityDefinitions?: Record<string, SecuritySchemeObject>;
+  security?: SecurityRequirement[];
+  tags?: Array<{ name: string }>;
+  webhooks?: Record<string, unknown>;
+}
+
+const HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+
+// Deeply nested references are cut off to keep examples readable
+const MAX_SCHEMA_DEPTH = 8;
+
+const STRING_EXAMPLES: Record<string, string> = {
+  "date-time": "2024-01-01T00:00:00Z",
+  date: "2024-01-01",
+  time: "00:00:00",
+  email: "user@example.com",
+  uuid: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+  uri: "https://example.com",
+  url: "https://example.com",
+  hostname: "example.com",
+  ipv4: "127.0.0.1",
+  ipv6: "::1",
+  binary: "",
+  byte: "",
+};
+
+/** Parses a pasted or uploaded API description, accepting JSON or YAML. */
+export function parseApiDocument(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      return parseYaml(text);
+    } catch {
+      throw new Error("The document is neither valid JSON nor YAML");
+    }
+  }
+}
+
+function isOpenApiDocument(json: unknown): boolean {
+  const data = json as ApiDocument | null;
+  return (
+    !!data &&
+    typeof data === "object" &&
+    (typeof data.openapi === "string" || typeof data.swagger === "string")
+  );
+}
+
+class DocumentContext {
+  constructor(
+    readonly document: ApiDocument,
+    readonly report: ImportReport
+  ) {}
+
+  /** Follows a local $ref such as #/components/schemas/User. */
+  resolve<T extends { $ref?: string }>(value: T, itemName: string): T {
+    let current: T = value;
+    const seen = new Set<string>();
+
+    while (current?.$ref) {
+      const ref: string = current.$ref;
+      if (!ref.startsWith("#/")) {
+        this.report.warn(`External reference "${ref}" was skipped`, itemName);
+        return {} as T;
+      }
+      if (seen.has(ref)) return {} as T;
+      seen.add(ref);
+
+      let target: unknown = this.document;
+      for (const segment of ref.slice(2).split("/")) {
+        const key = decodeURIComponent(segment)
+          .replace(/~1/g, "/")
+          .replace(/~0/g, "~");
+        target = (target as Record<string, unknown> | undefined)?.[key];
+      }
+      if (target === undefined) {
+        this.report.warn(`Reference "${ref}" could not be found`, itemName);
+        return {} as T;
+      }
+      current = target as T;
+    }
+    return current;
+  }
+}
+
+function firstExample(examples: Record<string, ExampleObject> | undefined) {
+  const first = examples ? Object.values(examples)[0] : undefined;
+  return first?.value;
+}
+
+/**
+ * Builds an example value for a schema: explicit examples and defaults win,
+ * otherwise a placeholder is synthesized from the type and format.
+ * `refs` holds the schemas being expanded so recursive ones stop.
+ */
+function exampleFromSchema(
+  schema: SchemaObject | undefined,
+  context: DocumentContext,
+  itemName: string,
+  refs: string[] = []
+): unknown {
+  if (!schema || refs.length > MAX_SCHEMA_DEPTH) return undefined;
+  if (schema.$ref && refs.includes(schema.$ref)) return undefined;
+  const resolved = context.resolve(schema, itemName);
+  const nested = schema.$ref ? [...refs, schema.$ref] : refs;
+
+  if (resolved.example !== undefined) return resolved.example;
+  // JSON Schema (OpenAPI 3.1) lists examples as an array
+  if (Array.isArray(resolved.examples) && resolved.examples.length > 0) {
+    return resolved.examples[0];
+  }
+  if (resolved.default !== undefined) return resolved.default;
+  if (resolved.const !== undefined) return resolved.const;
+  if (resolved.enum && resolved.enum.length > 0) return resolved.enum[0];
+
+  if (resolved.allOf) {
+    return resolved.allOf.reduce<unknown>((merged, part) => {
+      const value = exampleFromSchema(part, context, itemName, nested);
+      return isPlainObject(merged) && isPlainObject(value)
+        ? { ...merged, ...value }
+        : (value ?? merged);
+    }, undefined);
+  }
+  const variant = resolved.oneOf?.[0] ?? resolved.anyOf?.[0];
+  if (variant) return exampleFromSchema(variant, context, itemName, nested);
+
+  const type = Array.isArray(resolved.type)
+    ? resolved.type.find((candidate) => candidate !== "null")
+    : resolved.type;
+
+  switch (
+    type ??
+    (resolved.properties ? "object" : resolved.items ? "array" : undefined)
+  ) {
+    case "object": {
+      const example: Record<string, unknown> = {};
+      Object.entries(resolved.properties ?? {}).forEach(([key, property]) => {
+        // Read-only properties are returned by the API, not sent to it
+        if (context.resolve(property, itemName).readOnly) return;
+        const value = exampleFromSchema(property, context, itemName, nested);
+        if (value !== undefined) example[key] = value;
+      });
+      return example;
+    }
+    case "array": {
+      const item = exampleFromSchema(resolved.items, context, itemName, nested);
+      return item === undefined ? [] : [item];
+    }
+    case "string":
+      return STRING_EXAMPLES[resolved.format ?? ""] ?? "string";
+    case "integer":
+    case "number":
+      return 0;
+    case "boolean":
+      return true;
+    default:
+      return undefined;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(toText).join(",");
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function parameterExample(
+  parameter: ParameterObject,
+  context: DocumentContext,
+  itemName: string
+): string {
+  if (parameter.example !== undefined) return toText(parameter.example);
+  const example = firstExample(
+    parameter.examples as Record<string, ExampleObject> | undefined
+  );
+  if (example !== undefined) return toText(example);
+  if (parameter["x-example"] !== undefined) {
+    return toText(parameter["x-example"]);
+  }
+  // Swagger 2.0 keeps type, format and enum on the parameter itself
+  const schema = parameter.schema ?? { ...parameter, example: undefined };
+  return toText(exampleFromSchema(schema, context, itemName));
+}
+
+/** Lists the properties of an object schema, flattening allOf. */
+function schemaProperties(
+  schema: SchemaObject | undefined,
+  context: DocumentContext,
+  itemName: string
+): Array<[string, SchemaObject]> {
+  if (!schema) return [];
+  const resolved = context.resolve(schema, itemName);
+  return [
+    ...Object.entries(resolved.properties ?? {}),
+    ...(resolved.allOf ?? []).flatMap((part) =>
+      schemaProperties(part, context, itemName)
+    ),
+  ];
+}
+
+function isFileSchema(schema: SchemaObject, context: DocumentContext) {
+  const resolved = context.resolve(schema, "");
+  return (
+    resolved.type === "file" ||
+    resolved.format === "binary" ||
+    resolved.format === "base64" ||
+    (resolved.type === "array" &&
+      !!resolved.items &&
+      context.resolve(resolved.items, "").format === "binary")
+  );
+}
+
+type RequestBodyFields = Pick<
+  RequestData,
+  "body" | "bodyType" | "rawLanguage" | "formFields" | "multipartFields"
+> & { contentType: string | null };
+
+const EMPTY_BODY: RequestBodyFields = {
+  body: "",
+  bodyType: "json",
+  formFields: [],
+  multipartFields: [],
+  contentType: null,
+};
+
+function formBody(
+  mediaType: string,
+  fields: Array<{ name: string; value: string; isFile: boolean }>
+): RequestBodyFields {
+  if (mediaType.includes("multipart")) {
+    return {
+      ...EMPTY_BODY,
+      bodyType: "multipart",
+      multipartFields: fields.map(
+        (field): MultipartField => ({
+          id: generateId(),
+          key: field.name,
+          value: field.isFile ? "" : field.value,
+          enabled: true,
+          type: field.isFile ? "file" : "text",
+        })
+      ),
+    };
+  }
+  return {
+    ...EMPTY_BODY,
+    bodyType: "urlencoded",
+    formFields: fields.map(
+      (field): FormField => ({
+        id: generateId(),
+        key: field.name,
+        value: field.value,
+        enabled: true,
+      })
+    ),
+    contentType: "application/x-www-form-urlencoded",
+  };
+}
+
+/** Picks the media type a request is most useful with in this tool. */
+function preferredMediaType(mediaTypes: string[]): string | undefined {
+  return (
+    mediaTypes.find((type) => type.includes("json")) ??
+    mediaTypes.find((type) => type.includes("x-www-form-urlencoded")) ??
+    mediaTypes.find((type) => type.includes("multipart")) ??
+    mediaTypes[0]
+  );
+}
+
+function mediaTypeBody(
+  mediaType: string,
+  media: MediaTypeObject,
+  context: DocumentContext,
+  itemName: string
+): RequestBodyFields {
+  const example =
+    media.example ??
+    firstExample(media.examples) ??
+    exampleFromSchema(media.schema, context, itemName);
+
+  if (mediaType.includes("json")) {
+    return {
+      ...EMPTY_BODY,
+      body: example === undefined ? "" : JSON.stringify(example, null, 2),
+      contentType: mediaType,
+    };
+  }
+  if (
+    mediaType.includes("x-www-form-urlencoded") ||
+    mediaType.includes("multipart")
+  ) {
+    return formBody(
+      mediaType,
+      schemaProperties(media.schema, context, itemName).map(
+        ([name, property]) => ({
+          name,
+          value: toText(exampleFromSchema(property, context, itemName)),
+          isFile: isFileSchema(property, context),
+        })
+      )
+    );
+  }
+  if (mediaType.startsWith("text/") || /xml|yaml/.test(mediaType)) {
+    return {
+      ...EMPTY_BODY,
+      body: typeof example === "string" ? example : "",
+      bodyType: "raw",
+      rawLanguage: rawLanguageFor(mediaType),
+      contentType: mediaType,
+    };
+  }
+  return {
+    ...EMPTY_BODY,
+    bodyType: "binary",
+    contentType: mediaType,
+  };
+}
+
+function importBody(
+  operation: OperationObject,
+  parameters: ParameterObject[],
+  context: DocumentContext,
+  itemName: string
+): RequestBodyFields {
+  // OpenAPI 3.x
+  if (operation.requestBody) {
+    const requestBody = context.resolve(operation.requestBody, itemName);
+    const content = requestBody.content ?? {};
+    const mediaType = preferredMediaType(Object.keys(content));
+    if (!mediaType) return EMPTY_BODY;
+    return mediaTypeBody(mediaType, content[mediaType], context, itemName);
+  }
+
+  // Swagger 2.0 describes bodies as "body" or "formData" parameters
+  const consumes = operation.consumes ?? context.document.consumes ?? [];
+  const bodyParameter = parameters.find((param) => param.in === "body");
+  if (bodyParameter) {
+    const mediaType =
+      preferredMediaType(consumes.filter((type) => !/form/.test(type))) ??
+      "application/json";
+    return mediaTypeBody(
+      mediaType,
+      { schema: bodyParameter.schema },
+      context,
+      itemName
+    );
+  }
+
+  const formParameters = parameters.filter((param) => param.in === "formData");
+  if (formParameters.length > 0) {
+    const isMultipart =
+      consumes.some((type) => type.includes("multipart")) ||
+      formParameters.some((param) => param.type === "file");
+    return formBody(
+      isMultipart ? "multipart/form-data" : "application/x-www-form-urlencoded",
+      formParameters.map((param) => ({
+        name: param.name,
+        value: parameterExample(param, context, itemName),
+        isFile: param.type === "file",
+      }))
+    );
+  }
+  return EMPTY_BODY;
+}
+
+function securitySchemes(document: ApiDocument) {
+  return (
+    document.components?.securitySchemes ?? document.securityDefinitions ?? {}
+  );
+}
+
+function importSecurity(
+  requirements: SecurityRequirement[] | undefined,
+  context: DocumentContext,
+  itemName: string
+): AuthConfig {
+  // Only the first requirement can be applied; alternatives are ignored
+  const [name, scopes] = Object.entries(requirements?.[0] ?? {})[0] ?? [];
+  if (!name) return DEFAULT_AUTH;
+
+  const scheme = securitySchemes(context.document)[name];
+  if (!scheme) {
+    context.report.warn(`Security scheme "${name}" is not defined`, itemName);
+    return DEFAULT_AUTH;
+  }
+  const resolved = context.resolve(scheme, itemName);
+
+  if (
+    resolved.type === "basic" ||
+    (resolved.type === "http" && resolved.scheme?.toLowerCase() === "basic")
+  ) {
+    return { ...DEFAULT_AUTH, type: "basic" };
+  }
+  if (resolved.type === "http" && resolved.scheme?.toLowerCase() === "bearer") {
+    return { ...DEFAULT_AUTH, type: "bearer" };
+  }
+  if (
+    resolved.type === "apiKey" &&
+    (resolved.in === "header" || resolved.in === "query")
+  ) {
+    return {
+      ...DEFAULT_AUTH,
+      type: "apikey",
+      apikey: { key: resolved.name ?? "", value: "", addTo: resolved.in },
+    };
+  }
+
+  const tokenUrl =
+    resolved.flows?.clientCredentials?.tokenUrl ??
+    (resolved.flow === "application" ? resolved.tokenUrl : undefined);
+  if (resolved.type === "oauth2" && tokenUrl) {
+    return {
+      ...DEFAULT_AUTH,
+      type: "oauth2",
+      oauth2: {
+        ...DEFAULT_AUTH.oauth2,
+        tokenUrl,
+        scope: (scopes ?? []).join(" "),
+      },
+    };
+  }
+
+  context.report.warn(
+    `Security scheme "${name}" is not supported and was replaced with No Auth`,
+    itemName
+  );
+  return DEFAULT_AUTH;
+}
+
+/** Works out the base URL from `servers` (3.x) or host/basePath (2.0). */
+function importBaseUrl(document: ApiDocument, report: ImportReport): string {
+  const name = document.info?.title || "API";
+
+  if (document.swagger) {
+    if (!document.host) {
+      report.warn("No host is defined; set the baseUrl variable", name);
+    }
+    const scheme = document.schemes?.includes("https")
+      ? "https"
+      : (document.schemes?.[0] ?? "https");
+    const host = document.host ? `${scheme}://${document.host}` : "";
+    return `${host}${document.basePath ?? ""}`.replace(/\/+$/, "");
+  }
+
+  const [server, ...others] = document.servers ?? [];
+  if (others.length > 0) {
+    report.warn("Only the first server URL was used", name);
+  }
+  if (!server || !/^[a-z][a-z0-9+.-]*:\/\//i.test(server.url)) {
+    report.warn(
+      "The server URL is missing or relative; set the baseUrl variable",
+      name
+    );
+  }
+  if (!server) return "";
+
+  // Server variables ({region}) are filled in with their defaults
+  return server.url
+    .replace(/\{([^}]+)\}/g, (match, variable: string) =>
+      server.variables?.[variable]?.default !== undefined
+        ? String(server.variables[variable].default)
+        : match
+    )
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Converts an OpenAPI 3.x or Swagger 2.0 document into a collection with
+ * one request per operation, grouped into folders by their first tag.
+ * Throws if the document is neither.
+ */
+export function importOpenApiDocument(json: unknown): ImportResult {
+  if (!isOpenApiDocument(json)) {
+    throw new Error("This is not an OpenAPI 3 or Swagger 2.0 document");
+  }
+  const document = json as ApiDocument;
+  const version = document.openapi ?? document.swagger ?? "";
+  if (!version.startsWith("3.") && !version.startsWith("2.")) {
+    throw new Error(`OpenAPI version ${version} is not supported`);
+  }
+
+  const name = document.info?.title || "Imported API";
+  const report = new ImportReport();
+  const context = new DocumentContext(document, report);
+
+  const variables: CollectionVariable[] = [
+    { id: generateId(), key: "baseUrl", value: importBaseUrl(document, report) },
+  ];
+
+  if (document.webhooks && Object.keys(document.webhooks).length > 0) {
+    report.warn("Webhooks describe incoming requests and were skipped", name);
+  }
+
+  // Folders follow the order of the top-level tag list
+  const folders = new Map<string, CollectionFolder>();
+  (document.tags ?? []).forEach((tag) => {
+    folders.set(tag.name, {
+      type: "folder",
+      id: generateId(),
+      name: tag.name,
+      items: [],
+    });
+  });
+  const rootItems: CollectionItem[] = [];
+  let requests = 0;
+
+  Object.entries(document.paths ?? {}).forEach(([path, rawPathItem]) => {
+    const pathItem = context.resolve(
+      rawPathItem as Record<string, unknown> & { $ref?: string },
+      path
+    );
+    const sharedParameters = (pathItem.parameters ?? []) as ParameterObject[];
+
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method] as OperationObject | undefined;
+      if (!operation) return;
+
+      const itemName =
+        operation.summary ||
+        operation.operationId ||
+        `${method.toUpperCase()} ${path}`;
+
+      // Operation parameters override path-level ones with the same name
+      const parameterMap = new Map<string, ParameterObject>();
+      [...sharedParameters, ...(operation.parameters ?? [])].forEach(
+        (param) => {
+          const resolved = context.resolve(param, itemName);
+          if (resolved.name) {
+            parameterMap.set(`${resolved.in}:${resolved.name}`, resolved);
+          }
+        }
+      );
+      const parameters = [...parameterMap.values()];
+
+      const params: QueryParam[] = [];
+      const headers: RequestData["headers"] = [];
+      const pathValues = new Map<string, string>();
+      parameters.forEach((param) => {
+        const value = parameterExample(param, context, itemName);
+        switch (param.in) {
+          case "path":
+            pathValues.set(param.name, value);
+            break;
+          case "query":
+            // Optional params are listed but left out of the URL
+            params.push({
+              id: generateId(),
+              key: param.name,
+              value,
+              enabled: !!param.required,
+            });
+            break;
+          case "header":
+            headers.push({ id: generateId(), key: param.name, value });
+            break;
+          case "cookie":
+            report.warn(
+              "Cookie parameters are not supported and were skipped",
+              itemName
+            );
+            break;
+        }
+      });
+
+      const { contentType, ...body } = importBody(
+        operation,
+        parameters,
+        context,
+        itemName
+      );
+      if (contentType) {
+        headers.unshift({
+          id: generateId(),
+          key: "Content-Type",
+          value: contentType,
+        });
+      }
+      if (operation.callbacks && Object.keys(operation.callbacks).length > 0) {
+        report.warn("Callbacks were skipped", itemName);
+      }
+
+      // Path parameters take the example of this operation, since another
+      // operation may describe a parameter of the same name differently.
+      // Ones without an example are left as {{variables}} to fill in.
+      const url = `{{baseUrl}}${path.replace(
+        /\{([^}]+)\}/g,
+        (_match, param: string) => {
+          const value = pathValues.get(param);
+          return value ? encodeURIComponent(value) : `{{${param}}}`;
+        }
+      )}`;
+      const request: RequestData = {
+        method: method.toUpperCase(),
+        url: buildUrlWithParams(url, params),
+        params,
+        headers,
+        ...body,
+        auth: importSecurity(
+          operation.security ?? document.security,
+          context,
+          itemName
+        ),
+        executionMode: "browser",
+      };
+
+      const item: CollectionItem = {
+        type: "request",
+        id: generateId(),
+        name: itemName,
+        request,
+      };
+      requests++;
+
+      const tag = operation.tags?.[0];
+      if (!tag) {
+        rootItems.push(item);
+        return;
+      }
+      if (!folders.has(tag)) {
+        folders.set(tag, {
+          type: "folder",
+          id: generateId(),
+          name: tag,
+          items: [],
+        });
+      }
+      folders.get(tag)?.items.push(item);
+    });
+  });
+
+  // Declared tags without operations would only add empty folders
+  const usedFolders = [...folders.values()].filter(
+    (folder) => folder.items.length > 0
+  );
+
+  return {
+    collection: {
+      id: generateId(),
+      name,
+      items: [...usedFolders, ...rootItems],
+      variables,
+    },
+    summary: {
+      collectionName: name,
+      requests,
+      folders: usedFolders.length,
+      warnings: report.toList(),
+    },
+  };
+}
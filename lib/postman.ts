@@ -0,0 +1,756 @@
+import { generateId } from "@/lib/utils";
+import { ImportReport, type ImportResult } from "@/lib/import-report";
+import { DEFAULT_AUTH, type AuthConfig } from "@/lib/auth";
+import type { Assertion } from "@/lib/assertions";
+import {
+  buildUrlWithParams,
+  syncParamsWithUrl,
+  type QueryParam,
+} from "@/lib/query-params";
+import type {
+  BodyType,
+  FormField,
+  MultipartField,
+  RawLanguage,
+} from "@/lib/request-body";
+import type {
+  Collection,
+  CollectionItem,
+  CollectionVariable,
+  RequestData,
+} from "@/lib/collections";
+
+export const POSTMAN_SCHEMA_V21 =
+  "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+
+// Minimal typings of the Postman Collection v2.1 format; only the fields
+// this tool reads or writes are listed.
+interface PostmanKeyValue {
+  key: string;
+  value?: string;
+  disabled?: boolean;
+  type?: string;
+  src?: string | string[] | null;
+  description?: unknown;
+}
+
+interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string | string[];
+  path?: string | string[];
+  query?: PostmanKeyValue[];
+  variable?: PostmanKeyValue[];
+}
+
+type PostmanAuthAttributes = PostmanKeyValue[] | Record<string, unknown>;
+
+interface PostmanAuth {
+  type: string;
+  [attributes: string]: PostmanAuthAttributes | string | undefined;
+}
+
+interface PostmanBody {
+  mode?: string;
+  raw?: string;
+  urlencoded?: PostmanKeyValue[];
+  formdata?: PostmanKeyValue[];
+  file?: { src?: string | null };
+  graphql?: { query?: string; variables?: string };
+  options?: { raw?: { language?: string } };
+  disabled?: boolean;
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanKeyValue[] | string;
+  body?: PostmanBody;
+  auth?: PostmanAuth | null;
+  description?: unknown;
+}
+
+interface PostmanEvent {
+  listen?: string;
+  script?: { type?: string; exec?: string[] | string };
+  disabled?: boolean;
+}
+
+interface PostmanItem {
+  name?: string;
+  item?: PostmanItem[];
+  request?: PostmanRequest | string;
+  response?: unknown[];
+  event?: PostmanEvent[];
+  auth?: PostmanAuth | null;
+  description?: unknown;
+}
+
+export interface PostmanCollection {
+  info: { name: string; schema: string; _postman_id?: string };
+  item: PostmanItem[];
+  auth?: PostmanAuth | null;
+  event?: PostmanEvent[];
+  variable?: PostmanKeyValue[];
+}
+
+const RAW_LANGUAGES: Record<string, RawLanguage> = {
+  text: "text",
+  xml: "xml",
+  html: "html",
+  javascript: "text",
+};
+
+function readAuthAttributes(
+  attributes: PostmanAuthAttributes | string | undefined
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (Array.isArray(attributes)) {
+    // v2.1 stores attributes as a key/value list
+    attributes.forEach((attribute) => {
+      values[attribute.key] = String(attribute.value ?? "");
+    });
+  } else if (attributes && typeof attributes === "object") {
+    // v2.0 stored them as a plain object
+    Object.entries(attributes).forEach(([key, value]) => {
+      values[key] = String(value ?? "");
+    });
+  }
+  return values;
+}
+
+function importAuth(
+  auth: PostmanAuth,
+  itemName: string,
+  report: ImportReport
+): AuthConfig {
+  const values = readAuthAttributes(auth[auth.type]);
+
+  switch (auth.type) {
+    case "noauth":
+      return DEFAULT_AUTH;
+    case "basic":
+      return {
+        ...DEFAULT_AUTH,
+        type: "basic",
+        basic: {
+          username: values.username ?? "",
+          password: values.password ?? "",
+        },
+      };
+    case "bearer":
+      return {
+        ...DEFAULT_AUTH,
+        type: "bearer",
+        bearer: { token: values.token ?? "" },
+      };
+    case "apikey":
+      return {
+        ...DEFAULT_AUTH,
+        type: "apikey",
+        apikey: {
+          key: values.key ?? DEFAULT_AUTH.apikey.key,
+          value: values.value ?? "",
+          addTo: values.in === "query" ? "query" : "header",
+        },
+      };
+    case "oauth2": {
+      if (values.grant_type && values.grant_type !== "client_credentials") {
+        report.warn(
+          `OAuth 2.0 grant type "${values.grant_type}" is not supported; ` +
+            "the client credentials settings were kept",
+          itemName
+        );
+      }
+      return {
+        ...DEFAULT_AUTH,
+        type: "oauth2",
+        oauth2: {
+          tokenUrl: values.accessTokenUrl ?? "",
+          clientId: values.clientId ?? "",
+          clientSecret: values.clientSecret ?? "",
+          scope: values.scope ?? "",
+          clientAuthentication:
+            values.client_authentication === "body" ? "body" : "header",
+        },
+      };
+    }
+    default:
+      report.warn(
+        `"${auth.type}" auth is not supported and was replaced with No Auth`,
+        itemName
+      );
+      return DEFAULT_AUTH;
+  }
+}
+
+function joinParts(parts: string | string[] | undefined, separator: string) {
+  return Array.isArray(parts) ? parts.join(separator) : (parts ?? "");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function importUrl(
+  url: string | PostmanUrl | undefined,
+  itemName: string,
+  report: ImportReport
+): { url: string; params: QueryParam[] } {
+  if (!url) return { url: "", params: [] };
+  if (typeof url === "string") {
+    return { url, params: syncParamsWithUrl(url, []) };
+  }
+
+  const query: QueryParam[] = (url.query ?? []).map((param) => ({
+    id: generateId(),
+    key: param.key ?? "",
+    value: param.value ?? "",
+    enabled: !param.disabled,
+  }));
+
+  const host = joinParts(url.host, ".");
+  const path = joinParts(url.path, "/");
+  const protocol = url.protocol ? `${url.protocol}://` : "";
+  const raw =
+    url.raw ||
+    buildUrlWithParams(`${protocol}${host}${path ? `/${path}` : ""}`, query);
+
+  // Path variables (/users/:id) become literal values in the URL
+  const variables = url.variable ?? [];
+  if (variables.length > 0) {
+    report.warn(
+      "Path variables were replaced with their current values",
+      itemName
+    );
+  }
+  const resolved = variables.reduce(
+    (result, { key, value }) =>
+      value
+        ? result.replace(
+            new RegExp(`:${escapeRegExp(key)}(?=[/?#]|$)`),
+            // A function keeps $ in the value from being read as a pattern
+            () => value
+          )
+        : result,
+    raw
+  );
+
+  // The query list also holds disabled params that the raw URL omits;
+  // enabled rows take their values from the URL as written
+  return { url: resolved, params: syncParamsWithUrl(resolved, query) };
+}
+
+function importBody(
+  body: PostmanBody | undefined,
+  headers: RequestData["headers"],
+  itemName: string,
+  report: ImportReport
+): Pick<
+  RequestData,
+  | "body"
+  | "bodyType"
+  | "rawLanguage"
+  | "formFields"
+  | "multipartFields"
+  | "graphql"
+> {
+  const empty = {
+    body: "",
+    bodyType: "json" as BodyType,
+    formFields: [] as FormField[],
+    multipartFields: [] as MultipartField[],
+  };
+  if (!body || body.disabled) return empty;
+
+  switch (body.mode) {
+    case "raw": {
+      const language = body.options?.raw?.language;
+      const contentType =
+        headers
+          .find((header) => header.key.toLowerCase() === "content-type")
+          ?.value.toLowerCase() ?? "";
+      if (language === "json" || (!language && contentType.includes("json"))) {
+        return { ...empty, body: body.raw ?? "" };
+      }
+      return {
+        ...empty,
+        body: body.raw ?? "",
+        bodyType: "raw",
+        rawLanguage: RAW_LANGUAGES[language ?? "text"] ?? "text",
+      };
+    }
+    case "urlencoded":
+      return {
+        ...empty,
+        bodyType: "urlencoded",
+        formFields: (body.urlencoded ?? []).map((field) => ({
+          id: generateId(),
+          key: field.key ?? "",
+          value: field.value ?? "",
+          enabled: !field.disabled,
+        })),
+      };
+    case "formdata": {
+      const fields = body.formdata ?? [];
+      if (fields.some((field) => field.type === "file")) {
+        report.warn(
+          "Form-data files are not stored; choose them again before sending",
+          itemName
+        );
+      }
+      return {
+        ...empty,
+        bodyType: "multipart",
+        multipartFields: fields.map((field) => ({
+          id: generateId(),
+          key: field.key ?? "",
+          value: field.type === "file" ? "" : (field.value ?? ""),
+          enabled: !field.disabled,
+          type: field.type === "file" ? "file" : "text",
+        })),
+      };
+    }
+    case "file":
+      report.warn(
+        "Binary body files are not stored; choose them again before sending",
+        itemName
+      );
+      return { ...empty, bodyType: "binary" };
+    case "graphql":
+      return {
+        ...empty,
+        bodyType: "graphql",
+        graphql: {
+          query: body.graphql?.query ?? "",
+          variables: body.graphql?.variables ?? "",
+          operationName: "",
+        },
+      };
+    default:
+      if (body.mode) {
+        report.warn(`Body mode "${body.mode}" is not supported`, itemName);
+      }
+      return empty;
+  }
+}
+
+// Postman APIs the script sandbox doesn't provide, so scripts using them
+// fail once they run
+const UNSUPPORTED_SCRIPT_APIS: Array<[RegExp, string]> = [
+  [/\.to\.|\.to\b\s*\(/, "Chai assertions like pm.expect(x).to"],
+  [/\bpm\.collectionVariables\b/, "pm.collectionVariables"],
+  [/\bpm\.globals\b/, "pm.globals"],
+  [/\bpm\.variables\.(?:set|unset)\b/, "pm.variables.set"],
+  [/\bpm\.sendRequest\b/, "pm.sendRequest"],
+  [/\bpm\.cookies\b/, "pm.cookies"],
+  [/\bpm\.(?:iterationData|info|execution)\b/, "collection run info"],
+  [/\bpostman\./, "the legacy postman object"],
+  [/\btests\s*\[/, "the legacy tests object"],
+];
+
+function importScript(
+  events: PostmanEvent[] | undefined,
+  listen: "prerequest" | "test",
+  itemName: string,
+  report: ImportReport
+): string {
+  const script = (events ?? [])
+    .filter((event) => event.listen === listen && !event.disabled)
+    .map(({ script }) =>
+      Array.isArray(script?.exec)
+        ? script.exec.join("\n")
+        : (script?.exec ?? "")
+    )
+    .join("\n")
+    .trim();
+
+  const unsupported = UNSUPPORTED_SCRIPT_APIS.filter(([pattern]) =>
+    pattern.test(script)
+  ).map(([, api]) => api);
+  if (unsupported.length > 0) {
+    const kind = listen === "test" ? "Test" : "Pre-request";
+    report.warn(
+      `${kind} script uses unsupported APIs and will fail: ${unsupported.join(", ")}`,
+      itemName
+    );
+  }
+  return script;
+}
+
+function importRequest(
+  item: PostmanItem,
+  inheritedAuth: AuthConfig,
+  report: ImportReport
+): RequestData {
+  const name = item.name ?? "Untitled Request";
+  const request: PostmanRequest =
+    typeof item.request === "string"
+      ? { method: "GET", url: item.request }
+      : (item.request ?? {});
+
+  const headerList = Array.isArray(request.header) ? request.header : [];
+  if (headerList.some((header) => header.disabled)) {
+    report.warn("Disabled headers are not supported and were skipped", name);
+  }
+  const headers = headerList
+    .filter((header) => !header.disabled)
+    .map((header) => ({
+      id: generateId(),
+      key: header.key ?? "",
+      value: header.value ?? "",
+    }));
+
+  if (item.response && item.response.length > 0) {
+    report.warn("Saved example responses were not imported", name);
+  }
+  if (request.description || item.description) {
+    report.warn("Descriptions were not imported", name);
+  }
+
+  const { url, params } = importUrl(request.url, name, report);
+
+  return {
+    method: (request.method ?? "GET").toUpperCase(),
+    url,
+    params,
+    headers,
+    ...importBody(request.body, headers, name, report),
+    // A missing auth block means "inherit from parent"
+    auth: request.auth ? importAuth(request.auth, name, report) : inheritedAuth,
+    executionMode: "browser",
+    preRequestScript: importScript(item.event, "prerequest", name, report),
+    testScript: importScript(item.event, "test", name, report),
+  };
+}
+
+function importItems(
+  items: PostmanItem[],
+  inheritedAuth: AuthConfig,
+  report: ImportReport,
+  counts: { requests: number; folders: number }
+): CollectionItem[] {
+  return items.map((item): CollectionItem => {
+    const name = item.name ?? "Untitled";
+
+    if (Array.isArray(item.item)) {
+      counts.folders++;
+      if (item.event && item.event.length > 0) {
+        report.warn("Folder-level scripts were not imported", name);
+      }
+      const folderAuth = item.auth
+        ? importAuth(item.auth, name, report)
+        : inheritedAuth;
+      return {
+        type: "folder",
+        id: generateId(),
+        name,
+        items: importItems(item.item, folderAuth, report, counts),
+      };
+    }
+
+    counts.requests++;
+    return {
+      type: "request",
+      id: generateId(),
+      name,
+      request: importRequest(item, inheritedAuth, report),
+    };
+  });
+}
+
+/**
+ * Converts a Postman Collection v2.1 (or v2.0) export into a collection.
+ * Throws if the JSON is not a Postman collection.
+ */
+export function importPostmanCollection(json: unknown): ImportResult {
+  const data = json as Partial<PostmanCollection> | null;
+  if (
+    !data ||
+    typeof data !== "object" ||
+    !data.info ||
+    !Array.isArray(data.item)
+  ) {
+    throw new Error("This file is not a Postman collection");
+  }
+  if (
+    typeof data.info.schema === "string" &&
+    data.info.schema.includes("v1.")
+  ) {
+    throw new Error("Postman Collection v1 is not supported; export as v2.1");
+  }
+
+  const name = data.info.name || "Imported Collection";
+  const report = new ImportReport();
+  const counts = { requests: 0, folders: 0 };
+
+  const collectionAuth = data.auth
+    ? importAuth(data.auth, name, report)
+    : DEFAULT_AUTH;
+
+  if (data.event && data.event.length > 0) {
+    report.warn("Collection-level scripts were not imported", name);
+  }
+
+  const variableList = data.variable ?? [];
+  if (variableList.some((variable) => variable.disabled)) {
+    report.warn("Disabled collection variables were skipped", name);
+  }
+  const variables: CollectionVariable[] = variableList
+    .filter((variable) => !variable.disabled && variable.key)
+    .map((variable) => ({
+      id: generateId(),
+      key: variable.key,
+      value: String(variable.value ?? ""),
+    }));
+
+  const items = importItems(data.item, collectionAuth, report, counts);
+
+  return {
+    collection: { id: generateId(), name, items, variables },
+    summary: {
+      collectionName: name,
+      requests: counts.requests,
+      folders: counts.folders,
+      warnings: report.toList(),
+    },
+  };
+}
+
+function exportAuth(auth: AuthConfig | undefined): PostmanAuth {
+  const attributes = (values: Record<string, string>) =>
+    Object.entries(values).map(([key, value]) => ({
+      key,
+      value,
+      type: "string",
+    }));
+
+  switch (auth?.type) {
+    case "basic":
+      return { type: "basic", basic: attributes({ ...auth.basic }) };
+    case "bearer":
+      return { type: "bearer", bearer: attributes({ ...auth.bearer }) };
+    case "apikey":
+      return {
+        type: "apikey",
+        apikey: attributes({
+          key: auth.apikey.key,
+          value: auth.apikey.value,
+          in: auth.apikey.addTo,
+        }),
+      };
+    case "oauth2":
+      return {
+        type: "oauth2",
+        oauth2: attributes({
+          grant_type: "client_credentials",
+          accessTokenUrl: auth.oauth2.tokenUrl,
+          clientId: auth.oauth2.clientId,
+          clientSecret: auth.oauth2.clientSecret,
+          scope: auth.oauth2.scope,
+          client_authentication: auth.oauth2.clientAuthentication,
+        }),
+      };
+    default:
+      return { type: "noauth" };
+  }
+}
+
+function exportUrl(request: RequestData): PostmanUrl {
+  const params = request.params ?? syncParamsWithUrl(request.url, []);
+  const url: PostmanUrl = { raw: request.url };
+
+  // Split the URL the way Postman does so disabled params survive
+  const match = request.url.match(
+    /^(?:([a-z][a-z0-9+.-]*):\/\/)?([^/?#]*)([^?#]*)/i
+  );
+  if (match) {
+    if (match[1]) url.protocol = match[1];
+    url.host = match[2].split(".");
+    const path = match[3].replace(/^\//, "");
+    if (path) url.path = path.split("/");
+  }
+  if (params.length > 0) {
+    url.query = params.map((param) => ({
+      key: param.key,
+      value: param.value,
+      ...(param.enabled ? {} : { disabled: true }),
+    }));
+  }
+  return url;
+}
+
+function exportBody(request: RequestData): PostmanBody | undefined {
+  switch (request.bodyType) {
+    case "urlencoded":
+      return {
+        mode: "urlencoded",
+        urlencoded: (request.formFields ?? []).map((field) => ({
+          key: field.key,
+          value: field.value,
+          ...(field.enabled ? {} : { disabled: true }),
+        })),
+      };
+    case "multipart":
+      return {
+        mode: "formdata",
+        formdata: (request.multipartFields ?? []).map((field) => ({
+          key: field.key,
+          ...(field.type === "file"
+            ? { type: "file", src: [] }
+            : { type: "text", value: field.value }),
+          ...(field.enabled ? {} : { disabled: true }),
+        })),
+      };
+    case "binary":
+      return { mode: "file", file: { src: null } };
+    case "graphql":
+      if (!request.graphql?.query) return undefined;
+      // Postman bodies have no field for the operation name
+      return {
+        mode: "graphql",
+        graphql: {
+          query: request.graphql.query,
+          variables: request.graphql.variables,
+        },
+      };
+    case "raw":
+      if (!request.body) return undefined;
+      return {
+        mode: "raw",
+        raw: request.body,
+        // Postman has no YAML language, so YAML is exported as text
+        options: {
+          raw: {
+            language:
+              request.rawLanguage === "yaml" ? "text" : request.rawLanguage,
+          },
+        },
+      };
+    default:
+      if (!request.body) return undefined;
+      return {
+        mode: "raw",
+        raw: request.body,
+        options: { raw: { language: "json" } },
+      };
+  }
+}
+
+const SIMPLE_JSON_PATH = /^\$((\.[A-Za-z_$][\w$]*)|(\[\d+\]))*$/;
+
+/**
+ * Writes an assertion as a pm.test() call that runs in Postman as well as
+ * here. JSON paths beyond plain properties and indexes have no equivalent,
+ * so they are kept as a comment.
+ */
+function exportAssertion({ type, target, value }: Assertion): string {
+  const expected = JSON.stringify(value);
+  switch (type) {
+    case "status":
+      return [
+        `pm.test(${JSON.stringify(`Status code is ${value}`)}, () => {`,
+        `  if (String(pm.response.code) !== ${expected}) {`,
+        `    throw new Error("Got " + pm.response.code);`,
+        "  }",
+        "});",
+      ].join("\n");
+    case "header":
+      return [
+        `pm.test(${JSON.stringify(`Header ${target} exists`)}, () => {`,
+        `  if (!pm.response.headers.has(${JSON.stringify(target)})) {`,
+        `    throw new Error("Missing header");`,
+        "  }",
+        "});",
+      ].join("\n");
+    case "time":
+      return [
+        `pm.test(${JSON.stringify(`Response time is below ${value}ms`)}, () => {`,
+        `  if (!(pm.response.responseTime < Number(${expected}))) {`,
+        `    throw new Error("Took " + pm.response.responseTime + "ms");`,
+        "  }",
+        "});",
+      ].join("\n");
+    case "jsonPath": {
+      if (!SIMPLE_JSON_PATH.test(target)) {
+        return `// JSON path check not exported: ${target}${value ? ` equals ${value}` : ""}`;
+      }
+      const access = target.slice(1).replace(/\./g, "?.").replace(/\[/g, "?.[");
+      const name = value ? `${target} equals ${value}` : `${target} exists`;
+      return [
+        `pm.test(${JSON.stringify(name)}, () => {`,
+        `  const value = pm.response.json()${access};`,
+        `  if (value === undefined) throw new Error("No match");`,
+        ...(value
+          ? [
+              `  const text = typeof value === "string" ? value : JSON.stringify(value);`,
+              `  if (text !== ${expected}) throw new Error("Got " + text);`,
+            ]
+          : []),
+        "});",
+      ].join("\n");
+    }
+  }
+}
+
+function exportEvents(request: RequestData): PostmanEvent[] {
+  const tests = [
+    request.testScript?.trim(),
+    ...(request.assertions ?? [])
+      .filter((assertion) => assertion.enabled)
+      .map(exportAssertion),
+  ].filter(Boolean);
+  const scripts: Array<[string, string | undefined]> = [
+    ["prerequest", request.preRequestScript],
+    ["test", tests.join("\n\n")],
+  ];
+  return scripts
+    .filter(([, script]) => script)
+    .map(([listen, script = ""]) => ({
+      listen,
+      script: { type: "text/javascript", exec: script.split("\n") },
+    }));
+}
+
+function exportItems(items: CollectionItem[]): PostmanItem[] {
+  return items.map((item) => {
+    if (item.type === "folder") {
+      return { name: item.name, item: exportItems(item.items) };
+    }
+    const { request } = item;
+    const body = exportBody(request);
+    const event = exportEvents(request);
+    return {
+      name: item.name,
+      ...(event.length > 0 ? { event } : {}),
+      request: {
+        method: request.method,
+        header: request.headers.map((header) => ({
+          key: header.key,
+          value: header.value,
+        })),
+        url: exportUrl(request),
+        ...(body ? { body } : {}),
+        auth: exportAuth(request.auth),
+      },
+      response: [],
+    };
+  });
+}
+
+export function exportPostmanCollection(
+  collection: Collection
+): PostmanCollection {
+  return {
+    info: {
+      _postman_id: collection.id,
+      name: collection.name,
+      schema: POSTMAN_SCHEMA_V21,
+    },
+    item: exportItems(collection.items),
+    variable: (collection.variables ?? []).map((variable) => ({
+      key: variable.key,
+      value: variable.value,
+    })),
+  };
+}
@@ -0,0 +1,79 @@
+import dns from "node:dns";
+import net from "node:net";
+
+// Loopback, private and link-local ranges, where cloud metadata services
+// like 169.254.169.254 live, plus others that aren't on the public internet
+const PRIVATE_RANGES = new net.BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 3],
+  ] as const
+).forEach(([network, prefix]) =>
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4")
+);
+(
+  [
+    ["::", 127],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6")
+);
+
+/** Thrown when the proxy is asked to reach a host on a private network. */
+export class PrivateNetworkError extends Error {
+  constructor(host: string, address: string) {
+    super(
+      host === address
+        ? `${host} is a private or local address`
+        : `${host} resolves to the private or local address ${address}`
+    );
+    this.name = "PrivateNetworkError";
+  }
+}
+
+/**
+ * Whether an IP address is outside the public internet. IPv4-mapped IPv6
+ * addresses are checked against the IPv4 ranges.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * A DNS lookup for http.request that fails for hosts resolving to a private
+ * address. Checking the address the socket connects to, rather than the
+ * name, keeps DNS rebinding from getting around it.
+ */
+export const lookupPublicAddress = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (
+    error: Error | null,
+    address: string | dns.LookupAddress[],
+    family?: number
+  ) => void
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      return callback(new PrivateNetworkError(hostname, blocked.address), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
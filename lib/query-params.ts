@@ -0,0 +1,114 @@
+import { generateId } from "@/lib/utils";
+
+export interface QueryParam {
+  id: string;
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+const PLACEHOLDER_PATTERN = /(\{\{[^{}]*\}\})/;
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    // Malformed escape sequences are shown exactly as typed
+    return value;
+  }
+}
+
+/**
+ * Percent-encodes a query key or value while leaving {{variable}}
+ * placeholders intact so they can still be resolved at send time.
+ */
+export function encodeQueryComponent(value: string): string {
+  return value
+    .split(PLACEHOLDER_PATTERN)
+    .map((part) =>
+      PLACEHOLDER_PATTERN.test(part) ? part : encodeURIComponent(part)
+    )
+    .join("");
+}
+
+/** Splits a URL into the part before the query, the query and the hash. */
+function splitUrl(url: string): { base: string; query: string; hash: string } {
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutHash.indexOf("?");
+
+  if (queryIndex === -1) {
+    return { base: withoutHash, query: "", hash };
+  }
+  return {
+    base: withoutHash.slice(0, queryIndex),
+    query: withoutHash.slice(queryIndex + 1),
+    hash,
+  };
+}
+
+export function parseQueryParams(url: string): Array<{ key: string; value: string }> {
+  const { query } = splitUrl(url);
+  if (!query) return [];
+
+  return query
+    .split("&")
+    .filter((pair) => pair.length > 0)
+    .map((pair) => {
+      const separator = pair.indexOf("=");
+      if (separator === -1) {
+        return { key: safeDecode(pair), value: "" };
+      }
+      return {
+        key: safeDecode(pair.slice(0, separator)),
+        value: safeDecode(pair.slice(separator + 1)),
+      };
+    });
+}
+
+/** Rewrites the query string of `url` from the enabled rows of `params`. */
+export function buildUrlWithParams(url: string, params: QueryParam[]): string {
+  const { base, hash } = splitUrl(url);
+
+  const query = params
+    .filter((param) => param.enabled && (param.key || param.value))
+    .map((param) =>
+      param.value
+        ? `${encodeQueryComponent(param.key)}=${encodeQueryComponent(param.value)}`
+        : encodeQueryComponent(param.key)
+    )
+    .join("&");
+
+  return `${base}${query ? `?${query}` : ""}${hash}`;
+}
+
+/**
+ * Rebuilds the params table after the URL was edited by hand. Enabled rows
+ * are replaced in order by what the URL now contains (reusing their ids so
+ * inputs keep focus), while disabled rows stay where they were because they
+ * are not represented in the URL.
+ */
+export function syncParamsWithUrl(
+  url: string,
+  current: QueryParam[]
+): QueryParam[] {
+  const parsed = parseQueryParams(url);
+  const result: QueryParam[] = [];
+  let next = 0;
+
+  current.forEach((param) => {
+    if (!param.enabled) {
+      result.push(param);
+    } else if (next < parsed.length) {
+      result.push({ ...param, ...parsed[next] });
+      next += 1;
+    }
+  });
+
+  parsed.slice(next).forEach((entry) => {
+    result.push({ id: generateId(), ...entry, enabled: true });
+  });
+
+  return result;
+}
@@ -0,0 +1,179 @@
+import { buildGraphqlBody, type GraphqlBody } from "@/lib/graphql";
+
+export type BodyType =
+  | "json"
+  | "urlencoded"
+  | "multipart"
+  | "raw"
+  | "binary"
+  | "graphql";
+
+export type RawLanguage = "text" | "xml" | "yaml" | "html";
+
+export interface FormField {
+  id: string;
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+/**
+ * File fields only record their type; the selected File is kept in memory
+ * by id since it cannot be serialized into the saved draft.
+ */
+export interface MultipartField extends FormField {
+  type: "text" | "file";
+}
+
+export const BODY_TYPE_LABELS: Record<BodyType, string> = {
+  json: "JSON",
+  urlencoded: "x-www-form-urlencoded",
+  multipart: "form-data",
+  raw: "Raw",
+  binary: "Binary",
+  graphql: "GraphQL",
+};
+
+export const RAW_LANGUAGE_LABELS: Record<RawLanguage, string> = {
+  text: "Text",
+  xml: "XML",
+  yaml: "YAML",
+  html: "HTML",
+};
+
+const RAW_CONTENT_TYPES: Record<RawLanguage, string> = {
+  text: "text/plain",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  html: "text/html",
+};
+
+/** Guesses the raw body language from a Content-Type or media type. */
+export function rawLanguageFor(contentType: string): RawLanguage {
+  if (contentType.includes("xml")) return "xml";
+  if (contentType.includes("yaml")) return "yaml";
+  if (contentType.includes("html")) return "html";
+  return "text";
+}
+
+// Key under which the file of a binary body is kept in the in-memory file map
+export const BINARY_FILE_KEY = "__binary__";
+
+/**
+ * Content-Type implied by a body type. Multipart returns null because the
+ * browser has to generate the header itself to include the boundary.
+ */
+export function getBodyContentType(
+  bodyType: BodyType,
+  rawLanguage: RawLanguage,
+  binaryFile?: File | null
+): string | null {
+  switch (bodyType) {
+    case "json":
+    case "graphql":
+      return "application/json";
+    case "urlencoded":
+      return "application/x-www-form-urlencoded";
+    case "multipart":
+      return null;
+    case "raw":
+      return RAW_CONTENT_TYPES[rawLanguage];
+    case "binary":
+      return binaryFile?.type || "application/octet-stream";
+  }
+}
+
+/**
+ * Sets (or with null, removes) the Content-Type row of a header list,
+ * keeping the position and id of an existing row.
+ */
+export function applyContentTypeHeader<
+  T extends { id: string; key: string; value: string },
+>(headers: T[], contentType: string | null, createId: () => string): T[] {
+  const isContentType = (header: T) =>
+    header.key.toLowerCase() === "content-type";
+
+  if (contentType === null) {
+    return headers.filter((header) => !isContentType(header));
+  }
+
+  if (headers.some(isContentType)) {
+    return headers.map((header) =>
+      isContentType(header) ? { ...header, value: contentType } : header
+    );
+  }
+
+  return [
+    { id: createId(), key: "Content-Type", value: contentType } as T,
+    ...headers,
+  ];
+}
+
+export function buildUrlEncodedBody(fields: FormField[]): string {
+  const params = new URLSearchParams();
+  fields
+    .filter((field) => field.enabled && field.key)
+    .forEach((field) => params.append(field.key, field.value));
+  return params.toString();
+}
+
+/**
+ * Builds multipart form data from the enabled fields. File fields are looked
+ * up by field id in `files`; a missing file is reported by field name.
+ */
+export function buildMultipartBody(
+  fields: MultipartField[],
+  files: Record<string, File>
+): FormData {
+  const formData = new FormData();
+  fields
+    .filter((field) => field.enabled && field.key)
+    .forEach((field) => {
+      if (field.type === "file") {
+        const file = files[field.id];
+        if (!file) {
+          throw new Error(`Select a file for form field "${field.key}"`);
+        }
+        formData.append(field.key, file, file.name);
+      } else {
+        formData.append(field.key, field.value);
+      }
+    });
+  return formData;
+}
+
+export interface RequestBodyInput {
+  bodyType: BodyType;
+  /** Text of JSON and raw bodies, already processed for sending */
+  body: string;
+  formFields: FormField[];
+  multipartFields: MultipartField[];
+  graphql: GraphqlBody;
+}
+
+/**
+ * Builds what fetch should send for the selected body type, or undefined
+ * when there is nothing to send.
+ */
+export function buildRequestBody(
+  input: RequestBodyInput,
+  files: Record<string, File>
+): string | FormData | Blob | undefined {
+  switch (input.bodyType) {
+    case "urlencoded":
+      return buildUrlEncodedBody(input.formFields) || undefined;
+    case "multipart":
+      return buildMultipartBody(input.multipartFields, files);
+    case "binary": {
+      const file = files[BINARY_FILE_KEY];
+      if (!file) {
+        throw new Error("Select a file to send as the binary body");
+      }
+      return file;
+    }
+    case "graphql":
+      return buildGraphqlBody(input.graphql);
+    default:
+      return input.body || undefined;
+  }
+}
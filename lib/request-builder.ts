@@ -0,0 +1,128 @@
+import { resolveAuthVariables, type AuthConfig } from "@/lib/auth";
+import type { GraphqlBody } from "@/lib/graphql";
+import type {
+  BodyType,
+  FormField,
+  MultipartField,
+} from "@/lib/request-body";
+import { resolveVariables } from "@/lib/variables";
+
+export const METHODS_WITH_BODY = ["POST", "PUT", "PATCH"];
+
+/** The parts of the editor state that describe what gets sent. */
+export interface RequestDraft {
+  method: string;
+  url: string;
+  headers: Array<{ key: string; value: string }>;
+  body: string;
+  bodyType: BodyType;
+  formFields: FormField[];
+  multipartFields: MultipartField[];
+  graphql: GraphqlBody;
+  auth: AuthConfig;
+}
+
+/**
+ * Turns content wrapped in ``` into an escaped JSON string literal, so HTML
+ * can be pasted into a JSON body without escaping quotes by hand.
+ */
+export function expandTripleBackticks(text: string): string {
+  return text.replace(/```([\s\S]*?)```/g, (match, content: string) => {
+    const escaped = content
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, "\\n")
+      .replace(/\r/g, "\\r")
+      .replace(/\t/g, "\\t");
+    return `"${escaped}"`;
+  });
+}
+
+/**
+ * Substitutes {{variables}} everywhere they can appear in a draft. Disabled
+ * form fields are dropped, and only the body of the selected type is
+ * resolved so leftovers from other body types are not reported.
+ */
+export function resolveRequestDraft(
+  draft: RequestDraft,
+  variables: Record<string, string>
+): { draft: RequestDraft; unresolved: string[] } {
+  const unresolved = new Set<string>();
+  const resolve = (text: string) => {
+    const result = resolveVariables(text, variables);
+    result.unresolved.forEach((name) => unresolved.add(name));
+    return result.value;
+  };
+  const resolveField = <T extends FormField>(field: T): T => ({
+    ...field,
+    key: resolve(field.key),
+    value: resolve(field.value),
+  });
+
+  const hasTextBody = draft.bodyType === "json" || draft.bodyType === "raw";
+  const resolvedAuth = resolveAuthVariables(draft.auth, variables);
+  resolvedAuth.unresolved.forEach((name) => unresolved.add(name));
+
+  return {
+    draft: {
+      ...draft,
+      url: resolve(draft.url.trim()),
+      headers: draft.headers.map((header) => ({
+        ...header,
+        key: resolve(header.key),
+        value: resolve(header.value),
+      })),
+      body: hasTextBody ? resolve(draft.body) : draft.body,
+      formFields:
+        draft.bodyType === "urlencoded"
+          ? draft.formFields.filter((field) => field.enabled).map(resolveField)
+          : [],
+      multipartFields:
+        draft.bodyType === "multipart"
+          ? draft.multipartFields
+              .filter((field) => field.enabled)
+              // File fields have no text value to substitute
+              .map((field) =>
+                resolveField(
+                  field.type === "file" ? { ...field, value: "" } : field
+                )
+              )
+          : [],
+      graphql:
+        draft.bodyType === "graphql"
+          ? {
+              ...draft.graphql,
+              query: resolve(draft.graphql.query),
+              variables: resolve(draft.graphql.variables),
+            }
+          : draft.graphql,
+      auth: resolvedAuth.auth,
+    },
+    unresolved: [...unresolved],
+  };
+}
+
+/** Defaults URLs typed without a scheme to https. */
+export function withProtocol(url: string): string {
+  return url.startsWith("http://") || url.startsWith("https://")
+    ? url
+    : `https://${url}`;
+}
+
+/**
+ * Collects the headers that are actually sent: rows with an empty name or
+ * value are skipped, and so is Content-Type on GET requests since it can
+ * trigger needless CORS preflights.
+ */
+export function buildHeaderRecord(
+  method: string,
+  headers: Array<{ key: string; value: string }>
+): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach(({ key, value }) => {
+    if (!key || !value) return;
+    if (method === "GET" && key.toLowerCase() === "content-type") return;
+    record[key] = value;
+  });
+  return record;
+}
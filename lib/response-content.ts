@@ -0,0 +1,129 @@
+import { decodeBase64, type ApiResponse } from "@/lib/http-client";
+
+/** How the response panel renders a body. */
+export type ResponseViewKind =
+  | "json"
+  | "html"
+  | "xml"
+  | "image"
+  | "pdf"
+  | "text"
+  | "binary"
+  | "stream";
+
+const TEXT_CONTENT_TYPES = [
+  "json",
+  "xml",
+  "javascript",
+  "ecmascript",
+  "x-www-form-urlencoded",
+  "graphql",
+  "yaml",
+  "csv",
+];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "application/json": "json",
+  "application/xml": "xml",
+  "application/pdf": "pdf",
+  "application/zip": "zip",
+  "application/gzip": "gz",
+  "application/javascript": "js",
+  "text/html": "html",
+  "text/xml": "xml",
+  "text/css": "css",
+  "text/csv": "csv",
+  "text/plain": "txt",
+  "text/javascript": "js",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "image/x-icon": "ico",
+  "image/vnd.microsoft.icon": "ico",
+};
+
+const HEX_DUMP_LIMIT = 16 * 1024;
+
+/** The media type without parameters, e.g. "text/html". */
+export function getMimeType(headers: Record<string, string>): string {
+  const contentType = Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === "content-type"
+  )?.[1];
+  return contentType?.split(";")[0].trim().toLowerCase() ?? "";
+}
+
+/** Whether a body of this content type can be read as text. */
+export function isTextContentType(contentType: string): boolean {
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  return (
+    mimeType.startsWith("text/") ||
+    TEXT_CONTENT_TYPES.some((type) => mimeType.includes(type))
+  );
+}
+
+export function getResponseViewKind(response: ApiResponse): ResponseViewKind {
+  const mimeType = getMimeType(response.headers);
+
+  if (response.stream) return "stream";
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType === "application/pdf") return "pdf";
+  if (response.bodyEncoding === "base64") return "binary";
+  if (typeof response.data === "object" && response.data !== null) {
+    return "json";
+  }
+  if (mimeType === "text/html" || mimeType === "application/xhtml+xml") {
+    return "html";
+  }
+  if (mimeType.endsWith("/xml") || mimeType.endsWith("+xml")) return "xml";
+  return "text";
+}
+
+/** The body as it was received, for saving and previews. */
+export function getResponseBytes(response: ApiResponse): Uint8Array {
+  if (response.bodyEncoding === "base64") {
+    return decodeBase64(String(response.data));
+  }
+  const text =
+    typeof response.data === "string"
+      ? response.data
+      : JSON.stringify(response.data, null, 2);
+  return new TextEncoder().encode(text ?? "");
+}
+
+/** A download name such as "response.png", based on the content type. */
+export function getResponseFileName(response: ApiResponse): string {
+  const mimeType = getMimeType(response.headers);
+  const extension =
+    FILE_EXTENSIONS[mimeType] ??
+    (typeof response.data === "object" ? "json" : "bin");
+  return `response.${extension}`;
+}
+
+/**
+ * Formats bytes as offset, hex and ASCII columns like `hexdump -C`. Only the
+ * first 16 KB are shown, so large downloads don't freeze the panel.
+ */
+export function formatHexDump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  const end = Math.min(bytes.length, HEX_DUMP_LIMIT);
+
+  for (let offset = 0; offset < end; offset += 16) {
+    const row = bytes.subarray(offset, Math.min(offset + 16, end));
+    const hex = Array.from(row, (byte) => byte.toString(16).padStart(2, "0"));
+    const ascii = Array.from(row, (byte) =>
+      byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : "."
+    ).join("");
+    lines.push(
+      `${offset.toString(16).padStart(8, "0")}  ${hex
+        .slice(0, 8)
+        .join(" ")
+        .padEnd(23)}  ${hex.slice(8).join(" ").padEnd(23)}  |${ascii}|`
+    );
+  }
+  if (bytes.length > end) {
+    lines.push(`... ${bytes.length - end} more bytes`);
+  }
+  return lines.join("\n");
+}
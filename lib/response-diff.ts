@@ -0,0 +1,301 @@
+export type DiffKind = "added" | "removed" | "changed";
+
+export interface JsonDiffEntry {
+  /** JSONPath of the value, e.g. `$.items[0].id` */
+  path: string;
+  kind: DiffKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface HeaderDiffEntry {
+  name: string;
+  kind: DiffKind | "unchanged";
+  before?: string;
+  after?: string;
+}
+
+/** One row of a side-by-side text diff; changed rows pair two lines. */
+export interface TextDiffRow {
+  kind: DiffKind | "unchanged";
+  before?: string;
+  after?: string;
+  beforeLine?: number;
+  afterLine?: number;
+}
+
+type PathKey = string | number;
+
+interface LineOperation {
+  kind: "unchanged" | "removed" | "added";
+  text: string;
+}
+
+type PatternToken =
+  | { kind: "key"; key: string }
+  | { kind: "wildcard" }
+  | { kind: "descendant" };
+
+const PATTERN_TOKEN =
+  /^(?:\.\*|\[\*\]|\.([^.[\]]+)|\[(\d+)\]|\[(['"])(.*?)\3\])/;
+
+// Beyond this many line pairs the diff table would use too much memory
+const MAX_TEXT_DIFF_CELLS = 4_000_000;
+
+/**
+ * Parses an ignored path such as `$.items[*].id` or `$..updatedAt`. A path
+ * without a leading `$`, like `updatedAt`, matches at any depth.
+ */
+function parsePattern(pattern: string): PatternToken[] {
+  const trimmed = pattern.trim();
+  let rest = trimmed.startsWith("$")
+    ? trimmed.slice(1)
+    : trimmed.startsWith("..")
+      ? trimmed
+      : `..${trimmed}`;
+  const tokens: PatternToken[] = [];
+
+  while (rest) {
+    if (rest.startsWith("..")) {
+      tokens.push({ kind: "descendant" });
+      rest = rest[2] === "[" ? rest.slice(2) : `.${rest.slice(2)}`;
+      continue;
+    }
+    const match = PATTERN_TOKEN.exec(rest);
+    if (!match) {
+      throw new Error(`Unsupported ignored path "${pattern}"`);
+    }
+    const [token, name, index, , quoted] = match;
+    const key = name ?? index ?? quoted;
+    tokens.push(
+      key === undefined ? { kind: "wildcard" } : { kind: "key", key }
+    );
+    rest = rest.slice(token.length);
+  }
+  return tokens;
+}
+
+function matchesPattern(tokens: PatternToken[], path: PathKey[]): boolean {
+  if (tokens.length === 0) return path.length === 0;
+
+  const [token, ...rest] = tokens;
+  if (token.kind === "descendant") {
+    return path.some((_, i) => matchesPattern(rest, path.slice(i)));
+  }
+  if (path.length === 0) return false;
+  return (
+    (token.kind === "wildcard" || token.key === String(path[0])) &&
+    matchesPattern(rest, path.slice(1))
+  );
+}
+
+function formatPath(path: PathKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === "number") return `${result}[${key}]`;
+    return /^[A-Za-z_$][\w$]*$/.test(key)
+      ? `${result}.${key}`
+      : `${result}[${JSON.stringify(key)}]`;
+  }, "$");
+}
+
+function isContainer(value: unknown): value is object {
+  return value !== null && typeof value === "object";
+}
+
+function childKeys(before: object, after: object): PathKey[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return Array.from(
+      { length: Math.max(before.length, after.length) },
+      (_, i) => i
+    );
+  }
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])];
+}
+
+/**
+ * Compares two JSON values key by key and array element by element.
+ * Values at ignored paths, and everything below them, are skipped. Throws
+ * if an ignored path can't be parsed.
+ */
+export function diffJson(
+  before: unknown,
+  after: unknown,
+  ignoredPaths: string[] = []
+): JsonDiffEntry[] {
+  const patterns = ignoredPaths
+    .filter((path) => path.trim())
+    .map(parsePattern);
+  const entries: JsonDiffEntry[] = [];
+
+  const visit = (left: unknown, right: unknown, path: PathKey[]) => {
+    if (patterns.some((pattern) => matchesPattern(pattern, path))) return;
+
+    if (
+      isContainer(left) &&
+      isContainer(right) &&
+      Array.isArray(left) === Array.isArray(right)
+    ) {
+      for (const key of childKeys(left, right)) {
+        const childPath = [...path, key];
+        const inLeft = Object.prototype.hasOwnProperty.call(left, key);
+        const inRight = Object.prototype.hasOwnProperty.call(right, key);
+        const leftValue = (left as Record<PathKey, unknown>)[key];
+        const rightValue = (right as Record<PathKey, unknown>)[key];
+
+        if (inLeft && inRight) {
+          visit(leftValue, rightValue, childPath);
+        } else if (
+          !patterns.some((pattern) => matchesPattern(pattern, childPath))
+        ) {
+          const childPathText = formatPath(childPath);
+          entries.push(
+            inLeft
+              ? { path: childPathText, kind: "removed", before: leftValue }
+              : { path: childPathText, kind: "added", after: rightValue }
+          );
+        }
+      }
+    } else if (JSON.stringify(left) !== JSON.stringify(right)) {
+      entries.push({
+        path: formatPath(path),
+        kind: "changed",
+        before: left,
+        after: right,
+      });
+    }
+  };
+
+  visit(before, after, []);
+  return entries;
+}
+
+/** Compares headers by name, ignoring case, sorted by name. */
+export function diffHeaders(
+  before: Record<string, string>,
+  after: Record<string, string>
+): HeaderDiffEntry[] {
+  const normalize = (headers: Record<string, string>) =>
+    new Map(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ])
+    );
+  const left = normalize(before);
+  const right = normalize(after);
+  const names = [...new Set([...left.keys(), ...right.keys()])].sort();
+
+  return names.map((name) => {
+    const beforeValue = left.get(name);
+    const afterValue = right.get(name);
+    const kind =
+      beforeValue === undefined
+        ? "added"
+        : afterValue === undefined
+          ? "removed"
+          : beforeValue === afterValue
+            ? "unchanged"
+            : "changed";
+    return { name, kind, before: beforeValue, after: afterValue };
+  });
+}
+
+// Longest common subsequence of lines, as a list of edit operations
+function diffLines(before: string[], after: string[]): LineOperation[] {
+  const n = before.length;
+  const m = after.length;
+  if ((n + 1) * (m + 1) > MAX_TEXT_DIFF_CELLS) {
+    return [
+      ...before.map((text) => ({ kind: "removed" as const, text })),
+      ...after.map((text) => ({ kind: "added" as const, text })),
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] is the LCS length of before[i:] and after[j:]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(
+              lengths[(i + 1) * (m + 1) + j],
+              lengths[i * (m + 1) + j + 1]
+            );
+    }
+  }
+
+  const operations: LineOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      operations.push({ kind: "unchanged", text: before[i] });
+      i++;
+      j++;
+    } else if (
+      j >= m ||
+      (i < n &&
+        lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])
+    ) {
+      operations.push({ kind: "removed", text: before[i] });
+      i++;
+    } else {
+      operations.push({ kind: "added", text: after[j] });
+      j++;
+    }
+  }
+  return operations;
+}
+
+/**
+ * Diffs two texts line by line into side-by-side rows. Removed and added
+ * lines between two unchanged ones are paired up as changed rows.
+ */
+export function diffText(before: string, after: string): TextDiffRow[] {
+  const rows: TextDiffRow[] = [];
+  let beforeLine = 1;
+  let afterLine = 1;
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({
+        kind:
+          left === undefined
+            ? "added"
+            : right === undefined
+              ? "removed"
+              : "changed",
+        before: left,
+        after: right,
+        beforeLine: left === undefined ? undefined : beforeLine++,
+        afterLine: right === undefined ? undefined : afterLine++,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const operation of diffLines(before.split("\n"), after.split("\n"))) {
+    if (operation.kind === "removed") {
+      removed.push(operation.text);
+    } else if (operation.kind === "added") {
+      added.push(operation.text);
+    } else {
+      flush();
+      rows.push({
+        kind: "unchanged",
+        before: operation.text,
+        after: operation.text,
+        beforeLine: beforeLine++,
+        afterLine: afterLine++,
+      });
+    }
+  }
+  flush();
+  return rows;
+}
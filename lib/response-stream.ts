@@ -0,0 +1,171 @@
+export type StreamFormat = "sse" | "ndjson";
+
+export const STREAM_FORMAT_LABELS: Record<StreamFormat, string> = {
+  sse: "Server-Sent Events",
+  ndjson: "NDJSON",
+};
+
+const NDJSON_MIME_TYPES = [
+  "application/x-ndjson",
+  "application/ndjson",
+  "application/jsonl",
+  "application/x-jsonlines",
+  "application/jsonlines",
+];
+
+export interface StreamEvent {
+  /** Milliseconds after the request was sent */
+  time: number;
+  /** Event type and id of a server-sent event */
+  event?: string;
+  id?: string;
+  /** The event data, or one line of NDJSON */
+  data: string;
+}
+
+export interface ResponseStream {
+  format: StreamFormat;
+  events: StreamEvent[];
+  /** Milliseconds from the first byte to the end of the body, or until now */
+  duration: number;
+  /** Stopped streams were cancelled or timed out before they ended */
+  state: "streaming" | "done" | "stopped";
+}
+
+export type ParsedStreamEvent = Omit<StreamEvent, "time">;
+
+/** Pulls complete events out of a body as its text arrives. */
+export interface StreamParser {
+  push(text: string): ParsedStreamEvent[];
+  /** Returns what is left once the body has ended */
+  flush(): ParsedStreamEvent[];
+}
+
+// Long-lived streams are trimmed to their newest events
+export const MAX_STREAM_EVENTS = 5000;
+
+/** The stream format of a content type, or null for ordinary bodies. */
+export function getStreamFormat(
+  contentType: string | null | undefined
+): StreamFormat | null {
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase() ?? "";
+  if (mimeType === "text/event-stream") return "sse";
+  if (NDJSON_MIME_TYPES.includes(mimeType)) return "ndjson";
+  return null;
+}
+
+/**
+ * Splits text into lines as it arrives, holding back the unfinished last
+ * line. A CR at the end of a chunk may be the first half of a CRLF, so it is
+ * held back too.
+ */
+function createLineSplitter() {
+  let buffer = "";
+  return {
+    push(text: string): string[] {
+      buffer += text;
+      const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+      buffer = lines.pop() ?? "";
+      return lines;
+    },
+    flush(): string[] {
+      const rest = buffer.replace(/\r$/, "");
+      buffer = "";
+      return rest ? [rest] : [];
+    },
+  };
+}
+
+/** Parses text/event-stream bodies following the HTML specification. */
+export function createSseParser(): StreamParser {
+  const lines = createLineSplitter();
+  let data: string[] = [];
+  let event = "";
+  // The last event id carries over to later events that don't set one
+  let lastId = "";
+
+  const dispatch = (): ParsedStreamEvent[] => {
+    const pending = data;
+    const type = event;
+    data = [];
+    event = "";
+    if (pending.length === 0) return [];
+    return [
+      {
+        event: type || "message",
+        ...(lastId && { id: lastId }),
+        data: pending.join("\n"),
+      },
+    ];
+  };
+
+  const readLines = (input: string[]): ParsedStreamEvent[] => {
+    const events: ParsedStreamEvent[] = [];
+    for (const line of input) {
+      if (line === "") {
+        events.push(...dispatch());
+        continue;
+      }
+      // Lines starting with a colon are comments, often sent as keep-alives
+      if (line.startsWith(":")) continue;
+
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) value = value.slice(1);
+
+      switch (field) {
+        case "data":
+          data.push(value);
+          break;
+        case "event":
+          event = value;
+          break;
+        case "id":
+          if (!value.includes("\0")) lastId = value;
+          break;
+      }
+    }
+    return events;
+  };
+
+  return {
+    push: (text) => readLines(lines.push(text)),
+    // Servers that end without a blank line still get their last event shown
+    flush: () => [...readLines(lines.flush()), ...dispatch()],
+  };
+}
+
+/** Parses newline-delimited JSON, one event per non-empty line. */
+export function createNdjsonParser(): StreamParser {
+  const lines = createLineSplitter();
+  const toEvents = (input: string[]) =>
+    input.filter((line) => line.trim()).map((data) => ({ data }));
+  return {
+    push: (text) => toEvents(lines.push(text)),
+    flush: () => toEvents(lines.flush()),
+  };
+}
+
+export function createStreamParser(format: StreamFormat): StreamParser {
+  return format === "sse" ? createSseParser() : createNdjsonParser();
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether complete lines of a body served as application/json are separate
+ * JSON documents, as streaming endpoints like httpbin's /stream send. It
+ * takes two lines to tell them from a document that fits on one line.
+ */
+export function isNdjsonLines(lines: string[]): boolean {
+  const nonEmpty = lines.filter((line) => line.trim());
+  return nonEmpty.length >= 2 && nonEmpty.every(isJson);
+}
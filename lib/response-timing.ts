@@ -0,0 +1,60 @@
+export type TimingPhase =
+  "redirect" | "dns" | "connect" | "tls" | "wait" | "download";
+
+export const TIMING_PHASES: TimingPhase[] = [
+  "redirect",
+  "dns",
+  "connect",
+  "tls",
+  "wait",
+  "download",
+];
+
+export const TIMING_PHASE_LABELS: Record<TimingPhase, string> = {
+  redirect: "Redirects",
+  dns: "DNS Lookup",
+  connect: "TCP Connect",
+  tls: "TLS Handshake",
+  wait: "Time to First Byte",
+  download: "Content Download",
+};
+
+/**
+ * Milliseconds spent in each phase of a request sent by the server-side
+ * executor. Phases that didn't happen, like TLS for plain HTTP, are 0.
+ */
+export type ResponseTimings = Record<TimingPhase, number> & {
+  total: number;
+};
+
+/** Bytes sent and received, as they were on the wire. */
+export interface ResponseSizes {
+  requestHeaders: number;
+  requestBody: number;
+  responseHeaders: number;
+  /** Body bytes as received, before any content encoding is undone */
+  responseBody: number;
+  /** Body bytes after decompression; the same when nothing was encoded */
+  responseBodyDecoded: number;
+}
+
+export interface WaterfallSegment {
+  phase: TimingPhase;
+  /** Milliseconds after the request started */
+  start: number;
+  duration: number;
+}
+
+/** Lays the phases out one after another, leaving out the ones skipped. */
+export function getWaterfall(timings: ResponseTimings): WaterfallSegment[] {
+  const segments: WaterfallSegment[] = [];
+  let start = 0;
+  for (const phase of TIMING_PHASES) {
+    const duration = timings[phase];
+    if (duration > 0) {
+      segments.push({ phase, start, duration });
+    }
+    start += duration;
+  }
+  return segments;
+}
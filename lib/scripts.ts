@@ -0,0 +1,445 @@
+import { generateId } from "@/lib/utils";
+import type { EnvironmentVariable } from "@/hooks/use-environments";
+import type { ApiResponse } from "@/lib/http-client";
+import type { TestResult } from "@/lib/assertions";
+
+export type ConsoleLevel = "log" | "info" | "warn" | "error";
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  message: string;
+}
+
+/** The parts of a request a script can read and change. */
+export interface ScriptRequest {
+  method: string;
+  url: string;
+  headers: Array<{ key: string; value: string }>;
+  body: string;
+}
+
+/** Console output of a script run, shown in the response panel. */
+export interface ScriptOutput {
+  logs: ConsoleEntry[];
+  error?: string;
+}
+
+export interface ScriptResult extends ScriptOutput {
+  request: ScriptRequest;
+  /** Environment variables set by the script; null means it was unset */
+  environment: Record<string, string | null>;
+  /** Results of test() calls, only made by test scripts */
+  tests: TestResult[];
+}
+
+interface ScriptContext {
+  /** Variables of the active environment, changeable by the script */
+  environment: Record<string, string>;
+  /** Every variable the request can use, for pm.variables.get */
+  variables: Record<string, string>;
+}
+
+const SCRIPT_TIMEOUT = 5000;
+
+// Runs inside the worker. Kept as plain JavaScript in a string so the
+// bundler never rewrites it into something that refers to page modules.
+const WORKER_SOURCE = String.raw`
+const format = (value) => {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.name + ": " + value.message;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const toHex = (buffer) =>
+  Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+const encode = (text) => new TextEncoder().encode(String(text));
+
+const isEqual = (a, b) => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object") return false;
+  if (a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => isEqual(a[key], b[key]))
+  );
+};
+
+const quote = (value) =>
+  typeof value === "string" ? JSON.stringify(value) : format(value);
+
+const expect = (actual) => {
+  const matchers = (negated) => {
+    const check = (passed, description) => {
+      if (passed === negated) {
+        throw new Error(
+          "Expected " + quote(actual) + (negated ? " not " : " ") + description
+        );
+      }
+    };
+    return {
+      toBe: (expected) =>
+        check(Object.is(actual, expected), "to be " + quote(expected)),
+      toEqual: (expected) =>
+        check(isEqual(actual, expected), "to equal " + quote(expected)),
+      toBeTruthy: () => check(Boolean(actual), "to be truthy"),
+      toBeFalsy: () => check(!actual, "to be falsy"),
+      toBeDefined: () => check(actual !== undefined, "to be defined"),
+      toBeUndefined: () => check(actual === undefined, "to be undefined"),
+      toBeNull: () => check(actual === null, "to be null"),
+      toBeGreaterThan: (limit) =>
+        check(actual > limit, "to be greater than " + quote(limit)),
+      toBeLessThan: (limit) =>
+        check(actual < limit, "to be less than " + quote(limit)),
+      toContain: (item) =>
+        check(
+          (typeof actual === "string" || Array.isArray(actual)) &&
+            actual.includes(item),
+          "to contain " + quote(item)
+        ),
+      toMatch: (pattern) =>
+        check(
+          typeof actual === "string" &&
+            (pattern instanceof RegExp
+              ? pattern.test(actual)
+              : actual.includes(pattern)),
+          "to match " + String(pattern)
+        ),
+      toHaveProperty: (name) =>
+        check(
+          typeof actual === "object" && actual !== null && name in actual,
+          "to have property " + quote(name)
+        ),
+      toHaveLength: (length) =>
+        check(
+          actual != null && actual.length === length,
+          "to have length " + length
+        ),
+    };
+  };
+  return { ...matchers(false), not: matchers(true) };
+};
+
+// The worker shares the page's origin, so the usual ways to reach the
+// network or the page's storage (history, drafts and auth secrets in
+// IndexedDB) are removed before scripts run. Deleting from the prototypes as
+// well keeps scripts from calling the originals through them. import() is
+// syntax rather than a global, so it still loads, and can leak, any URL.
+const BLOCKED_GLOBALS = [
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "WebTransport",
+  "EventSource",
+  "importScripts",
+  "indexedDB",
+  "caches",
+  "navigator",
+  "Worker",
+  "SharedWorker",
+];
+for (
+  let target = self;
+  target && target !== Object.prototype;
+  target = Object.getPrototypeOf(target)
+) {
+  for (const name of BLOCKED_GLOBALS) {
+    if (Object.prototype.hasOwnProperty.call(target, name)) {
+      delete target[name];
+    }
+  }
+}
+const isLockedDown = BLOCKED_GLOBALS.every((name) => !(name in self));
+
+self.onmessage = async (event) => {
+  const { script, request, environment, variables } = event.data;
+  const logs = [];
+  const tests = [];
+  const pending = [];
+  const changes = {};
+  const env = { ...environment };
+  const headers = request.headers.map((header) => ({ ...header }));
+
+  const write = (level) => (...args) => {
+    logs.push({ level, message: args.map(format).join(" ") });
+  };
+  const sandboxConsole = {
+    log: write("log"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    debug: write("log"),
+  };
+
+  const indexOfHeader = (name) =>
+    headers.findIndex(
+      (header) => header.key.toLowerCase() === String(name).toLowerCase()
+    );
+  // Accepts both ({ key, value }) and (key, value)
+  const toHeader = (header, value) =>
+    typeof header === "object" && header !== null
+      ? { key: String(header.key), value: String(header.value ?? "") }
+      : { key: String(header), value: String(value ?? "") };
+
+  const pmRequest = {
+    method: request.method,
+    url: request.url,
+    body: request.body,
+    headers: {
+      get(name) {
+        const index = indexOfHeader(name);
+        return index === -1 ? undefined : headers[index].value;
+      },
+      has(name) {
+        return indexOfHeader(name) !== -1;
+      },
+      add(header, value) {
+        headers.push(toHeader(header, value));
+      },
+      upsert(header, value) {
+        const next = toHeader(header, value);
+        const index = indexOfHeader(next.key);
+        if (index === -1) headers.push(next);
+        else headers[index] = { ...headers[index], value: next.value };
+      },
+      remove(name) {
+        let index = indexOfHeader(name);
+        while (index !== -1) {
+          headers.splice(index, 1);
+          index = indexOfHeader(name);
+        }
+      },
+      toObject() {
+        return Object.fromEntries(
+          headers.map((header) => [header.key, header.value])
+        );
+      },
+    },
+  };
+
+  const response = event.data.response && {
+    status: event.data.response.status,
+    statusText: event.data.response.statusText,
+    headers: event.data.response.headers,
+    body: event.data.response.data,
+    time: event.data.response.time,
+  };
+
+  // Results keep the order of the test() calls, even for async tests
+  const test = (name, fn) => {
+    const result = { name: String(name), passed: true };
+    tests.push(result);
+    pending.push(
+      (async () => {
+        try {
+          await fn();
+        } catch (error) {
+          result.passed = false;
+          result.message =
+            error instanceof Error ? error.message : format(error);
+        }
+      })()
+    );
+  };
+
+  const pm = {
+    request: pmRequest,
+    response: response && {
+      code: response.status,
+      status: response.statusText,
+      responseTime: response.time,
+      headers: {
+        get: (name) => response.headers[String(name).toLowerCase()],
+        has: (name) => String(name).toLowerCase() in response.headers,
+      },
+      json: () =>
+        typeof response.body === "string"
+          ? JSON.parse(response.body)
+          : response.body,
+      text: () =>
+        typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body),
+    },
+    test,
+    expect,
+    environment: {
+      get: (key) => env[key],
+      has: (key) => key in env,
+      set(key, value) {
+        env[key] = String(value);
+        changes[key] = env[key];
+      },
+      unset(key) {
+        delete env[key];
+        changes[key] = null;
+      },
+      toObject: () => ({ ...env }),
+    },
+    variables: {
+      get: (key) =>
+        key in changes ? (changes[key] ?? undefined) : variables[key],
+      has: (key) =>
+        key in changes ? changes[key] !== null : key in variables,
+    },
+    crypto: {
+      sha256: async (text) =>
+        toHex(await crypto.subtle.digest("SHA-256", encode(text))),
+      hmacSha256: async (secret, text) => {
+        const key = await crypto.subtle.importKey(
+          "raw",
+          encode(secret),
+          { name: "HMAC", hash: "SHA-256" },
+          false,
+          ["sign"]
+        );
+        return toHex(await crypto.subtle.sign("HMAC", key, encode(text)));
+      },
+    },
+  };
+
+  const finish = (error) =>
+    self.postMessage({
+      request: {
+        method: String(pmRequest.method).toUpperCase(),
+        url: String(pmRequest.url),
+        headers,
+        body: String(pmRequest.body ?? ""),
+      },
+      environment: changes,
+      logs,
+      tests,
+      error,
+    });
+
+  try {
+    // Better not to run at all than to run with the network reachable
+    if (!isLockedDown) {
+      throw new Error("Scripts can't be run safely in this browser");
+    }
+    const run = new Function(
+      "pm",
+      "console",
+      "test",
+      "expect",
+      "response",
+      '"use strict"; return (async () => {\n' + script + "\n})();"
+    );
+    await run(pm, sandboxConsole, test, expect, response);
+    await Promise.all(pending);
+    finish();
+  } catch (error) {
+    finish(format(error));
+  }
+};
+`;
+
+function runScript(
+  script: string,
+  request: ScriptRequest,
+  response: ApiResponse | undefined,
+  { environment, variables }: ScriptContext
+): Promise<ScriptResult> {
+  return new Promise((resolve) => {
+    const sourceUrl = URL.createObjectURL(
+      new Blob([WORKER_SOURCE], { type: "text/javascript" })
+    );
+    const worker = new Worker(sourceUrl);
+
+    const done = (result: ScriptResult) => {
+      clearTimeout(timer);
+      worker.terminate();
+      URL.revokeObjectURL(sourceUrl);
+      resolve(result);
+    };
+    const fail = (error: string) =>
+      done({ request, environment: {}, logs: [], tests: [], error });
+
+    const timer = setTimeout(
+      () =>
+        fail(`Script did not finish within ${SCRIPT_TIMEOUT / 1000} seconds`),
+      SCRIPT_TIMEOUT
+    );
+    worker.onmessage = (event: MessageEvent<ScriptResult>) =>
+      done(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      fail(event.message || "Script failed");
+    };
+
+    worker.postMessage({ script, request, response, environment, variables });
+  });
+}
+
+/**
+ * Runs a pre-request script in a Web Worker, away from the page's DOM, with
+ * a Postman-like `pm` object for changing the request and environment.
+ * fetch, IndexedDB and other storage and network APIs are removed, but this
+ * is not a security boundary: a dynamic import() can still send data to any
+ * server, so only run scripts you trust. Scripts are stopped after a few
+ * seconds; errors are returned rather than thrown.
+ */
+export function runPreRequestScript(
+  script: string,
+  request: ScriptRequest,
+  context: ScriptContext
+): Promise<ScriptResult> {
+  return runScript(script, request, undefined, context);
+}
+
+/**
+ * Runs a test script against a response in the same sandbox. Besides `pm`,
+ * the script gets `response` (status, headers, parsed body and time),
+ * `test(name, fn)` to record a result and Jest-style `expect` matchers.
+ */
+export function runTestScript(
+  script: string,
+  request: ScriptRequest,
+  response: ApiResponse,
+  context: ScriptContext
+): Promise<ScriptResult> {
+  return runScript(script, request, response, context);
+}
+
+/** Applies environment changes made by a script to a variable list. */
+export function applyVariableChanges(
+  rows: EnvironmentVariable[],
+  changes: Record<string, string | null>
+): EnvironmentVariable[] {
+  const updated = rows
+    .filter((row) => changes[row.key] !== null)
+    .map((row) =>
+      row.key in changes ? { ...row, value: changes[row.key] as string } : row
+    );
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value !== null && !rows.some((row) => row.key === key)) {
+      updated.push({ id: generateId(), key, value });
+    }
+  });
+  return updated;
+}
+
+/** A variable map with script changes applied. */
+export function withVariableChanges(
+  variables: Record<string, string>,
+  changes: Record<string, string | null>
+): Record<string, string> {
+  const updated = { ...variables };
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === null) {
+      delete updated[key];
+    } else {
+      updated[key] = value;
+    }
+  });
+  return updated;
+}
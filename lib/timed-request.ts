@@ -0,0 +1,342 @@
+import http, { type IncomingMessage } from "node:http";
+import https from "node:https";
+import zlib from "node:zlib";
+import { PassThrough, pipeline, Readable, Transform } from "node:stream";
+import type { ResponseSizes, ResponseTimings } from "@/lib/response-timing";
+import {
+  isPrivateAddress,
+  lookupPublicAddress,
+  PrivateNetworkError,
+} from "@/lib/private-network";
+
+export interface TimedRequest {
+  method: string;
+  headers: Record<string, string>;
+  body?: Buffer | string;
+  signal: AbortSignal;
+  /** Lets the request, and every redirect it follows, reach private hosts */
+  allowPrivateNetwork?: boolean;
+  /** Body bytes, as received or decoded, after which reading it fails */
+  maxResponseSize?: number;
+}
+
+export interface TimedResponse {
+  /** The response with its body decoded, as fetch would return it */
+  response: Response;
+  /** The upstream status, which response can't hold outside 200 to 599 */
+  status: number;
+  /** Resolves once the body has been read to the end */
+  measurements: Promise<{ timings: ResponseTimings; sizes: ResponseSizes }>;
+}
+
+/** Thrown while reading a body that grows past maxResponseSize. */
+export class ResponseTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`The response is larger than ${limit / (1024 * 1024)} MB`);
+    this.name = "ResponseTooLargeError";
+  }
+}
+
+/** performance.now() readings as a socket goes through its phases */
+interface SocketMarks {
+  start: number;
+  lookup?: number;
+  connect?: number;
+  secureConnect?: number;
+}
+
+interface Hop extends SocketMarks {
+  res: IncomingMessage;
+  firstByte: number;
+  requestHeaderSize: number;
+}
+
+const MAX_REDIRECTS = 20;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+// Responses to these can't have a body, so Response refuses one
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// Headers that only apply to the body or origin of the original request
+const BODY_HEADERS = ["content-type", "content-length"];
+const CREDENTIAL_HEADERS = ["authorization", "cookie"];
+
+function round(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
+
+function withoutHeaders(
+  headers: Record<string, string>,
+  names: string[]
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([key]) => !names.includes(key.toLowerCase())
+    )
+  );
+}
+
+function countBytes(
+  onCount: (bytes: number) => void,
+  limit = Infinity
+): Transform {
+  let total = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      if (total > limit) {
+        callback(new ResponseTooLargeError(limit));
+        return;
+      }
+      onCount(chunk.length);
+      callback(null, chunk);
+    },
+  });
+}
+
+// Lenient flushing accepts truncated bodies, like fetch does
+function createDecoder(encoding: string | undefined): Transform {
+  const options = {
+    flush: zlib.constants.Z_SYNC_FLUSH,
+    finishFlush: zlib.constants.Z_SYNC_FLUSH,
+  };
+  switch (encoding?.trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+    case "deflate":
+      return zlib.createUnzip(options);
+    case "br":
+      return zlib.createBrotliDecompress({
+        flush: zlib.constants.BROTLI_OPERATION_FLUSH,
+        finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH,
+      });
+    default:
+      return new PassThrough();
+  }
+}
+
+// Headers Node adds while writing the request, like Connection, are missed
+function getRequestHeaderSize(req: http.ClientRequest): number {
+  let size = Buffer.byteLength(`${req.method} ${req.path} HTTP/1.1\r\n\r\n`);
+  for (const [key, value] of Object.entries(req.getHeaders())) {
+    size += Buffer.byteLength(`${key}: ${value}\r\n`);
+  }
+  return size;
+}
+
+function getResponseHeaderSize(res: IncomingMessage): number {
+  let size = Buffer.byteLength(
+    `HTTP/${res.httpVersion} ${res.statusCode} ${res.statusMessage}\r\n\r\n`
+  );
+  for (let i = 0; i < res.rawHeaders.length; i += 2) {
+    size += Buffer.byteLength(
+      `${res.rawHeaders[i]}: ${res.rawHeaders[i + 1]}\r\n`
+    );
+  }
+  return size;
+}
+
+/**
+ * Sends one request on a socket of its own, so every phase is measured
+ * rather than skipped by a kept-alive connection.
+ */
+function sendOnce(
+  url: URL,
+  { method, headers, body, signal, allowPrivateNetwork }: TimedRequest
+): Promise<Hop> {
+  return new Promise((resolve, reject) => {
+    // IP addresses are connected to without a lookup, so they are checked
+    // here; host names are checked once they resolve
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (!allowPrivateNetwork && isPrivateAddress(host)) {
+      reject(new PrivateNetworkError(host, host));
+      return;
+    }
+
+    const marks: SocketMarks = { start: performance.now() };
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.request(
+      url,
+      {
+        method,
+        headers:
+          body === undefined
+            ? headers
+            : { ...headers, "Content-Length": Buffer.byteLength(body) },
+        signal,
+        agent: false,
+        lookup: allowPrivateNetwork ? undefined : lookupPublicAddress,
+      },
+      (res) => respond(res)
+    );
+    const respond = (res: IncomingMessage) =>
+      resolve({
+        ...marks,
+        res,
+        firstByte: performance.now(),
+        requestHeaderSize: getRequestHeaderSize(req),
+      });
+
+    // A 101 hands the socket over to another protocol, which isn't spoken
+    // here, so only its status and headers are kept
+    req.on("upgrade", (res, socket) => {
+      socket.destroy();
+      respond(res);
+    });
+    req.on("socket", (socket) => {
+      socket.once("lookup", () => (marks.lookup = performance.now()));
+      socket.once("connect", () => (marks.connect = performance.now()));
+      socket.once(
+        "secureConnect",
+        () => (marks.secureConnect = performance.now())
+      );
+    });
+    // Aborts reject with the reason, as fetch does, so timeouts can be told
+    // apart from cancellations
+    req.on("error", (error) => reject(signal.aborted ? signal.reason : error));
+    req.end(body);
+  });
+}
+
+function toTimedResponse(
+  hop: Hop,
+  { method, body, signal, maxResponseSize }: TimedRequest,
+  startTime: number
+): TimedResponse {
+  const { res } = hop;
+  const status = res.statusCode ?? 200;
+  let received = 0;
+  let decoded = 0;
+  let downloadEnd = hop.firstByte;
+
+  const measure = () => {
+    // Phases a socket skipped, like the lookup of an IP address, are 0
+    const dnsEnd = hop.lookup ?? hop.start;
+    const connectEnd = hop.connect ?? dnsEnd;
+    const tlsEnd = hop.secureConnect ?? connectEnd;
+    return {
+      timings: {
+        redirect: round(hop.start - startTime),
+        dns: round(dnsEnd - hop.start),
+        connect: round(connectEnd - dnsEnd),
+        tls: round(tlsEnd - connectEnd),
+        wait: round(hop.firstByte - tlsEnd),
+        download: round(downloadEnd - hop.firstByte),
+        total: round(downloadEnd - startTime),
+      },
+      sizes: {
+        requestHeaders: hop.requestHeaderSize,
+        requestBody: body === undefined ? 0 : Buffer.byteLength(body),
+        responseHeaders: getResponseHeaderSize(res),
+        responseBody: received,
+        responseBodyDecoded: decoded,
+      },
+    };
+  };
+
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(res.headers)) {
+    for (const item of Array.isArray(value) ? value : [value ?? ""]) {
+      headers.append(key, item);
+    }
+  }
+  const init = {
+    // Response only takes 200 to 599, so other statuses are passed on apart
+    status: status >= 200 && status <= 599 ? status : 200,
+    statusText: res.statusMessage,
+    headers,
+  };
+
+  if (
+    method === "HEAD" ||
+    status < 200 ||
+    NULL_BODY_STATUSES.includes(status)
+  ) {
+    res.resume();
+    return {
+      response: new Response(null, init),
+      status,
+      measurements: Promise.resolve(measure()),
+    };
+  }
+
+  // Both sizes are limited, so a small compressed body can't decode into
+  // a huge one
+  const countReceived = countBytes(
+    (bytes) => (received += bytes),
+    maxResponseSize
+  );
+  countReceived.on("finish", () => (downloadEnd = performance.now()));
+  const countDecoded = countBytes(
+    (bytes) => (decoded += bytes),
+    maxResponseSize
+  );
+  const measurements = new Promise<{
+    timings: ResponseTimings;
+    sizes: ResponseSizes;
+  }>((resolve) => {
+    countDecoded.on("finish", () => resolve(measure()));
+  });
+
+  // Errors while reading or decoding reach the reader of the body, with the
+  // abort reason in place of the socket error it caused
+  const decoder = createDecoder(res.headers["content-encoding"]);
+  pipeline(res, countReceived, decoder, (error) => {
+    if (error) countDecoded.destroy(signal.aborted ? signal.reason : error);
+  });
+  decoder.pipe(countDecoded);
+
+  return {
+    response: new Response(
+      Readable.toWeb(countDecoded) as unknown as ReadableStream<Uint8Array>,
+      init
+    ),
+    status,
+    measurements,
+  };
+}
+
+/**
+ * Sends a request with Node's http module, whose socket events time the DNS
+ * lookup, connection and TLS handshake that fetch hides. Redirects are
+ * followed as fetch follows them, and reported as a single phase.
+ */
+export async function sendTimedRequest(
+  url: URL,
+  request: TimedRequest
+): Promise<TimedResponse> {
+  const startTime = performance.now();
+  let current = { ...request, url };
+
+  for (let redirects = 0; ; redirects++) {
+    const hop = await sendOnce(current.url, current);
+    const status = hop.res.statusCode ?? 0;
+    const location = hop.res.headers.location;
+    if (!REDIRECT_STATUSES.includes(status) || !location) {
+      return toTimedResponse(hop, current, startTime);
+    }
+
+    hop.res.resume();
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`Stopped after ${MAX_REDIRECTS} redirects`);
+    }
+    const nextUrl = new URL(location, current.url);
+    if (nextUrl.protocol !== "http:" && nextUrl.protocol !== "https:") {
+      throw new Error(`Cannot follow a redirect to ${nextUrl.protocol} URLs`);
+    }
+
+    let { method, headers, body } = current;
+    // A 303, or a POST that was moved or found, continues as a GET
+    if (
+      (status === 303 && method !== "HEAD") ||
+      ((status === 301 || status === 302) && method === "POST")
+    ) {
+      method = "GET";
+      body = undefined;
+      headers = withoutHeaders(headers, BODY_HEADERS);
+    }
+    if (nextUrl.origin !== current.url.origin) {
+      headers = withoutHeaders(headers, CREDENTIAL_HEADERS);
+    }
+    current = { ...current, url: nextUrl, method, headers, body };
+  }
+}
@@ -31,3 +31,36 @@ export function formatTime(timestamp: number): string {
   
   return date.toLocaleDateString();
 }
+
+export function getMethodColor(method: string): string {
+  switch (method) {
+    case "GET":
+      return "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-200 dark:border-green-800";
+    case "POST":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-200 dark:border-blue-800";
+    case "PUT":
+      return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300 border border-yellow-200 dark:border-yellow-800";
+    case "PATCH":
+      return "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300 border border-orange-200 dark:border-orange-800";
+    case "DELETE":
+      return "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300 border border-red-200 dark:border-red-800";
+    case "WS":
+      return "bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-300 border border-purple-200 dark:border-purple-800";
+    default:
+      return "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-300 border border-gray-200 dark:border-gray-800";
+  }
+}
+
+/** Saves `content` as a file through a temporary download link. */
+export function downloadFile(
+  content: BlobPart,
+  fileName: string,
+  type = "application/json"
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,41 @@
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+export interface ResolvedText {
+  value: string;
+  unresolved: string[];
+}
+
+/**
+ * Replaces every {{name}} placeholder with its value from `variables`.
+ * Placeholders without a matching variable are left untouched and their
+ * names are reported in `unresolved` (deduplicated, in order of appearance).
+ */
+export function resolveVariables(
+  text: string,
+  variables: Record<string, string>
+): ResolvedText {
+  const unresolved: string[] = [];
+
+  const value = text.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(variables, name)) {
+      return variables[name];
+    }
+    if (!unresolved.includes(name)) {
+      unresolved.push(name);
+    }
+    return match;
+  });
+
+  return { value, unresolved };
+}
+
+export function findUnresolvedVariables(
+  text: string,
+  variables: Record<string, string>
+): string[] {
+  return resolveVariables(text, variables).unresolved;
+}
+
+export function formatVariableList(names: string[]): string {
+  return names.map((name) => `{{${name}}}`).join(", ");
+}
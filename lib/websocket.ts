@@ -0,0 +1,137 @@
+import { decodeBase64 } from "@/lib/http-client";
+
+export type RequestKind = "http" | "websocket";
+
+export const REQUEST_KIND_LABELS: Record<RequestKind, string> = {
+  http: "HTTP",
+  websocket: "WS",
+};
+
+export type WsMessageFormat = "text" | "json" | "binary";
+
+export const WS_MESSAGE_FORMAT_LABELS: Record<WsMessageFormat, string> = {
+  text: "Text",
+  json: "JSON",
+  binary: "Binary (base64)",
+};
+
+/** A message saved with the request so it can be sent again. */
+export interface WsMessageTemplate {
+  id: string;
+  name: string;
+  format: WsMessageFormat;
+  content: string;
+}
+
+/** The WebSocket settings of a request, saved with it. */
+export interface WebSocketConfig {
+  /** Subprotocols to offer, separated by commas */
+  protocols: string;
+  /** The message being composed */
+  message: string;
+  format: WsMessageFormat;
+  templates: WsMessageTemplate[];
+}
+
+export const DEFAULT_WEBSOCKET_CONFIG: WebSocketConfig = {
+  protocols: "",
+  message: "",
+  format: "text",
+  templates: [],
+};
+
+export type WsConnectionStatus = "connecting" | "open" | "closing" | "closed";
+
+export interface WsLogEntry {
+  id: string;
+  timestamp: number;
+  type: "sent" | "received" | "open" | "close" | "error";
+  /** Text of a frame, base64 for binary frames, or a description */
+  data: string;
+  binary?: boolean;
+  /** Bytes in the frame */
+  size?: number;
+  /** Close code and reason of a close entry */
+  code?: number;
+  reason?: string;
+}
+
+// Logs of long-lived connections are trimmed to their newest entries
+export const MAX_WS_LOG_ENTRIES = 1000;
+
+const CLOSE_CODE_LABELS: Record<number, string> = {
+  1000: "Normal Closure",
+  1001: "Going Away",
+  1002: "Protocol Error",
+  1003: "Unsupported Data",
+  1005: "No Status Received",
+  1006: "Abnormal Closure",
+  1007: "Invalid Frame Payload Data",
+  1008: "Policy Violation",
+  1009: "Message Too Big",
+  1010: "Mandatory Extension",
+  1011: "Internal Error",
+  1012: "Service Restart",
+  1013: "Try Again Later",
+  1014: "Bad Gateway",
+  1015: "TLS Handshake",
+};
+
+export function describeCloseCode(code: number): string {
+  return (
+    CLOSE_CODE_LABELS[code] ??
+    (code >= 4000 ? "Application Defined" : "Unknown")
+  );
+}
+
+/**
+ * Defaults URLs typed without a scheme to wss, and maps http(s) to the
+ * matching WebSocket scheme.
+ */
+export function toWebSocketUrl(url: string): string {
+  const trimmed = url.trim();
+  if (/^wss?:\/\//i.test(trimmed)) return trimmed;
+  if (/^https?:\/\//i.test(trimmed)) return trimmed.replace(/^http/i, "ws");
+  return `wss://${trimmed}`;
+}
+
+export function parseSubprotocols(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Turns composed content into what the socket sends: text as is, JSON after
+ * checking it parses, and binary decoded from base64.
+ */
+export function encodeWsMessage(
+  format: WsMessageFormat,
+  content: string
+): string | Uint8Array {
+  switch (format) {
+    case "json":
+      try {
+        JSON.parse(content);
+      } catch (error) {
+        throw new Error(
+          `Invalid JSON: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      return content;
+    case "binary":
+      try {
+        return decodeBase64(content.replace(/\s/g, ""));
+      } catch {
+        throw new Error("Binary messages must be valid base64");
+      }
+    default:
+      return content;
+  }
+}
+
+/** The label shown in place of a method, e.g. in tabs and collections. */
+export function getRequestBadge(request: {
+  method: string;
+  kind?: RequestKind;
+}): string {
+  return request.kind === "websocket" ? "WS" : request.method;
+}